@@ -12,3 +12,15 @@ destination = "models/yolov8n.pt"
 print("⬇️  Downloading YOLOv8n model...")
 urllib.request.urlretrieve(url, destination)
 print("✅ YOLOv8n model downloaded and saved to models/yolov8n.pt")
+
+# Face detection and recognition models for identity checks (face_identity.py)
+face_models = {
+    "models/face_detection_yunet_2023mar.onnx":
+        "https://github.com/opencv/opencv_zoo/raw/main/models/face_detection_yunet/face_detection_yunet_2023mar.onnx",
+    "models/face_recognition_sface_2021dec.onnx":
+        "https://github.com/opencv/opencv_zoo/raw/main/models/face_recognition_sface/face_recognition_sface_2021dec.onnx",
+}
+for destination, url in face_models.items():
+    print(f"⬇️  Downloading {os.path.basename(destination)}...")
+    urllib.request.urlretrieve(url, destination)
+    print(f"✅ Saved to {destination}")
@@ -0,0 +1,82 @@
+"""
+1:1 face matching against the face a student registered with.
+
+Uses OpenCV's YuNet detector and SFace recognizer (both ONNX, fetched by download_model.py):
+a face is aligned, turned into a 128-value embedding, and two embeddings are compared by
+cosine similarity. The reference embedding is computed once from students.face_image_url
+and stored in students.face_embedding, tagged with the model that produced it.
+"""
+import os
+import logging
+from typing import Dict, List, Optional
+
+import cv2
+import numpy as np
+
+logger = logging.getLogger(__name__)
+
+FACE_DETECTOR_MODEL = "models/face_detection_yunet_2023mar.onnx"
+FACE_RECOGNIZER_MODEL = "models/face_recognition_sface_2021dec.onnx"
+# Stored with each embedding; embeddings from another model can't be compared
+EMBEDDING_MODEL_NAME = "sface_2021dec"
+
+# SFace's published cosine threshold; raise it to be stricter
+FACE_MATCH_THRESHOLD = float(os.environ.get("FACE_MATCH_THRESHOLD", "0.363"))
+# How often the exam stream is checked against the registered face
+FACE_RECHECK_INTERVAL_SEC = float(os.environ.get("FACE_RECHECK_INTERVAL_SEC", "60"))
+
+
+class FaceIdentityService:
+    """
+    Face embeddings and similarity. Loads nothing if the models are missing, in which
+    case available is False and callers skip identity checks.
+    """
+
+    def __init__(self):
+        self.detector = None
+        self.recognizer = None
+        try:
+            self.detector = cv2.FaceDetectorYN.create(FACE_DETECTOR_MODEL, "", (320, 320), 0.8, 0.3, 5000)
+            self.recognizer = cv2.FaceRecognizerSF.create(FACE_RECOGNIZER_MODEL, "")
+            logger.info("✅ Face identity models loaded")
+        except Exception as e:
+            self.detector = None
+            self.recognizer = None
+            logger.warning(f"⚠️ Face identity models not loaded ({e}) - run download_model.py")
+
+    @property
+    def available(self) -> bool:
+        return self.detector is not None and self.recognizer is not None
+
+    def embed(self, frame: np.ndarray) -> Dict:
+        """
+        Embedding of the largest face in the frame.
+        Returns {'face_count': int, 'embedding': list of floats or None,
+                 'box': [x, y, width, height] of that face or None}
+        """
+        if not self.available:
+            return {'face_count': 0, 'embedding': None, 'box': None}
+        height, width = frame.shape[:2]
+        self.detector.setInputSize((width, height))
+        _, faces = self.detector.detect(frame)
+        if faces is None or len(faces) == 0:
+            return {'face_count': 0, 'embedding': None, 'box': None}
+
+        # Columns 2 and 3 are the box width and height
+        largest = max(faces, key=lambda face: face[2] * face[3])
+        aligned = self.recognizer.alignCrop(frame, largest)
+        feature = self.recognizer.feature(aligned)
+        return {
+            'face_count': len(faces),
+            'embedding': feature.flatten().tolist(),
+            'box': [int(value) for value in largest[:4]],
+        }
+
+    def similarity(self, embedding: List[float], reference: List[float]) -> float:
+        """Cosine similarity of two embeddings, -1 to 1"""
+        a = np.asarray(embedding, dtype=np.float32).reshape(1, -1)
+        b = np.asarray(reference, dtype=np.float32).reshape(1, -1)
+        return float(self.recognizer.match(a, b, cv2.FaceRecognizerSF_FR_COSINE))
+
+    def is_match(self, similarity: Optional[float]) -> bool:
+        return similarity is not None and similarity >= FACE_MATCH_THRESHOLD
@@ -0,0 +1,121 @@
+"""
+Photo ID cross-check for the student verify page.
+
+The page captures the front of the student's ID card and reads its text in the browser; the
+card photo is compared with the live face here (face_identity.py) and the card text with the
+name and roll number on the student's record. Only a result that is clear both ways is decided
+automatically; everything else waits for an admin (id_verifications.status = 'pending_review').
+The decision is made and stored here, with the service's own threshold, so the browser never
+supplies the scores or the status.
+"""
+import math
+import re
+from typing import Dict, List, Optional
+
+from face_identity import FACE_MATCH_THRESHOLD
+
+# Share of the registered name's words that must be on the card to count as a text match
+NAME_MATCH_MIN = 0.67
+# At or below this share the name counts as absent
+NAME_MISMATCH_MAX = 0.34
+
+
+def _normalize(text: Optional[str]) -> str:
+    return re.sub(r'[^A-Z0-9]+', ' ', (text or '').upper()).strip()
+
+
+def edit_distance(a: str, b: str) -> int:
+    previous = list(range(len(b) + 1))
+    for i in range(1, len(a) + 1):
+        current = [i]
+        for j in range(1, len(b) + 1):
+            current.append(min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (0 if a[i - 1] == b[j - 1] else 1),
+            ))
+        previous = current
+    return previous[len(b)]
+
+
+def name_match_score(ocr_text: str, name: str) -> float:
+    """
+    Share of the name's words (two letters or more) found among the card's words, allowing one
+    misread character per four letters: "JOHNATHAN SMlTH" still finds "Jonathan Smith"
+    """
+    name_words = [word for word in _normalize(name).split(' ') if len(word) >= 2]
+    if not name_words:
+        return 0.0
+    card_words = _normalize(ocr_text).split(' ')
+    found = [
+        word for word in name_words
+        if any(edit_distance(card_word, word) <= len(word) // 4 for card_word in card_words)
+    ]
+    return len(found) / len(name_words)
+
+
+def roll_no_found(ocr_text: str, roll_no: str) -> bool:
+    """
+    Whether the roll number is printed on the card, ignoring separators ("21-CS-045" = "21CS045")
+    and allowing one misread character (O/0, I/1) in numbers of five characters or more
+    """
+    target = _normalize(roll_no).replace(' ', '')
+    if not target:
+        return False
+    words = _normalize(ocr_text).split(' ')
+    if len(target) < 5:
+        return target in words
+
+    # Adjacent words joined as well, for numbers printed with spaces
+    candidates: List[str] = []
+    for i, word in enumerate(words):
+        following = words[i + 1] if i + 1 < len(words) else ''
+        after_that = words[i + 2] if i + 2 < len(words) else ''
+        candidates += [word, word + following, word + following + after_that]
+    for candidate in candidates:
+        for start in range(len(candidate) - len(target) + 1):
+            mismatches = sum(1 for k in range(len(target)) if candidate[start + k] != target[k])
+            if mismatches <= 1:
+                return True
+    return False
+
+
+def _percent(value: float) -> str:
+    return f"{math.floor(value * 100 + 0.5)}%"
+
+
+def decide_id_check(
+    face_similarity: Optional[float],
+    name_score: float,
+    roll_no_match: bool,
+    face_threshold: float = FACE_MATCH_THRESHOLD,
+) -> Dict:
+    """
+    Approved when the photo and the text both match, rejected when both clearly don't, and
+    left to an admin otherwise. A clear face mismatch is below half the match threshold.
+    Returns {status, reasons}, one reason per signal for the admin reviewing the capture.
+    """
+    face_match = face_similarity is not None and face_similarity >= face_threshold
+    face_mismatch = face_similarity is not None and face_similarity < face_threshold / 2
+    text_match = roll_no_match and name_score >= NAME_MATCH_MIN
+    text_mismatch = not roll_no_match and name_score <= NAME_MISMATCH_MAX
+
+    if face_similarity is None:
+        face_reason = 'Card photo could not be compared with the live face'
+    else:
+        verdict = 'matches' if face_match else 'does not match' if face_mismatch else 'is inconclusive against'
+        face_reason = (
+            f"Card photo {verdict} the live face "
+            f"({_percent(face_similarity)}, needs {_percent(face_threshold)})"
+        )
+    reasons = [
+        face_reason,
+        f"{_percent(name_score)} of the registered name found on the card",
+        'Roll number found on the card' if roll_no_match else 'Roll number not found on the card',
+    ]
+
+    if face_match and text_match:
+        return {'status': 'auto_approved', 'reasons': reasons}
+    if face_mismatch and text_mismatch:
+        return {'status': 'auto_rejected', 'reasons': reasons}
+    return {'status': 'pending_review', 'reasons': reasons}
@@ -119,6 +119,46 @@ class EnvironmentCheck(BaseModel):
 class EnvironmentCheckRequest(BaseModel):
     frame_base64: str
 
+# Face Identity Models
+class FaceEnrollRequest(BaseModel):
+    student_id: str  # students.id; the registered image is read from students.face_image_url
+
+class FaceEnrollResponse(BaseModel):
+    success: bool
+    message: str
+
+class FaceVerifyRequest(BaseModel):
+    student_id: str
+    frame_base64: str
+
+class FaceVerifyResponse(BaseModel):
+    available: bool  # False when the face models or the registered face are missing
+    match: bool
+    similarity: Optional[float] = None
+    threshold: float
+    face_count: int = 0
+    message: str
+
+# ID Check Models
+class IdVerifyRequest(BaseModel):
+    student_id: str
+    exam_id: Optional[str] = None
+    card_base64: str  # the cropped ID card; its largest face is compared
+    live_base64: str  # the live camera frame from the face check
+    ocr_text: str = ""  # the card's text, read on the verify page
+    card_image_url: str
+    live_image_url: Optional[str] = None
+    card_edges: Optional[Dict] = None  # where the card was found in the camera frame
+
+class IdVerifyResponse(BaseModel):
+    id: str  # id_verifications.id, polled by the verify page while pending_review
+    status: str
+    reasons: List[str]
+    face_similarity: Optional[float] = None  # None when no face was found on either image
+    name_score: float
+    roll_no_match: bool
+    threshold: float
+
 # Admin Dashboard Models
 class SessionStats(BaseModel):
     total_sessions: int
@@ -0,0 +1,272 @@
+"""
+Proctoring WebSocket protocol (/api/ws/proctoring/{session_id})
+
+Every message is a JSON object with a "type". The client opens with "hello" carrying its
+protocol version; the server answers "hello_ack" with the version it will speak, or an
+"error" with code "unsupported_version" and closes the socket with CLOSE_UNSUPPORTED_VERSION.
+Other messages are rejected with "handshake_required" until the handshake is done.
+
+From version 2 frames can also be sent as binary messages: FRAME_HEADER followed by the JPEG
+bytes. A binary frame carries no student details, so the client sends a "context" message
+first and again whenever they change. The server answers each binary frame with "frame_ack"
+as soon as it is read, which lets the client see how far behind the connection is.
+
+The frontend mirror of this module is src/utils/proctoringProtocol.ts; bump PROTOCOL_VERSION
+in both when a message changes shape. Unknown extra fields are ignored on both sides, so
+adding an optional field doesn't need a new version.
+"""
+import json
+import math
+import struct
+from datetime import datetime
+from typing import Annotated, Any, Dict, List, Literal, Optional, Union
+
+from pydantic import BaseModel, Field, TypeAdapter, ValidationError
+
+PROTOCOL_VERSION = 2
+# Oldest client version the server still accepts
+MIN_PROTOCOL_VERSION = 1
+
+# WebSocket close code sent after an unsupported_version error
+CLOSE_UNSUPPORTED_VERSION = 4000
+
+# First protocol version with binary frames and "context" messages
+BINARY_FRAMES_VERSION = 2
+
+# Binary frame header, little-endian: kind (uint8), sequence number (uint32),
+# calibrated pitch, calibrated yaw and audio level (float32; audio level NaN when not sent)
+FRAME_HEADER = struct.Struct("<BIfff")
+BINARY_KIND_FRAME = 1
+
+# Error codes sent in "error" messages
+ERROR_INVALID_JSON = "invalid_json"
+ERROR_UNKNOWN_MESSAGE_TYPE = "unknown_message_type"
+ERROR_INVALID_MESSAGE = "invalid_message"
+ERROR_HANDSHAKE_REQUIRED = "handshake_required"
+ERROR_UNSUPPORTED_VERSION = "unsupported_version"
+ERROR_FRAME_DECODE_FAILED = "frame_decode_failed"
+ERROR_PROCESSING_FAILED = "processing_failed"
+
+
+# ---- Client -> server ----
+
+class StudentContext(BaseModel):
+    """Who the message is about; sent with every frame, audio and browser_activity message"""
+    exam_id: Optional[str] = None
+    student_id: Optional[str] = None
+    student_name: Optional[str] = None
+    roll_no: Optional[str] = None
+    subject_code: Optional[str] = None
+    subject_name: Optional[str] = None
+
+
+class HelloMessage(BaseModel):
+    type: Literal["hello"]
+    protocol_version: int
+    session_id: Optional[str] = None
+
+
+class FrameMessage(StudentContext):
+    type: Literal["frame"]
+    # JPEG as base64, with or without a data: URL prefix
+    frame: str
+    calibrated_pitch: float = 0.0
+    calibrated_yaw: float = 0.0
+    audio_level: Optional[float] = None
+
+
+class AudioMessage(StudentContext):
+    type: Literal["audio"]
+    audio_level: float
+
+
+class BrowserActivityMessage(StudentContext):
+    type: Literal["browser_activity"]
+    violation_type: str
+    message: str
+    # Client-side sequence number; when set the server answers with "ack" once the event is recorded,
+    # and a replayed event it has already recorded is acked again without a second record
+    seq: Optional[int] = None
+    # When the event happened; replayed events arrive after the fact
+    occurred_at: Optional[str] = None
+    # Measured events (looking_away from the browser's gaze tracking, speech_detected and
+    # multiple_voices from its voice detection) set their own severity and details
+    severity: Optional[Literal["low", "medium", "high"]] = None
+    details: Optional[Dict[str, Any]] = None
+
+
+class ContextMessage(StudentContext):
+    """Student details for the binary frames that follow (version 2)"""
+    type: Literal["context"]
+    # True while the browser tracks head pose and gaze itself and reports looking_away as browser
+    # activity; frame results then leave looking_away out
+    client_gaze: Optional[bool] = None
+    # True while the browser detects speech itself and reports speech_detected / multiple_voices as
+    # browser activity; audio levels then no longer raise excessive_noise
+    client_voice: Optional[bool] = None
+
+
+class PingMessage(BaseModel):
+    type: Literal["ping"]
+
+
+ClientMessage = Annotated[
+    Union[HelloMessage, FrameMessage, AudioMessage, BrowserActivityMessage, ContextMessage, PingMessage],
+    Field(discriminator="type"),
+]
+
+CLIENT_MESSAGE_TYPES = {"hello", "frame", "audio", "browser_activity", "context", "ping"}
+
+_client_message_adapter = TypeAdapter(ClientMessage)
+
+
+class ProtocolError(Exception):
+    """A client message that can't be handled; reported back as an "error" message"""
+
+    def __init__(self, code: str, message: str, details: Optional[Any] = None):
+        super().__init__(message)
+        self.code = code
+        self.message = message
+        self.details = details
+
+
+def parse_client_message(raw: str) -> ClientMessage:
+    """Validates one text frame from the client, raising ProtocolError when it isn't a known message"""
+    try:
+        data = json.loads(raw)
+    except (TypeError, ValueError) as e:
+        raise ProtocolError(ERROR_INVALID_JSON, f"Message is not valid JSON: {e}")
+
+    if not isinstance(data, dict):
+        raise ProtocolError(ERROR_INVALID_MESSAGE, "Message must be a JSON object")
+    message_type = data.get("type")
+    if message_type not in CLIENT_MESSAGE_TYPES:
+        raise ProtocolError(ERROR_UNKNOWN_MESSAGE_TYPE, f"Unknown message type: {message_type!r}")
+
+    try:
+        return _client_message_adapter.validate_python(data)
+    except ValidationError as e:
+        details = [
+            {"path": ".".join(str(part) for part in err["loc"][1:]), "message": err["msg"]}
+            for err in e.errors()
+        ]
+        raise ProtocolError(ERROR_INVALID_MESSAGE, f"Invalid {message_type} message", details)
+
+
+class BinaryFrame(BaseModel):
+    seq: int
+    calibrated_pitch: float
+    calibrated_yaw: float
+    audio_level: Optional[float] = None
+    jpeg: bytes
+
+
+def parse_binary_frame(data: bytes) -> BinaryFrame:
+    """Splits a binary frame message into its header fields and JPEG bytes"""
+    if len(data) <= FRAME_HEADER.size:
+        raise ProtocolError(ERROR_INVALID_MESSAGE, f"Binary message too short ({len(data)} bytes)")
+    kind, seq, pitch, yaw, audio_level = FRAME_HEADER.unpack_from(data)
+    if kind != BINARY_KIND_FRAME:
+        raise ProtocolError(ERROR_UNKNOWN_MESSAGE_TYPE, f"Unknown binary message kind: {kind}")
+    return BinaryFrame(
+        seq=seq,
+        calibrated_pitch=pitch,
+        calibrated_yaw=yaw,
+        audio_level=None if math.isnan(audio_level) else audio_level,
+        jpeg=data[FRAME_HEADER.size:],
+    )
+
+
+def negotiate_version(client_version: int) -> Optional[int]:
+    """Version both sides speak, or None when the client is outside the supported range"""
+    if client_version < MIN_PROTOCOL_VERSION:
+        return None
+    return min(client_version, PROTOCOL_VERSION)
+
+
+# ---- Server -> client ----
+
+class ViolationPayload(BaseModel):
+    type: str
+    severity: str
+    message: str
+    confidence: Optional[float] = None
+    timestamp: str = Field(default_factory=lambda: datetime.utcnow().isoformat())
+    # excessive_noise only
+    audio_level: Optional[float] = None
+    # excessive_noise and identity_mismatch
+    threshold: Optional[float] = None
+    # identity_mismatch only
+    similarity: Optional[float] = None
+
+
+class HeadPose(BaseModel):
+    pitch: float
+    yaw: float
+    roll: float
+
+
+class DetectionPayload(BaseModel):
+    violations: List[ViolationPayload] = []
+    head_pose: Optional[HeadPose] = None
+    face_count: int = 0
+    looking_away: bool = False
+    multiple_faces: bool = False
+    no_person: bool = False
+    phone_detected: bool = False
+    book_detected: bool = False
+    snapshot_base64: Optional[str] = None
+    timestamp: Optional[str] = None
+
+
+def _message(message_type: str, data: Optional[Dict[str, Any]] = None) -> Dict[str, Any]:
+    return {"type": message_type, "data": data} if data is not None else {"type": message_type}
+
+
+def hello_ack_message(protocol_version: int) -> Dict[str, Any]:
+    return {
+        "type": "hello_ack",
+        "protocol_version": protocol_version,
+        "min_protocol_version": MIN_PROTOCOL_VERSION,
+        "max_protocol_version": PROTOCOL_VERSION,
+    }
+
+
+def error_message(code: str, message: str, details: Optional[Any] = None) -> Dict[str, Any]:
+    data: Dict[str, Any] = {"code": code, "message": message}
+    if details is not None:
+        data["details"] = details
+    return _message("error", data)
+
+
+def detection_result_message(result: Dict[str, Any], violations: List[Dict[str, Any]]) -> Dict[str, Any]:
+    payload = DetectionPayload(**{**result, "violations": [ViolationPayload(**v) for v in violations]})
+    return _message("detection_result", payload.model_dump(exclude_none=True))
+
+
+def violation_message(violation: ViolationPayload) -> Dict[str, Any]:
+    return _message("violation", violation.model_dump(exclude_none=True))
+
+
+def detection_skipped_message(reason: str, interval_sec: float) -> Dict[str, Any]:
+    return _message("detection_skipped", {
+        "reason": reason,
+        "interval_sec": interval_sec,
+        "timestamp": datetime.utcnow().isoformat(),
+    })
+
+
+def audio_level_message(level: float) -> Dict[str, Any]:
+    return _message("audio_level", {"level": level, "timestamp": datetime.utcnow().isoformat()})
+
+
+def ack_message(seq: int) -> Dict[str, Any]:
+    return _message("ack", {"seq": seq})
+
+
+def frame_ack_message(seq: int) -> Dict[str, Any]:
+    return _message("frame_ack", {"seq": seq, "timestamp": datetime.utcnow().isoformat()})
+
+
+def pong_message() -> Dict[str, Any]:
+    return _message("pong")
@@ -7,7 +7,7 @@ from fastapi.middleware.cors import CORSMiddleware
 from fastapi.staticfiles import StaticFiles
 from fastapi.responses import FileResponse
 from contextlib import asynccontextmanager
-from typing import Dict, List
+from typing import Dict, List, Set
 import base64
 import cv2
 import numpy as np
@@ -21,13 +21,21 @@ from dotenv import load_dotenv
 from pathlib import Path
 import uuid
 import re
+import urllib.request
 
 # Load environment variables
 ROOT_DIR = Path(__file__).parent
 load_dotenv(ROOT_DIR / '.env')
 
 from proctoring_service import ProctoringService
+from face_identity import (
+    EMBEDDING_MODEL_NAME,
+    FACE_MATCH_THRESHOLD,
+    FACE_RECHECK_INTERVAL_SEC,
+    FaceIdentityService,
+)
 from grading_service import grading_service
+from id_verification import decide_id_check, name_match_score, roll_no_found
 from models import (
     FrameProcessRequest,
     FrameProcessResponse,
@@ -35,8 +43,41 @@ from models import (
     CalibrationResponse,
     EnvironmentCheckRequest,
     EnvironmentCheck,
+    FaceEnrollRequest,
+    FaceEnrollResponse,
+    FaceVerifyRequest,
+    FaceVerifyResponse,
+    IdVerifyRequest,
+    IdVerifyResponse,
     ViolationDetail
 )
+from protocol import (
+    BINARY_FRAMES_VERSION,
+    CLOSE_UNSUPPORTED_VERSION,
+    ERROR_FRAME_DECODE_FAILED,
+    ERROR_HANDSHAKE_REQUIRED,
+    ERROR_INVALID_MESSAGE,
+    ERROR_PROCESSING_FAILED,
+    ERROR_UNSUPPORTED_VERSION,
+    MIN_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+    FrameMessage,
+    ProtocolError,
+    StudentContext,
+    ViolationPayload,
+    ack_message,
+    audio_level_message,
+    detection_result_message,
+    detection_skipped_message,
+    error_message,
+    frame_ack_message,
+    hello_ack_message,
+    negotiate_version,
+    parse_binary_frame,
+    parse_client_message,
+    pong_message,
+    violation_message,
+)
 
 # Path to built frontend (Vite)
 FRONTEND_DIST = Path(__file__).resolve().parent.parent / "frontend" / "dist"
@@ -99,6 +140,7 @@ supabase: Client = create_client(supabase_url, supabase_key)
 
 # Initialize Proctoring Service
 proctoring_service = ProctoringService()
+face_identity = FaceIdentityService()
 
 # Helper function to validate and convert UUID
 def validate_uuid(value):
@@ -148,6 +190,87 @@ def _upload_snapshot_and_get_url(
         logger.error(f"Snapshot upload failed: {e}")
         return None
 
+def _frame_to_base64(frame) -> str:
+    """JPEG-encodes a frame for _upload_snapshot_and_get_url"""
+    _, buffer = cv2.imencode('.jpg', frame, [cv2.IMWRITE_JPEG_QUALITY, 85])
+    return base64.b64encode(buffer).decode('utf-8')
+
+# Registered face embeddings by students.id: {"embedding": [...], "image_url": str}
+reference_embeddings: Dict[str, Dict] = {}
+
+def _load_reference_embedding(student_id: str, refresh: bool = False):
+    """
+    Embedding of the face the student registered with. Read from students.face_embedding,
+    or computed from students.face_image_url and stored there when missing or made by
+    another model. Returns None if the student has no usable registered face.
+    """
+    if not refresh and student_id in reference_embeddings:
+        return reference_embeddings[student_id]
+    try:
+        student = supabase.table('students').select(
+            'face_image_url, face_embedding, face_embedding_model'
+        ).eq('id', student_id).single().execute().data
+    except Exception as e:
+        logger.error(f"❌ Could not load student {student_id} for face matching: {e}")
+        return None
+    image_url = student.get('face_image_url')
+    if not image_url:
+        logger.warning(f"⚠️ Student {student_id} has no registered face image")
+        return None
+
+    embedding = student.get('face_embedding')
+    if refresh or not embedding or student.get('face_embedding_model') != EMBEDDING_MODEL_NAME:
+        try:
+            with urllib.request.urlopen(image_url, timeout=10) as response:
+                image_bytes = response.read()
+            image = cv2.imdecode(np.frombuffer(image_bytes, np.uint8), cv2.IMREAD_COLOR)
+        except Exception as e:
+            logger.error(f"❌ Could not download registered face for {student_id}: {e}")
+            return None
+        if image is None:
+            logger.error(f"❌ Registered face image for {student_id} could not be decoded")
+            return None
+        embedding = face_identity.embed(image)['embedding']
+        if embedding is None:
+            logger.warning(f"⚠️ No face found in the registered image of {student_id}")
+            return None
+        try:
+            supabase.table('students').update({
+                'face_embedding': embedding,
+                'face_embedding_model': EMBEDDING_MODEL_NAME
+            }).eq('id', student_id).execute()
+            logger.info(f"🧬 Face embedding stored for student {student_id}")
+        except Exception as e:
+            # Still usable from the cache; computed again after a restart
+            logger.error(f"❌ Could not store face embedding for {student_id}: {e}")
+
+    reference_embeddings[student_id] = {"embedding": embedding, "image_url": image_url}
+    return reference_embeddings[student_id]
+
+def _check_identity(frame, student_id: str):
+    """
+    Compares a single-face exam frame with the student's registered face.
+    Returns an identity_mismatch violation, or None if it matches or can't be checked.
+    """
+    reference = _load_reference_embedding(student_id)
+    if reference is None:
+        return None
+    embedding = face_identity.embed(frame)['embedding']
+    if embedding is None:
+        return None
+    similarity = face_identity.similarity(embedding, reference['embedding'])
+    logger.info(f"🪪 Identity check for {student_id}: similarity={similarity:.3f}, threshold={FACE_MATCH_THRESHOLD}")
+    if face_identity.is_match(similarity):
+        return None
+    return {
+        "type": "identity_mismatch",
+        "severity": "high",
+        "message": f"Face does not match the registered student (similarity {similarity:.2f})",
+        "similarity": similarity,
+        "threshold": FACE_MATCH_THRESHOLD,
+        "reference_image_url": reference['image_url'],
+    }
+
 @app.get("/")
 async def root():
     """
@@ -160,7 +283,8 @@ async def root():
         "version": "1.0.0",
         "models": {
             "yolo": proctoring_service.yolo_model is not None,
-            "mediapipe": proctoring_service.mp_face_mesh is not None
+            "mediapipe": proctoring_service.mp_face_mesh is not None,
+            "face_identity": face_identity.available
         }
     }
 
@@ -309,6 +433,145 @@ async def check_environment(request: EnvironmentCheckRequest):
             message=str(e)
         )
 
+@app.post("/api/face/enroll", response_model=FaceEnrollResponse)
+async def enroll_face(request: FaceEnrollRequest):
+    """Compute and store the embedding of a student's registered face image"""
+    if not face_identity.available:
+        return FaceEnrollResponse(success=False, message="Face identity models not loaded")
+    student_id = validate_uuid(request.student_id)
+    if not student_id:
+        return FaceEnrollResponse(success=False, message="Invalid student_id")
+    reference = _load_reference_embedding(student_id, refresh=True)
+    if reference is None:
+        return FaceEnrollResponse(success=False, message="No face found in the registered image")
+    return FaceEnrollResponse(success=True, message="Face enrolled")
+
+@app.post("/api/face/verify", response_model=FaceVerifyResponse)
+async def verify_face(request: FaceVerifyRequest):
+    """Check that the face in a frame is the student's registered face"""
+    try:
+        if not face_identity.available:
+            return FaceVerifyResponse(
+                available=False, match=False, threshold=FACE_MATCH_THRESHOLD,
+                message="Face identity models not loaded"
+            )
+        student_id = validate_uuid(request.student_id)
+        reference = _load_reference_embedding(student_id) if student_id else None
+        if reference is None:
+            return FaceVerifyResponse(
+                available=False, match=False, threshold=FACE_MATCH_THRESHOLD,
+                message="No registered face for this student"
+            )
+
+        # Decode base64 frame
+        frame_data = base64.b64decode(request.frame_base64.split(',')[1] if ',' in request.frame_base64 else request.frame_base64)
+        nparr = np.frombuffer(frame_data, np.uint8)
+        frame = cv2.imdecode(nparr, cv2.IMREAD_COLOR)
+
+        if frame is None:
+            raise HTTPException(status_code=400, detail="Invalid frame data")
+
+        result = face_identity.embed(frame)
+        if result['face_count'] != 1:
+            return FaceVerifyResponse(
+                available=True, match=False, threshold=FACE_MATCH_THRESHOLD, face_count=result['face_count'],
+                message="No face detected" if result['face_count'] == 0 else "More than one face detected"
+            )
+
+        similarity = face_identity.similarity(result['embedding'], reference['embedding'])
+        match = face_identity.is_match(similarity)
+        logger.info(f"🪪 Face verification for {student_id}: similarity={similarity:.3f}, match={match}")
+        return FaceVerifyResponse(
+            available=True,
+            match=match,
+            similarity=similarity,
+            threshold=FACE_MATCH_THRESHOLD,
+            face_count=1,
+            message="Face matches registration" if match else "Face does not match registration"
+        )
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"Face verification error: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+@app.post("/api/id/verify", response_model=IdVerifyResponse)
+async def verify_id_card(request: IdVerifyRequest):
+    """
+    Cross-check a captured ID card: its photo against the live face and its text against the
+    student record. The result is decided and stored in id_verifications here; students have no
+    write access to that table, so SUPABASE_KEY must be the service role key.
+    """
+    try:
+        student_id = validate_uuid(request.student_id)
+        if not student_id:
+            raise HTTPException(status_code=400, detail="Invalid student_id")
+        try:
+            student = supabase.table('students').select('name, roll_no').eq('id', student_id).single().execute().data
+        except Exception as e:
+            logger.error(f"❌ Could not load student {student_id} for the ID check: {e}")
+            raise HTTPException(status_code=404, detail="Student not found")
+
+        images = []
+        for image_base64 in (request.card_base64, request.live_base64):
+            # Decode base64 frame
+            frame_data = base64.b64decode(image_base64.split(',')[1] if ',' in image_base64 else image_base64)
+            nparr = np.frombuffer(frame_data, np.uint8)
+            frame = cv2.imdecode(nparr, cv2.IMREAD_COLOR)
+            if frame is None:
+                raise HTTPException(status_code=400, detail="Invalid image data")
+            images.append(frame)
+
+        # No models or no face on either image leaves the decision to an admin
+        similarity = None
+        card_face_box = None
+        if face_identity.available:
+            card, live = (face_identity.embed(image) for image in images)
+            card_face_box = card['box']
+            if card['embedding'] is not None and live['embedding'] is not None:
+                similarity = face_identity.similarity(card['embedding'], live['embedding'])
+
+        name_score = name_match_score(request.ocr_text, student.get('name') or '')
+        roll_no_match = roll_no_found(request.ocr_text, student.get('roll_no') or '')
+        decision = decide_id_check(similarity, name_score, roll_no_match)
+        logger.info(
+            f"🪪 ID check for {student_id}: similarity={similarity}, name_score={name_score:.2f}, "
+            f"roll_no_match={roll_no_match}, status={decision['status']}"
+        )
+
+        record = supabase.table('id_verifications').insert({
+            'student_id': student_id,
+            'exam_id': validate_uuid(request.exam_id),
+            'card_image_url': request.card_image_url,
+            'live_image_url': request.live_image_url,
+            'face_similarity': similarity,
+            'name_score': name_score,
+            'roll_no_match': roll_no_match,
+            'ocr_text': request.ocr_text,
+            'status': decision['status'],
+            'details': {
+                'reasons': decision['reasons'],
+                'threshold': FACE_MATCH_THRESHOLD,
+                'cardFaceBox': card_face_box,
+                'cardEdges': request.card_edges,
+            },
+        }).execute().data[0]
+
+        return IdVerifyResponse(
+            id=record['id'],
+            status=record['status'],
+            reasons=decision['reasons'],
+            face_similarity=similarity,
+            name_score=name_score,
+            roll_no_match=roll_no_match,
+            threshold=FACE_MATCH_THRESHOLD,
+        )
+    except HTTPException:
+        raise
+    except Exception as e:
+        logger.error(f"ID check error: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
 @app.post("/api/process-frame", response_model=FrameProcessResponse)
 async def process_frame(request: FrameProcessRequest):
     """Process a single frame for violations"""
@@ -362,6 +625,10 @@ violation_cooldowns: Dict[str, Dict[str, float]] = {}
 VIOLATION_COOLDOWN_SEC = 10.0  # Don't log same violation type within 10 seconds
 LOOKING_AWAY_COOLDOWN_SEC = 3.0  # Separate cooldown for looking_away (reduced since detection is now immediate)
 
+# Sequence numbers of browser activity events already recorded, per "exam_id:student_id".
+# Kept across reconnects so a replayed event whose ack was lost isn't recorded twice.
+processed_event_seqs: Dict[str, Set[int]] = {}
+
 @app.websocket("/api/ws/proctoring/{session_id}")
 async def websocket_proctoring(websocket: WebSocket, session_id: str):
     """WebSocket endpoint for real-time proctoring"""
@@ -377,18 +644,78 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
         violation_cooldowns[session_id] = {}
     
     try:
-        # Throttle: only process a frame every 2 seconds per connection
+        # Throttle: process at most one frame per interval per connection. The client picks its own
+        # rate (down to one frame a second after a suspicious event); this only guards the CPU.
         last_processed_time = 0.0
-        FRAME_INTERVAL_SEC = 2.0
+        FRAME_INTERVAL_SEC = 0.8
+        # Protocol version agreed in the hello handshake; nothing else is handled before it
+        protocol_version = None
+        # Student details for binary frames, from the latest "context" message
+        student_context = StudentContext()
+        # Last comparison of the stream with the registered face (see _check_identity)
+        last_identity_check = 0.0
+        # Whether the browser reports looking_away itself, from the latest "context" message
+        client_gaze = False
+        # Whether the browser detects speech itself (speech_detected / multiple_voices), likewise
+        client_voice = False
         while True:
-            # Receive frame data from client
-            data = await websocket.receive_text()
-            message = json.loads(data)
-            logger.info(f"📥 Received message type: {message.get('type')}")
-            
-            if message['type'] == 'frame':
-                student_name = message.get('student_name', 'Unknown')
-                student_id = message.get('student_id', 'Unknown')
+            # Receive a JSON message or a binary frame from the client
+            received = await websocket.receive()
+            if received["type"] == "websocket.disconnect":
+                raise WebSocketDisconnect(received.get("code", 1000))
+            # Raw JPEG of a binary frame; JSON frames carry it base64 encoded instead
+            frame_bytes = None
+            try:
+                if received.get("bytes") is not None:
+                    if protocol_version is None or protocol_version < BINARY_FRAMES_VERSION:
+                        raise ProtocolError(
+                            ERROR_INVALID_MESSAGE if protocol_version else ERROR_HANDSHAKE_REQUIRED,
+                            f"Binary frames need protocol v{BINARY_FRAMES_VERSION} (negotiated: {protocol_version})"
+                        )
+                    binary_frame = parse_binary_frame(received["bytes"])
+                    await websocket.send_json(frame_ack_message(binary_frame.seq))
+                    # Binary frames go through the same path as JSON ones
+                    frame_bytes = binary_frame.jpeg
+                    message = FrameMessage(
+                        type='frame',
+                        frame='',
+                        calibrated_pitch=binary_frame.calibrated_pitch,
+                        calibrated_yaw=binary_frame.calibrated_yaw,
+                        audio_level=binary_frame.audio_level,
+                        **student_context.model_dump(),
+                    )
+                else:
+                    message = parse_client_message(received.get("text"))
+            except ProtocolError as protocol_err:
+                logger.warning(f"⚠️ Rejected message ({protocol_err.code}): {protocol_err.message}")
+                await websocket.send_json(error_message(protocol_err.code, protocol_err.message, protocol_err.details))
+                continue
+            logger.info(f"📥 Received message type: {message.type}" + (" (binary)" if frame_bytes is not None else ""))
+
+            if message.type == 'hello':
+                protocol_version = negotiate_version(message.protocol_version)
+                if protocol_version is None:
+                    logger.warning(f"❌ Unsupported protocol version {message.protocol_version} for session {session_id}")
+                    await websocket.send_json(error_message(
+                        ERROR_UNSUPPORTED_VERSION,
+                        f"Protocol version {message.protocol_version} is not supported "
+                        f"(server speaks {MIN_PROTOCOL_VERSION}-{PROTOCOL_VERSION})"
+                    ))
+                    await websocket.close(code=CLOSE_UNSUPPORTED_VERSION)
+                    active_connections.pop(session_id, None)
+                    violation_cooldowns.pop(session_id, None)
+                    break
+                await websocket.send_json(hello_ack_message(protocol_version))
+                logger.info(f"🤝 Handshake complete for session {session_id}: protocol v{protocol_version}")
+
+            elif protocol_version is None:
+                await websocket.send_json(error_message(
+                    ERROR_HANDSHAKE_REQUIRED, f"Send hello before {message.type} messages"
+                ))
+
+            elif message.type == 'frame':
+                student_name = message.student_name or 'Unknown'
+                student_id = message.student_id or 'Unknown'
                 logger.info(f"🎥 Processing frame from student: name='{student_name}', id='{student_id}'")
                 # Throttle processing to every 2 seconds
                 now_ts = asyncio.get_event_loop().time()
@@ -396,7 +723,10 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                     last_processed_time = now_ts
                     # Process frame
                     try:
-                        frame_data = base64.b64decode(message['frame'].split(',')[1] if ',' in message['frame'] else message['frame'])
+                        if frame_bytes is not None:
+                            frame_data = frame_bytes
+                        else:
+                            frame_data = base64.b64decode(message.frame.split(',')[1] if ',' in message.frame else message.frame)
                         logger.info(f"📦 Frame data decoded: {len(frame_data)} bytes")
                         nparr = np.frombuffer(frame_data, np.uint8)
                         frame = cv2.imdecode(nparr, cv2.IMREAD_COLOR)
@@ -406,8 +736,8 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                         frame = None
                     
                     if frame is not None:
-                        calibrated_pitch = float(message.get('calibrated_pitch', 0.0))
-                        calibrated_yaw = float(message.get('calibrated_yaw', 0.0))
+                        calibrated_pitch = message.calibrated_pitch
+                        calibrated_yaw = message.calibrated_yaw
                         logger.info(f"🔍 Frame decoded successfully: {frame.shape}, Calibration: pitch={calibrated_pitch:.2f}°, yaw={calibrated_yaw:.2f}°")
                         
                         result = proctoring_service.process_frame(
@@ -416,10 +746,25 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                             calibrated_pitch,
                             calibrated_yaw
                         )
+                        if result.get('error'):
+                            logger.error(f"❌ Frame processing failed: {result['error']}")
+                            await websocket.send_json(error_message(ERROR_PROCESSING_FAILED, result['error']))
+                            continue
+                        if client_gaze and result.get('looking_away'):
+                            # Measured in the browser and reported as browser activity instead
+                            result['violations'] = [v for v in result.get('violations', []) if v.get('type') != 'looking_away']
                         violations_count = len(result.get('violations', []))
                         logger.info(f"🎯 Detection result: {violations_count} violations found")
                         logger.info(f"📊 Detection details: faces={result.get('face_count', 0)}, no_person={result.get('no_person', False)}, multiple={result.get('multiple_faces', False)}, looking_away={result.get('looking_away', False)}, phone={result.get('phone_detected', False)}, book={result.get('book_detected', False)}")
                         
+                        # Periodically re-check that the one person in view is the registered student
+                        identity_violation = None
+                        identity_student_id = validate_uuid(message.student_id)
+                        if (face_identity.available and identity_student_id and result.get('face_count') == 1
+                                and (now_ts - last_identity_check) >= FACE_RECHECK_INTERVAL_SEC):
+                            last_identity_check = now_ts
+                            identity_violation = _check_identity(frame, identity_student_id)
+
                         # Log head pose info if available
                         if result.get('head_pose'):
                             hp = result['head_pose']
@@ -433,12 +778,12 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                             logger.info(f"✅ No violations detected in this frame")
                         # Persist violations with snapshot evidence
                         try:
-                            exam_id = message.get('exam_id')
-                            student_id = message.get('student_id')
-                            roll_no = message.get('roll_no') or message.get('rollNo') or "UNKNOWN"
-                            student_name = message.get('student_name')
-                            subject_code = message.get('subject_code', '')
-                            subject_name = message.get('subject_name', '')
+                            exam_id = message.exam_id
+                            student_id = message.student_id
+                            roll_no = message.roll_no or "UNKNOWN"
+                            student_name = message.student_name
+                            subject_code = message.subject_code or ''
+                            subject_name = message.subject_name or ''
                             logger.info(f"📋 Extracted from message: exam_id={exam_id}, student_id={student_id}, roll_no={roll_no}, student_name='{student_name}', subject='{subject_name}' ({subject_code})")
                             snapshot_b64 = result.get('snapshot_base64')
                             # Track which violations were actually saved (not skipped due to cooldown)
@@ -510,77 +855,90 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                                         logger.error(f"❌ Insert violation failed: {db_err}")
                             else:
                                 logger.info("✅ No violations detected in this frame")
+                            # Identity mismatches carry the exam frame and the registered image side by side
+                            if identity_violation:
+                                identity_image_url = _upload_snapshot_and_get_url(
+                                    supabase, exam_id or "unknown_exam", roll_no or "UNKNOWN",
+                                    'identity_mismatch', _frame_to_base64(frame)
+                                )
+                                identity_record = {
+                                    "id": str(uuid.uuid4()),
+                                    "exam_id": validate_uuid(exam_id),
+                                    "student_id": identity_student_id,
+                                    "violation_type": "identity_mismatch",
+                                    "severity": identity_violation["severity"],
+                                    "details": {
+                                        "message": identity_violation["message"],
+                                        "similarity": identity_violation["similarity"],
+                                        "threshold": identity_violation["threshold"],
+                                        "reference_image_url": identity_violation["reference_image_url"],
+                                        "session_id": session_id,
+                                        "student_name": student_name,
+                                        "roll_no": roll_no or "UNKNOWN",
+                                        "student_id": student_id,
+                                        "subject_code": subject_code,
+                                        "subject_name": subject_name,
+                                    },
+                                    "image_url": identity_image_url,
+                                    "timestamp": datetime.utcnow().isoformat()
+                                }
+                                try:
+                                    supabase.table('violations').insert(identity_record).execute()
+                                    logger.info(f"✅ Violation saved: identity_mismatch - {identity_violation['message']}")
+                                    saved_violations.append(identity_violation)
+                                except Exception as db_err:
+                                    logger.error(f"❌ Insert identity violation failed: {db_err}")
                         except Exception as persist_err:
                             logger.error(f"❌ Persisting violation failed: {persist_err}")
                         
                         # Send results back to client - ONLY include violations that were actually saved
                         # This prevents duplicate counting in the frontend
-                        result_to_send = result.copy()
-                        result_to_send['violations'] = saved_violations
-                        await websocket.send_json({
-                            'type': 'detection_result',
-                            'data': result_to_send
-                        })
+                        await websocket.send_json(detection_result_message(result, saved_violations))
                         logger.info(f"📤 Detection result sent to client")
                         
                         # Also send individual violation alerts to frontend (only for saved violations)
                         if saved_violations:
                             for v in saved_violations:
-                                await websocket.send_json({
-                                    'type': 'violation',
-                                    'data': {
-                                        'type': v.get('type'),
-                                        'severity': v.get('severity'),
-                                        'message': v.get('message'),
-                                        'confidence': v.get('confidence'),
-                                        'timestamp': datetime.utcnow().isoformat()
-                                    }
-                                })
+                                await websocket.send_json(violation_message(ViolationPayload(
+                                    type=v.get('type'),
+                                    severity=v.get('severity'),
+                                    message=v.get('message'),
+                                    confidence=v.get('confidence'),
+                                    threshold=v.get('threshold'),
+                                    similarity=v.get('similarity'),
+                                )))
                                 logger.info(f"🚨 Violation alert sent to frontend: {v.get('type')}")
                     else:
                         logger.error("❌ Frame is None - could not decode image data")
-                        await websocket.send_json({
-                            'type': 'error',
-                            'data': {'message': 'Failed to decode frame image'}
-                        })
+                        await websocket.send_json(error_message(ERROR_FRAME_DECODE_FAILED, 'Failed to decode frame image'))
                 else:
                     # Optionally inform client that frame was skipped due to throttle
-                    await websocket.send_json({
-                        'type': 'detection_skipped',
-                        'data': {
-                            'reason': 'throttled',
-                            'interval_sec': FRAME_INTERVAL_SEC,
-                            'timestamp': datetime.utcnow().isoformat()
-                        }
-                    })
+                    await websocket.send_json(detection_skipped_message('throttled', FRAME_INTERVAL_SEC))
                     
-            elif message['type'] == 'audio':
+            elif message.type == 'audio':
                 # Process audio level
-                audio_level = float(message.get('audio_level', 0))
-                student_name = message.get('student_name')
-                exam_id = message.get('exam_id')
-                student_id = message.get('student_id')
+                audio_level = message.audio_level
+                student_name = message.student_name
+                exam_id = message.exam_id
+                student_id = message.student_id
                 
                 logger.info(f"🎤 Audio message - level: {audio_level}%, student: '{student_name}', exam_id: {exam_id}, student_id: {student_id}")
                 
                 if not student_name or student_name.strip() == '':
-                    logger.warning(f"⚠️ No student_name in audio message! Keys: {list(message.keys())}")
+                    logger.warning(f"⚠️ No student_name in audio message! Fields: {list(message.model_fields_set)}")
                     student_name = 'Unknown Student'
                 # Always echo current audio level so UI can update in real-time
-                await websocket.send_json({
-                    'type': 'audio_level',
-                    'data': {
-                        'level': audio_level,
-                        'timestamp': datetime.utcnow().isoformat()
-                    }
-                })
+                await websocket.send_json(audio_level_message(audio_level))
                 logger.info(f"📤 Audio level echoed: {audio_level}% for student: {student_name}")
                 # Record a violation if audio exceeds threshold
                 try:
                     AUDIO_THRESHOLD = 30  # Threshold for excessive noise detection
                     logger.info(f"🔍 Checking audio violation: level={audio_level}%, threshold={AUDIO_THRESHOLD}%, exceeds={audio_level >= AUDIO_THRESHOLD}")
+                    # Loudness is only a stand-in for speech; the browser's voice detection replaces it
+                    if client_voice:
+                        logger.info("🗣️ Audio level not checked - browser voice detection is active")
                     # Trigger violation if audio level exceeds threshold
-                    if audio_level >= AUDIO_THRESHOLD:
+                    elif audio_level >= AUDIO_THRESHOLD:
                         logger.info(f"🔊 Audio level {audio_level}% exceeds threshold {AUDIO_THRESHOLD}% - processing violation...")
                         # Check cooldown for audio violations (reduced cooldown for audio to catch sustained noise)
                         now_ts = asyncio.get_event_loop().time()
@@ -592,12 +950,12 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                             # Update cooldown
                             violation_cooldowns[session_id]['excessive_noise'] = now_ts
                             
-                            exam_id = message.get('exam_id')
-                            student_id = message.get('student_id')
+                            exam_id = message.exam_id
+                            student_id = message.student_id
                             # CRITICAL: Always get student_name from message - this is the source of truth
-                            student_name = message.get('student_name')
-                            subject_code = message.get('subject_code', '')
-                            subject_name = message.get('subject_name', '')
+                            student_name = message.student_name
+                            subject_code = message.subject_code or ''
+                            subject_name = message.subject_name or ''
                             
                             # Log received values for debugging
                             logger.info(f"🔍 Audio violation - exam_id: {exam_id} (type: {type(exam_id).__name__}), student_id: {student_id} (type: {type(student_id).__name__}), student_name: '{student_name}'")
@@ -667,15 +1025,13 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                             logger.info(f"   Violation record student_name field: '{violation_record.get('student_name')}'")
                             logger.info(f"   Violation record details.student_name: '{violation_record.get('details', {}).get('student_name')}'")
                             # Prepare violation alert message (send even if DB save fails)
-                            violation_alert = {
-                                'type': 'excessive_noise',  # Match the violation_type saved to database
-                                'violation_type': 'excessive_noise',  # Also include for compatibility
-                                'severity': severity,
-                                'message': f'{severity_msg} detected - Audio level: {audio_level:.0f}% (Threshold: {AUDIO_THRESHOLD}%)',
-                                'audio_level': float(audio_level),
-                                'threshold': float(AUDIO_THRESHOLD),
-                                'timestamp': datetime.utcnow().isoformat()
-                            }
+                            violation_alert = ViolationPayload(
+                                type='excessive_noise',  # Match the violation_type saved to database
+                                severity=severity,
+                                message=f'{severity_msg} detected - Audio level: {audio_level:.0f}% (Threshold: {AUDIO_THRESHOLD}%)',
+                                audio_level=float(audio_level),
+                                threshold=float(AUDIO_THRESHOLD),
+                            )
                             
                             # Try to save to database
                             # IMPORTANT: Save even if UUIDs are None - database should allow NULL values
@@ -721,32 +1077,35 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                             
                             # Always send violation alert to frontend for immediate UI update (even if DB save failed)
                             try:
-                                await websocket.send_json({
-                                    'type': 'violation',
-                                    'data': violation_alert
-                                })
-                                logger.info(f"📤 Audio violation alert sent - type: {violation_alert['type']}, student: {student_name}")
+                                await websocket.send_json(violation_message(violation_alert))
+                                logger.info(f"📤 Audio violation alert sent - type: {violation_alert.type}, student: {student_name}")
                                 logger.info(f"   Alert data: {violation_alert}")
                             except Exception as ws_error:
                                 logger.error(f"❌ Failed to send audio violation alert to frontend: {ws_error}")
                 except Exception as e:
                     logger.error(f"❌ Audio violation insert failed: {e}")
                     
-            elif message['type'] == 'browser_activity':
+            elif message.type == 'browser_activity':
                 # Handle browser activity violations (tab switch, copy/paste)
+                event_key = f"{message.exam_id or ''}:{message.student_id or ''}"
+                if message.seq is not None and message.seq in processed_event_seqs.get(event_key, set()):
+                    logger.info(f"↩️ Browser activity #{message.seq} already recorded - acking replay")
+                    await websocket.send_json(ack_message(message.seq))
+                    continue
                 try:
-                    exam_id = message.get('exam_id')
-                    student_id = message.get('student_id')
-                    student_name = message.get('student_name')
-                    subject_code = message.get('subject_code', '')
-                    subject_name = message.get('subject_name', '')
-                    violation_type = message.get('violation_type')
-                    violation_message = message.get('message')
+                    exam_id = message.exam_id
+                    student_id = message.student_id
+                    student_name = message.student_name
+                    subject_code = message.subject_code or ''
+                    subject_name = message.subject_name or ''
+                    violation_type = message.violation_type
+                    activity_message = message.message
+                    severity = message.severity or "medium"
                     
-                    # Check cooldown for browser activity violations
+                    # Check cooldown for browser activity violations; measured events are already one per episode
                     now_ts = asyncio.get_event_loop().time()
                     last_browser_violation = violation_cooldowns[session_id].get(violation_type, 0)
-                    if (now_ts - last_browser_violation) < VIOLATION_COOLDOWN_SEC:
+                    if message.details is None and (now_ts - last_browser_violation) < VIOLATION_COOLDOWN_SEC:
                         logger.info(f"⏸️  Browser activity violation {violation_type} skipped (cooldown: {VIOLATION_COOLDOWN_SEC}s)")
                     else:
                         # Update cooldown
@@ -765,9 +1124,10 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                             "exam_id": valid_exam_id,
                             "student_id": valid_student_id,
                             "violation_type": violation_type,
-                            "severity": "medium",
+                            "severity": severity,
                             "details": {
-                                "message": violation_message,
+                                **(message.details or {}),
+                                "message": activity_message,
                                 "session_id": session_id,
                                 "student_name": student_name,
                                 "student_id": student_id or "N/A",
@@ -775,26 +1135,38 @@ async def websocket_proctoring(websocket: WebSocket, session_id: str):
                                 "subject_name": subject_name or "N/A",
                             },
                             "image_url": None,  # No snapshot for browser activity
-                            "timestamp": datetime.utcnow().isoformat()
+                            "timestamp": message.occurred_at or datetime.utcnow().isoformat()
                         }
                         supabase.table('violations').insert(violation_record).execute()
                         
                         # Send violation alert back to client for real-time UI update
-                        await websocket.send_json({
-                            'type': 'violation',
-                            'data': {
-                                'type': violation_type,
-                                'severity': 'medium',
-                                'message': violation_message,
-                                'timestamp': datetime.utcnow().isoformat()
-                            }
-                        })
+                        await websocket.send_json(violation_message(ViolationPayload(
+                            type=violation_type,
+                            severity=severity,
+                            message=activity_message,
+                        )))
                         logger.info(f"Browser activity violation recorded: {violation_type} for student {student_name} (ID: {student_id})")
+
+                    # Acked once recorded, or deliberately skipped by the cooldown
+                    if message.seq is not None:
+                        processed_event_seqs.setdefault(event_key, set()).add(message.seq)
+                        await websocket.send_json(ack_message(message.seq))
                 except Exception as e:
                     logger.error(f"Browser activity violation insert failed: {e}")
+                    # No ack: the client keeps the event and sends it again
+                    if message.seq is not None:
+                        await websocket.send_json(error_message(
+                            ERROR_PROCESSING_FAILED, f"Browser activity #{message.seq} not recorded: {e}", {"seq": message.seq}
+                        ))
                     
-            elif message['type'] == 'ping':
-                await websocket.send_json({'type': 'pong'})
+            elif message.type == 'context':
+                student_context = StudentContext(**message.model_dump(exclude={'type', 'client_gaze', 'client_voice'}))
+                client_gaze = bool(message.client_gaze)
+                client_voice = bool(message.client_voice)
+                logger.info(f"🪪 Frame context for session {session_id}: student='{student_context.student_name}', exam_id={student_context.exam_id}")
+
+            elif message.type == 'ping':
+                await websocket.send_json(pong_message())
                 
     except WebSocketDisconnect:
         logger.info(f"WebSocket disconnected: {session_id}")
@@ -35,6 +35,14 @@ async def test_websocket_violations():
         async with connect(ws_url) as websocket:
             print("[SUCCESS] WebSocket connected")
             
+            # Protocol handshake - the server ignores other messages until it is done
+            await websocket.send(json.dumps({"type": "hello", "protocol_version": 1, "session_id": session_id}))
+            ack = json.loads(await asyncio.wait_for(websocket.recv(), timeout=10.0))
+            if ack.get('type') != 'hello_ack':
+                print(f"[FAIL] Handshake failed: {ack}")
+                return False
+            print(f"[SUCCESS] Handshake complete: protocol v{ack.get('protocol_version')}")
+            
             # Send a test frame
             message = {
                 "type": "frame",
@@ -68,6 +68,12 @@ async def websocket_selftest(ws_base: str) -> None:
 	async with websockets.connect(url, ping_interval=None) as ws:
 		# Expect connection open without error
 		print("  Connected.")
+		# Protocol handshake before any other message
+		await ws.send(json.dumps({"type": "hello", "protocol_version": 1, "session_id": "selftest-session"}))
+		ack = json.loads(await asyncio.wait_for(ws.recv(), timeout=10))
+		if ack.get("type") != "hello_ack":
+			raise RuntimeError(f"Handshake failed: {ack}")
+		print("  Handshake OK: protocol v", ack.get("protocol_version"))
 		# Send one frame message
 		frame_b64 = make_test_image()
 		msg = {
@@ -0,0 +1,168 @@
+// page.evaluate callbacks run in the browser
+/// <reference lib="dom" />
+import { expect, test, type APIRequestContext, type Page } from '@playwright/test';
+import { CONTROL_PREFIX, type SessionRecord } from './mockProctoringServer';
+
+// A whole exam sitting on the e2e harness: the student starts the exam, the proctoring service
+// flags a violation, the connection drops while the student copies text and comes back, and the
+// student submits. Registration, verification and the compatibility check are skipped: the
+// rows and sessionStorage they leave behind are seeded instead.
+
+const STUDENT_ID = '00000000-0000-4000-8000-0000000000a1';
+const EXAM_ID = '00000000-0000-4000-8000-0000000000b1';
+// From src/testing/fixtures.ts
+const SUBJECT_CODE = 'E2E101';
+const TEMPLATE_ID = '00000000-0000-4000-8000-00000000e2e1';
+
+type Row = Record<string, unknown>;
+
+// The part of window.__examHarness (src/testing/installHarness.ts) the session uses
+interface HarnessWindow {
+  __examHarness: {
+    db: {
+      reset(empty?: boolean): void;
+      seed(table: string, rows: Row[]): void;
+      rows(table: string): Row[];
+    };
+  };
+}
+
+const proctoringSession = async (request: APIRequestContext): Promise<SessionRecord | null> => {
+  const response = await request.get(`${CONTROL_PREFIX}/sessions/${EXAM_ID}`);
+  return response.ok() ? ((await response.json()) as SessionRecord) : null;
+};
+
+const control = async (request: APIRequestContext, route: string, body: Row = {}) => {
+  const response = await request.post(`${CONTROL_PREFIX}${route}`, { data: body });
+  expect(response.ok(), `${route}: ${await response.text()}`).toBe(true);
+};
+
+const dbRows = (page: Page, table: string): Promise<Row[]> =>
+  page.evaluate(name => (window as unknown as HarnessWindow).__examHarness.db.rows(name), table);
+
+const examRow = async (page: Page) => (await dbRows(page, 'exams')).find(row => row.id === EXAM_ID);
+
+const savedAnswer = async (page: Page, questionNumber: number) =>
+  (await dbRows(page, 'exam_answers')).find(row => row.question_number === questionNumber)?.answer;
+
+// What the register, verify and compatibility pages would have left behind
+const seedRegisteredStudent = (page: Page) =>
+  page.evaluate(
+    ({ studentId, examId, subjectCode, templateId }) => {
+      const { db } = (window as unknown as HarnessWindow).__examHarness;
+      db.reset();
+      db.seed('students', [
+        {
+          id: studentId,
+          name: 'Harness Student',
+          email: 'harness.student@example.com',
+          student_id: 'E2E-0001',
+          roll_no: 'E2E-0001',
+          subject_code: subjectCode,
+        },
+      ]);
+      db.seed('exams', [
+        { id: examId, student_id: studentId, subject_code: subjectCode, exam_template_id: templateId },
+      ]);
+
+      sessionStorage.setItem(
+        'studentData',
+        JSON.stringify({
+          id: studentId,
+          name: 'Harness Student',
+          rollNo: 'E2E-0001',
+          subjectCode,
+          subjectName: 'End-to-End Testing',
+        })
+      );
+      const tabToken = crypto.randomUUID();
+      sessionStorage.setItem(
+        'compatibilityCheck',
+        JSON.stringify({
+          completedAt: Date.now(),
+          examId,
+          tabToken,
+          networkSpeedMbps: 50,
+          audioBaseline: 5,
+          voiceProfile: null,
+          lightingScore: 80,
+        })
+      );
+      sessionStorage.setItem('examTabToken', tabToken);
+      sessionStorage.setItem('singleTabVerified', 'true');
+      sessionStorage.setItem('calibration', JSON.stringify({ pitch: 0, yaw: 0 }));
+    },
+    { studentId: STUDENT_ID, examId: EXAM_ID, subjectCode: SUBJECT_CODE, templateId: TEMPLATE_ID }
+  );
+
+test('student sits an exam through a violation and a dropped connection', async ({ page, request }) => {
+  await control(request, '/reset');
+
+  // Start
+  await page.goto('/');
+  await seedRegisteredStudent(page);
+  await page.goto('/exam');
+
+  await expect(page.getByText('Which protocol does the proctoring socket speak first?')).toBeVisible();
+  await expect
+    .poll(async () => {
+      const session = await proctoringSession(request);
+      return !!session?.connected && session.protocolVersion !== null && (session.received.frame ?? 0) > 0;
+    }, { timeout: 30_000 })
+    .toBe(true);
+  expect((await examRow(page))?.status).toBe('in_progress');
+
+  await page.locator('input[name="question-1"][value="b"]').check();
+  await expect.poll(() => savedAnswer(page, 1), { timeout: 10_000 }).toBe('b');
+
+  // The proctoring service flags a phone; the exam carries on and keeps streaming frames
+  await control(request, `/sessions/${EXAM_ID}/inject`, {
+    message: {
+      type: 'violation',
+      data: { type: 'phone_detected', severity: 'high', message: 'Phone detected', timestamp: new Date().toISOString() },
+    },
+  });
+  const framesAfterViolation = (await proctoringSession(request))?.received.frame ?? 0;
+  await expect
+    .poll(async () => (await proctoringSession(request))?.received.frame ?? 0, { timeout: 15_000 })
+    .toBeGreaterThan(framesAfterViolation);
+
+  // The connection drops and reconnects are refused for a while; a copy meanwhile is queued
+  await control(request, `/sessions/${EXAM_ID}/drop`, { abrupt: true, rejectReconnectsMs: 6000 });
+  await expect.poll(async () => (await proctoringSession(request))?.connected, { timeout: 5_000 }).toBe(false);
+  await page.evaluate(() => document.dispatchEvent(new Event('copy')));
+
+  await expect
+    .poll(async () => {
+      const session = await proctoringSession(request);
+      return !!session?.connected && session.connections >= 2;
+    }, { timeout: 45_000 })
+    .toBe(true);
+
+  // The queued copy arrives exactly once and the outage is on record for the monitor
+  await expect
+    .poll(async () => (await proctoringSession(request))?.events.filter(event => event.violation_type === 'copy_paste').length, {
+      timeout: 15_000,
+    })
+    .toBe(1);
+  await expect
+    .poll(async () => (await dbRows(page, 'exam_events')).filter(row => row.event_type === 'proctoring_gap').length, {
+      timeout: 15_000,
+    })
+    .toBeGreaterThan(0);
+
+  // Submit
+  await page.getByRole('button', { name: 'Next' }).click();
+  await page.locator('input[name="question-2"][value="false"]').check();
+  await page.getByRole('button', { name: 'Next' }).click();
+  await page.getByPlaceholder('Type your answer here...').fill('It is queued in the outbox and replayed on reconnect.');
+
+  await page.getByRole('button', { name: 'Review & Submit' }).click();
+  await page.getByRole('button', { name: 'Submit Exam' }).click();
+
+  await expect.poll(async () => (await examRow(page))?.status, { timeout: 20_000 }).toBe('completed');
+  const exam = await examRow(page);
+  // Both auto-graded questions right; the short answer waits for an examiner
+  expect(exam).toMatchObject({ total_score: 2, max_score: 2, graded: false });
+  expect(await savedAnswer(page, 3)).toBe('It is queued in the outbox and replayed on reconnect.');
+});
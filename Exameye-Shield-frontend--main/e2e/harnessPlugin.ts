@@ -0,0 +1,46 @@
+import type { Server } from 'http';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { MockProctoringServer } from './mockProctoringServer';
+
+// Dev server setup for end-to-end runs (vite --mode e2e):
+//   - the mock proctoring service answers on the dev server's own port, and the app is pointed at it
+//   - @/integrations/supabase/client resolves to the in-memory stand-in in src/testing
+//   - every page loads src/testing/installHarness.ts first, which fakes camera, microphone and
+//     screen share and exposes the controls on window.__examHarness
+export function e2eHarnessPlugin(mockServer = new MockProctoringServer()): Plugin {
+  return {
+    name: 'e2e-harness',
+    config(config) {
+      const port = config.server?.port ?? 3000;
+      // URLs set in the shell still win, e.g. to run the fake devices against the Python service
+      process.env.VITE_PROCTORING_API_URL ??= `http://localhost:${port}`;
+      process.env.VITE_PROCTORING_WS_URL ??= `ws://localhost:${port}`;
+      return {
+        resolve: {
+          alias: [
+            {
+              find: /^@\/integrations\/supabase\/client$/,
+              replacement: path.resolve(__dirname, '../src/testing/memorySupabaseClient.ts'),
+            },
+          ],
+        },
+      };
+    },
+    configureServer(server) {
+      if (server.httpServer) {
+        mockServer.attach(server.httpServer as Server);
+      }
+      server.middlewares.use(mockServer.middleware());
+    },
+    transformIndexHtml() {
+      return [
+        {
+          tag: 'script',
+          attrs: { type: 'module', src: '/src/testing/installHarness.ts' },
+          injectTo: 'head-prepend',
+        },
+      ];
+    },
+  };
+}
@@ -0,0 +1,627 @@
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, type RawData, type WebSocket } from 'ws';
+import { z } from 'zod';
+import {
+  CLOSE_UNSUPPORTED_VERSION,
+  PROTOCOL_VERSION,
+  clientMessageSchema,
+  decodeBinaryFrame,
+  detectionResultSchema,
+  serverMessageSchema,
+  type BrowserActivityMessage,
+  type DetectionResult,
+  type ServerMessage,
+  type StudentContext,
+} from '../src/utils/proctoringProtocol';
+
+// Stand-in for the Python proctoring service (backend/server.py) in end-to-end runs. It speaks
+// the same socket protocol and answers like the real service, without a camera model behind it:
+// every frame gets a frame_ack (binary) and a detection_result, audio is echoed back, browser
+// activity is turned into a violation and acked by seq, replays included. The HTTP endpoints the
+// student pages call before the exam (environment check, calibration, face enrollment,
+// verification and the ID card check) are answered too.
+//
+// Tests steer it per session: inject any server message, change the detection result returned
+// from now on, withhold acks, drop the connection (and refuse reconnects for a while), or set a
+// script of such steps that fire after a number of frames or a delay. The same controls are
+// served over HTTP under CONTROL_PREFIX for drivers running outside the dev server process.
+
+export const SOCKET_PATH = /^\/api\/ws\/proctoring\/([^/?]+)/;
+export const CONTROL_PREFIX = '/__mock/proctoring';
+
+// Sessions configured under this id apply to every session that has no settings of its own
+export const DEFAULT_SESSION = '*';
+
+// The real service needs at least v1; the mock only speaks the current version
+const MIN_PROTOCOL_VERSION = PROTOCOL_VERSION;
+
+export interface DropOptions {
+  // Close code and reason sent to the client; ignored when abrupt
+  code?: number;
+  reason?: string;
+  // Destroy the socket without a closing handshake, like a lost network
+  abrupt?: boolean;
+  // Refuse reconnects for this session for this long (ms), to hold a gap open
+  rejectReconnectsMs?: number;
+}
+
+export interface ScriptStep {
+  // When the step fires: after this many frames since the script was armed...
+  afterFrames?: number;
+  // ...or this long (ms) after it was armed
+  afterMs?: number;
+  // What it does: send a server message...
+  send?: ServerMessage;
+  // ...change the detection result returned from now on...
+  detection?: Partial<DetectionResult>;
+  // ...or drop the connection
+  drop?: DropOptions;
+}
+
+export interface SessionBehaviour {
+  // Returned for every frame; violations in it are also sent as separate violation messages
+  detection: DetectionResult;
+  // Don't ack browser_activity events, so they stay pending in the client's outbox
+  withholdAcks: boolean;
+  // Don't send frame_ack for binary frames, so the client sees its acks lag
+  withholdFrameAcks: boolean;
+  // Armed when set on a connected session, otherwise on the next connection
+  script: ScriptStep[];
+}
+
+export type BehaviourChanges = Partial<Omit<SessionBehaviour, 'detection'>> & { detection?: Partial<DetectionResult> };
+
+export interface HttpBehaviour {
+  // Body of POST /api/environment-check
+  environmentCheck: {
+    lighting_ok: boolean;
+    face_detected: boolean;
+    face_centered: boolean;
+    multiple_faces_detected: boolean;
+    message: string;
+  };
+  // Body of POST /api/calibrate
+  calibration: { success: boolean; pitch?: number; yaw?: number; message: string };
+  // Body of POST /api/face/enroll
+  faceEnroll: { success: boolean; message: string };
+  // Body of POST /api/face/verify (src/utils/faceIdentity.ts FaceVerifyResult)
+  faceVerify: {
+    available: boolean;
+    match: boolean;
+    similarity?: number | null;
+    threshold: number;
+    face_count: number;
+    message: string;
+  };
+  // Body of POST /api/id/verify (src/utils/idVerification.ts IdCheckResult), with a fresh id per
+  // check. Nothing is written to id_verifications, so a pending_review check waits until the
+  // test stores a row under that id.
+  idCheck: {
+    status: 'auto_approved' | 'auto_rejected' | 'pending_review' | 'approved' | 'rejected';
+    reasons: string[];
+    face_similarity: number | null;
+    name_score: number;
+    roll_no_match: boolean;
+    threshold: number;
+  };
+}
+
+// What the mock has seen for a session, kept across reconnects
+export interface SessionRecord {
+  sessionId: string;
+  connected: boolean;
+  connections: number;
+  protocolVersion: number | null;
+  context: StudentContext;
+  frames: number;
+  lastFrameSeq: number | null;
+  // Count of each client message type received, binary frames as "frame"
+  received: Record<string, number>;
+  // Browser activity recorded as violations, one per seq
+  events: BrowserActivityMessage[];
+  // Every server message sent, in order
+  sent: ServerMessage[];
+}
+
+interface LiveSession {
+  record: SessionRecord;
+  socket: WebSocket | null;
+  rejectUntil: number;
+  recordedSeqs: Set<number>;
+  pendingScript: ScriptStep[];
+  armedFramesAt: number;
+  timers: ReturnType<typeof setTimeout>[];
+}
+
+export const cleanDetection = (): DetectionResult => ({
+  violations: [],
+  head_pose: { pitch: 0, yaw: 0, roll: 0 },
+  face_count: 1,
+  looking_away: false,
+  multiple_faces: false,
+  no_person: false,
+  phone_detected: false,
+  book_detected: false,
+});
+
+const defaultBehaviour = (): SessionBehaviour => ({
+  detection: cleanDetection(),
+  withholdAcks: false,
+  withholdFrameAcks: false,
+  script: [],
+});
+
+const defaultHttpBehaviour = (): HttpBehaviour => ({
+  environmentCheck: {
+    lighting_ok: true,
+    face_detected: true,
+    face_centered: true,
+    multiple_faces_detected: false,
+    message: 'Environment check passed',
+  },
+  calibration: { success: true, pitch: 0, yaw: 0, message: 'Calibration successful' },
+  faceEnroll: { success: true, message: 'Face enrolled' },
+  faceVerify: {
+    available: true,
+    match: true,
+    similarity: 0.82,
+    threshold: 0.363,
+    face_count: 1,
+    message: 'Face matches registration',
+  },
+  idCheck: {
+    status: 'auto_approved',
+    reasons: [
+      'Card photo matches the live face (71%, needs 36%)',
+      '100% of the registered name found on the card',
+      'Roll number found on the card',
+    ],
+    face_similarity: 0.71,
+    name_score: 1,
+    roll_no_match: true,
+    threshold: 0.363,
+  },
+});
+
+const now = () => new Date().toISOString();
+
+// Bodies of the control API's POST routes
+const dropOptionsSchema = z.object({
+  code: z.number().int().optional(),
+  reason: z.string().optional(),
+  abrupt: z.boolean().optional(),
+  rejectReconnectsMs: z.number().nonnegative().optional(),
+});
+
+const injectBodySchema = z.object({
+  message: z.unknown(),
+  raw: z.boolean().optional(),
+});
+
+const scriptStepSchema = z.object({
+  afterFrames: z.number().int().nonnegative().optional(),
+  afterMs: z.number().nonnegative().optional(),
+  send: serverMessageSchema.optional(),
+  detection: detectionResultSchema.partial().optional(),
+  drop: dropOptionsSchema.optional(),
+});
+
+const behaviourChangesSchema = z.object({
+  detection: detectionResultSchema.partial().optional(),
+  withholdAcks: z.boolean().optional(),
+  withholdFrameAcks: z.boolean().optional(),
+  script: z.array(scriptStepSchema).optional(),
+});
+
+const faceMatchSchema = z.object({
+  available: z.boolean(),
+  match: z.boolean(),
+  similarity: z.number().nullable().optional(),
+  threshold: z.number(),
+  message: z.string(),
+});
+
+const httpBehaviourSchema = z
+  .object({
+    environmentCheck: z.object({
+      lighting_ok: z.boolean(),
+      face_detected: z.boolean(),
+      face_centered: z.boolean(),
+      multiple_faces_detected: z.boolean(),
+      message: z.string(),
+    }),
+    calibration: z.object({
+      success: z.boolean(),
+      pitch: z.number().optional(),
+      yaw: z.number().optional(),
+      message: z.string(),
+    }),
+    faceEnroll: z.object({ success: z.boolean(), message: z.string() }),
+    faceVerify: faceMatchSchema.extend({ face_count: z.number().int() }),
+    idCheck: z.object({
+      status: z.enum(['auto_approved', 'auto_rejected', 'pending_review', 'approved', 'rejected']),
+      reasons: z.array(z.string()),
+      face_similarity: z.number().nullable(),
+      name_score: z.number(),
+      roll_no_match: z.boolean(),
+      threshold: z.number(),
+    }),
+  })
+  .partial();
+
+const validateStep = (step: ScriptStep) => {
+  const triggers = [step.afterFrames, step.afterMs].filter(value => value !== undefined).length;
+  const actions = [step.send, step.detection, step.drop].filter(value => value !== undefined).length;
+  if (triggers !== 1 || actions !== 1) {
+    throw new Error('A script step needs exactly one of afterFrames/afterMs and one of send/detection/drop');
+  }
+  if (step.send) serverMessageSchema.parse(step.send);
+};
+
+export class MockProctoringServer {
+  private wss = new WebSocketServer({ noServer: true });
+  private sessions = new Map<string, LiveSession>();
+  private behaviours = new Map<string, SessionBehaviour>([[DEFAULT_SESSION, defaultBehaviour()]]);
+  private http: HttpBehaviour = defaultHttpBehaviour();
+
+  // Takes over WebSocket upgrades on the proctoring path; other upgrades (Vite's HMR) are left alone
+  attach(server: Server) {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const match = SOCKET_PATH.exec(req.url || '');
+      if (!match) return;
+      const sessionId = decodeURIComponent(match[1]);
+      const live = this.sessions.get(sessionId);
+      if (live && Date.now() < live.rejectUntil) {
+        socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, ws => this.accept(sessionId, ws));
+    });
+  }
+
+  // Connect-style middleware for the control API and the service's HTTP endpoints
+  middleware() {
+    return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+      const url = (req.url || '').split('?')[0];
+      if (url.startsWith(CONTROL_PREFIX)) {
+        this.handleControl(req, res, url.slice(CONTROL_PREFIX.length)).catch(error => {
+          sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+        });
+        return;
+      }
+      if (req.method === 'POST' && url === '/api/environment-check') {
+        sendJson(res, 200, this.http.environmentCheck);
+        return;
+      }
+      if (req.method === 'POST' && url === '/api/calibrate') {
+        sendJson(res, 200, this.http.calibration);
+        return;
+      }
+      if (req.method === 'POST' && url === '/api/face/enroll') {
+        sendJson(res, 200, this.http.faceEnroll);
+        return;
+      }
+      if (req.method === 'POST' && url === '/api/face/verify') {
+        sendJson(res, 200, this.http.faceVerify);
+        return;
+      }
+      if (req.method === 'POST' && url === '/api/id/verify') {
+        sendJson(res, 200, { id: crypto.randomUUID(), ...this.http.idCheck });
+        return;
+      }
+      next();
+    };
+  }
+
+  session(sessionId: string): SessionRecord | null {
+    return this.sessions.get(sessionId)?.record ?? null;
+  }
+
+  listSessions(): SessionRecord[] {
+    return Array.from(this.sessions.values()).map(live => live.record);
+  }
+
+  // Sends a message as is; validated unless raw, so tests can also send malformed or unknown ones
+  inject(sessionId: string, message: unknown, raw = false) {
+    const live = this.connected(sessionId);
+    const checked = raw ? message : serverMessageSchema.parse(message);
+    live.socket.send(JSON.stringify(checked));
+    if (!raw) live.record.sent.push(checked as ServerMessage);
+  }
+
+  drop(sessionId: string, options: DropOptions = {}) {
+    const live = this.connected(sessionId);
+    if (options.rejectReconnectsMs) {
+      live.rejectUntil = Date.now() + options.rejectReconnectsMs;
+    }
+    if (options.abrupt) {
+      live.socket.terminate();
+    } else {
+      live.socket.close(options.code ?? 1011, options.reason ?? 'Dropped by mock server');
+    }
+  }
+
+  configure(sessionId: string, changes: BehaviourChanges) {
+    changes.script?.forEach(validateStep);
+    const current = this.behaviours.get(sessionId) ?? { ...this.behaviourFor(DEFAULT_SESSION), script: [] };
+    // A partial detection result is filled in from a clean one, not merged into the previous one
+    const detection = changes.detection ? { ...cleanDetection(), ...changes.detection } : current.detection;
+    const behaviour: SessionBehaviour = { ...current, ...changes, detection };
+    this.behaviours.set(sessionId, behaviour);
+
+    const live = this.sessions.get(sessionId);
+    if (changes.script && live) {
+      live.pendingScript = [...changes.script];
+      if (live.record.connected) this.armScript(live);
+    }
+  }
+
+  configureHttp(changes: Partial<HttpBehaviour>) {
+    this.http = { ...this.http, ...changes };
+  }
+
+  // Forgets every session and setting; open sockets are closed
+  reset() {
+    this.sessions.forEach(live => {
+      live.timers.forEach(clearTimeout);
+      live.socket?.terminate();
+    });
+    this.sessions.clear();
+    this.behaviours = new Map([[DEFAULT_SESSION, defaultBehaviour()]]);
+    this.http = defaultHttpBehaviour();
+  }
+
+  close() {
+    this.reset();
+    this.wss.close();
+  }
+
+  private behaviourFor(sessionId: string): SessionBehaviour {
+    return this.behaviours.get(sessionId) ?? this.behaviours.get(DEFAULT_SESSION)!;
+  }
+
+  private connected(sessionId: string): LiveSession & { socket: WebSocket } {
+    const live = this.sessions.get(sessionId);
+    if (!live?.socket || !live.record.connected) {
+      throw new Error(`Session ${sessionId} is not connected`);
+    }
+    return live as LiveSession & { socket: WebSocket };
+  }
+
+  private accept(sessionId: string, ws: WebSocket) {
+    let live = this.sessions.get(sessionId);
+    if (!live) {
+      live = {
+        record: {
+          sessionId,
+          connected: false,
+          connections: 0,
+          protocolVersion: null,
+          context: {},
+          frames: 0,
+          lastFrameSeq: null,
+          received: {},
+          events: [],
+          sent: [],
+        },
+        socket: null,
+        rejectUntil: 0,
+        recordedSeqs: new Set(),
+        pendingScript: [...this.behaviourFor(sessionId).script],
+        armedFramesAt: 0,
+        timers: [],
+      };
+      this.sessions.set(sessionId, live);
+    }
+    // A new connection replaces the old one, as on the real server
+    live.socket?.terminate();
+    live.socket = ws;
+    live.record.connected = true;
+    live.record.connections += 1;
+    live.record.protocolVersion = null;
+    console.log(`🧪 Mock proctoring: session ${sessionId} connected (#${live.record.connections})`);
+    this.armScript(live);
+
+    ws.on('message', (data: RawData, isBinary: boolean) => {
+      try {
+        this.handleMessage(live!, data, isBinary);
+      } catch (error) {
+        console.error(`❌ Mock proctoring: failed to handle message for ${sessionId}:`, error);
+      }
+    });
+    ws.on('close', () => {
+      if (live!.socket !== ws) return;
+      live!.socket = null;
+      live!.record.connected = false;
+      console.log(`🧪 Mock proctoring: session ${sessionId} disconnected`);
+    });
+  }
+
+  private armScript(live: LiveSession) {
+    if (live.pendingScript.length === 0) return;
+    live.armedFramesAt = live.record.frames;
+    live.pendingScript
+      .filter(step => step.afterMs !== undefined)
+      .forEach(step => {
+        live.timers.push(setTimeout(() => this.runStep(live, step), step.afterMs));
+      });
+    live.pendingScript = live.pendingScript.filter(step => step.afterFrames !== undefined);
+  }
+
+  private runFrameSteps(live: LiveSession) {
+    const framesSinceArmed = live.record.frames - live.armedFramesAt;
+    const due = live.pendingScript.filter(step => framesSinceArmed >= (step.afterFrames ?? 0));
+    live.pendingScript = live.pendingScript.filter(step => !due.includes(step));
+    due.forEach(step => this.runStep(live, step));
+  }
+
+  private runStep(live: LiveSession, step: ScriptStep) {
+    const sessionId = live.record.sessionId;
+    if (step.detection) {
+      this.configure(sessionId, { detection: step.detection });
+      return;
+    }
+    if (!live.record.connected) {
+      console.warn(`⚠️ Mock proctoring: script step skipped, session ${sessionId} is not connected`);
+      return;
+    }
+    if (step.send) this.inject(sessionId, step.send);
+    if (step.drop) this.drop(sessionId, step.drop);
+  }
+
+  private reply(live: LiveSession, message: ServerMessage) {
+    live.socket?.send(JSON.stringify(message));
+    live.record.sent.push(message);
+  }
+
+  private handleMessage(live: LiveSession, data: RawData, isBinary: boolean) {
+    const { record } = live;
+    const behaviour = this.behaviourFor(record.sessionId);
+
+    if (isBinary) {
+      if (record.protocolVersion === null) {
+        this.reply(live, protocolError('handshake_required', 'Send hello before binary frames'));
+        return;
+      }
+      const bytes = Buffer.isBuffer(data) ? data : Buffer.concat(data as Buffer[]);
+      const frame = decodeBinaryFrame(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+      record.received.frame = (record.received.frame ?? 0) + 1;
+      if (!behaviour.withholdFrameAcks) {
+        this.reply(live, { type: 'frame_ack', data: { seq: frame.seq, timestamp: now() } });
+      }
+      record.lastFrameSeq = frame.seq;
+      this.handleFrame(live, behaviour);
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(data.toString());
+    } catch {
+      this.reply(live, protocolError('invalid_json', 'Message is not valid JSON'));
+      return;
+    }
+    const parsed = clientMessageSchema.safeParse(json);
+    if (!parsed.success) {
+      this.reply(live, protocolError('invalid_message', parsed.error.message));
+      return;
+    }
+    const message = parsed.data;
+    record.received[message.type] = (record.received[message.type] ?? 0) + 1;
+
+    if (message.type === 'hello') {
+      if (message.protocol_version < MIN_PROTOCOL_VERSION) {
+        this.reply(live, protocolError('unsupported_version', `Protocol version ${message.protocol_version} is not supported`));
+        live.socket?.close(CLOSE_UNSUPPORTED_VERSION);
+        return;
+      }
+      record.protocolVersion = Math.min(message.protocol_version, PROTOCOL_VERSION);
+      this.reply(live, {
+        type: 'hello_ack',
+        protocol_version: record.protocolVersion,
+        min_protocol_version: MIN_PROTOCOL_VERSION,
+        max_protocol_version: PROTOCOL_VERSION,
+      });
+      return;
+    }
+    if (record.protocolVersion === null) {
+      this.reply(live, protocolError('handshake_required', `Send hello before ${message.type} messages`));
+      return;
+    }
+
+    switch (message.type) {
+      case 'context': {
+        const { type, ...context } = message;
+        record.context = context;
+        break;
+      }
+      case 'frame':
+        this.handleFrame(live, behaviour);
+        break;
+      case 'audio':
+        this.reply(live, { type: 'audio_level', data: { level: message.audio_level, timestamp: now() } });
+        break;
+      case 'browser_activity': {
+        const replay = message.seq !== undefined && live.recordedSeqs.has(message.seq);
+        if (!replay) {
+          record.events.push(message);
+          if (message.seq !== undefined) live.recordedSeqs.add(message.seq);
+          this.reply(live, {
+            type: 'violation',
+            data: { type: message.violation_type, severity: message.severity ?? 'medium', message: message.message, timestamp: now() },
+          });
+        }
+        if (message.seq !== undefined && !behaviour.withholdAcks) {
+          this.reply(live, { type: 'ack', data: { seq: message.seq } });
+        }
+        break;
+      }
+      case 'ping':
+        this.reply(live, { type: 'pong' });
+        break;
+    }
+  }
+
+  private handleFrame(live: LiveSession, behaviour: SessionBehaviour) {
+    live.record.frames += 1;
+    const detection = { ...behaviour.detection, timestamp: now() };
+    this.reply(live, { type: 'detection_result', data: detection });
+    detection.violations.forEach(violation => this.reply(live, { type: 'violation', data: violation }));
+    this.runFrameSteps(live);
+  }
+
+  private async handleControl(req: IncomingMessage, res: ServerResponse, route: string) {
+    const body = req.method === 'POST' ? await readJson(req) : {};
+    const sessionRoute = /^\/sessions\/([^/]+)(?:\/(inject|drop|configure))?$/.exec(route);
+
+    if (req.method === 'GET' && route === '/sessions') {
+      sendJson(res, 200, this.listSessions());
+    } else if (req.method === 'GET' && sessionRoute && !sessionRoute[2]) {
+      const record = this.session(decodeURIComponent(sessionRoute[1]));
+      sendJson(res, record ? 200 : 404, record ?? { error: 'Unknown session' });
+    } else if (req.method === 'POST' && sessionRoute?.[2]) {
+      const sessionId = decodeURIComponent(sessionRoute[1]);
+      if (sessionRoute[2] === 'inject') {
+        const { message, raw } = injectBodySchema.parse(body);
+        this.inject(sessionId, message, raw === true);
+      }
+      if (sessionRoute[2] === 'drop') this.drop(sessionId, dropOptionsSchema.parse(body));
+      if (sessionRoute[2] === 'configure') this.configure(sessionId, behaviourChangesSchema.parse(body));
+      sendJson(res, 200, { ok: true });
+    } else if (req.method === 'POST' && route === '/http') {
+      this.configureHttp(httpBehaviourSchema.parse(body));
+      sendJson(res, 200, { ok: true });
+    } else if (req.method === 'POST' && route === '/reset') {
+      this.reset();
+      sendJson(res, 200, { ok: true });
+    } else {
+      sendJson(res, 404, { error: `No control route ${req.method} ${route}` });
+    }
+  }
+}
+
+const protocolError = (code: string, message: string): ServerMessage => ({
+  type: 'error',
+  data: { code, message },
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      try {
+        resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString()) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
@@ -0,0 +1,36 @@
+import { defineConfig, devices } from "@playwright/test";
+
+// End-to-end runs against the student app in e2e mode (see e2e/harnessPlugin.ts): fake devices,
+// the mock proctoring service and the in-memory database, so no backend or camera is needed.
+// `npm run test:e2e` starts the dev server itself and runs headless; in CI install the browser
+// first with `npx playwright install --with-deps chromium`, or point E2E_CHROME_PATH at a
+// Chrome or Chromium that is already there.
+const PORT = 3000;
+
+export default defineConfig({
+  testDir: "./e2e",
+  testMatch: "*.e2e.ts",
+  // Sessions share the dev server's mock proctoring service, so they run one at a time
+  workers: 1,
+  timeout: 120_000,
+  retries: process.env.CI ? 1 : 0,
+  forbidOnly: !!process.env.CI,
+  reporter: "list",
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    headless: true,
+    trace: "retain-on-failure",
+    launchOptions: {
+      executablePath: process.env.E2E_CHROME_PATH || undefined,
+      // The fake microphone is a Web Audio graph, which needs autoplay without a click
+      args: ["--autoplay-policy=no-user-gesture-required"],
+    },
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: {
+    command: "npm run dev:e2e",
+    url: `http://localhost:${PORT}`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 120_000,
+  },
+});
@@ -12,6 +12,10 @@ import ExamTemplateUpload from "./pages/ExamTemplateUpload";
 import StudentReport from "./pages/StudentReport";
 import ExamAnalytics from "./pages/ExamAnalytics";
 import AdminSubjects from "./pages/AdminSubjects";
+import AdminGrading from "./pages/AdminGrading";
+import AdminQuestionBank from "./pages/AdminQuestionBank";
+import AdminTemplateEditor from "./pages/AdminTemplateEditor";
+import AdminTemplateVersions from "./pages/AdminTemplateVersions";
 
 const queryClient = new QueryClient();
 
@@ -33,6 +37,10 @@ const AdminApp = () => (
           <Route path="/upload-template" element={<ExamTemplateUpload />} />
           <Route path="/student-report" element={<StudentReport />} />
           <Route path="/analytics" element={<ExamAnalytics />} />
+          <Route path="/grading" element={<AdminGrading />} />
+          <Route path="/question-bank" element={<AdminQuestionBank />} />
+          <Route path="/template-editor" element={<AdminTemplateEditor />} />
+          <Route path="/template-versions" element={<AdminTemplateVersions />} />
           
           {/* 404 */}
           <Route path="*" element={<NotFound />} />
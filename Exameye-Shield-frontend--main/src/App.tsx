@@ -18,6 +18,10 @@ import ExamTemplateUpload from "./pages/ExamTemplateUpload";
 import StudentReport from "./pages/StudentReport";
 import ExamAnalytics from "./pages/ExamAnalytics";
 import AdminSubjects from "./pages/AdminSubjects";
+import AdminGrading from "./pages/AdminGrading";
+import AdminQuestionBank from "./pages/AdminQuestionBank";
+import AdminTemplateEditor from "./pages/AdminTemplateEditor";
+import AdminTemplateVersions from "./pages/AdminTemplateVersions";
 
 const queryClient = new QueryClient();
 
@@ -47,6 +51,10 @@ const App = () => (
           <Route path="/admin/upload-template" element={<ExamTemplateUpload />} />
           <Route path="/admin/student-report" element={<StudentReport />} />
           <Route path="/admin/analytics" element={<ExamAnalytics />} />
+          <Route path="/admin/grading" element={<AdminGrading />} />
+          <Route path="/admin/question-bank" element={<AdminQuestionBank />} />
+          <Route path="/admin/template-editor" element={<AdminTemplateEditor />} />
+          <Route path="/admin/template-versions" element={<AdminTemplateVersions />} />
           
           {/* 404 */}
           <Route path="*" element={<NotFound />} />
@@ -0,0 +1,38 @@
+import { CheckCircle2, CloudOff, AlertTriangle } from "lucide-react";
+import type { AnswerSyncStatus } from "@/utils/answerJournal";
+
+interface AnswerSaveIndicatorProps {
+  status?: AnswerSyncStatus;
+}
+
+export const AnswerSaveIndicator = ({ status }: AnswerSaveIndicatorProps) => {
+  if (!status) return null;
+
+  if (status === 'saved') {
+    return (
+      <span className="flex items-center gap-1 text-xs text-green-600">
+        <CheckCircle2 className="w-3.5 h-3.5" />
+        Saved
+      </span>
+    );
+  }
+
+  if (status === 'conflict') {
+    return (
+      <span
+        className="flex items-center gap-1 text-xs text-destructive"
+        title="A newer answer was saved from another session. Edit this answer, or submit, to keep your version."
+      >
+        <AlertTriangle className="w-3.5 h-3.5" />
+        Conflict
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1 text-xs text-orange-500">
+      <CloudOff className="w-3.5 h-3.5" />
+      Pending
+    </span>
+  );
+};
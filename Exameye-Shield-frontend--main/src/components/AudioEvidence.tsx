@@ -0,0 +1,85 @@
+import { useRef, useState, useEffect } from "react";
+import { Lock, Play, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { decryptAudioEvidence, importEvidencePrivateKey, type AudioEvidence as AudioEvidenceClip } from "@/utils/audioEvidence";
+
+// The examiners' private key, loaded once per tab and kept in memory only
+let privateKey: CryptoKey | null = null;
+
+interface AudioEvidenceProps {
+  evidence: AudioEvidenceClip;
+}
+
+// Player for the encrypted clip of a speech_detected / multiple_voices violation. The clip is
+// decrypted in this browser with the private key matching VITE_EVIDENCE_PUBLIC_KEY, picked from
+// a .pem file the first time; neither the key nor the clip leaves the tab.
+export const AudioEvidence = ({ evidence }: AudioEvidenceProps) => {
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    return () => {
+      if (clipUrl) URL.revokeObjectURL(clipUrl);
+    };
+  }, [clipUrl]);
+
+  const play = async () => {
+    if (!privateKey) {
+      fileInputRef.current?.click();
+      return;
+    }
+    setLoading(true);
+    try {
+      const clip = await decryptAudioEvidence(evidence, privateKey);
+      setClipUrl(URL.createObjectURL(clip));
+    } catch (error) {
+      console.error('Error decrypting audio evidence:', error);
+      toast.error('Could not decrypt the audio clip. Is this the right evidence key?');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadKey = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      privateKey = await importEvidencePrivateKey(await file.text());
+      toast.success('Evidence key loaded for this session');
+      play();
+    } catch (error) {
+      console.error('Error loading evidence key:', error);
+      toast.error('That file is not a PKCS#8 RSA private key');
+    }
+  };
+
+  if (clipUrl) {
+    return <audio controls autoPlay src={clipUrl} className="w-full h-8 mt-2" />;
+  }
+
+  return (
+    <div className="mt-2">
+      <Button size="sm" variant="outline" onClick={play} disabled={loading}>
+        {loading ? (
+          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+        ) : privateKey ? (
+          <Play className="w-4 h-4 mr-1" />
+        ) : (
+          <Lock className="w-4 h-4 mr-1" />
+        )}
+        Audio clip ({Math.round(evidence.duration_ms / 1000)}s)
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".pem,.key,.txt"
+        className="hidden"
+        onChange={(e) => {
+          loadKey(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -2,18 +2,27 @@ import { Mic } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import type { VoiceActivity } from "@/hooks/useVoiceDetection";
 
 interface AudioMonitorProps {
   audioLevel: number;
   threshold?: number;
+  // From useVoiceDetection while it runs; speech is flagged instead of loudness then
+  voiceActivity?: VoiceActivity | null;
 }
 
-export const AudioMonitor = ({ audioLevel, threshold = 30 }: AudioMonitorProps) => {
+const VOICE_STATUS: Record<VoiceActivity, string> = {
+  silence: 'Quiet',
+  noise: 'Background noise',
+  speech: 'Speech detected',
+};
+
+export const AudioMonitor = ({ audioLevel, threshold = 30, voiceActivity = null }: AudioMonitorProps) => {
   const percentage = Math.min(Math.round(audioLevel), 100);
-  const isLoud = percentage >= threshold; // Changed to >= to match backend logic
+  const isLoud = voiceActivity ? voiceActivity === 'speech' : percentage >= threshold; // Changed to >= to match backend logic
 
   // Log for debugging
-  console.log('🔊 AudioMonitor render - Level:', percentage, 'Threshold:', threshold, 'IsLoud:', isLoud);
+  console.log('🔊 AudioMonitor render - Level:', percentage, 'Threshold:', threshold, 'Voice:', voiceActivity, 'IsLoud:', isLoud);
 
   return (
     <Card className={isLoud ? 'border-destructive border-2' : ''}>
@@ -43,18 +52,20 @@ export const AudioMonitor = ({ audioLevel, threshold = 30 }: AudioMonitorProps)
           
           <div className="flex justify-between items-center text-xs">
             <span className="text-muted-foreground">Quiet</span>
-            <div className="flex items-center gap-1 text-muted-foreground">
-              <span className={isLoud ? 'text-destructive font-bold' : ''}>
-                ⚠️ Threshold: {threshold}%
-              </span>
-            </div>
+            {!voiceActivity && (
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <span className={isLoud ? 'text-destructive font-bold' : ''}>
+                  ⚠️ Threshold: {threshold}%
+                </span>
+              </div>
+            )}
             <span className="text-muted-foreground">Loud</span>
           </div>
 
           <div className="flex items-center gap-2 text-xs mt-2">
             <div className={`w-2 h-2 rounded-full ${isLoud ? 'bg-red-500' : 'bg-green-500'} animate-pulse`}></div>
             <span className="text-muted-foreground">
-              Status: {isLoud ? 'High Noise' : 'Monitoring'}
+              Status: {voiceActivity ? VOICE_STATUS[voiceActivity] : isLoud ? 'High Noise' : 'Monitoring'}
             </span>
           </div>
         </div>
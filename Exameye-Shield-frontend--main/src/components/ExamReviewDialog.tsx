@@ -0,0 +1,100 @@
+import { Flag, CircleDashed, CheckCircle2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+
+interface ExamReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  totalQuestions: number;
+  // Question positions on the paper (1-based), as shown to the student
+  unansweredQuestions: number[];
+  flaggedQuestions: number[];
+  onJumpToQuestion: (position: number) => void;
+  onConfirmSubmit: () => void;
+}
+
+export const ExamReviewDialog = ({
+  open,
+  onOpenChange,
+  totalQuestions,
+  unansweredQuestions,
+  flaggedQuestions,
+  onJumpToQuestion,
+  onConfirmSubmit,
+}: ExamReviewDialogProps) => {
+  const answeredCount = totalQuestions - unansweredQuestions.length;
+
+  const renderQuestionLinks = (questionNumbers: number[]) => (
+    <div className="flex flex-wrap gap-2 mt-2">
+      {questionNumbers.map((questionNumber) => (
+        <Button
+          key={questionNumber}
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 px-2"
+          onClick={() => {
+            onOpenChange(false);
+            onJumpToQuestion(questionNumber);
+          }}
+        >
+          Q{questionNumber}
+        </Button>
+      ))}
+    </div>
+  );
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Review before submitting</AlertDialogTitle>
+          <AlertDialogDescription>
+            Once submitted, you cannot change your answers.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex items-center gap-2">
+            <CheckCircle2 className="w-4 h-4 text-green-600" />
+            <span>{answeredCount} of {totalQuestions} questions answered</span>
+          </div>
+
+          {unansweredQuestions.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 font-medium">
+                <CircleDashed className="w-4 h-4 text-destructive" />
+                Unanswered ({unansweredQuestions.length})
+              </div>
+              {renderQuestionLinks(unansweredQuestions)}
+            </div>
+          )}
+
+          {flaggedQuestions.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 font-medium">
+                <Flag className="w-4 h-4 text-amber-500 fill-amber-500" />
+                Flagged for review ({flaggedQuestions.length})
+              </div>
+              {renderQuestionLinks(flaggedQuestions)}
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep Working</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirmSubmit}>Submit Exam</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { IdCard, Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatSimilarity } from "@/utils/faceIdentity";
+
+type PendingIdCheck = Tables<"id_verifications"> & {
+  students: { name: string; roll_no: string | null; face_image_url: string | null } | null;
+};
+
+// ID card checks StudentVerify couldn't decide automatically; the student waits on the verify
+// page until one of these is approved or rejected
+export const IdReviewQueue = () => {
+  const [pending, setPending] = useState<PendingIdCheck[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadPending = async () => {
+    const { data, error } = await supabase
+      .from('id_verifications')
+      .select(`
+        *,
+        students (
+          name,
+          roll_no,
+          face_image_url
+        )
+      `)
+      .eq('status', 'pending_review')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading ID reviews:', error);
+      return;
+    }
+    setPending((data as unknown as PendingIdCheck[]) || []);
+  };
+
+  useEffect(() => {
+    loadPending();
+
+    const channel = supabase
+      .channel('id-verifications-monitor')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'id_verifications' },
+        (payload) => {
+          console.log('ID verification update:', payload);
+          if (payload.eventType === 'INSERT' && payload.new.status === 'pending_review') {
+            toast.info('A student ID card is waiting for review');
+          }
+          loadPending();
+        }
+      )
+      .subscribe();
+
+    const interval = setInterval(loadPending, 10000);
+
+    return () => {
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const review = async (id: string, status: 'approved' | 'rejected') => {
+    setSavingId(id);
+    const { data: reviewed, error } = await supabase
+      .from('id_verifications')
+      .update({
+        status,
+        reviewed_by: sessionStorage.getItem('adminName') || 'Admin',
+        reviewed_at: new Date().toISOString(),
+        review_note: notes[id]?.trim() || null,
+      })
+      .eq('id', id)
+      .eq('status', 'pending_review')
+      .select('id');
+    setSavingId(null);
+
+    if (error) {
+      console.error('Error saving ID review:', error);
+      toast.error('Failed to save the review');
+      return;
+    }
+    // Only signed-in admins may review, and only while the check is pending
+    if (!reviewed?.length) {
+      toast.error('This ID check was already reviewed, or your admin session has expired');
+      loadPending();
+      return;
+    }
+    toast.success(status === 'approved' ? 'ID approved' : 'ID rejected');
+    loadPending();
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <IdCard className="w-5 h-5" />
+            ID Card Reviews
+          </CardTitle>
+          <Badge variant="secondary">
+            {pending.length} Waiting
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {pending.map((check) => (
+            <div key={check.id} className="p-4 border rounded-lg bg-muted/50">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <p className="font-medium">{check.students?.name || 'Unknown Student'}</p>
+                  <p className="text-sm text-muted-foreground">Roll No: {check.students?.roll_no || 'N/A'}</p>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(check.created_at).toLocaleTimeString()}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">ID card</p>
+                  <img src={check.card_image_url} alt="ID card" className="w-full rounded-md bg-muted" />
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Live face</p>
+                  {check.live_image_url ? (
+                    <img src={check.live_image_url} alt="Live face" className="w-full rounded-md bg-muted" />
+                  ) : (
+                    <div className="aspect-video rounded-md bg-muted" />
+                  )}
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Registered face</p>
+                  {check.students?.face_image_url ? (
+                    <img src={check.students.face_image_url} alt="Registered face" className="w-full rounded-md bg-muted" />
+                  ) : (
+                    <div className="aspect-video rounded-md bg-muted" />
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mb-2">
+                <Badge variant="outline">Face {formatSimilarity(check.face_similarity)}</Badge>
+                <Badge variant="outline">Name {formatSimilarity(check.name_score)}</Badge>
+                <Badge variant={check.roll_no_match ? 'outline' : 'destructive'}>
+                  Roll No {check.roll_no_match ? 'found' : 'not found'}
+                </Badge>
+              </div>
+              {((check.details as { reasons?: string[] } | null)?.reasons ?? []).map((reason) => (
+                <p key={reason} className="text-xs text-muted-foreground">{reason}</p>
+              ))}
+              {check.ocr_text && (
+                <details className="mt-2">
+                  <summary className="text-xs cursor-pointer text-muted-foreground">Text read from the card</summary>
+                  <pre className="text-xs whitespace-pre-wrap mt-1 p-2 bg-background rounded">{check.ocr_text}</pre>
+                </details>
+              )}
+
+              <div className="flex items-center gap-2 mt-3">
+                <Input
+                  placeholder="Note for the student (optional)"
+                  value={notes[check.id] || ''}
+                  onChange={(e) => setNotes(prev => ({ ...prev, [check.id]: e.target.value }))}
+                />
+                <Button
+                  size="sm"
+                  onClick={() => review(check.id, 'approved')}
+                  disabled={savingId === check.id}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => review(check.id, 'rejected')}
+                  disabled={savingId === check.id}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,79 @@
+import { Flag, ListChecks } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+
+interface QuestionNavigatorProps {
+  // Canonical question numbers in paper order; buttons are labelled by position
+  questionNumbers: number[];
+  currentIndex: number;
+  answers: { [key: number]: string };
+  flags: { [key: number]: boolean };
+  onSelect: (index: number) => void;
+}
+
+const isAnswered = (answer?: string) => !!answer && answer.trim() !== '';
+
+export const QuestionNavigator = ({
+  questionNumbers,
+  currentIndex,
+  answers,
+  flags,
+  onSelect,
+}: QuestionNavigatorProps) => {
+  const answeredCount = questionNumbers.filter(q => isAnswered(answers[q])).length;
+  const flaggedCount = questionNumbers.filter(q => flags[q]).length;
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <ListChecks className="w-4 h-4 text-primary" />
+            <h3 className="font-semibold">Questions</h3>
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {answeredCount}/{questionNumbers.length} answered
+          </span>
+        </div>
+
+        <div className="grid grid-cols-6 gap-2">
+          {questionNumbers.map((questionNumber, index) => {
+            const answered = isAnswered(answers[questionNumber]);
+            const flagged = !!flags[questionNumber];
+            const current = index === currentIndex;
+
+            return (
+              <button
+                key={questionNumber}
+                type="button"
+                onClick={() => onSelect(index)}
+                title={`Question ${index + 1}${flagged ? ' (flagged)' : ''}${answered ? '' : ' (unanswered)'}`}
+                className={`relative h-9 rounded-md border-2 text-sm font-semibold transition-colors ${
+                  answered
+                    ? 'bg-green-600 border-green-600 text-white hover:bg-green-700'
+                    : 'bg-background border-border hover:bg-accent'
+                } ${current ? 'ring-2 ring-primary ring-offset-2' : ''}`}
+              >
+                {index + 1}
+                {flagged && (
+                  <Flag className="absolute -top-1.5 -right-1.5 w-3.5 h-3.5 text-amber-500 fill-amber-500" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap gap-3 mt-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm bg-green-600"></span> Answered
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm border-2 border-border"></span> Unanswered
+          </span>
+          <span className="flex items-center gap-1">
+            <Flag className="w-3 h-3 text-amber-500 fill-amber-500" /> Flagged ({flaggedCount})
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
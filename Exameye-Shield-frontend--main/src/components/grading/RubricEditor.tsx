@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { rubricMaxPoints, type RubricCriterion } from "@/utils/grading";
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  questionPoints: number;
+  saving?: boolean;
+  onSave: (rubric: RubricCriterion[]) => void;
+  onCancel: () => void;
+}
+
+export const RubricEditor = ({ rubric, questionPoints, saving, onSave, onCancel }: RubricEditorProps) => {
+  const [criteria, setCriteria] = useState<RubricCriterion[]>(
+    rubric.length > 0 ? rubric : [{ id: crypto.randomUUID(), description: '', points: questionPoints }]
+  );
+
+  const total = rubricMaxPoints(criteria);
+  const valid = criteria.every(c => c.description.trim() !== '' && c.points >= 0);
+
+  const updateCriterion = (id: string, changes: Partial<RubricCriterion>) => {
+    setCriteria(prev => prev.map(c => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {criteria.map((criterion, index) => (
+        <div key={criterion.id} className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground w-6">{index + 1}.</span>
+          <Input
+            placeholder="Criterion (e.g. Mentions time complexity)"
+            value={criterion.description}
+            onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+          />
+          <Input
+            type="number"
+            min="0"
+            step="0.5"
+            className="w-24"
+            value={criterion.points}
+            onChange={(e) => updateCriterion(criterion.id, { points: parseFloat(e.target.value) || 0 })}
+            aria-label="Points"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => setCriteria(prev => prev.filter(c => c.id !== criterion.id))}
+            aria-label="Remove criterion"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setCriteria(prev => [...prev, { id: crypto.randomUUID(), description: '', points: 1 }])}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Criterion
+        </Button>
+        <span className={`text-sm ${total !== questionPoints ? 'text-warning' : 'text-muted-foreground'}`}>
+          Rubric total: {total} / question worth {questionPoints}
+          {total > questionPoints && ' (awards are capped at the question points)'}
+        </span>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          disabled={!valid || saving}
+          onClick={() => onSave(criteria.map(c => ({ ...c, description: c.description.trim() })))}
+        >
+          {saving ? 'Saving...' : 'Save Rubric'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Json, TablesUpdate } from "@/integrations/supabase/types";
+import { QUESTION_TYPE_LABELS, formatAnswer, getChoiceOptions, getMatchingOptions, getQuestionType } from "@/utils/questionTypes";
+import { DIFFICULTIES, DIFFICULTY_LABELS, parseTagList, type BankQuestion } from "@/utils/questionBank";
+
+interface BankQuestionEditorProps {
+  question: BankQuestion | null;
+  saving?: boolean;
+  onSave: (update: TablesUpdate<"question_bank">) => void;
+  onClose: () => void;
+}
+
+const NO_DIFFICULTY = "none";
+
+const ANSWER_FORMAT_HINTS: Record<string, string> = {
+  mcq: "Option key, e.g. b",
+  multi_select: "Option keys, e.g. a,c",
+  true_false: "true or false",
+  numeric: "Number, e.g. 9.81",
+  matching: "Pairs, e.g. 1:b,2:a",
+  ordering: "Keys in the correct order, e.g. c,a,b",
+  short_answer: "Model answer shown to graders (optional)",
+};
+
+// Edits a bank question. Changing the text, options, answer or points creates a new version
+// in the database; templates already built from the question keep the version they copied.
+export const BankQuestionEditor = ({ question, saving = false, onSave, onClose }: BankQuestionEditorProps) => {
+  const [questionText, setQuestionText] = useState("");
+  const [points, setPoints] = useState("1");
+  const [correctAnswer, setCorrectAnswer] = useState("");
+  const [optionTexts, setOptionTexts] = useState<Record<string, string>>({});
+  const [promptTexts, setPromptTexts] = useState<Record<string, string>>({});
+  const [topic, setTopic] = useState("");
+  const [difficulty, setDifficulty] = useState(NO_DIFFICULTY);
+  const [outcome, setOutcome] = useState("");
+  const [tags, setTags] = useState("");
+  const [archived, setArchived] = useState(false);
+
+  const questionType = question ? getQuestionType(question) : "short_answer";
+
+  useEffect(() => {
+    if (!question) return;
+    setQuestionText(question.question_text);
+    setPoints(String(question.points));
+    setCorrectAnswer(question.correct_answer || "");
+    if (questionType === "matching") {
+      const matching = getMatchingOptions(question);
+      setPromptTexts(matching.prompts);
+      setOptionTexts(matching.choices);
+    } else {
+      setPromptTexts({});
+      setOptionTexts(Object.fromEntries(getChoiceOptions(question)));
+    }
+    setTopic(question.topic || "");
+    setDifficulty(question.difficulty || NO_DIFFICULTY);
+    setOutcome(question.outcome || "");
+    setTags(question.tags.join(", "));
+    setArchived(question.archived);
+  }, [question, questionType]);
+
+  if (!question) return null;
+
+  const buildOptions = (): Json | null => {
+    if (questionType === "matching") return { prompts: promptTexts, choices: optionTexts };
+    return Object.keys(optionTexts).length > 0 ? optionTexts : question.options;
+  };
+
+  const handleSave = () => {
+    onSave({
+      question_text: questionText.trim(),
+      points: Math.max(parseInt(points, 10) || 1, 1),
+      correct_answer: correctAnswer.trim() || null,
+      options: buildOptions(),
+      topic: topic.trim() || null,
+      difficulty: difficulty === NO_DIFFICULTY ? null : difficulty,
+      outcome: outcome.trim() || null,
+      tags: parseTagList(tags),
+      archived,
+    });
+  };
+
+  const renderTextFields = (
+    label: string,
+    values: Record<string, string>,
+    setValues: (values: Record<string, string>) => void
+  ) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      {Object.entries(values).map(([key, text]) => (
+        <div key={key} className="flex items-center gap-2">
+          <span className="w-8 text-sm font-semibold uppercase text-muted-foreground">{key}</span>
+          <Input value={text} onChange={(e) => setValues({ ...values, [key]: e.target.value })} />
+        </div>
+      ))}
+    </div>
+  );
+
+  const previewAnswer = formatAnswer({ ...question, options: buildOptions() }, correctAnswer);
+
+  return (
+    <Dialog open={!!question} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Bank Question</DialogTitle>
+          <DialogDescription>
+            {QUESTION_TYPE_LABELS[questionType]} · version {question.version}. Content changes are saved as
+            version {question.version + 1}; templates that already use this question keep their copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bankQuestionText">Question</Label>
+            <Textarea
+              id="bankQuestionText"
+              value={questionText}
+              onChange={(e) => setQuestionText(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          {questionType === "matching" && renderTextFields("Prompts", promptTexts, setPromptTexts)}
+          {Object.keys(optionTexts).length > 0 &&
+            renderTextFields(questionType === "matching" ? "Matches" : "Options", optionTexts, setOptionTexts)}
+
+          <div className="grid grid-cols-[1fr_120px] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bankCorrectAnswer">Correct Answer</Label>
+              <Input
+                id="bankCorrectAnswer"
+                value={correctAnswer}
+                onChange={(e) => setCorrectAnswer(e.target.value)}
+                placeholder={ANSWER_FORMAT_HINTS[questionType]}
+              />
+              {previewAnswer && <p className="text-xs text-muted-foreground">Reads as: {previewAnswer}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankPoints">Points</Label>
+              <Input
+                id="bankPoints"
+                type="number"
+                min="1"
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bankTopic">Topic</Label>
+              <Input id="bankTopic" value={topic} onChange={(e) => setTopic(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select value={difficulty} onValueChange={setDifficulty}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DIFFICULTY}>Not set</SelectItem>
+                  {DIFFICULTIES.map(level => (
+                    <SelectItem key={level} value={level}>{DIFFICULTY_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankOutcome">Learning Outcome</Label>
+              <Input id="bankOutcome" value={outcome} onChange={(e) => setOutcome(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankTags">Tags</Label>
+              <Input
+                id="bankTags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="comma separated"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between p-3 border rounded-lg">
+            <div>
+              <Label htmlFor="bankArchived">Archived</Label>
+              <p className="text-xs text-muted-foreground">Hidden from search and template assembly</p>
+            </div>
+            <Switch id="bankArchived" checked={archived} onCheckedChange={setArchived} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !questionText.trim()}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
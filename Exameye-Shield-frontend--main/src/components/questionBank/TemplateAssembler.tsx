@@ -0,0 +1,238 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle, Plus, Shuffle, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  assembleQuestions,
+  describeBankQuestion,
+  describeRule,
+  isDifficulty,
+  type AssemblyRule,
+  type BankFacets,
+  type BankQuestion,
+} from "@/utils/questionBank";
+import { DEFAULT_SUBJECTS } from "@/utils/subjects";
+
+export interface AssembledTemplate {
+  templateName: string;
+  subjectCode: string;
+  subjectName: string;
+  durationMinutes: number;
+  questions: BankQuestion[];
+}
+
+interface TemplateAssemblerProps {
+  bank: BankQuestion[];
+  facets: BankFacets;
+  pickedIds: string[];
+  creating?: boolean;
+  onUnpick: (id: string) => void;
+  onCreate: (template: AssembledTemplate) => void;
+}
+
+const ANY = "any";
+
+const newSeed = () => `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Builds a template from hand-picked bank questions plus rules such as "5 easy from topic X".
+// The rule draw is random but stays fixed until "Draw again" so the preview is what gets saved.
+export const TemplateAssembler = ({ bank, facets, pickedIds, creating = false, onUnpick, onCreate }: TemplateAssemblerProps) => {
+  const [rules, setRules] = useState<AssemblyRule[]>([]);
+  const [seed, setSeed] = useState(newSeed);
+  const [templateName, setTemplateName] = useState("");
+  const [subjectCode, setSubjectCode] = useState("");
+  const [duration, setDuration] = useState(15);
+
+  const result = useMemo(() => assembleQuestions(bank, pickedIds, rules, seed), [bank, pickedIds, rules, seed]);
+  const pickedQuestions = bank.filter(question => pickedIds.includes(question.id));
+  const totalPoints = result.questions.reduce((sum, q) => sum + (q.points || 1), 0);
+  const subject = DEFAULT_SUBJECTS.find(s => s.code === subjectCode);
+
+  const updateRule = (index: number, patch: Partial<AssemblyRule>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const renderFacetSelect = (
+    value: string | undefined,
+    placeholder: string,
+    values: string[],
+    onChange: (value: string | undefined) => void
+  ) => (
+    <Select value={value || ANY} onValueChange={(v) => onChange(v === ANY ? undefined : v)}>
+      <SelectTrigger className="h-8 w-36">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {values.map(v => (
+          <SelectItem key={v} value={v}>{v}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const canCreate =
+    !creating && templateName.trim() !== "" && !!subject && result.questions.length > 0 && result.shortfalls.length === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Assemble Template</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Picked questions ({pickedQuestions.length})</Label>
+          {pickedQuestions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Tick questions in the bank to add them.</p>
+          ) : (
+            <ul className="space-y-1">
+              {pickedQuestions.map(question => (
+                <li key={question.id} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate">{question.question_text}</span>
+                  <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => onUnpick(question.id)}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Rules</Label>
+            <Button variant="outline" size="sm" onClick={() => setRules([...rules, { count: 1 }])}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+          {rules.map((rule, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 p-2 border rounded-lg">
+              <Input
+                type="number"
+                min="1"
+                className="h-8 w-16"
+                value={rule.count}
+                onChange={(e) => updateRule(index, { count: Math.max(parseInt(e.target.value, 10) || 1, 1) })}
+              />
+              <Select
+                value={rule.difficulty || ANY}
+                onValueChange={(v) => updateRule(index, { difficulty: isDifficulty(v) ? v : undefined })}
+              >
+                <SelectTrigger className="h-8 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any level</SelectItem>
+                  {DIFFICULTIES.map(level => (
+                    <SelectItem key={level} value={level}>{DIFFICULTY_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renderFacetSelect(rule.topic, "Any topic", facets.topics, (topic) => updateRule(index, { topic }))}
+              {renderFacetSelect(rule.outcome, "Any outcome", facets.outcomes, (outcome) => updateRule(index, { outcome }))}
+              {renderFacetSelect(rule.tag, "Any tag", facets.tags, (tag) => updateRule(index, { tag }))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 ml-auto"
+                onClick={() => setRules(rules.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {result.shortfalls.map((shortfall, index) => (
+            <p key={index} className="flex items-center gap-1 text-xs text-destructive">
+              <AlertTriangle className="w-3 h-3" />
+              Not enough questions for "{describeRule(shortfall.rule)}" - only {shortfall.available} left
+            </p>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>
+              Paper preview ({result.questions.length} questions, {totalPoints} points)
+            </Label>
+            {rules.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setSeed(newSeed())}>
+                <Shuffle className="w-4 h-4 mr-1" />
+                Draw again
+              </Button>
+            )}
+          </div>
+          <ol className="space-y-1 text-sm list-decimal list-inside max-h-60 overflow-y-auto">
+            {result.questions.map(question => (
+              <li key={question.id}>
+                <span>{question.question_text}</span>
+                <span className="block ml-5 text-xs text-muted-foreground">{describeBankQuestion(question)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="space-y-3 pt-2 border-t">
+          <div className="space-y-2">
+            <Label htmlFor="assembleTemplateName">Template Name</Label>
+            <Input
+              id="assembleTemplateName"
+              placeholder="e.g., Midterm - Spring 2025"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-[1fr_120px] gap-3">
+            <div className="space-y-2">
+              <Label>Subject</Label>
+              <Select value={subjectCode} onValueChange={setSubjectCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFAULT_SUBJECTS.map(s => (
+                    <SelectItem key={s.code} value={s.code}>
+                      {s.name} - {s.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assembleDuration">Minutes</Label>
+              <Input
+                id="assembleDuration"
+                type="number"
+                min="1"
+                max="300"
+                value={duration}
+                onChange={(e) => setDuration(parseInt(e.target.value) || 15)}
+              />
+            </div>
+          </div>
+          <Button
+            className="w-full"
+            disabled={!canCreate}
+            onClick={() =>
+              subject &&
+              onCreate({
+                templateName: templateName.trim(),
+                subjectCode: subject.code,
+                subjectName: subject.name,
+                durationMinutes: duration,
+                questions: result.questions,
+              })
+            }
+          >
+            {creating ? "Creating..." : "Create Template"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,39 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getMatchingOptions, parsePairs, serializePairs } from "@/utils/questionTypes";
+import type { QuestionInputProps } from "./types";
+
+export const MatchingQuestionInput = ({ question, value, onChange }: QuestionInputProps) => {
+  const { prompts, choices } = getMatchingOptions(question);
+  const pairs = parsePairs(value);
+  const choiceEntries = Object.entries(choices).sort(([a], [b]) => a.localeCompare(b));
+
+  const setPair = (prompt: string, choice: string) => {
+    onChange(serializePairs({ ...pairs, [prompt]: choice }));
+  };
+
+  return (
+    <div className="ml-6 space-y-3">
+      <p className="text-xs text-muted-foreground">Match each item on the left with one on the right.</p>
+      {Object.entries(prompts).map(([promptKey, promptText]) => (
+        <div key={promptKey} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+          <div className="p-3 rounded-lg border-2 border-border">
+            <span className="font-semibold text-sm mr-2">{promptKey}.</span>
+            {promptText}
+          </div>
+          <Select value={pairs[promptKey] || ''} onValueChange={(choice) => setPair(promptKey, choice)}>
+            <SelectTrigger className={pairs[promptKey] ? 'border-primary' : ''}>
+              <SelectValue placeholder="Select a match" />
+            </SelectTrigger>
+            <SelectContent>
+              {choiceEntries.map(([choiceKey, choiceText]) => (
+                <SelectItem key={choiceKey} value={choiceKey}>
+                  {choiceText}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+};
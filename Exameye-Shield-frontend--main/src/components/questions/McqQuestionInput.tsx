@@ -0,0 +1,30 @@
+import { getDisplayedOptions } from "@/utils/examPaper";
+import type { QuestionInputProps } from "./types";
+
+export const McqQuestionInput = ({ question, value, onChange, optionOrder }: QuestionInputProps) => (
+  <div className="space-y-3 ml-6">
+    {getDisplayedOptions(question, optionOrder).map(({ key, label, text }) => (
+      <label
+        key={key}
+        className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all hover:bg-accent ${
+          value === key
+            ? 'border-primary bg-primary/5'
+            : 'border-border'
+        }`}
+      >
+        <input
+          type="radio"
+          name={`question-${question.question_number}`}
+          value={key}
+          checked={value === key}
+          onChange={(e) => onChange(e.target.value)}
+          className="mt-1"
+        />
+        <div className="flex-1">
+          <span className="font-semibold text-sm uppercase mr-2">{label})</span>
+          <span>{text}</span>
+        </div>
+      </label>
+    ))}
+  </div>
+);
@@ -0,0 +1,41 @@
+import { parseKeyList, serializeKeyList } from "@/utils/questionTypes";
+import { getDisplayedOptions } from "@/utils/examPaper";
+import type { QuestionInputProps } from "./types";
+
+export const MultiSelectQuestionInput = ({ question, value, onChange, optionOrder }: QuestionInputProps) => {
+  const selected = parseKeyList(value);
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = checked ? [...selected, key] : selected.filter(k => k !== key);
+    onChange(serializeKeyList(next, true));
+  };
+
+  return (
+    <div className="space-y-3 ml-6">
+      <p className="text-xs text-muted-foreground">Select all that apply.</p>
+      {getDisplayedOptions(question, optionOrder).map(({ key, label, text }) => {
+        const checked = selected.includes(key);
+        return (
+          <label
+            key={key}
+            className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all hover:bg-accent ${
+              checked ? 'border-primary bg-primary/5' : 'border-border'
+            }`}
+          >
+            <input
+              type="checkbox"
+              name={`question-${question.question_number}-${key}`}
+              checked={checked}
+              onChange={(e) => toggle(key, e.target.checked)}
+              className="mt-1"
+            />
+            <div className="flex-1">
+              <span className="font-semibold text-sm uppercase mr-2">{label})</span>
+              <span>{text}</span>
+            </div>
+          </label>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { Input } from "@/components/ui/input";
+import { getQuestionConfig, isAnswered, parseNumber } from "@/utils/questionTypes";
+import type { QuestionInputProps } from "./types";
+
+export const NumericQuestionInput = ({ question, value, onChange }: QuestionInputProps) => {
+  const { unit } = getQuestionConfig(question);
+  const invalid = isAnswered(value) && parseNumber(value) === null;
+
+  return (
+    <div className="ml-6 space-y-1">
+      <div className="flex items-center gap-2 max-w-xs">
+        <Input
+          type="text"
+          inputMode="decimal"
+          placeholder="Enter a number"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          aria-invalid={invalid}
+          className={invalid ? 'border-destructive' : ''}
+        />
+        {unit && <span className="text-sm text-muted-foreground whitespace-nowrap">{unit}</span>}
+      </div>
+      {invalid && <p className="text-xs text-destructive">Please enter a numeric value.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getChoiceOptions, isAnswered, parseKeyList, serializeKeyList } from "@/utils/questionTypes";
+import type { QuestionInputProps } from "./types";
+
+export const OrderingQuestionInput = ({ question, value, onChange }: QuestionInputProps) => {
+  const options = getChoiceOptions(question);
+  const texts = Object.fromEntries(options);
+  const saved = parseKeyList(value).filter(key => key in texts);
+  // Start from the stored order; keys are shuffled at upload so key order is not the answer
+  const order = saved.length === options.length ? saved : options.map(([key]) => key);
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(serializeKeyList(next));
+  };
+
+  return (
+    <div className="ml-6 space-y-2">
+      <p className="text-xs text-muted-foreground">Arrange the items in the correct order (first at the top).</p>
+      {order.map((key, index) => (
+        <div
+          key={key}
+          className={`flex items-center gap-3 p-3 rounded-lg border-2 ${
+            isAnswered(value) ? 'border-primary bg-primary/5' : 'border-border'
+          }`}
+        >
+          <span className="font-semibold text-sm w-6">{index + 1}.</span>
+          <span className="flex-1">{texts[key]}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            disabled={index === 0}
+            onClick={() => move(index, -1)}
+            aria-label="Move up"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            disabled={index === order.length - 1}
+            onClick={() => move(index, 1)}
+            aria-label="Move down"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {!isAnswered(value) && (
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange(serializeKeyList(order))}>
+          Keep this order
+        </Button>
+      )}
+    </div>
+  );
+};
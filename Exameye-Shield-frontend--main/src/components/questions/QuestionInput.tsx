@@ -0,0 +1,29 @@
+import { getQuestionType } from "@/utils/questionTypes";
+import { McqQuestionInput } from "./McqQuestionInput";
+import { MultiSelectQuestionInput } from "./MultiSelectQuestionInput";
+import { TrueFalseQuestionInput } from "./TrueFalseQuestionInput";
+import { NumericQuestionInput } from "./NumericQuestionInput";
+import { MatchingQuestionInput } from "./MatchingQuestionInput";
+import { OrderingQuestionInput } from "./OrderingQuestionInput";
+import { ShortAnswerQuestionInput } from "./ShortAnswerQuestionInput";
+import type { QuestionInputProps } from "./types";
+
+// Picks the answer widget for the question's type
+export const QuestionInput = (props: QuestionInputProps) => {
+  switch (getQuestionType(props.question)) {
+    case 'mcq':
+      return <McqQuestionInput {...props} />;
+    case 'multi_select':
+      return <MultiSelectQuestionInput {...props} />;
+    case 'true_false':
+      return <TrueFalseQuestionInput {...props} />;
+    case 'numeric':
+      return <NumericQuestionInput {...props} />;
+    case 'matching':
+      return <MatchingQuestionInput {...props} />;
+    case 'ordering':
+      return <OrderingQuestionInput {...props} />;
+    default:
+      return <ShortAnswerQuestionInput {...props} />;
+  }
+};
@@ -0,0 +1,12 @@
+import { Textarea } from "@/components/ui/textarea";
+import type { QuestionInputProps } from "./types";
+
+export const ShortAnswerQuestionInput = ({ value, onChange }: QuestionInputProps) => (
+  <Textarea
+    placeholder="Type your answer here..."
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    rows={6}
+    className="resize-none ml-6"
+  />
+);
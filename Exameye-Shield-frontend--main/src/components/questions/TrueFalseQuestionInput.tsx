@@ -0,0 +1,28 @@
+import type { QuestionInputProps } from "./types";
+
+const CHOICES = [
+  { value: 'true', label: 'True' },
+  { value: 'false', label: 'False' },
+];
+
+export const TrueFalseQuestionInput = ({ question, value, onChange }: QuestionInputProps) => (
+  <div className="grid grid-cols-2 gap-3 ml-6">
+    {CHOICES.map((choice) => (
+      <label
+        key={choice.value}
+        className={`flex items-center gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all hover:bg-accent ${
+          value === choice.value ? 'border-primary bg-primary/5' : 'border-border'
+        }`}
+      >
+        <input
+          type="radio"
+          name={`question-${question.question_number}`}
+          value={choice.value}
+          checked={value === choice.value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+        <span className="font-medium">{choice.label}</span>
+      </label>
+    ))}
+  </div>
+);
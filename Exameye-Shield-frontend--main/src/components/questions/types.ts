@@ -0,0 +1,10 @@
+import type { QuestionDefinition } from '@/utils/questionTypes';
+
+export interface QuestionInputProps {
+  question: QuestionDefinition & { question_number: number };
+  // Serialized answer as stored in exam_answers.answer ('' when unanswered)
+  value: string;
+  onChange: (value: string) => void;
+  // Canonical option keys in display order when options are shuffled (mcq and multi_select)
+  optionOrder?: string[];
+}
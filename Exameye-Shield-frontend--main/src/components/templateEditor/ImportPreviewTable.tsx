@@ -0,0 +1,108 @@
+import { AlertTriangle, CheckCircle, XCircle } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { QUESTION_TYPE_LABELS, formatAnswer } from "@/utils/questionTypes";
+import { draftToQuestion } from "@/utils/templateDraft";
+import type { ParsedQuestion } from "@/utils/templateSpreadsheet";
+import type { ImportIssue, QuestionSetImport } from "@/utils/questionFormats";
+
+interface ImportPreviewTableProps {
+  result: QuestionSetImport;
+}
+
+interface PreviewRow {
+  line?: number;
+  item: string;
+  question: ParsedQuestion | null;
+  issues: ImportIssue[];
+}
+
+const sameSource = (issue: ImportIssue, item: string, line?: number) =>
+  issue.item === item && issue.line === line;
+
+// Every question of an import, plus a row for each one that could not be read, in file order
+export const ImportPreviewTable = ({ result }: ImportPreviewTableProps) => {
+  const rows: PreviewRow[] = [
+    ...result.questions.map(({ draft, item, line }, index) => ({
+      line,
+      item,
+      question: draftToQuestion(draft, index),
+      issues: result.issues.filter(issue => !issue.skipped && sameSource(issue, item, line)),
+    })),
+    ...result.issues
+      .filter(issue => issue.skipped)
+      .map(issue => ({ line: issue.line, item: issue.item, question: null, issues: [issue] })),
+  ];
+  if (rows.every(row => row.line !== undefined)) {
+    rows.sort((a, b) => a.line! - b.line!);
+  }
+
+  const errorCount = rows.filter(row => !row.question).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {result.questions.length} question{result.questions.length === 1 ? "" : "s"} ready to import
+        {errorCount > 0 && `, ${errorCount} with errors that will be skipped`}
+      </p>
+      <div className="rounded-md border max-h-[600px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Line</TableHead>
+              <TableHead>Question</TableHead>
+              <TableHead className="w-32">Type</TableHead>
+              <TableHead>Correct Answer</TableHead>
+              <TableHead className="w-16">Points</TableHead>
+              <TableHead className="w-1/4">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow
+                key={index}
+                className={!row.question ? "bg-destructive/10" : row.issues.length > 0 ? "bg-warning/10" : ""}
+              >
+                <TableCell className="font-mono text-xs">{row.line ?? "—"}</TableCell>
+                <TableCell>
+                  <p className="text-xs text-muted-foreground">{row.item}</p>
+                  {row.question && <p className="text-sm line-clamp-2">{row.question.question_text}</p>}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {row.question ? QUESTION_TYPE_LABELS[row.question.question_type] : "—"}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {row.question ? formatAnswer(row.question, row.question.correct_answer) || "—" : "—"}
+                </TableCell>
+                <TableCell className="text-sm">{row.question?.points ?? "—"}</TableCell>
+                <TableCell>
+                  {row.issues.length === 0 ? (
+                    <span className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+                      <CheckCircle className="w-3.5 h-3.5" />
+                      OK
+                    </span>
+                  ) : (
+                    <ul className="space-y-1">
+                      {row.issues.map((issue, issueIndex) => (
+                        <li
+                          key={issueIndex}
+                          className={`flex items-start gap-1 text-xs ${issue.skipped ? "text-destructive" : "text-warning"}`}
+                        >
+                          {issue.skipped ? (
+                            <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                          ) : (
+                            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                          )}
+                          <span>{issue.line && issue.line !== row.line ? `Line ${issue.line}: ${issue.message}` : issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { ImportIssue } from "@/utils/questionFormats";
+
+interface ImportReportProps {
+  issues: ImportIssue[];
+  // "imported" or "exported", used in the summary line
+  action: string;
+}
+
+export const ImportReport = ({ issues, action }: ImportReportProps) => {
+  if (issues.length === 0) return null;
+
+  const skipped = issues.filter(issue => issue.skipped);
+  const changed = issues.filter(issue => !issue.skipped);
+
+  return (
+    <div className="rounded-lg border border-warning/40 bg-warning/5 p-4 space-y-3">
+      <p className="text-sm font-medium">
+        {skipped.length > 0 && `${skipped.length} item${skipped.length === 1 ? "" : "s"} could not be ${action}. `}
+        {changed.length > 0 && `${changed.length} note${changed.length === 1 ? "" : "s"} on items that were ${action} with changes.`}
+      </p>
+      <ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+        {[...skipped, ...changed].map((issue, index) => (
+          <li key={index} className="flex items-start gap-2">
+            {issue.skipped ? (
+              <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+            ) : (
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-warning" />
+            )}
+            <span>
+              <span className="font-medium">
+                {issue.line ? `Line ${issue.line}, ` : ""}{issue.item}:
+              </span>{" "}
+              {issue.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  optionKey,
+  parseKeyList,
+  serializeKeyList,
+  type QuestionType,
+  type ScoringMode,
+} from "@/utils/questionTypes";
+import {
+  TYPES_WITH_OPTIONS,
+  joinMatchingOption,
+  splitMatchingOption,
+  type QuestionDraft,
+} from "@/utils/templateDraft";
+
+interface QuestionDraftFormProps {
+  draft: QuestionDraft;
+  onChange: (draft: QuestionDraft) => void;
+}
+
+const SCORED_TYPES: QuestionType[] = ["multi_select", "matching", "ordering"];
+
+export const QuestionDraftForm = ({ draft, onChange }: QuestionDraftFormProps) => {
+  // Any edit detaches the question from the bank version it was copied from
+  const update = (patch: Partial<QuestionDraft>) =>
+    onChange({ ...draft, ...patch, bank_question_id: null, bank_version: null });
+
+  const changeType = (questionType: QuestionType) => {
+    const needsOptions = TYPES_WITH_OPTIONS.includes(questionType);
+    const keepOptions = needsOptions && TYPES_WITH_OPTIONS.includes(draft.question_type) &&
+      (questionType === "matching") === (draft.question_type === "matching");
+    update({
+      question_type: questionType,
+      options: keepOptions ? draft.options : needsOptions ? ["", ""] : [],
+      correct_answer: keepOptions && (questionType === "mcq" || questionType === "multi_select")
+        ? parseKeyList(draft.correct_answer).slice(0, questionType === "mcq" ? 1 : undefined).join(",")
+        : "",
+    });
+  };
+
+  const setOption = (index: number, value: string) =>
+    update({ options: draft.options.map((option, i) => (i === index ? value : option)) });
+
+  // Removing an option re-letters the ones after it, so move the correct answer with them
+  const removeOption = (index: number) => {
+    const correct = parseKeyList(draft.correct_answer)
+      .map(key => draft.options.findIndex((_, i) => optionKey(i) === key))
+      .filter(i => i !== -1 && i !== index)
+      .map(i => optionKey(i > index ? i - 1 : i));
+    update({
+      options: draft.options.filter((_, i) => i !== index),
+      correct_answer: serializeKeyList(correct, true),
+    });
+  };
+
+  const moveOption = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.options.length) return;
+    const options = [...draft.options];
+    [options[index], options[target]] = [options[target], options[index]];
+    update({ options });
+  };
+
+  const toggleCorrect = (key: string, checked: boolean) => {
+    if (draft.question_type === "mcq") {
+      update({ correct_answer: key });
+      return;
+    }
+    const keys = parseKeyList(draft.correct_answer);
+    update({ correct_answer: serializeKeyList(checked ? [...keys, key] : keys.filter(k => k !== key), true) });
+  };
+
+  const renderChoiceOptions = () => {
+    const correctKeys = parseKeyList(draft.correct_answer);
+    return (
+      <div className="space-y-2">
+        <Label>Options (tick the correct {draft.question_type === "mcq" ? "one" : "ones"})</Label>
+        {draft.options.map((option, index) => {
+          const key = optionKey(index);
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type={draft.question_type === "mcq" ? "radio" : "checkbox"}
+                name={`correct-${draft.id}`}
+                checked={correctKeys.includes(key)}
+                onChange={(e) => toggleCorrect(key, e.target.checked)}
+                aria-label={`Option ${key.toUpperCase()} is correct`}
+              />
+              <span className="w-6 text-sm font-semibold uppercase text-muted-foreground">{key}</span>
+              <Input value={option} onChange={(e) => setOption(index, e.target.value)} />
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(index)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderOrderingItems = () => (
+    <div className="space-y-2">
+      <Label>Items in the correct order</Label>
+      {draft.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-6 text-sm font-semibold text-muted-foreground">{index + 1}.</span>
+          <Input value={option} onChange={(e) => setOption(index, e.target.value)} />
+          <Button type="button" variant="ghost" size="sm" onClick={() => moveOption(index, -1)} disabled={index === 0}>
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => moveOption(index, 1)}
+            disabled={index === draft.options.length - 1}
+          >
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(index)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderMatchingPairs = () => (
+    <div className="space-y-2">
+      <Label>Pairs (prompt and its correct match)</Label>
+      {draft.options.map((option, index) => {
+        const [prompt, match] = splitMatchingOption(option);
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <span className="w-6 text-sm font-semibold text-muted-foreground">{index + 1}.</span>
+            <Input
+              placeholder="Prompt"
+              value={prompt}
+              onChange={(e) => setOption(index, joinMatchingOption(e.target.value, match))}
+            />
+            <Input
+              placeholder="Match"
+              value={match}
+              onChange={(e) => setOption(index, joinMatchingOption(prompt, e.target.value))}
+            />
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeOption(index)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`text-${draft.id}`}>Question</Label>
+        <Textarea
+          id={`text-${draft.id}`}
+          rows={3}
+          value={draft.question_text}
+          onChange={(e) => update({ question_text: e.target.value })}
+        />
+      </div>
+
+      <div className="grid grid-cols-[1fr_120px] gap-4">
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select value={draft.question_type} onValueChange={(value) => changeType(value as QuestionType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUESTION_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`points-${draft.id}`}>Points</Label>
+          <Input
+            id={`points-${draft.id}`}
+            type="number"
+            min="1"
+            value={draft.points}
+            onChange={(e) => update({ points: parseInt(e.target.value, 10) || 0 })}
+          />
+        </div>
+      </div>
+
+      {(draft.question_type === "mcq" || draft.question_type === "multi_select") && renderChoiceOptions()}
+      {draft.question_type === "ordering" && renderOrderingItems()}
+      {draft.question_type === "matching" && renderMatchingPairs()}
+
+      {TYPES_WITH_OPTIONS.includes(draft.question_type) && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ options: [...draft.options, draft.question_type === "matching" ? joinMatchingOption("", "") : ""] })}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          {draft.question_type === "matching" ? "Add Pair" : draft.question_type === "ordering" ? "Add Item" : "Add Option"}
+        </Button>
+      )}
+
+      {draft.question_type === "true_false" && (
+        <div className="space-y-2">
+          <Label>Correct Answer</Label>
+          <div className="flex gap-2">
+            {["true", "false"].map(value => (
+              <Button
+                key={value}
+                type="button"
+                variant={draft.correct_answer === value ? "default" : "outline"}
+                onClick={() => update({ correct_answer: value })}
+              >
+                {value === "true" ? "True" : "False"}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {draft.question_type === "numeric" && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`answer-${draft.id}`}>Correct Answer</Label>
+            <Input
+              id={`answer-${draft.id}`}
+              inputMode="decimal"
+              value={draft.correct_answer}
+              onChange={(e) => update({ correct_answer: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`tolerance-${draft.id}`}>Tolerance</Label>
+            <Input
+              id={`tolerance-${draft.id}`}
+              placeholder="e.g. 0.5 or 5%"
+              value={draft.tolerance}
+              onChange={(e) => update({ tolerance: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`unit-${draft.id}`}>Unit</Label>
+            <Input
+              id={`unit-${draft.id}`}
+              value={draft.unit}
+              onChange={(e) => update({ unit: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {draft.question_type === "short_answer" && (
+        <div className="space-y-2">
+          <Label htmlFor={`answer-${draft.id}`}>Model Answer (shown to graders)</Label>
+          <Textarea
+            id={`answer-${draft.id}`}
+            rows={2}
+            value={draft.correct_answer}
+            onChange={(e) => update({ correct_answer: e.target.value })}
+          />
+        </div>
+      )}
+
+      {SCORED_TYPES.includes(draft.question_type) && (
+        <div className="space-y-2">
+          <Label>Scoring</Label>
+          <Select value={draft.scoring} onValueChange={(value) => update({ scoring: value as ScoringMode })}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all_or_nothing">All or nothing</SelectItem>
+              <SelectItem value="partial">Partial credit</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
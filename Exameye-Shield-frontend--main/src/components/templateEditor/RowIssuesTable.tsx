@@ -0,0 +1,66 @@
+import { AlertTriangle, Download, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { summarizeRowIssues, type RowIssue } from "@/utils/templateValidation";
+
+interface RowIssuesTableProps {
+  issues: RowIssue[];
+  onDownload: () => void;
+}
+
+// Spreadsheet validation problems by sheet row, errors first within a row
+export const RowIssuesTable = ({ issues, onDownload }: RowIssuesTableProps) => {
+  if (issues.length === 0) return null;
+
+  const hasErrors = issues.some(issue => issue.severity === "error");
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm">
+          <span className="font-medium">{summarizeRowIssues(issues)}.</span>{" "}
+          <span className="text-muted-foreground">
+            {hasErrors
+              ? "Fix the errors in the sheet and select it again to upload."
+              : "Warnings don't block the upload."}
+          </span>
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={onDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Annotated Sheet
+        </Button>
+      </div>
+      <div className="rounded-md border max-h-72 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Row</TableHead>
+              <TableHead className="w-36">Column</TableHead>
+              <TableHead>Problem</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {issues.map((issue, index) => (
+              <TableRow key={index} className={issue.severity === "error" ? "bg-destructive/10" : "bg-warning/10"}>
+                <TableCell className="font-mono text-xs">{issue.row}</TableCell>
+                <TableCell className="text-xs">{issue.column ?? "—"}</TableCell>
+                <TableCell>
+                  <span
+                    className={`flex items-start gap-1 text-xs ${issue.severity === "error" ? "text-destructive" : "text-warning"}`}
+                  >
+                    {issue.severity === "error" ? (
+                      <XCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                    ) : (
+                      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                    )}
+                    {issue.message}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
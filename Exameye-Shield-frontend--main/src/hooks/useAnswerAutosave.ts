@@ -0,0 +1,313 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { answerJournal, journalKey, type AnswerSyncStatus, type JournaledAnswer } from '@/utils/answerJournal';
+
+const AUTOSAVE_DEBOUNCE_MS = 1500;
+const AUTOSAVE_RETRY_MS = 10000;
+
+interface UseAnswerAutosaveOptions {
+  examId: string | null;
+  studentId: string | null;
+  // Read lazily so the hook always uses the token of the current exam_active_sessions claim
+  getSessionToken: () => string | null;
+  onStaleSession?: () => void;
+  enabled?: boolean;
+}
+
+export const useAnswerAutosave = ({
+  examId,
+  studentId,
+  getSessionToken,
+  onStaleSession,
+  enabled = true,
+}: UseAnswerAutosaveOptions) => {
+  const [answers, setAnswers] = useState<{ [key: number]: string }>({});
+  const [flags, setFlags] = useState<{ [key: number]: boolean }>({});
+  const [saveStatus, setSaveStatus] = useState<{ [key: number]: AnswerSyncStatus }>({});
+  const [restored, setRestored] = useState(false);
+
+  const entriesRef = useRef<Map<number, JournaledAnswer>>(new Map());
+  const flushTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const flushingRef = useRef<Promise<boolean> | null>(null);
+  const staleSessionRef = useRef(false);
+  const getSessionTokenRef = useRef(getSessionToken);
+  const onStaleSessionRef = useRef(onStaleSession);
+
+  useEffect(() => {
+    getSessionTokenRef.current = getSessionToken;
+    onStaleSessionRef.current = onStaleSession;
+  }, [getSessionToken, onStaleSession]);
+
+  const applyStatus = useCallback((questionNumber: number, status: AnswerSyncStatus) => {
+    setSaveStatus(prev => (prev[questionNumber] === status ? prev : { ...prev, [questionNumber]: status }));
+  }, []);
+
+  const syncEntry = useCallback(async (entry: JournaledAnswer): Promise<AnswerSyncStatus> => {
+    const { error } = await supabase
+      .from('exam_answers')
+      .upsert(
+        {
+          exam_id: entry.examId,
+          student_id: entry.studentId,
+          question_number: entry.questionNumber,
+          answer: entry.answer,
+          flagged: entry.flagged,
+          updated_at: entry.updatedAt,
+          session_token: getSessionTokenRef.current(),
+        },
+        { onConflict: 'exam_id,student_id,question_number' }
+      );
+
+    if (!error) return 'saved';
+
+    if (error.message?.includes('stale_session')) {
+      console.error('❌ Answer sync refused - exam is active in another tab');
+      staleSessionRef.current = true;
+      onStaleSessionRef.current?.();
+      return 'pending';
+    }
+    if (error.message?.includes('stale_answer_version')) {
+      console.warn(`⚠️ Q${entry.questionNumber} has a newer saved version on the server`);
+      return 'conflict';
+    }
+
+    // Network or transient error - keep it pending and retry later
+    console.warn(`⚠️ Failed to sync Q${entry.questionNumber}, will retry:`, error.message);
+    return 'pending';
+  }, []);
+
+  const flush = useCallback(async (): Promise<boolean> => {
+    while (flushingRef.current) {
+      // Let the running flush finish, then pick up anything edited meanwhile
+      await flushingRef.current;
+    }
+    if (staleSessionRef.current) return false;
+
+    const run = (async () => {
+      const entries = Array.from(entriesRef.current.values());
+      const pending = entries.filter(entry => entry.status === 'pending');
+      // A conflicting answer is not saved: the server holds a different one until it is resolved
+      const hasConflicts = entries.some(entry => entry.status === 'conflict');
+      if (pending.length === 0) return !hasConflicts;
+
+      console.log(`💾 Syncing ${pending.length} pending answer(s)...`);
+      let allSaved = !hasConflicts;
+
+      for (const entry of pending) {
+        const status = await syncEntry(entry);
+        if (staleSessionRef.current) return false;
+
+        const current = entriesRef.current.get(entry.questionNumber);
+        // A newer edit supersedes this sync result; it stays pending for the next flush
+        if (current && current.updatedAt === entry.updatedAt) {
+          entriesRef.current.set(entry.questionNumber, { ...current, status });
+          applyStatus(entry.questionNumber, status);
+          answerJournal.markStatus(entry.key, status, entry.updatedAt).catch(err =>
+            console.error('Error updating answer journal:', err)
+          );
+        }
+        if (status !== 'saved') allSaved = false;
+      }
+
+      return allSaved;
+    })();
+
+    flushingRef.current = run;
+    try {
+      const allSaved = await run;
+      const hasPending = Array.from(entriesRef.current.values()).some(entry => entry.status === 'pending');
+      if (hasPending && !staleSessionRef.current && !retryTimeoutRef.current) {
+        retryTimeoutRef.current = setTimeout(() => {
+          retryTimeoutRef.current = null;
+          flush();
+        }, AUTOSAVE_RETRY_MS);
+      }
+      return allSaved;
+    } finally {
+      flushingRef.current = null;
+    }
+  }, [syncEntry, applyStatus]);
+
+  const scheduleFlush = useCallback(() => {
+    if (flushTimeoutRef.current) {
+      clearTimeout(flushTimeoutRef.current);
+    }
+    flushTimeoutRef.current = setTimeout(() => {
+      flushTimeoutRef.current = null;
+      flush();
+    }, AUTOSAVE_DEBOUNCE_MS);
+  }, [flush]);
+
+  // Answer and flag travel together as one versioned row per question
+  const writeEntry = useCallback((questionNumber: number, changes: { answer?: string; flagged?: boolean }) => {
+    if (!examId || !studentId) return;
+
+    const previous = entriesRef.current.get(questionNumber);
+    const entry: JournaledAnswer = {
+      key: journalKey(examId, studentId, questionNumber),
+      examId,
+      studentId,
+      questionNumber,
+      answer: changes.answer ?? previous?.answer ?? '',
+      flagged: changes.flagged ?? previous?.flagged ?? false,
+      updatedAt: new Date().toISOString(),
+      status: 'pending',
+    };
+
+    entriesRef.current.set(questionNumber, entry);
+    setAnswers(prev => ({ ...prev, [questionNumber]: entry.answer }));
+    setFlags(prev => ({ ...prev, [questionNumber]: entry.flagged }));
+    applyStatus(questionNumber, 'pending');
+
+    answerJournal.put(entry).catch(err => console.error('Error writing answer journal:', err));
+    scheduleFlush();
+  }, [examId, studentId, applyStatus, scheduleFlush]);
+
+  // Keeps the local version of every conflicting answer: it is re-sent with a newer version so
+  // it overwrites the server's. Called before submit so the graded answers are the stored ones.
+  const resolveConflicts = useCallback(() => {
+    const conflicts = Array.from(entriesRef.current.values()).filter(entry => entry.status === 'conflict');
+    conflicts.forEach(entry => writeEntry(entry.questionNumber, {}));
+    if (conflicts.length > 0) {
+      console.log(`💾 Keeping local version of ${conflicts.length} conflicting answer(s)`);
+    }
+    return conflicts.length;
+  }, [writeEntry]);
+
+  const setAnswer = useCallback((questionNumber: number, answer: string) => {
+    writeEntry(questionNumber, { answer });
+  }, [writeEntry]);
+
+  const toggleFlag = useCallback((questionNumber: number) => {
+    writeEntry(questionNumber, { flagged: !entriesRef.current.get(questionNumber)?.flagged });
+  }, [writeEntry]);
+
+  const clearJournal = useCallback(async () => {
+    if (!examId || !studentId) return;
+    try {
+      await answerJournal.clear(examId, studentId);
+    } catch (err) {
+      console.error('Error clearing answer journal:', err);
+    }
+  }, [examId, studentId]);
+
+  // Restore answers from the local journal and the server, keeping the newest version of each
+  useEffect(() => {
+    if (!enabled || !examId || !studentId) return;
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const [localEntries, { data: serverRows, error }] = await Promise.all([
+          answerJournal.getAll(examId, studentId),
+          supabase
+            .from('exam_answers')
+            .select('question_number, answer, flagged, updated_at')
+            .eq('exam_id', examId)
+            .eq('student_id', studentId),
+        ]);
+
+        if (error) {
+          console.warn('⚠️ Could not load saved answers from server, using local journal only:', error.message);
+        }
+        if (cancelled) return;
+
+        const merged = new Map<number, JournaledAnswer>();
+        localEntries.forEach(entry => merged.set(entry.questionNumber, entry));
+
+        (serverRows || []).forEach(row => {
+          const serverUpdatedAt = row.updated_at || new Date(0).toISOString();
+          const local = merged.get(row.question_number);
+          const serverIsNewer = !local || new Date(serverUpdatedAt).getTime() > new Date(local.updatedAt).getTime();
+
+          if (local && local.status !== 'saved' && serverIsNewer) {
+            // Unsynced local edit but the server holds a newer version from another session
+            merged.set(row.question_number, { ...local, status: 'conflict' });
+          } else if (serverIsNewer) {
+            merged.set(row.question_number, {
+              key: journalKey(examId, studentId, row.question_number),
+              examId,
+              studentId,
+              questionNumber: row.question_number,
+              answer: row.answer || '',
+              flagged: !!row.flagged,
+              updatedAt: serverUpdatedAt,
+              status: 'saved',
+            });
+          }
+        });
+
+        // Local entries that never reached the server must be re-sent
+        merged.forEach((entry, questionNumber) => {
+          const onServer = (serverRows || []).some(row => row.question_number === questionNumber);
+          if (!onServer && entry.status === 'saved' && !error) {
+            merged.set(questionNumber, { ...entry, status: 'pending' });
+          }
+        });
+
+        // Edits made while restoring win over restored values
+        entriesRef.current.forEach((entry, questionNumber) => merged.set(questionNumber, entry));
+        entriesRef.current = merged;
+
+        const restoredAnswers: { [key: number]: string } = {};
+        const restoredFlags: { [key: number]: boolean } = {};
+        const restoredStatus: { [key: number]: AnswerSyncStatus } = {};
+        merged.forEach((entry, questionNumber) => {
+          restoredAnswers[questionNumber] = entry.answer;
+          restoredFlags[questionNumber] = !!entry.flagged;
+          restoredStatus[questionNumber] = entry.status;
+          answerJournal.put(entry).catch(err => console.error('Error writing answer journal:', err));
+        });
+
+        setAnswers(restoredAnswers);
+        setFlags(restoredFlags);
+        setSaveStatus(restoredStatus);
+        console.log(`✅ Restored ${merged.size} answer(s) from journal/server`);
+
+        if (Array.from(merged.values()).some(entry => entry.status === 'pending')) {
+          flush();
+        }
+      } catch (err) {
+        console.error('Error restoring answers:', err);
+      } finally {
+        if (!cancelled) setRestored(true);
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, examId, studentId, flush]);
+
+  // Retry pending writes as soon as connectivity returns
+  useEffect(() => {
+    if (!enabled) return;
+    const handleOnline = () => {
+      console.log('🌐 Back online - syncing pending answers');
+      flush();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [enabled, flush]);
+
+  useEffect(() => {
+    return () => {
+      if (flushTimeoutRef.current) clearTimeout(flushTimeoutRef.current);
+      if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
+    };
+  }, []);
+
+  return {
+    answers,
+    flags,
+    saveStatus,
+    restored,
+    setAnswer,
+    toggleFlag,
+    flush,
+    resolveConflicts,
+    clearJournal,
+  };
+};
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { aiDetector } from '@/utils/aiDetection';
+import { violationLogger, type ViolationStudent } from '@/utils/violationLogger';
+import {
+  FALLBACK_INTERVAL_MS,
+  FALLBACK_START_AFTER_MS,
+  applyCooldown,
+  bufferCapture,
+  violationsFromDetections,
+  type FallbackCapture,
+  type FallbackViolation,
+} from '@/utils/fallbackDetection';
+
+const FLUSH_RETRY_MS = 10000;
+// MediaPipe never answers for some frames; don't let one stall the loop
+const FACE_DETECTION_TIMEOUT_MS = 3000;
+
+interface UseFallbackDetectionOptions {
+  videoRef: RefObject<HTMLVideoElement>;
+  student: ViolationStudent;
+  // Start of the current proctoring outage (ConnectionHealth.offlineSince); null while connected
+  offlineSince: number | null;
+  onViolation?: (violation: FallbackViolation) => void;
+  enabled?: boolean;
+}
+
+// Runs the in-browser detector while the proctoring service is unreachable (see
+// utils/fallbackDetection.ts). The models are loaded as soon as the exam starts, so they are
+// ready even if the outage takes the whole network down.
+export const useFallbackDetection = ({
+  videoRef,
+  student,
+  offlineSince,
+  onViolation,
+  enabled = true,
+}: UseFallbackDetectionOptions) => {
+  const [active, setActive] = useState(false);
+  const [bufferedCount, setBufferedCount] = useState(0);
+
+  const modelsRef = useRef<Promise<boolean> | null>(null);
+  const bufferRef = useRef<FallbackCapture[]>([]);
+  const lastReportedAtRef = useRef<Map<string, number>>(new Map());
+  const flushingRef = useRef(false);
+  const studentRef = useRef(student);
+  const onViolationRef = useRef(onViolation);
+
+  useEffect(() => {
+    studentRef.current = student;
+    onViolationRef.current = onViolation;
+  }, [student, onViolation]);
+
+  // Resolves false if the models failed to load; the next call tries again
+  const loadModels = useCallback((): Promise<boolean> => {
+    if (!modelsRef.current) {
+      modelsRef.current = aiDetector
+        .initialize()
+        .then(() => true)
+        .catch(error => {
+          console.error('❌ Failed to load fallback detection models:', error);
+          modelsRef.current = null;
+          return false;
+        });
+    }
+    return modelsRef.current;
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || bufferRef.current.length === 0) return;
+    flushingRef.current = true;
+    try {
+      while (bufferRef.current.length > 0) {
+        const capture = bufferRef.current[0];
+        const remaining = await violationLogger.logFallbackCapture(capture, studentRef.current);
+        if (remaining.violations.length > 0) {
+          // Keep what is left, with the uploaded image, for the next attempt
+          bufferRef.current = bufferRef.current.map(entry => (entry.id === capture.id ? remaining : entry));
+          break;
+        }
+        bufferRef.current = bufferRef.current.filter(entry => entry.id !== capture.id);
+        console.log(`📤 Fallback detection capture uploaded (${capture.violations.length} violation(s))`);
+      }
+    } finally {
+      flushingRef.current = false;
+      setBufferedCount(bufferRef.current.length);
+    }
+  }, []);
+
+  const detectOnce = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return;
+
+    const detections = await aiDetector.detectObjects(video);
+    const faceCount = await Promise.race([
+      aiDetector.detectFaces(video),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), FACE_DETECTION_TIMEOUT_MS)),
+    ]);
+    const violations = applyCooldown(violationsFromDetections(detections, faceCount), lastReportedAtRef.current);
+    if (violations.length === 0) return;
+
+    console.log('🚨 Fallback detection:', violations.map(violation => violation.type).join(', '));
+    bufferRef.current = bufferCapture(bufferRef.current, {
+      id: crypto.randomUUID(),
+      occurredAt: new Date().toISOString(),
+      snapshot: aiDetector.captureSnapshot(video),
+      violations,
+    });
+    setBufferedCount(bufferRef.current.length);
+    violations.forEach(violation => onViolationRef.current?.(violation));
+    flush();
+  }, [videoRef, flush]);
+
+  // Load the models up front
+  useEffect(() => {
+    if (enabled) loadModels();
+  }, [enabled, loadModels]);
+
+  // Take over once the outage has lasted FALLBACK_START_AFTER_MS
+  useEffect(() => {
+    if (!enabled || offlineSince === null) {
+      setActive(false);
+      return;
+    }
+    const timeout = setTimeout(() => setActive(true), Math.max(0, offlineSince + FALLBACK_START_AFTER_MS - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [enabled, offlineSince]);
+
+  useEffect(() => {
+    if (!active) return;
+    console.warn('⚠️ Proctoring service unreachable - switching to in-browser detection');
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const tick = async () => {
+      if (await loadModels()) {
+        try {
+          await detectOnce();
+        } catch (error) {
+          console.error('❌ Fallback detection failed:', error);
+        }
+      }
+      if (!cancelled) timeout = setTimeout(tick, FALLBACK_INTERVAL_MS);
+    };
+    tick();
+
+    return () => {
+      cancelled = true;
+      if (timeout) clearTimeout(timeout);
+      console.log('✅ Proctoring service back - in-browser detection stopped');
+    };
+  }, [active, loadModels, detectOnce]);
+
+  // Keep retrying uploads that failed (e.g. Supabase unreachable too)
+  useEffect(() => {
+    if (bufferedCount === 0) return;
+    const interval = setInterval(flush, FLUSH_RETRY_MS);
+    return () => clearInterval(interval);
+  }, [bufferedCount, flush]);
+
+  useEffect(() => {
+    return () => {
+      aiDetector.cleanup();
+      modelsRef.current = null;
+    };
+  }, []);
+
+  return { active, bufferedCount, flush };
+};
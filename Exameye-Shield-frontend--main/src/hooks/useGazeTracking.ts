@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { faceLandmarkTracker } from '@/utils/faceLandmarks';
+import {
+  calibrationFromSamples,
+  gazeOffset,
+  gazeSample,
+  smoothGaze,
+  trackLookingAway,
+  type GazeCalibration,
+  type GazeDirection,
+  type GazeSample,
+  type LookingAwayEpisode,
+  type LookingAwayState,
+} from '@/utils/headPose';
+
+const SAMPLE_INTERVAL_MS = 250;
+const CALIBRATION_SAMPLE_INTERVAL_MS = 80;
+// Without a stored calibration, the first few seconds of the exam are taken as looking at the screen
+const SELF_CALIBRATION_MS = 3000;
+// MediaPipe never answers for some frames; don't let one stall the loop
+const DETECTION_TIMEOUT_MS = 3000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Single-face samples, null for frames with no face or more than one
+const sampleGaze = async (video: HTMLVideoElement): Promise<GazeSample | null> => {
+  const faces = await Promise.race([
+    faceLandmarkTracker.detect(video),
+    new Promise<null>(resolve => setTimeout(() => resolve(null), DETECTION_TIMEOUT_MS)),
+  ]);
+  if (!faces || faces.length !== 1) return null;
+  return gazeSample(faces[0], video.videoWidth, video.videoHeight);
+};
+
+// The student's straight-at-the-screen pose, for StudentVerify to store with the calibration
+export const calibrateGaze = async (video: HTMLVideoElement, durationMs = 1000): Promise<GazeCalibration | null> => {
+  await faceLandmarkTracker.initialize();
+  const samples: GazeSample[] = [];
+  const end = Date.now() + durationMs;
+  while (Date.now() < end) {
+    const sample = await sampleGaze(video);
+    if (sample) samples.push(sample);
+    await sleep(CALIBRATION_SAMPLE_INTERVAL_MS);
+  }
+  return calibrationFromSamples(samples);
+};
+
+interface UseGazeTrackingOptions {
+  videoRef: RefObject<HTMLVideoElement>;
+  // From the verify page; null to calibrate on the first seconds of the exam
+  calibration: GazeCalibration | null;
+  onLookingAway: (episode: LookingAwayEpisode) => void;
+  enabled?: boolean;
+}
+
+// Measures head pose and gaze on the exam's camera preview (see utils/headPose.ts) and reports
+// each looking-away episode once it ends. active is true once the landmark model is running.
+export const useGazeTracking = ({ videoRef, calibration, onLookingAway, enabled = true }: UseGazeTrackingOptions) => {
+  const [active, setActive] = useState(false);
+  const onLookingAwayRef = useRef(onLookingAway);
+
+  useEffect(() => {
+    onLookingAwayRef.current = onLookingAway;
+  }, [onLookingAway]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    let baseline = calibration;
+    const calibrationSamples: GazeSample[] = [];
+    let calibrationStart: number | null = null;
+    let smoothed: GazeDirection | null = null;
+    let episodeState: LookingAwayState | null = null;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (video && video.videoWidth > 0) {
+        try {
+          const sample = await sampleGaze(video);
+          const t = Date.now();
+          if (!baseline) {
+            calibrationStart ??= t;
+            if (sample) calibrationSamples.push(sample);
+            if (t - calibrationStart >= SELF_CALIBRATION_MS) {
+              baseline = calibrationFromSamples(calibrationSamples);
+              if (baseline) console.log('🎯 Gaze calibrated from the start of the exam:', baseline);
+              else calibrationStart = null;
+            }
+          } else {
+            smoothed = sample ? smoothGaze(smoothed, { t, ...gazeOffset(sample, baseline) }) : null;
+            const result = trackLookingAway(episodeState, smoothed);
+            episodeState = result.state;
+            if (result.episode) {
+              console.log('👀 Looking away:', result.episode);
+              onLookingAwayRef.current(result.episode);
+            }
+          }
+        } catch (error) {
+          console.error('❌ Gaze tracking failed:', error);
+        }
+      }
+      if (!cancelled) timeout = setTimeout(tick, SAMPLE_INTERVAL_MS);
+    };
+
+    faceLandmarkTracker
+      .initialize()
+      .then(() => {
+        if (cancelled) return;
+        console.log('👀 Gaze tracking started', calibration ? 'with stored calibration' : 'without calibration');
+        setActive(true);
+        tick();
+      })
+      .catch(error => {
+        // The server's frame-based head pose check stays in charge
+        console.error('❌ Failed to load face landmark model for gaze tracking:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (timeout) clearTimeout(timeout);
+      setActive(false);
+      faceLandmarkTracker.cleanup();
+    };
+  }, [enabled, calibration, videoRef]);
+
+  return { active };
+};
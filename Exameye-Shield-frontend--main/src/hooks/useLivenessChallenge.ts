@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { faceLandmarkTracker } from '@/utils/faceLandmarks';
+import {
+  BLINKS_REQUIRED,
+  LIVENESS_READY_MS,
+  LIVENESS_STEP_TIMEOUT_MS,
+  TURN_THRESHOLD,
+  VOICED_MIN_MS,
+  countBlinks,
+  createChallenge,
+  detectTurn,
+  digitsFromTranscript,
+  eyeAspectRatio,
+  median,
+  stepPrompt,
+  transcriptMatches,
+  voicedDuration,
+  yawOffset,
+  type LandmarkSample,
+  type LevelSample,
+  type LivenessResult,
+  type LivenessStep,
+  type LivenessStepResult,
+} from '@/utils/liveness';
+
+const SAMPLE_INTERVAL_MS = 80;
+const PAUSE_BETWEEN_STEPS_MS = 600;
+
+// Shown over the camera preview while the challenge runs; step is null during the get-ready phase
+export interface LivenessPrompt {
+  step: LivenessStep | null;
+  index: number;
+  total: number;
+  remainingMs: number;
+}
+
+// The Web Speech API isn't in TypeScript's DOM types; only what is used here
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const speechRecognition = (): SpeechRecognitionConstructor | null => {
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const captureFrame = (video: HTMLVideoElement): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.drawImage(video, 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// Runs the liveness challenge (utils/liveness.ts) on the verify page's camera and microphone
+export const useLivenessChallenge = (videoRef: RefObject<HTMLVideoElement>) => {
+  const [prompt, setPrompt] = useState<LivenessPrompt | null>(null);
+  const cancelledRef = useRef(false);
+
+  useEffect(() => {
+    cancelledRef.current = false;
+    return () => {
+      cancelledRef.current = true;
+      faceLandmarkTracker.cleanup();
+    };
+  }, []);
+
+  // Resolves with the result; rejects if the landmark model can't be loaded
+  const run = useCallback(async (stream: MediaStream): Promise<LivenessResult> => {
+    const video = videoRef.current;
+    if (!video) throw new Error('Camera preview not ready');
+    await faceLandmarkTracker.initialize();
+
+    const startedAt = new Date().toISOString();
+    const challenge = createChallenge();
+    console.log('🧍 Liveness challenge:', challenge.map(step => step.kind).join(' → '));
+
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 256;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const frequencies = new Uint8Array(analyser.frequencyBinCount);
+    const readLevel = () => {
+      analyser.getByteFrequencyData(frequencies);
+      return frequencies.reduce((a, b) => a + b, 0) / frequencies.length;
+    };
+
+    // Samples face and microphone until done() says the step is complete or the time is up
+    const collect = async (
+      durationMs: number,
+      show: Omit<LivenessPrompt, 'remainingMs'>,
+      done?: (landmarks: LandmarkSample[], levels: LevelSample[]) => boolean
+    ) => {
+      const landmarks: LandmarkSample[] = [];
+      const levels: LevelSample[] = [];
+      let multipleFaces = false;
+      const end = Date.now() + durationMs;
+      while (Date.now() < end && !cancelledRef.current) {
+        const faces = await faceLandmarkTracker.detect(video);
+        const t = Date.now();
+        if (faces.length > 1) multipleFaces = true;
+        if (faces.length === 1) landmarks.push({ t, ear: eyeAspectRatio(faces[0]), yaw: yawOffset(faces[0]) });
+        levels.push({ t, level: readLevel() });
+        setPrompt({ ...show, remainingMs: Math.max(0, end - t) });
+        if (done?.(landmarks, levels)) return { landmarks, levels, multipleFaces, completed: true };
+        await sleep(SAMPLE_INTERVAL_MS);
+      }
+      return { landmarks, levels, multipleFaces, completed: false };
+    };
+
+    let speechMethod: LivenessResult['speechMethod'] = speechRecognition() ? 'transcript' : 'energy';
+    const steps: LivenessStepResult[] = [];
+    try {
+      // Straight-ahead pose, open eyes and a quiet microphone to measure against
+      const ready = await collect(LIVENESS_READY_MS, { step: null, index: 0, total: challenge.length });
+      if (ready.landmarks.length === 0) {
+        return { passed: false, message: 'No face in view', steps, speechMethod, startedAt, completedAt: new Date().toISOString() };
+      }
+      const baselineYaw = median(ready.landmarks.map(sample => sample.yaw));
+      const openEar = median(ready.landmarks.map(sample => sample.ear));
+      const quietLevel = median(ready.levels.map(sample => sample.level));
+
+      for (const [index, step] of challenge.entries()) {
+        if (cancelledRef.current) break;
+        const show = { step, index, total: challenge.length };
+        const stepStart = Date.now();
+        let detail = '';
+        let passed = false;
+
+        if (step.kind === 'say_number') {
+          let transcript = '';
+          let recognition: SpeechRecognitionLike | null = null;
+          const Recognition = speechMethod === 'transcript' ? speechRecognition() : null;
+          if (Recognition) {
+            recognition = new Recognition();
+            recognition.lang = 'en-US';
+            recognition.continuous = true;
+            recognition.interimResults = true;
+            recognition.onresult = event => {
+              transcript = Array.from(event.results).map(result => result[0].transcript).join(' ');
+            };
+            recognition.onerror = event => {
+              // No speech service (offline, blocked): judge by the energy envelope instead
+              console.warn('⚠️ Speech recognition unavailable, using microphone energy:', event.error);
+              speechMethod = 'energy';
+            };
+            recognition.start();
+          }
+          const number = step.number ?? '';
+          const result = await collect(LIVENESS_STEP_TIMEOUT_MS.say_number, show, (_, levels) =>
+            speechMethod === 'transcript'
+              ? transcriptMatches(transcript, number)
+              : voicedDuration(levels, quietLevel) >= VOICED_MIN_MS
+          );
+          recognition?.abort();
+          passed = result.completed;
+          detail = speechMethod === 'transcript'
+            ? (passed ? `Heard ${number}` : `Heard "${transcript || 'nothing'}" (digits: ${digitsFromTranscript(transcript) || 'none'})`)
+            : `Voiced for ${(voicedDuration(result.levels, quietLevel) / 1000).toFixed(1)}s`;
+          if (result.multipleFaces) {
+            passed = false;
+            detail = 'More than one face in view';
+          }
+        } else {
+          const kind = step.kind;
+          const result = await collect(LIVENESS_STEP_TIMEOUT_MS[kind], show, landmarks =>
+            kind === 'blink'
+              ? countBlinks(landmarks, openEar) >= BLINKS_REQUIRED
+              : detectTurn(landmarks, kind, baselineYaw)
+          );
+          passed = result.completed && !result.multipleFaces;
+          if (result.multipleFaces) {
+            detail = 'More than one face in view';
+          } else if (result.landmarks.length === 0) {
+            detail = 'No face in view';
+          } else if (step.kind === 'blink') {
+            detail = `${countBlinks(result.landmarks, openEar)} blink(s) seen`;
+          } else {
+            // Offsets towards the asked direction are positive for both turns
+            const sign = step.kind === 'turn_left' ? 1 : -1;
+            const furthest = Math.max(...result.landmarks.map(sample => sign * (sample.yaw - baselineYaw)));
+            detail = passed
+              ? `Head turned ${furthest.toFixed(2)}`
+              : `Head turn too small (${furthest.toFixed(2)}, needs ${TURN_THRESHOLD})`;
+          }
+        }
+
+        steps.push({
+          kind: step.kind,
+          number: step.number,
+          passed,
+          detail,
+          durationMs: Date.now() - stepStart,
+          evidence: captureFrame(video),
+        });
+        console.log(`${passed ? '✅' : '❌'} Liveness step ${step.kind}: ${detail}`);
+        if (!passed) break;
+        await sleep(PAUSE_BETWEEN_STEPS_MS);
+      }
+    } finally {
+      audioContext.close();
+      setPrompt(null);
+    }
+
+    const failed = steps.find(step => !step.passed);
+    const passed = !failed && steps.length === challenge.length;
+    return {
+      passed,
+      message: passed
+        ? 'All steps completed'
+        : failed
+          ? `${stepPrompt(challenge[steps.indexOf(failed)])}: ${failed.detail}`
+          : 'Challenge interrupted',
+      steps,
+      speechMethod,
+      startedAt,
+      completedAt: new Date().toISOString(),
+    };
+  }, [videoRef]);
+
+  return { prompt, run };
+};
@@ -1,25 +1,67 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { toast } from 'sonner';
+import {
+  CLOSE_UNSUPPORTED_VERSION,
+  PROTOCOL_VERSION,
+  encodeBinaryFrame,
+  encodeClientMessage,
+  helloMessage,
+  parseServerMessage,
+  type BrowserActivityMessage,
+  type ClientMessage,
+  type ProctoringViolation,
+  type StudentContext,
+} from '@/utils/proctoringProtocol';
+import type { LinkSample } from '@/utils/frameStreaming';
+import { outboxKey, proctoringOutbox, type OutboxEntry } from '@/utils/proctoringOutbox';
+import { logExamEvent, type ExamEventType } from '@/utils/examSession';
 
-interface ViolationData {
-  type: string;
-  severity: string;
-  message: string;
-  confidence?: number;
-  timestamp: string;
-  snapshot_base64?: string;
+// How long the server gets to answer hello before the connection is dropped and retried
+const HANDSHAKE_TIMEOUT_MS = 10000;
+// Outbox events not acked within this long are sent again
+const EVENT_ACK_TIMEOUT_MS = 15000;
+// Reconnects back off exponentially up to this delay and keep trying while the exam runs
+const MAX_RECONNECT_DELAY_MS = 10000;
+const PING_INTERVAL_MS = 10000;
+// A ping unanswered this long means the connection is dead even if the socket hasn't noticed
+const PONG_TIMEOUT_MS = 25000;
+// Offline intervals shorter than this (a quick reconnect) aren't reported
+const GAP_REPORT_AFTER_MS = 5000;
+const HEALTH_REPORT_INTERVAL_MS = 60000;
+
+export interface ConnectionHealth {
+  status: 'connecting' | 'connected' | 'reconnecting' | 'unsupported';
+  // Completed handshakes on this page
+  connectionSessions: number;
+  connectedSince: number | null;
+  // Round trip of the latest ping, and the average on this page
+  latencyMs: number | null;
+  averageLatencyMs: number | null;
+  // Start of the current offline interval; null while connected
+  offlineSince: number | null;
+  // Offline time on this page before the current interval
+  totalOfflineMs: number;
+  reconnectAttempts: number;
 }
 
-interface DetectionResult {
-  violations: ViolationData[];
-  head_pose?: any;
-  face_count: number;
-  looking_away: boolean;
-  multiple_faces: boolean;
-  no_person: boolean;
-  phone_detected: boolean;
-  book_detected: boolean;
-  snapshot_base64?: string;
+const INITIAL_HEALTH: ConnectionHealth = {
+  status: 'connecting',
+  connectionSessions: 0,
+  connectedSince: null,
+  latencyMs: null,
+  averageLatencyMs: null,
+  offlineSince: null,
+  totalOfflineMs: 0,
+  reconnectAttempts: 0,
+};
+
+interface OfflineGap {
+  id: string;
+  startedAt: number;
+  reason: string;
+  // Whether proctoring_gap_started went out for it
+  reported: boolean;
+  reportTimeout: NodeJS.Timeout;
 }
 
 interface UseProctoringWebSocketOptions {
@@ -32,7 +74,11 @@ interface UseProctoringWebSocketOptions {
   subjectName: string;
   calibratedPitch: number;
   calibratedYaw: number;
-  onViolation: (violation: ViolationData) => void;
+  // True while useGazeTracking reports looking_away itself; tells the server to leave it out
+  clientGaze?: boolean;
+  // True while useVoiceDetection reports speech itself; tells the server not to flag loudness
+  clientVoice?: boolean;
+  onViolation: (violation: ProctoringViolation) => void;
   enabled?: boolean;
 }
 
@@ -46,15 +92,57 @@ export const useProctoringWebSocket = ({
   subjectName,
   calibratedPitch,
   calibratedYaw,
+  clientGaze = false,
+  clientVoice = false,
   onViolation,
   enabled = true,
 }: UseProctoringWebSocketOptions) => {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const handshakeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const onViolationRef = useRef(onViolation);
+  // Set once the server turns down our protocol version; reconnecting would only repeat that
+  const versionRejectedRef = useRef(false);
+  const unknownTypesRef = useRef(new Set<string>());
+  const handshakeCompleteRef = useRef(false);
+  // Binary frame bookkeeping: next sequence number, send times of frames not acked yet,
+  // the lag of the latest ack, and the context the server last heard
+  const frameSeqRef = useRef(0);
+  const unackedFramesRef = useRef(new Map<number, number>());
+  const lastAckLagRef = useRef<number | null>(null);
+  const sentContextRef = useRef<string | null>(null);
+  // Outbox of browser activity events: pending entries in sequence order, the next sequence
+  // number, and when each pending one was last sent on this connection
+  const pendingEventsRef = useRef<OutboxEntry[]>([]);
+  const nextEventSeqRef = useRef(0);
+  const eventSentAtRef = useRef(new Map<number, number>());
+  const outboxLoadRef = useRef<Promise<void> | null>(null);
+  // True after hello_ack, so frames are never sent before the server will take them
   const [isConnected, setIsConnected] = useState(false);
-  const [reconnectAttempts, setReconnectAttempts] = useState(0);
+  // A ref so reconnecting doesn't recreate connect (and re-run the connect effect)
+  const reconnectAttemptsRef = useRef(0);
   const maxReconnectAttempts = 50;
+  // Connection health, mirrored in a ref for the socket handlers
+  const [health, setHealth] = useState<ConnectionHealth>(INITIAL_HEALTH);
+  const healthRef = useRef<ConnectionHealth>(INITIAL_HEALTH);
+  const gapRef = useRef<OfflineGap | null>(null);
+  const pingSentAtRef = useRef<number | null>(null);
+  const latencyTotalsRef = useRef({ count: 0, totalMs: 0 });
+  const examIdentityRef = useRef({ examId, studentId });
+  // What frames and audio messages say about the student, read when they are sent: the exam page
+  // starts its capture loop once, so these callbacks must not capture the first render's values
+  const frameContextRef = useRef({
+    examId,
+    studentId,
+    studentName,
+    rollNo,
+    subjectCode,
+    subjectName,
+    calibratedPitch,
+    calibratedYaw,
+    clientGaze,
+    clientVoice,
+  });
 
   // WebSocket URL - Use VITE_PROCTORING_WS_URL directly or construct from API URL
   const getWebSocketURL = () => {
@@ -75,63 +163,247 @@ export const useProctoringWebSocket = ({
     onViolationRef.current = onViolation;
   }, [onViolation]);
 
+  useEffect(() => {
+    examIdentityRef.current = { examId, studentId };
+  }, [examId, studentId]);
+
+  useEffect(() => {
+    frameContextRef.current = {
+      examId,
+      studentId,
+      studentName,
+      rollNo,
+      subjectCode,
+      subjectName,
+      calibratedPitch,
+      calibratedYaw,
+      clientGaze,
+      clientVoice,
+    };
+  }, [examId, studentId, studentName, rollNo, subjectCode, subjectName, calibratedPitch, calibratedYaw, clientGaze, clientVoice]);
+
+  const updateHealth = useCallback((patch: Partial<ConnectionHealth>) => {
+    healthRef.current = { ...healthRef.current, ...patch };
+    setHealth(healthRef.current);
+  }, []);
+
+  // Connection events go to exam_events so admins see gaps even when the proctoring service is the part that's down
+  const logProctoringEvent = useCallback((eventType: ExamEventType, details: { [key: string]: string | number | null }) => {
+    const { examId: currentExamId, studentId: currentStudentId } = examIdentityRef.current;
+    if (!currentExamId || !currentStudentId) return;
+    void logExamEvent(currentExamId, currentStudentId, eventType, details);
+  }, []);
+
+  // Opens an offline interval unless one is already running; reported once it lasts GAP_REPORT_AFTER_MS
+  const startGap = useCallback((reason: string) => {
+    if (gapRef.current) return;
+    const startedAt = Date.now();
+    const gap: OfflineGap = {
+      id: crypto.randomUUID(),
+      startedAt,
+      reason,
+      reported: false,
+      reportTimeout: setTimeout(() => {
+        if (gapRef.current !== gap) return;
+        gap.reported = true;
+        console.warn(`📴 Proctoring offline for ${GAP_REPORT_AFTER_MS / 1000}s (${reason})`);
+        logProctoringEvent('proctoring_gap_started', {
+          gap_id: gap.id,
+          started_at: new Date(startedAt).toISOString(),
+          reason,
+        });
+        if (reason !== 'connecting') {
+          toast.warning('Proctoring connection lost - reconnecting...', { id: 'proctoring-connection' });
+        }
+      }, GAP_REPORT_AFTER_MS),
+    };
+    gapRef.current = gap;
+    updateHealth({ offlineSince: startedAt, connectedSince: null });
+  }, [logProctoringEvent, updateHealth]);
+
+  const endGap = useCallback(() => {
+    const gap = gapRef.current;
+    if (!gap) return;
+    gapRef.current = null;
+    clearTimeout(gap.reportTimeout);
+
+    const endedAt = Date.now();
+    const durationMs = endedAt - gap.startedAt;
+    if (gap.reported || durationMs >= GAP_REPORT_AFTER_MS) {
+      console.log(`📶 Proctoring offline interval closed: ${Math.round(durationMs / 1000)}s`);
+      logProctoringEvent('proctoring_gap', {
+        gap_id: gap.id,
+        started_at: new Date(gap.startedAt).toISOString(),
+        ended_at: new Date(endedAt).toISOString(),
+        duration_seconds: Math.round(durationMs / 1000),
+        reason: gap.reason,
+        reconnect_attempts: reconnectAttemptsRef.current,
+      });
+    }
+    updateHealth({
+      offlineSince: null,
+      totalOfflineMs: healthRef.current.totalOfflineMs + durationMs,
+    });
+  }, [logProctoringEvent, updateHealth]);
+
   const connect = useCallback(() => {
     if (!enabled || !sessionId) {
       console.log('❌ Cannot connect WebSocket:', { enabled, sessionId });
       return;
     }
 
+    // Unmonitored until the handshake completes
+    startGap('connecting');
+
     try {
       const wsURL = `${WS_URL}/api/ws/proctoring/${sessionId}`;
       console.log('🔌 Attempting WebSocket connection to:', wsURL);
       const ws = new WebSocket(wsURL);
       
       ws.onopen = () => {
-        console.log('✅ Proctoring WebSocket connected successfully!');
-        setIsConnected(true);
-        setReconnectAttempts(0);
-        toast.success('Real-time monitoring active');
+        console.log(`✅ Proctoring WebSocket open - sending protocol handshake (v${PROTOCOL_VERSION})`);
+        ws.send(encodeClientMessage(helloMessage(sessionId)));
+        handshakeTimeoutRef.current = setTimeout(() => {
+          console.error('❌ No hello_ack from proctoring service - reconnecting');
+          ws.close();
+        }, HANDSHAKE_TIMEOUT_MS);
       };
 
       ws.onmessage = (event) => {
+        const parsed = parseServerMessage(event.data);
+        if (parsed.ok === false) {
+          if (parsed.reason === 'unknown_type') {
+            // Likely a newer server; note each type once and carry on
+            if (parsed.type && !unknownTypesRef.current.has(parsed.type)) {
+              unknownTypesRef.current.add(parsed.type);
+              console.warn('📨 Ignoring unknown message type:', parsed.type);
+            }
+          } else {
+            console.error(`❌ Dropped ${parsed.type ?? ''} message (${parsed.reason}):`, parsed.error);
+          }
+          return;
+        }
+
+        const message = parsed.message;
+        console.log('📥 WebSocket message received:', message.type);
+
         try {
-          const data = JSON.parse(event.data);
-          console.log('📥 WebSocket message received:', data);
-          
-          if (data.type === 'detection_result') {
-            const result: DetectionResult = data.data;
-            console.log('🔍 Detection result:', result);
-            
-            // Process violations
-            if (result.violations && result.violations.length > 0) {
-              console.log(`🚨 ${result.violations.length} violations detected`);
-              result.violations.forEach((violation) => {
-                onViolationRef.current({
-                  ...violation,
-                  timestamp: new Date().toISOString(),
-                  snapshot_base64: result.snapshot_base64,
-                });
+          switch (message.type) {
+            case 'hello_ack':
+              if (handshakeTimeoutRef.current) clearTimeout(handshakeTimeoutRef.current);
+              if (message.protocol_version !== PROTOCOL_VERSION) {
+                console.error(`❌ Server chose protocol v${message.protocol_version}, client speaks v${PROTOCOL_VERSION}`);
+                versionRejectedRef.current = true;
+                updateHealth({ status: 'unsupported' });
+                toast.error('Proctoring service version mismatch - please reload the page.');
+                ws.close();
+                return;
+              }
+              console.log(`✅ Proctoring WebSocket connected (protocol v${message.protocol_version})`);
+              handshakeCompleteRef.current = true;
+              // New connection: the server has no context and won't ack earlier frames or events
+              sentContextRef.current = null;
+              unackedFramesRef.current.clear();
+              eventSentAtRef.current.clear();
+              lastAckLagRef.current = null;
+              pingSentAtRef.current = null;
+              setIsConnected(true);
+              endGap();
+              updateHealth({
+                status: 'connected',
+                connectionSessions: healthRef.current.connectionSessions + 1,
+                connectedSince: Date.now(),
+                reconnectAttempts: 0,
+              });
+              logProctoringEvent('proctoring_connected', {
+                connection_session: healthRef.current.connectionSessions,
+                reconnect_attempts: reconnectAttemptsRef.current,
               });
+              reconnectAttemptsRef.current = 0;
+              toast.success('Real-time monitoring active', { id: 'proctoring-connection' });
+              break;
+
+            case 'detection_result': {
+              const result = message.data;
+              console.log('🔍 Detection result:', result);
+
+              // Process violations
+              if (result.violations.length > 0) {
+                console.log(`🚨 ${result.violations.length} violations detected`);
+                result.violations.forEach((violation) => {
+                  onViolationRef.current({
+                    ...violation,
+                    timestamp: new Date().toISOString(),
+                    snapshot_base64: result.snapshot_base64,
+                  });
+                });
+              }
+              break;
             }
-          } else if (data.type === 'violation') {
-            console.log('🚨 Violation message received:', data.data);
-            console.log('🚨 Violation data keys:', data.data ? Object.keys(data.data) : 'no data');
-            console.log('🚨 Violation type:', data.data?.type, data.data?.violation_type);
-            console.log('🚨 Is audio violation?', data.data?.type === 'excessive_noise' || data.data?.violation_type === 'excessive_noise');
-            // Ensure violation data is properly formatted
-            if (data.data) {
-              console.log('✅ Calling onViolation callback with:', data.data);
-              onViolationRef.current(data.data);
-            } else {
-              console.error('❌ Violation data is missing!', data);
+
+            case 'violation':
+              console.log('🚨 Violation message received:', message.data.type, message.data.message);
+              onViolationRef.current(message.data);
+              break;
+
+            case 'audio_level':
+              console.log('🔊 Audio level update:', message.data);
+              break;
+
+            case 'detection_skipped':
+              console.log('⏭️ Frame skipped by proctoring service:', message.data.reason);
+              break;
+
+            case 'ack': {
+              const { seq } = message.data;
+              const entry = pendingEventsRef.current.find(pending => pending.seq === seq);
+              eventSentAtRef.current.delete(seq);
+              if (entry) {
+                pendingEventsRef.current = pendingEventsRef.current.filter(pending => pending.seq !== seq);
+                proctoringOutbox.markAcked(entry).catch(err => console.error('Error updating proctoring outbox:', err));
+                console.log(`✅ Browser activity #${seq} recorded (${pendingEventsRef.current.length} still pending)`);
+              }
+              break;
+            }
+
+            case 'frame_ack': {
+              const sentAt = unackedFramesRef.current.get(message.data.seq);
+              if (sentAt !== undefined) {
+                lastAckLagRef.current = Date.now() - sentAt;
+                // Acks come in order; anything older than this one was dropped
+                unackedFramesRef.current.forEach((_, seq) => {
+                  if (seq <= message.data.seq) unackedFramesRef.current.delete(seq);
+                });
+              }
+              break;
+            }
+
+            case 'pong': {
+              // Heartbeat response
+              if (pingSentAtRef.current === null) break;
+              const latencyMs = Date.now() - pingSentAtRef.current;
+              pingSentAtRef.current = null;
+              const totals = latencyTotalsRef.current;
+              totals.count += 1;
+              totals.totalMs += latencyMs;
+              updateHealth({ latencyMs, averageLatencyMs: Math.round(totals.totalMs / totals.count) });
+              console.log(`💓 Proctoring service heartbeat OK (${latencyMs}ms)`);
+              break;
+            }
+
+            case 'error':
+              if (message.data.code === 'unsupported_version') {
+                versionRejectedRef.current = true;
+                updateHealth({ status: 'unsupported' });
+                toast.error('Proctoring service version mismatch - please reload the page.');
+              }
+              console.error(`❌ Proctoring service error (${message.data.code}):`, message.data.message, message.data.details ?? '');
+              break;
+
+            default: {
+              const unhandled: never = message;
+              console.warn('📨 Unhandled message:', unhandled);
             }
-          } else if (data.type === 'audio_level') {
-            console.log('🔊 Audio level update:', data.data);
-          } else if (data.type === 'pong') {
-            // Heartbeat response
-            console.log('💓 Proctoring service heartbeat OK');
-          } else {
-            console.log('📨 Unknown message type:', data.type);
           }
         } catch (error) {
           console.error('❌ Error processing WebSocket message:', error);
@@ -144,21 +416,39 @@ export const useProctoringWebSocket = ({
         setIsConnected(false);
       };
 
-      ws.onclose = () => {
-        console.log('Proctoring WebSocket disconnected');
+      ws.onclose = (event) => {
+        console.log('Proctoring WebSocket disconnected', event.code);
+        if (handshakeTimeoutRef.current) clearTimeout(handshakeTimeoutRef.current);
+        // Closed by disconnect(), or already replaced by a newer socket
+        if (wsRef.current !== ws) return;
+
+        const wasConnected = handshakeCompleteRef.current;
+        handshakeCompleteRef.current = false;
         setIsConnected(false);
-        
-        // Attempt reconnection
-        if (enabled && reconnectAttempts < maxReconnectAttempts) {
-          const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
-          console.log(`Reconnecting in ${delay}ms... (attempt ${reconnectAttempts + 1}/${maxReconnectAttempts})`);
-          
+        startGap(wasConnected ? 'connection_lost' : 'connect_failed');
+
+        // A version mismatch won't fix itself by reconnecting
+        if (event.code === CLOSE_UNSUPPORTED_VERSION || versionRejectedRef.current) {
+          versionRejectedRef.current = true;
+          updateHealth({ status: 'unsupported' });
+          console.error('❌ Proctoring protocol version rejected - not reconnecting');
+          return;
+        }
+
+        // Attempt reconnection; the student is told once it has taken a while, and keeps being monitored for gaps
+        if (enabled) {
+          const attempts = reconnectAttemptsRef.current;
+          const delay = Math.min(1000 * Math.pow(2, attempts), MAX_RECONNECT_DELAY_MS);
+          console.log(`Reconnecting in ${delay}ms... (attempt ${attempts + 1})`);
+          if (attempts === maxReconnectAttempts) {
+            toast.error('Unable to connect to proctoring service. Still retrying...', { id: 'proctoring-connection' });
+          }
+          updateHealth({ status: 'reconnecting', reconnectAttempts: attempts + 1 });
+
           reconnectTimeoutRef.current = setTimeout(() => {
-            setReconnectAttempts(prev => prev + 1);
+            reconnectAttemptsRef.current += 1;
             connect();
           }, delay);
-        } else if (reconnectAttempts >= maxReconnectAttempts) {
-          toast.error('Unable to connect to proctoring service.');
         }
       };
 
@@ -167,135 +457,278 @@ export const useProctoringWebSocket = ({
       console.error('Error creating WebSocket:', error);
       setIsConnected(false);
     }
-  }, [enabled, sessionId, reconnectAttempts, WS_URL]);
-
-  const sendFrame = useCallback((frameBase64: string, audioLevel?: number, overrideStudentName?: string) => {
-    // Use override if provided, otherwise fall back to hook parameter
-    const currentStudentName = overrideStudentName || studentName;
-    
-    console.log('🔍 sendFrame called with:', {
-      hasWsRef: !!wsRef.current,
-      wsState: wsRef.current?.readyState,
-      wsStateString: wsRef.current ? ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'][wsRef.current.readyState] : 'NO_WS',
-      frameSize: frameBase64?.length,
-      examId,
-      studentId,
-      studentName: currentStudentName || '(EMPTY - THIS IS THE PROBLEM!)',
-      overrideProvided: !!overrideStudentName
-    });
-    
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      const payload = {
-        type: 'frame',
-        frame: frameBase64,
-        calibrated_pitch: calibratedPitch,
-        calibrated_yaw: calibratedYaw,
-        exam_id: examId,
-        student_id: studentId,
-        student_name: currentStudentName,
-        roll_no: rollNo, // Send roll_no for file organization
-        subject_code: subjectCode,
-        subject_name: subjectName,
-        audio_level: audioLevel,
-      };
-      console.log('✅ WebSocket is OPEN - Sending frame payload with student_name:', currentStudentName);
-      console.log('📦 Full payload (without frame data):', {
-        ...payload,
-        frame: `[${frameBase64?.length || 0} bytes]`
-      });
-      wsRef.current.send(JSON.stringify(payload));
-      console.log('✅ Frame sent successfully!');
-    } else {
-      console.error('❌ CANNOT send frame - WebSocket NOT open!', {
+  }, [enabled, sessionId, WS_URL, startGap, endGap, updateHealth, logProctoringEvent]);
+
+  // Validates and sends one message; false when the socket isn't open and handshaken or the message is malformed
+  const send = useCallback((message: ClientMessage): boolean => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN || !handshakeCompleteRef.current) {
+      return false;
+    }
+    try {
+      wsRef.current.send(encodeClientMessage(message));
+      return true;
+    } catch (error) {
+      console.error(`❌ Refusing to send invalid ${message.type} message:`, error);
+      return false;
+    }
+  }, []);
+
+  // Tells the server who the frames are about and which checks the browser does itself, unless it
+  // already has exactly this. False when the socket isn't ready.
+  const sendContext = useCallback((overrideStudentName?: string): boolean => {
+    const current = frameContextRef.current;
+    const context: StudentContext = {
+      exam_id: current.examId,
+      student_id: current.studentId,
+      student_name: overrideStudentName || current.studentName,
+      roll_no: current.rollNo, // Send roll_no for file organization
+      subject_code: current.subjectCode,
+      subject_name: current.subjectName,
+    };
+    const contextKey = JSON.stringify({ ...context, clientGaze: current.clientGaze, clientVoice: current.clientVoice });
+    if (sentContextRef.current === contextKey) return true;
+    if (!send({ type: 'context', ...context, client_gaze: current.clientGaze, client_voice: current.clientVoice })) return false;
+    sentContextRef.current = contextKey;
+    console.log('🪪 Frame context sent with student_name:', context.student_name, { client_gaze: current.clientGaze, client_voice: current.clientVoice });
+    return true;
+  }, [send]);
+
+  // Sends one JPEG as a binary frame, preceded by a context message when the student details changed.
+  // Returns false when the frame couldn't be sent.
+  const sendFrame = useCallback((jpeg: ArrayBuffer, audioLevel?: number, overrideStudentName?: string): boolean => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN || !handshakeCompleteRef.current) {
+      console.error('❌ CANNOT send frame - WebSocket NOT open or handshake pending!', {
         wsExists: !!wsRef.current,
         state: wsRef.current?.readyState,
         stateString: wsRef.current ? ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'][wsRef.current.readyState] : 'NO_WS'
       });
+      return false;
     }
-  }, [calibratedPitch, calibratedYaw, examId, studentId, studentName, subjectCode, subjectName]);
+
+    if (!sendContext(overrideStudentName)) return false;
+
+    const { calibratedPitch: pitch, calibratedYaw: yaw } = frameContextRef.current;
+    const seq = frameSeqRef.current++;
+    wsRef.current.send(encodeBinaryFrame({
+      seq,
+      calibratedPitch: pitch,
+      calibratedYaw: yaw,
+      audioLevel,
+      jpeg,
+    }));
+    unackedFramesRef.current.set(seq, Date.now());
+    console.log(`✅ Frame #${seq} sent (${jpeg.byteLength} bytes, buffered: ${wsRef.current.bufferedAmount})`);
+    return true;
+  }, [sendContext]);
+
+  // The server drops looking_away from frames and stops flagging loudness only once it hears
+  // client_gaze / client_voice, so tell it as soon as they (or the student details) change
+  useEffect(() => {
+    if (isConnected) sendContext();
+  }, [isConnected, sendContext, examId, studentId, studentName, rollNo, subjectCode, subjectName, clientGaze, clientVoice]);
+
+  // Send-buffer and ack lag for the adaptive frame rate
+  const getLinkStats = useCallback((): LinkSample => {
+    let ackLagMs = lastAckLagRef.current;
+    const now = Date.now();
+    unackedFramesRef.current.forEach(sentAt => {
+      ackLagMs = Math.max(ackLagMs ?? 0, now - sentAt);
+    });
+    return { bufferedAmount: wsRef.current?.bufferedAmount ?? 0, ackLagMs };
+  }, []);
 
   const sendAudioLevel = useCallback((audioLevel: number, overrideStudentName?: string) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
+    if (wsRef.current?.readyState === WebSocket.OPEN && handshakeCompleteRef.current) {
+      const current = frameContextRef.current;
       // Use override if provided, otherwise fall back to hook parameter
-      const currentStudentName = overrideStudentName || studentName;
+      const currentStudentName = overrideStudentName || current.studentName;
       const finalStudentName = currentStudentName && currentStudentName.trim() !== '' ? currentStudentName : 'Unknown Student';
       
       if (!currentStudentName || currentStudentName.trim() === '') {
         console.error('❌ ERROR: studentName is empty or undefined!', { 
           currentStudentName, 
-          studentName,
+          studentName: current.studentName,
           overrideStudentName,
-          examId, 
-          studentId 
+          examId: current.examId, 
+          studentId: current.studentId 
         });
       }
       
-      const payload = {
+      const payload: ClientMessage = {
         type: 'audio',
         audio_level: audioLevel,
-        exam_id: examId || undefined,
-        student_id: studentId || undefined,
+        exam_id: current.examId || undefined,
+        student_id: current.studentId || undefined,
         student_name: finalStudentName,
-        roll_no: rollNo || undefined,
-        subject_code: subjectCode || undefined,
-        subject_name: subjectName || undefined,
+        roll_no: current.rollNo || undefined,
+        subject_code: current.subjectCode || undefined,
+        subject_name: current.subjectName || undefined,
       };
       
-      console.log('🔊 Sending audio level with student_name:', finalStudentName, 'from override:', overrideStudentName, 'from param:', studentName);
+      console.log('🔊 Sending audio level with student_name:', finalStudentName, 'from override:', overrideStudentName, 'from param:', current.studentName);
       
-      wsRef.current.send(JSON.stringify(payload));
+      send(payload);
     } else {
-      console.warn('⚠️ Cannot send audio level - WebSocket not open:', {
+      console.warn('⚠️ Cannot send audio level - WebSocket not open or handshake pending:', {
         wsExists: !!wsRef.current,
         state: wsRef.current?.readyState,
         stateString: wsRef.current ? ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'][wsRef.current.readyState] : 'NO_WS'
       });
     }
-  }, [examId, studentId, studentName, subjectCode, subjectName]);
-
-  const sendBrowserActivity = useCallback((violationType: string, message: string) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      const payload = {
-        type: 'browser_activity',
-        violation_type: violationType,
-        message: message,
-        exam_id: examId,
-        student_id: studentId,
-        student_name: studentName,
-        roll_no: rollNo || undefined,
-        subject_code: subjectCode,
-        subject_name: subjectName,
-      };
-      console.log('📡 Sending browser activity to backend:', payload);
-      wsRef.current.send(JSON.stringify(payload));
-    } else {
-      console.error('❌ Cannot send browser activity - WebSocket not open. State:', wsRef.current?.readyState);
+  }, [send]);
+
+  // A different exam or student has its own outbox
+  useEffect(() => {
+    outboxLoadRef.current = null;
+  }, [examId, studentId]);
+
+  // Loads the outbox for this exam once, so replay after a reload picks up where the last page stopped
+  const loadOutbox = useCallback((): Promise<void> => {
+    if (!outboxLoadRef.current) {
+      outboxLoadRef.current = proctoringOutbox
+        .getAll(examId || '', studentId || '')
+        .then(entries => {
+          const pending = entries.filter(entry => entry.status === 'pending');
+          // Events queued on this page before the load finished come after the stored ones
+          const stored = new Set(pending.map(entry => entry.seq));
+          pendingEventsRef.current = [
+            ...pending,
+            ...pendingEventsRef.current.filter(entry => !stored.has(entry.seq)),
+          ];
+          nextEventSeqRef.current = Math.max(nextEventSeqRef.current, ...entries.map(entry => entry.seq + 1));
+          if (pending.length > 0) {
+            console.log(`📬 ${pending.length} browser activity events from before the reload waiting to be sent`);
+          }
+        })
+        .catch(err => console.error('Error reading proctoring outbox:', err));
+    }
+    return outboxLoadRef.current;
+  }, [examId, studentId]);
+
+  const sendEvent = useCallback((entry: OutboxEntry) => {
+    if (send(entry.message)) {
+      eventSentAtRef.current.set(entry.seq, Date.now());
     }
-  }, [examId, studentId, studentName, subjectCode, subjectName]);
+  }, [send]);
+
+  // Browser activity must reach the server: it goes through the outbox and is resent until acked.
+  // Measured events pass their own severity and details (e.g. looking_away direction and duration).
+  const sendBrowserActivity = useCallback((
+    violationType: string,
+    message: string,
+    measured?: Pick<BrowserActivityMessage, 'severity' | 'details'>
+  ) => {
+    const occurredAt = new Date().toISOString();
+    void loadOutbox().then(() => {
+      const seq = nextEventSeqRef.current++;
+      const entry: OutboxEntry = {
+        key: outboxKey(examId || '', studentId || '', seq),
+        examId: examId || '',
+        studentId: studentId || '',
+        seq,
+        status: 'pending',
+        message: {
+          type: 'browser_activity',
+          violation_type: violationType,
+          message: message,
+          exam_id: examId,
+          student_id: studentId,
+          student_name: studentName,
+          roll_no: rollNo || undefined,
+          subject_code: subjectCode,
+          subject_name: subjectName,
+          seq,
+          occurred_at: occurredAt,
+          ...measured,
+        },
+      };
+      pendingEventsRef.current = [...pendingEventsRef.current, entry];
+      proctoringOutbox.put(entry).catch(err => console.error('Error writing proctoring outbox:', err));
+
+      if (wsRef.current?.readyState === WebSocket.OPEN && handshakeCompleteRef.current) {
+        console.log('📡 Sending browser activity to backend:', entry.message);
+        sendEvent(entry);
+      } else {
+        console.warn(`📥 Browser activity #${seq} queued until the proctoring service reconnects. State:`, wsRef.current?.readyState);
+      }
+    });
+  }, [examId, studentId, studentName, rollNo, subjectCode, subjectName, loadOutbox, sendEvent]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+    if (handshakeTimeoutRef.current) {
+      clearTimeout(handshakeTimeoutRef.current);
     }
+    handshakeCompleteRef.current = false;
+    // Cleared before close() so onclose doesn't treat it as a dropped connection
+    const ws = wsRef.current;
+    wsRef.current = null;
+    ws?.close();
+    // Closes any open offline interval; it ends here
+    endGap();
     setIsConnected(false);
-  }, []);
+  }, [endGap]);
 
-  // Heartbeat to keep connection alive
+  // Replay pending events in order once connected, then resend any that go unacked
   useEffect(() => {
     if (!isConnected) return;
 
-    const interval = setInterval(() => {
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({ type: 'ping' }));
+    const resendUnacked = () => {
+      const now = Date.now();
+      pendingEventsRef.current.forEach(entry => {
+        const sentAt = eventSentAtRef.current.get(entry.seq);
+        if (sentAt === undefined || now - sentAt >= EVENT_ACK_TIMEOUT_MS) {
+          sendEvent(entry);
+        }
+      });
+    };
+
+    loadOutbox().then(() => {
+      if (pendingEventsRef.current.length > 0) {
+        console.log(`📬 Replaying ${pendingEventsRef.current.length} unacknowledged browser activity events`);
       }
-    }, 30000); // Every 30 seconds
+      resendUnacked();
+    });
+    const interval = setInterval(resendUnacked, EVENT_ACK_TIMEOUT_MS);
 
     return () => clearInterval(interval);
-  }, [isConnected]);
+  }, [isConnected, loadOutbox, sendEvent]);
+
+  // Heartbeat to keep connection alive and measure latency
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const interval = setInterval(() => {
+      const sentAt = pingSentAtRef.current;
+      if (sentAt !== null) {
+        if (Date.now() - sentAt > PONG_TIMEOUT_MS) {
+          console.warn('💔 No pong from proctoring service - dropping the connection');
+          wsRef.current?.close();
+        }
+        return;
+      }
+      if (send({ type: 'ping' })) {
+        pingSentAtRef.current = Date.now();
+      }
+    }, PING_INTERVAL_MS);
+
+    const healthReport = setInterval(() => {
+      const current = healthRef.current;
+      logProctoringEvent('proctoring_health', {
+        latency_ms: current.latencyMs,
+        average_latency_ms: current.averageLatencyMs,
+        connection_sessions: current.connectionSessions,
+        total_offline_seconds: Math.round(current.totalOfflineMs / 1000),
+      });
+    }, HEALTH_REPORT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      clearInterval(healthReport);
+    };
+  }, [isConnected, send, logProctoringEvent]);
 
   // Connect on mount and when enabled/sessionId changes
   useEffect(() => {
@@ -311,7 +744,9 @@ export const useProctoringWebSocket = ({
 
   return {
     isConnected,
+    health,
     sendFrame,
+    getLinkStats,
     sendAudioLevel,
     sendBrowserActivity,
     disconnect,
@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import {
+  VOICE_FFT_SIZE,
+  VOICE_FRAME_INTERVAL_MS,
+  classifyFrame,
+  frameFeatures,
+  trackSpeech,
+  updateNoiseFloor,
+  type FrameKind,
+  type SpeechEpisode,
+  type SpeechState,
+  type VoiceProfile,
+} from '@/utils/voiceActivity';
+
+// Evidence clips stop here even when the speech goes on
+const CLIP_MAX_MS = 10000;
+const CLIP_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+export type VoiceActivity = FrameKind;
+
+export interface RecordedClip {
+  blob: Blob;
+  durationMs: number;
+}
+
+interface UseVoiceDetectionOptions {
+  // The exam's camera and microphone stream; the hook waits for it to have an audio track
+  streamRef: RefObject<MediaStream | null>;
+  // From CompatibilityCheck; null to start from the first frames' noise floor
+  profile: VoiceProfile | null;
+  onEpisode: (episode: SpeechEpisode, clip: RecordedClip | null) => void;
+  enabled?: boolean;
+}
+
+// Records the microphone from the start of each possible speech episode, so a reported episode
+// comes with its first seconds as a clip
+const createClipRecorder = (stream: MediaStream) => {
+  const mimeType = typeof MediaRecorder === 'undefined'
+    ? null
+    : CLIP_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+  let recorder: MediaRecorder | null = null;
+  let clip: Promise<RecordedClip | null> | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const stopRecording = () => {
+    if (timeout) clearTimeout(timeout);
+    timeout = null;
+    if (recorder?.state === 'recording') recorder.stop();
+  };
+
+  return {
+    start() {
+      if (!mimeType || recorder) return;
+      try {
+        const chunks: Blob[] = [];
+        const startedAt = Date.now();
+        const active = new MediaRecorder(new MediaStream(stream.getAudioTracks()), { mimeType });
+        active.ondataavailable = event => {
+          if (event.data.size > 0) chunks.push(event.data);
+        };
+        clip = new Promise(resolve => {
+          active.onstop = () => resolve(chunks.length ? { blob: new Blob(chunks, { type: mimeType }), durationMs: Date.now() - startedAt } : null);
+          active.onerror = () => resolve(null);
+        });
+        active.start();
+        recorder = active;
+        timeout = setTimeout(stopRecording, CLIP_MAX_MS);
+      } catch (error) {
+        console.warn('⚠️ Could not record audio evidence:', error);
+      }
+    },
+    // The recording so far, or null when nothing was being recorded
+    finish(): Promise<RecordedClip | null> {
+      stopRecording();
+      const finished = clip ?? Promise.resolve(null);
+      recorder = null;
+      clip = null;
+      return finished;
+    },
+  };
+};
+
+// Speech and multiple-voice detection on the exam's microphone (see utils/voiceActivity.ts).
+// Reports each speech episode once it ends, with a clip of its start; activity is the current
+// frame's classification for the audio monitor. active is true once the analyser is running.
+export const useVoiceDetection = ({ streamRef, profile, onEpisode, enabled = true }: UseVoiceDetectionOptions) => {
+  const [active, setActive] = useState(false);
+  const [activity, setActivity] = useState<VoiceActivity>('silence');
+  const onEpisodeRef = useRef(onEpisode);
+
+  useEffect(() => {
+    onEpisodeRef.current = onEpisode;
+  }, [onEpisode]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let context: AudioContext | null = null;
+    let analyser: AnalyserNode | null = null;
+    let recorder: ReturnType<typeof createClipRecorder> | null = null;
+    let spectrum: Float32Array | null = null;
+    let samples: Float32Array | null = null;
+    let floorDb = profile?.noiseFloorDb ?? null;
+    let speech: SpeechState | null = null;
+    let lastKind: VoiceActivity = 'silence';
+    let lastAt = Date.now();
+
+    const setUp = (stream: MediaStream) => {
+      context = new AudioContext();
+      analyser = context.createAnalyser();
+      analyser.fftSize = VOICE_FFT_SIZE;
+      analyser.smoothingTimeConstant = 0;
+      context.createMediaStreamSource(stream).connect(analyser);
+      spectrum = new Float32Array(analyser.frequencyBinCount);
+      samples = new Float32Array(analyser.fftSize);
+      recorder = createClipRecorder(stream);
+      setActive(true);
+      console.log('🗣️ Voice detection started', profile ? 'with calibrated voice profile' : 'without calibration');
+    };
+
+    const report = async (episode: SpeechEpisode) => {
+      const clip = recorder ? await recorder.finish() : null;
+      console.log('🗣️ Speech episode:', episode, clip ? `(${clip.blob.size} byte clip)` : '(no clip)');
+      onEpisodeRef.current(episode, clip);
+    };
+
+    const interval = setInterval(() => {
+      if (!analyser) {
+        const stream = streamRef.current;
+        if (stream && stream.getAudioTracks().some(track => track.readyState === 'live')) {
+          try {
+            setUp(stream);
+          } catch (error) {
+            console.error('❌ Failed to start voice detection:', error);
+          }
+        }
+        return;
+      }
+      if (!context || !spectrum || !samples) return;
+
+      try {
+        analyser.getFloatFrequencyData(spectrum);
+        analyser.getFloatTimeDomainData(samples);
+        const t = Date.now();
+        const features = frameFeatures(spectrum, samples, context.sampleRate);
+        const kind = classifyFrame(features, floorDb ?? features.energyDb, profile);
+        floorDb = updateNoiseFloor(floorDb, features, kind, t - lastAt);
+        lastAt = t;
+
+        const wasSpeaking = speech !== null;
+        const result = trackSpeech(speech, { t, kind, features, floorDb }, profile);
+        speech = result.state;
+        if (result.episode) {
+          report(result.episode);
+        } else if (wasSpeaking && !speech) {
+          // Not speech after all (a cough, a chair): drop the recording
+          recorder?.finish();
+        }
+        // Cut long episodes carry on with a fresh clip
+        if (speech) recorder?.start();
+
+        if (kind !== lastKind) {
+          lastKind = kind;
+          setActivity(kind);
+        }
+      } catch (error) {
+        console.error('❌ Voice detection failed:', error);
+      }
+    }, VOICE_FRAME_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      recorder?.finish();
+      context?.close().catch(() => {});
+      setActive(false);
+      setActivity('silence');
+    };
+  }, [enabled, profile, streamRef]);
+
+  return { active, activity };
+};
@@ -14,6 +14,47 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_grades: {
+        Row: {
+          exam_id: string
+          feedback: string | null
+          graded_at: string
+          graded_by: string
+          id: string
+          points_awarded: number
+          question_number: number
+          rubric_scores: Json | null
+        }
+        Insert: {
+          exam_id: string
+          feedback?: string | null
+          graded_at?: string
+          graded_by: string
+          id?: string
+          points_awarded: number
+          question_number: number
+          rubric_scores?: Json | null
+        }
+        Update: {
+          exam_id?: string
+          feedback?: string | null
+          graded_at?: string
+          graded_by?: string
+          id?: string
+          points_awarded?: number
+          question_number?: number
+          rubric_scores?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_grades_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       compatibility_checks: {
         Row: {
           audio_baseline: number | null
@@ -23,10 +64,12 @@ export type Database = {
           id: string
           internet_speed_mbps: number | null
           lighting_score: number | null
+          liveness: Json | null
           screen_resolution: string | null
           screen_sharing_enabled: boolean | null
           student_id: string | null
           tab_token: string | null
+          voice_profile: Json | null
         }
         Insert: {
           audio_baseline?: number | null
@@ -36,10 +79,12 @@ export type Database = {
           id?: string
           internet_speed_mbps?: number | null
           lighting_score?: number | null
+          liveness?: Json | null
           screen_resolution?: string | null
           screen_sharing_enabled?: boolean | null
           student_id?: string | null
           tab_token?: string | null
+          voice_profile?: Json | null
         }
         Update: {
           audio_baseline?: number | null
@@ -49,10 +94,12 @@ export type Database = {
           id?: string
           internet_speed_mbps?: number | null
           lighting_score?: number | null
+          liveness?: Json | null
           screen_resolution?: string | null
           screen_sharing_enabled?: boolean | null
           student_id?: string | null
           tab_token?: string | null
+          voice_profile?: Json | null
         }
         Relationships: [
           {
@@ -121,8 +168,10 @@ export type Database = {
           answer: string | null
           created_at: string | null
           exam_id: string | null
+          flagged: boolean
           id: string
           question_number: number
+          session_token: string | null
           student_id: string | null
           updated_at: string | null
         }
@@ -130,8 +179,10 @@ export type Database = {
           answer?: string | null
           created_at?: string | null
           exam_id?: string | null
+          flagged?: boolean
           id?: string
           question_number: number
+          session_token?: string | null
           student_id?: string | null
           updated_at?: string | null
         }
@@ -139,8 +190,10 @@ export type Database = {
           answer?: string | null
           created_at?: string | null
           exam_id?: string | null
+          flagged?: boolean
           id?: string
           question_number?: number
+          session_token?: string | null
           student_id?: string | null
           updated_at?: string | null
         }
@@ -161,8 +214,53 @@ export type Database = {
           },
         ]
       }
+      exam_events: {
+        Row: {
+          created_at: string | null
+          details: Json | null
+          event_type: string
+          exam_id: string | null
+          id: string
+          student_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          details?: Json | null
+          event_type: string
+          exam_id?: string | null
+          id?: string
+          student_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          details?: Json | null
+          event_type?: string
+          exam_id?: string | null
+          id?: string
+          student_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_events_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exam_events_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exam_questions: {
         Row: {
+          bank_question_id: string | null
+          bank_version: number | null
+          config: Json | null
           correct_answer: string | null
           created_at: string | null
           exam_template_id: string | null
@@ -172,8 +270,12 @@ export type Database = {
           question_number: number
           question_text: string
           question_type: string
+          rubric: Json | null
         }
         Insert: {
+          bank_question_id?: string | null
+          bank_version?: number | null
+          config?: Json | null
           correct_answer?: string | null
           created_at?: string | null
           exam_template_id?: string | null
@@ -183,8 +285,12 @@ export type Database = {
           question_number: number
           question_text: string
           question_type?: string
+          rubric?: Json | null
         }
         Update: {
+          bank_question_id?: string | null
+          bank_version?: number | null
+          config?: Json | null
           correct_answer?: string | null
           created_at?: string | null
           exam_template_id?: string | null
@@ -194,6 +300,7 @@ export type Database = {
           question_number?: number
           question_text?: string
           question_type?: string
+          rubric?: Json | null
         }
         Relationships: []
       }
@@ -202,34 +309,58 @@ export type Database = {
           created_at: string | null
           created_by: string | null
           description: string | null
+          draw_count: number | null
           duration_minutes: number | null
+          grade_scale: Json | null
           id: string
+          is_current: boolean
+          parent_template_id: string | null
+          shuffle_options: boolean
+          shuffle_questions: boolean
           subject_code: string
           subject_name: string
+          template_group_id: string
           template_name: string
           total_questions: number | null
+          version: number
         }
         Insert: {
           created_at?: string | null
           created_by?: string | null
           description?: string | null
+          draw_count?: number | null
           duration_minutes?: number | null
+          grade_scale?: Json | null
           id?: string
+          is_current?: boolean
+          parent_template_id?: string | null
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           subject_code?: string
           subject_name?: string
+          template_group_id?: string
           template_name: string
           total_questions?: number | null
+          version?: number
         }
         Update: {
           created_at?: string | null
           created_by?: string | null
           description?: string | null
+          draw_count?: number | null
           duration_minutes?: number | null
+          grade_scale?: Json | null
           id?: string
+          is_current?: boolean
+          parent_template_id?: string | null
+          shuffle_options?: boolean
+          shuffle_questions?: boolean
           subject_code?: string
           subject_name?: string
+          template_group_id?: string
           template_name?: string
           total_questions?: number | null
+          version?: number
         }
         Relationships: []
       }
@@ -239,33 +370,57 @@ export type Database = {
           created_at: string | null
           duration_minutes: number | null
           exam_template_id: string | null
+          grade_letter: string | null
+          graded: boolean
+          graded_at: string | null
+          graded_template_id: string | null
           id: string
+          max_score: number | null
+          shuffle_seed: string
           started_at: string | null
           status: string | null
           student_id: string | null
           subject_code: string
+          time_extension_minutes: number
+          total_score: number | null
         }
         Insert: {
           completed_at?: string | null
           created_at?: string | null
           duration_minutes?: number | null
           exam_template_id?: string | null
+          grade_letter?: string | null
+          graded?: boolean
+          graded_at?: string | null
+          graded_template_id?: string | null
           id?: string
+          max_score?: number | null
+          shuffle_seed?: string
           started_at?: string | null
           status?: string | null
           student_id?: string | null
           subject_code: string
+          time_extension_minutes?: number
+          total_score?: number | null
         }
         Update: {
           completed_at?: string | null
           created_at?: string | null
           duration_minutes?: number | null
           exam_template_id?: string | null
+          grade_letter?: string | null
+          graded?: boolean
+          graded_at?: string | null
+          graded_template_id?: string | null
           id?: string
+          max_score?: number | null
+          shuffle_seed?: string
           started_at?: string | null
           status?: string | null
           student_id?: string | null
           subject_code?: string
+          time_extension_minutes?: number
+          total_score?: number | null
         }
         Relationships: [
           {
@@ -284,6 +439,191 @@ export type Database = {
           },
         ]
       }
+      id_verifications: {
+        Row: {
+          card_image_url: string
+          created_at: string
+          details: Json | null
+          exam_id: string | null
+          face_similarity: number | null
+          id: string
+          live_image_url: string | null
+          name_score: number | null
+          ocr_text: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          roll_no_match: boolean | null
+          status: string
+          student_id: string
+        }
+        Insert: {
+          card_image_url: string
+          created_at?: string
+          details?: Json | null
+          exam_id?: string | null
+          face_similarity?: number | null
+          id?: string
+          live_image_url?: string | null
+          name_score?: number | null
+          ocr_text?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          roll_no_match?: boolean | null
+          status?: string
+          student_id: string
+        }
+        Update: {
+          card_image_url?: string
+          created_at?: string
+          details?: Json | null
+          exam_id?: string | null
+          face_similarity?: number | null
+          id?: string
+          live_image_url?: string | null
+          name_score?: number | null
+          ocr_text?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          roll_no_match?: boolean | null
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "id_verifications_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "id_verifications_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_bank: {
+        Row: {
+          archived: boolean
+          config: Json | null
+          correct_answer: string | null
+          created_at: string
+          created_by: string | null
+          difficulty: string | null
+          id: string
+          options: Json | null
+          outcome: string | null
+          points: number
+          question_text: string
+          question_type: string
+          rubric: Json | null
+          tags: string[]
+          topic: string | null
+          updated_at: string
+          updated_by: string | null
+          version: number
+        }
+        Insert: {
+          archived?: boolean
+          config?: Json | null
+          correct_answer?: string | null
+          created_at?: string
+          created_by?: string | null
+          difficulty?: string | null
+          id?: string
+          options?: Json | null
+          outcome?: string | null
+          points?: number
+          question_text: string
+          question_type?: string
+          rubric?: Json | null
+          tags?: string[]
+          topic?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Update: {
+          archived?: boolean
+          config?: Json | null
+          correct_answer?: string | null
+          created_at?: string
+          created_by?: string | null
+          difficulty?: string | null
+          id?: string
+          options?: Json | null
+          outcome?: string | null
+          points?: number
+          question_text?: string
+          question_type?: string
+          rubric?: Json | null
+          tags?: string[]
+          topic?: string | null
+          updated_at?: string
+          updated_by?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      question_bank_versions: {
+        Row: {
+          config: Json | null
+          correct_answer: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          options: Json | null
+          points: number
+          question_id: string
+          question_text: string
+          question_type: string
+          rubric: Json | null
+          version: number
+        }
+        Insert: {
+          config?: Json | null
+          correct_answer?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          options?: Json | null
+          points: number
+          question_id: string
+          question_text: string
+          question_type: string
+          rubric?: Json | null
+          version: number
+        }
+        Update: {
+          config?: Json | null
+          correct_answer?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          options?: Json | null
+          points?: number
+          question_id?: string
+          question_text?: string
+          question_type?: string
+          rubric?: Json | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_versions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "question_bank"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sessions: {
         Row: {
           calibrated_pitch: number | null
@@ -327,30 +667,39 @@ export type Database = {
         Row: {
           created_at: string | null
           email: string
+          face_embedding: Json | null
+          face_embedding_model: string | null
           face_image_url: string | null
           id: string
           name: string
           registered_at: string | null
+          roll_no: string
           student_id: string | null
           subject_code: string
         }
         Insert: {
           created_at?: string | null
           email: string
+          face_embedding?: Json | null
+          face_embedding_model?: string | null
           face_image_url?: string | null
           id?: string
           name: string
           registered_at?: string | null
+          roll_no: string
           student_id?: string | null
           subject_code: string
         }
         Update: {
           created_at?: string | null
           email?: string
+          face_embedding?: Json | null
+          face_embedding_model?: string | null
           face_image_url?: string | null
           id?: string
           name?: string
           registered_at?: string | null
+          roll_no?: string
           student_id?: string | null
           subject_code?: string
         }
@@ -364,6 +713,7 @@ export type Database = {
           image_url: string | null
           severity: string | null
           student_id: string | null
+          student_name: string | null
           timestamp: string | null
           violation_type: string
         }
@@ -374,6 +724,7 @@ export type Database = {
           image_url?: string | null
           severity?: string | null
           student_id?: string | null
+          student_name?: string | null
           timestamp?: string | null
           violation_type: string
         }
@@ -384,6 +735,7 @@ export type Database = {
           image_url?: string | null
           severity?: string | null
           student_id?: string | null
+          student_name?: string | null
           timestamp?: string | null
           violation_type?: string
         }
@@ -409,7 +761,13 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      extend_exam_time: {
+        Args: { p_exam_id: string; p_minutes: number }
+        Returns: number
+      }
       generate_subject_code: { Args: never; Returns: string }
+      get_server_time: { Args: never; Returns: string }
+      template_in_use: { Args: { p_template_id: string }; Returns: boolean }
     }
     Enums: {
       [_ in never]: never
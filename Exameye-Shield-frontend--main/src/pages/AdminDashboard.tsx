@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { Shield, Activity, Users, AlertTriangle, LogOut, Upload, RefreshCw, Download, FileText, Eye, Monitor, BookOpen } from "lucide-react";
+import { Shield, Activity, Users, AlertTriangle, LogOut, Upload, RefreshCw, Download, FileText, Eye, Monitor, BookOpen, ClipboardCheck, Library, FilePen } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -8,6 +8,7 @@ import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { pdfGenerator } from "@/utils/pdfGenerator";
+import { calculatePercentage, letterGrade, parseGradeScale } from "@/utils/grading";
 
 const AdminDashboard = () => {
   const navigate = useNavigate();
@@ -156,7 +157,8 @@ const AdminDashboard = () => {
           exam_templates (
             subject_name,
             subject_code,
-            created_by
+            created_by,
+            grade_scale
           )
         `)
         .order('started_at', { ascending: false });
@@ -594,19 +596,9 @@ const AdminDashboard = () => {
         } | undefined;
 
         if (totalScore !== null && maxScore && maxScore > 0) {
-          const percentage = Math.round((totalScore / maxScore) * 100);
-          // Same grading scale as StudentReport.tsx
-          let grade = 'F';
-          if (percentage >= 90) grade = 'A+';
-          else if (percentage >= 85) grade = 'A';
-          else if (percentage >= 80) grade = 'A-';
-          else if (percentage >= 75) grade = 'B+';
-          else if (percentage >= 70) grade = 'B';
-          else if (percentage >= 65) grade = 'B-';
-          else if (percentage >= 60) grade = 'C+';
-          else if (percentage >= 55) grade = 'C';
-          else if (percentage >= 50) grade = 'C-';
-          else if (percentage >= 40) grade = 'D';
+          const percentage = calculatePercentage(totalScore, maxScore);
+          // Same grading module as StudentReport.tsx and the exam page
+          const grade = letterGrade(percentage, parseGradeScale(exam.exam_templates?.grade_scale));
 
           examScore = {
             total_score: totalScore,
@@ -714,18 +706,9 @@ const AdminDashboard = () => {
         const totalScore = exam.total_score ?? null;
         const maxScore = exam.max_score ?? null;
         if (totalScore !== null && maxScore && maxScore > 0) {
-          const percentage = Math.round((totalScore / maxScore) * 100);
-          let grade = 'F';
-          if (percentage >= 90) grade = 'A+';
-          else if (percentage >= 85) grade = 'A';
-          else if (percentage >= 80) grade = 'A-';
-          else if (percentage >= 75) grade = 'B+';
-          else if (percentage >= 70) grade = 'B';
-          else if (percentage >= 65) grade = 'B-';
-          else if (percentage >= 60) grade = 'C+';
-          else if (percentage >= 55) grade = 'C';
-          else if (percentage >= 50) grade = 'C-';
-          else if (percentage >= 40) grade = 'D';
+          const percentage = calculatePercentage(totalScore, maxScore);
+          // Same grading module as StudentReport.tsx and the exam page
+          const grade = letterGrade(percentage, parseGradeScale(exam.exam_templates?.grade_scale));
 
           examScore = {
             total_score: totalScore,
@@ -793,7 +776,10 @@ const AdminDashboard = () => {
       'noise_detected': '🔊',
       'tab_switch': '🗂️',
       'copy_paste': '📋',
-      'window_blur': '💤'
+      'window_blur': '💤',
+      'identity_mismatch': '🪪',
+      'speech_detected': '🗣️',
+      'multiple_voices': '💬'
     };
     return icons[type] || '⚠️';
   };
@@ -824,6 +810,14 @@ const AdminDashboard = () => {
               <BookOpen className="w-4 h-4 mr-2" />
               Subjects
             </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/grading')}>
+              <ClipboardCheck className="w-4 h-4 mr-2" />
+              Grading
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/question-bank')}>
+              <Library className="w-4 h-4 mr-2" />
+              Question Bank
+            </Button>
             <Button variant="outline" size="sm" onClick={loadDashboardData}>
               <RefreshCw className="w-4 h-4 mr-2" />
               Refresh
@@ -836,6 +830,10 @@ const AdminDashboard = () => {
               <Upload className="w-4 h-4 mr-2" />
               Upload Template
             </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/template-editor')}>
+              <FilePen className="w-4 h-4 mr-2" />
+              Template Editor
+            </Button>
             <Button variant="outline" size="sm" onClick={handleLogout}>
               <LogOut className="w-4 h-4 mr-2" />
               Logout
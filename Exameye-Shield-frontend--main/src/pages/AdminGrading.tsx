@@ -0,0 +1,562 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, CheckCircle, ChevronLeft, ChevronRight, ClipboardCheck, Pencil, RefreshCw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { RubricEditor } from "@/components/grading/RubricEditor";
+import { gradeQuestion, parseRubric, type RubricCriterion } from "@/utils/grading";
+import { recalculateExamTotals } from "@/utils/examTotals";
+import { getPaperQuestions } from "@/utils/examPaper";
+
+type AnswerGrade = Tables<"answer_grades">;
+
+interface GradingItem {
+  examId: string;
+  studentName: string;
+  studentId: string;
+  answer: string;
+  grade: AnswerGrade | null;
+}
+
+interface GradingGroup {
+  key: string;
+  templateName: string;
+  subjectName: string;
+  question: Tables<"exam_questions">;
+  rubric: RubricCriterion[];
+  items: GradingItem[];
+}
+
+// Per-criterion points keyed by criterion id, stored in answer_grades.rubric_scores
+type RubricScores = Record<string, number>;
+
+const parseRubricScores = (value: Json | null | undefined): RubricScores => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const scores: RubricScores = {};
+  Object.entries(value).forEach(([id, points]) => {
+    if (typeof points === "number") scores[id] = points;
+  });
+  return scores;
+};
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement;
+
+const AdminGrading = () => {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [groups, setGroups] = useState<GradingGroup[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [itemIndex, setItemIndex] = useState(0);
+  const [ungradedOnly, setUngradedOnly] = useState(true);
+  const [editingRubric, setEditingRubric] = useState(false);
+  const [savingRubric, setSavingRubric] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [rubricScores, setRubricScores] = useState<RubricScores>({});
+  const [points, setPoints] = useState("");
+  const [feedback, setFeedback] = useState("");
+
+  useEffect(() => {
+    const isAuthenticated = sessionStorage.getItem("adminAuth");
+    if (!isAuthenticated) {
+      toast.error("Please login as admin");
+      navigate("/login");
+      return;
+    }
+
+    loadQueue();
+  }, [navigate]);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+
+      const { data: examsData, error: examsError } = await supabase
+        .from("exams")
+        .select(`
+          id,
+          student_id,
+          exam_template_id,
+          shuffle_seed,
+          students (
+            name,
+            student_id
+          ),
+          exam_templates (
+            template_name,
+            subject_name,
+            shuffle_questions,
+            shuffle_options,
+            draw_count
+          )
+        `)
+        .eq("status", "completed")
+        .order("completed_at", { ascending: true });
+
+      if (examsError) throw examsError;
+
+      const exams = (examsData || []).filter(exam => !!exam.exam_template_id);
+      const templateIds = Array.from(new Set(exams.map(exam => exam.exam_template_id as string)));
+      const examIds = exams.map(exam => exam.id);
+
+      if (examIds.length === 0) {
+        setGroups([]);
+        return;
+      }
+
+      const [questionsResponse, answersResponse, gradesResponse] = await Promise.all([
+        supabase.from("exam_questions").select("*").in("exam_template_id", templateIds).order("question_number"),
+        supabase.from("exam_answers").select("exam_id, question_number, answer").in("exam_id", examIds),
+        supabase.from("answer_grades").select("*").in("exam_id", examIds),
+      ]);
+
+      if (questionsResponse.error) throw questionsResponse.error;
+      if (answersResponse.error) throw answersResponse.error;
+      if (gradesResponse.error) throw gradesResponse.error;
+
+      const answerMap = new Map(
+        (answersResponse.data || []).map(a => [`${a.exam_id}:${a.question_number}`, a.answer || ""])
+      );
+      const gradeMap = new Map(
+        (gradesResponse.data || []).map(g => [`${g.exam_id}:${g.question_number}`, g])
+      );
+
+      // Question numbers on each student's paper - pool draws leave some questions out
+      const paperMap = new Map(
+        exams.map(exam => {
+          const templateQuestions = (questionsResponse.data || [])
+            .filter(q => q.exam_template_id === exam.exam_template_id);
+          const paper = getPaperQuestions(templateQuestions, exam.exam_templates, exam.shuffle_seed);
+          return [exam.id, new Set(paper.map(q => q.question_number))];
+        })
+      );
+
+      const nextGroups: GradingGroup[] = [];
+      (questionsResponse.data || []).forEach(question => {
+        // Only questions the auto-grader can't score end up in the queue
+        if (gradeQuestion(question, "").status !== "manual") return;
+
+        const templateExams = exams.filter(exam =>
+          exam.exam_template_id === question.exam_template_id &&
+          paperMap.get(exam.id)?.has(question.question_number)
+        );
+        if (templateExams.length === 0) return;
+
+        nextGroups.push({
+          key: `${question.exam_template_id}:${question.question_number}`,
+          templateName: templateExams[0].exam_templates?.template_name || "Untitled template",
+          subjectName: templateExams[0].exam_templates?.subject_name || "",
+          question,
+          rubric: parseRubric(question.rubric),
+          items: templateExams.map(exam => ({
+            examId: exam.id,
+            studentName: exam.students?.name || "Unknown Student",
+            studentId: exam.students?.student_id || exam.student_id || "N/A",
+            answer: answerMap.get(`${exam.id}:${question.question_number}`) || "",
+            grade: gradeMap.get(`${exam.id}:${question.question_number}`) || null,
+          })),
+        });
+      });
+
+      setGroups(nextGroups);
+      setSelectedKey(prev => prev && nextGroups.some(g => g.key === prev) ? prev : nextGroups[0]?.key || null);
+      console.log(`✅ Grading queue loaded: ${nextGroups.length} questions`);
+    } catch (error) {
+      console.error("Error loading grading queue:", error);
+      toast.error("Failed to load grading queue");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedGroup = groups.find(group => group.key === selectedKey) || null;
+
+  const visibleItems = useMemo(
+    () => (selectedGroup?.items || []).filter(item => !ungradedOnly || !item.grade),
+    [selectedGroup, ungradedOnly]
+  );
+  const currentItem: GradingItem | undefined = visibleItems[itemIndex];
+  const questionPoints = selectedGroup?.question.points ?? 1;
+
+  // Load the form for the answer on screen
+  useEffect(() => {
+    setRubricScores(parseRubricScores(currentItem?.grade?.rubric_scores));
+    setPoints(currentItem?.grade ? String(currentItem.grade.points_awarded) : "");
+    setFeedback(currentItem?.grade?.feedback || "");
+  }, [currentItem]);
+
+  useEffect(() => {
+    setItemIndex(0);
+    setEditingRubric(false);
+  }, [selectedKey, ungradedOnly]);
+
+  // Grading the last ungraded answer shrinks the list; wrap back to any skipped ones
+  useEffect(() => {
+    if (itemIndex > 0 && itemIndex >= visibleItems.length) setItemIndex(0);
+  }, [itemIndex, visibleItems.length]);
+
+  const awardedPoints = selectedGroup && selectedGroup.rubric.length > 0
+    ? selectedGroup.rubric.reduce((sum, c) => sum + Math.min(rubricScores[c.id] || 0, c.points), 0)
+    : parseFloat(points);
+
+  const goToItem = useCallback((index: number) => {
+    setItemIndex(Math.min(Math.max(index, 0), Math.max(visibleItems.length - 1, 0)));
+  }, [visibleItems.length]);
+
+  const saveGrade = useCallback(async () => {
+    if (!selectedGroup || !currentItem) return;
+    if (!Number.isFinite(awardedPoints) || awardedPoints < 0) {
+      toast.error("Enter the points to award");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const graderName = sessionStorage.getItem("adminName") || "Admin";
+      const { data, error } = await supabase
+        .from("answer_grades")
+        .upsert({
+          exam_id: currentItem.examId,
+          question_number: selectedGroup.question.question_number,
+          points_awarded: Math.min(awardedPoints, questionPoints),
+          rubric_scores: selectedGroup.rubric.length > 0 ? rubricScores : null,
+          feedback: feedback.trim() || null,
+          graded_by: graderName,
+          graded_at: new Date().toISOString(),
+        }, { onConflict: "exam_id,question_number" })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setGroups(prev => prev.map(group => group.key !== selectedGroup.key ? group : {
+        ...group,
+        items: group.items.map(item => item.examId === currentItem.examId ? { ...item, grade: data } : item),
+      }));
+
+      await recalculateExamTotals(currentItem.examId);
+      toast.success(`Graded ${currentItem.studentName}: ${data.points_awarded}/${questionPoints}`);
+
+      // In "ungraded only" mode the saved item drops out of the list, so the index already points at the next one
+      if (!ungradedOnly) goToItem(itemIndex + 1);
+    } catch (error) {
+      console.error("Error saving grade:", error);
+      toast.error("Failed to save grade");
+    } finally {
+      setSaving(false);
+    }
+  }, [selectedGroup, currentItem, awardedPoints, questionPoints, rubricScores, feedback, ungradedOnly, goToItem, itemIndex]);
+
+  const saveRubric = async (rubric: RubricCriterion[]) => {
+    if (!selectedGroup) return;
+    setSavingRubric(true);
+    try {
+      const { error } = await supabase
+        .from("exam_questions")
+        .update({ rubric: rubric as unknown as Json })
+        .eq("id", selectedGroup.question.id);
+
+      if (error) throw error;
+
+      setGroups(prev => prev.map(group => group.key === selectedGroup.key ? { ...group, rubric } : group));
+      setEditingRubric(false);
+      toast.success("Rubric saved");
+    } catch (error) {
+      console.error("Error saving rubric:", error);
+      toast.error("Failed to save rubric");
+    } finally {
+      setSavingRubric(false);
+    }
+  };
+
+  // Keyboard flow: Ctrl/Cmd+Enter saves and moves on, J/K (or ]/[) step through answers
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (editingRubric) return;
+      if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        if (!saving) saveGrade();
+        return;
+      }
+      if (isTypingTarget(e.target)) return;
+      if (e.key === "j" || e.key === "]") {
+        goToItem(itemIndex + 1);
+      } else if (e.key === "k" || e.key === "[") {
+        goToItem(itemIndex - 1);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [editingRubric, saving, saveGrade, goToItem, itemIndex]);
+
+  const totalUngraded = groups.reduce((sum, group) => sum + group.items.filter(item => !item.grade).length, 0);
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Grading Workspace</h1>
+            <p className="text-muted-foreground">
+              Grade short answers question by question. Ctrl+Enter saves and moves to the next answer; J/K step through answers.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+            <Button variant="secondary" onClick={loadQueue} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            <span className="ml-2 text-muted-foreground">Loading grading queue…</span>
+          </div>
+        ) : groups.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center text-muted-foreground">
+              Nothing to grade. Short-answer questions from completed exams will appear here.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6">
+            {/* Question queue */}
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span className="flex items-center gap-2">
+                    <ClipboardCheck className="w-4 h-4" />
+                    Queue
+                  </span>
+                  <Badge variant={totalUngraded > 0 ? "destructive" : "secondary"}>{totalUngraded} ungraded</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {groups.map(group => {
+                  const ungraded = group.items.filter(item => !item.grade).length;
+                  return (
+                    <button
+                      key={group.key}
+                      type="button"
+                      onClick={() => setSelectedKey(group.key)}
+                      className={`w-full text-left p-3 rounded-lg border-2 transition-colors hover:bg-accent ${
+                        group.key === selectedKey ? "border-primary bg-primary/5" : "border-border"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold text-sm">Q{group.question.question_number}</span>
+                        {ungraded === 0 ? (
+                          <CheckCircle className="w-4 h-4 text-success" />
+                        ) : (
+                          <span className="text-xs text-muted-foreground">
+                            {group.items.length - ungraded}/{group.items.length} graded
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm line-clamp-2">{group.question.question_text}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {group.templateName}{group.subjectName ? ` · ${group.subjectName}` : ""}
+                      </p>
+                    </button>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            {selectedGroup && (
+              <div className="space-y-6">
+                {/* Question and rubric */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">
+                      Q{selectedGroup.question.question_number}. {selectedGroup.question.question_text}
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Worth {questionPoints} {questionPoints === 1 ? "point" : "points"}
+                      {selectedGroup.question.correct_answer && ` · Model answer: ${selectedGroup.question.correct_answer}`}
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="font-semibold">Rubric</h3>
+                      {!editingRubric && (
+                        <Button variant="outline" size="sm" onClick={() => setEditingRubric(true)}>
+                          <Pencil className="w-4 h-4 mr-1" />
+                          {selectedGroup.rubric.length > 0 ? "Edit Rubric" : "Create Rubric"}
+                        </Button>
+                      )}
+                    </div>
+                    {editingRubric ? (
+                      <RubricEditor
+                        key={selectedGroup.key}
+                        rubric={selectedGroup.rubric}
+                        questionPoints={questionPoints}
+                        saving={savingRubric}
+                        onSave={saveRubric}
+                        onCancel={() => setEditingRubric(false)}
+                      />
+                    ) : selectedGroup.rubric.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        No rubric yet - answers are graded with a single points value.
+                      </p>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {selectedGroup.rubric.map(criterion => (
+                          <li key={criterion.id} className="flex justify-between">
+                            <span>{criterion.description}</span>
+                            <span className="text-muted-foreground">{criterion.points} pts</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Current answer */}
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-base">
+                      {currentItem
+                        ? `Answer ${itemIndex + 1} of ${visibleItems.length}`
+                        : "All answers graded"}
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      <Switch id="ungraded-only" checked={ungradedOnly} onCheckedChange={setUngradedOnly} />
+                      <Label htmlFor="ungraded-only" className="text-sm">Ungraded only</Label>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {!currentItem ? (
+                      <p className="text-sm text-muted-foreground py-6 text-center">
+                        Every answer to this question has a grade. Turn off "Ungraded only" to review them.
+                      </p>
+                    ) : (
+                      <div className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">{currentItem.studentName}</p>
+                            <p className="text-xs text-muted-foreground">{currentItem.studentId}</p>
+                          </div>
+                          {currentItem.grade && (
+                            <Badge variant="secondary">
+                              {currentItem.grade.points_awarded}/{questionPoints} · graded by {currentItem.grade.graded_by} on{" "}
+                              {new Date(currentItem.grade.graded_at).toLocaleString()}
+                            </Badge>
+                          )}
+                        </div>
+
+                        <div className="p-4 rounded-lg border bg-muted/40 whitespace-pre-wrap min-h-[80px]">
+                          {currentItem.answer || <span className="text-muted-foreground italic">Not answered</span>}
+                        </div>
+
+                        {selectedGroup.rubric.length > 0 ? (
+                          <div className="space-y-2">
+                            {selectedGroup.rubric.map(criterion => (
+                              <div key={criterion.id} className="flex items-center gap-3">
+                                <span className="flex-1 text-sm">{criterion.description}</span>
+                                <Button
+                                  type="button"
+                                  variant={rubricScores[criterion.id] === criterion.points ? "default" : "outline"}
+                                  size="sm"
+                                  onClick={() => setRubricScores(prev => ({ ...prev, [criterion.id]: criterion.points }))}
+                                >
+                                  Full
+                                </Button>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max={criterion.points}
+                                  step="0.5"
+                                  className="w-20"
+                                  value={rubricScores[criterion.id] ?? ""}
+                                  onChange={(e) => setRubricScores(prev => ({
+                                    ...prev,
+                                    [criterion.id]: Math.min(parseFloat(e.target.value) || 0, criterion.points),
+                                  }))}
+                                  aria-label={`Points for ${criterion.description}`}
+                                />
+                                <span className="text-sm text-muted-foreground w-12">/ {criterion.points}</span>
+                              </div>
+                            ))}
+                            <p className="text-sm font-medium text-right">
+                              Total: {Math.min(awardedPoints, questionPoints)} / {questionPoints}
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <Label htmlFor="points">Points</Label>
+                            <Input
+                              id="points"
+                              type="number"
+                              min="0"
+                              max={questionPoints}
+                              step="0.5"
+                              className="w-24"
+                              value={points}
+                              onChange={(e) => setPoints(e.target.value)}
+                            />
+                            <span className="text-sm text-muted-foreground">/ {questionPoints}</span>
+                          </div>
+                        )}
+
+                        <div className="space-y-2">
+                          <Label htmlFor="feedback">Feedback</Label>
+                          <Textarea
+                            id="feedback"
+                            placeholder="Optional feedback for the student"
+                            value={feedback}
+                            onChange={(e) => setFeedback(e.target.value)}
+                            rows={3}
+                          />
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => goToItem(itemIndex - 1)} disabled={itemIndex === 0}>
+                              <ChevronLeft className="w-4 h-4 mr-1" />
+                              Previous
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => goToItem(itemIndex + 1)}
+                              disabled={itemIndex >= visibleItems.length - 1}
+                            >
+                              Skip
+                              <ChevronRight className="w-4 h-4 ml-1" />
+                            </Button>
+                          </div>
+                          <Button onClick={saveGrade} disabled={saving}>
+                            <Save className="w-4 h-4 mr-2" />
+                            {saving ? "Saving..." : "Save & Next"}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminGrading;
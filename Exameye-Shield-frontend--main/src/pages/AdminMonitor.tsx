@@ -1,11 +1,23 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { Shield, AlertTriangle, Users, ArrowLeft, RefreshCw, Camera } from "lucide-react";
+import { Shield, AlertTriangle, Users, ArrowLeft, RefreshCw, Camera, RotateCcw, TimerReset, WifiOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { logExamEvent, type ExamEventType } from "@/utils/examSession";
+import {
+  PROCTORING_EVENT_TYPES,
+  computeCoverage,
+  formatGapDuration,
+  gapsFromEvents,
+  openGapSince,
+  type ProctoringEventRow,
+} from "@/utils/proctoringCoverage";
+import { CLIENT_FALLBACK_SOURCE } from "@/utils/fallbackDetection";
+import { IdReviewQueue } from "@/components/IdReviewQueue";
+import { AudioEvidence } from "@/components/AudioEvidence";
 
 interface ActiveExam {
   id: string;
@@ -13,6 +25,7 @@ interface ActiveExam {
   subject_code: string;
   status: string;
   started_at: string;
+  time_extension_minutes?: number;
   students: {
     name?: string;
     email?: string;
@@ -28,6 +41,12 @@ interface ActiveExam {
   last_activity?: string;
   session_roll_no?: string;
   session_student_id?: string;
+  resume_count?: number;
+  last_resumed_at?: string;
+  // Start (epoch ms) of the current proctoring outage, and unmonitored time so far
+  unmonitored_since?: number | null;
+  unmonitored_ms?: number;
+  latency_ms?: number | null;
 }
 
 type SessionRow = {
@@ -39,6 +58,19 @@ type SessionRow = {
 };
 
 const HEARTBEAT_TIMEOUT_MS = 20000;
+// exam_events that change what the monitor shows. proctoring_health arrives from every
+// connected student every few seconds and is picked up by the periodic reload instead.
+const MONITOR_EVENT_TYPES: ExamEventType[] = [
+  'exam_started',
+  'exam_resumed',
+  'session_takeover',
+  'time_extended',
+  'proctoring_connected',
+  'proctoring_gap_started',
+  'proctoring_gap',
+];
+
+const EXTENSION_STEP_MINUTES = 5;
 
 const AdminMonitor = () => {
   const navigate = useNavigate();
@@ -46,6 +78,88 @@ const AdminMonitor = () => {
   const [recentViolations, setRecentViolations] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // Resume events per exam, so admins can see interrupted-and-resumed attempts
+  const loadResumeEvents = async (examIds: string[]) => {
+    const resumes = new Map<string, { count: number; last: string }>();
+    if (examIds.length === 0) return resumes;
+
+    const { data } = await supabase
+      .from('exam_events')
+      .select('exam_id, created_at')
+      .eq('event_type', 'exam_resumed')
+      .in('exam_id', examIds)
+      .order('created_at', { ascending: false });
+
+    data?.forEach(row => {
+      if (!row.exam_id) return;
+      const entry = resumes.get(row.exam_id);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        resumes.set(row.exam_id, { count: 1, last: row.created_at || '' });
+      }
+    });
+    return resumes;
+  };
+
+  // Proctoring connection events per exam, for unmonitored gaps and latency
+  const loadProctoringEvents = async (examIds: string[]) => {
+    const events = new Map<string, ProctoringEventRow[]>();
+    if (examIds.length === 0) return events;
+
+    const { data } = await supabase
+      .from('exam_events')
+      .select('exam_id, event_type, details, created_at')
+      .in('event_type', [...PROCTORING_EVENT_TYPES])
+      .in('exam_id', examIds);
+
+    data?.forEach(row => {
+      if (!row.exam_id) return;
+      const list = events.get(row.exam_id) || [];
+      list.push(row);
+      events.set(row.exam_id, list);
+    });
+    return events;
+  };
+
+  const summarizeProctoring = (events: ProctoringEventRow[], startedAt?: string | null) => {
+    const now = Date.now();
+    const gaps = gapsFromEvents(events);
+    const coverage = computeCoverage(gaps, startedAt ? new Date(startedAt).getTime() : now, now);
+    const latestHealth = events
+      .filter(event => event.event_type === 'proctoring_health')
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''))[0];
+    const latency = (latestHealth?.details as { latency_ms?: number | null } | null)?.latency_ms;
+    return {
+      unmonitored_since: openGapSince(gaps),
+      unmonitored_ms: coverage.unmonitoredMs,
+      latency_ms: typeof latency === 'number' ? latency : null,
+    };
+  };
+
+  const grantTimeExtension = async (exam: ActiveExam) => {
+    try {
+      // Added in the database, so concurrent grants from other admins are never overwritten
+      const { data: newExtension, error } = await supabase.rpc('extend_exam_time', {
+        p_exam_id: exam.id,
+        p_minutes: EXTENSION_STEP_MINUTES,
+      });
+
+      if (error) throw error;
+
+      await logExamEvent(exam.id, exam.student_id, 'time_extended', {
+        added_minutes: EXTENSION_STEP_MINUTES,
+        total_extension_minutes: newExtension,
+        granted_by: sessionStorage.getItem('adminName') || 'Admin',
+      });
+      toast.success(`Granted ${EXTENSION_STEP_MINUTES} extra minutes to ${exam.students?.name || 'student'}`);
+      loadActiveExams();
+    } catch (error) {
+      console.error('Error granting time extension:', error);
+      toast.error("Failed to extend exam time");
+    }
+  };
+
   const loadInProgressExamsFallback = async (): Promise<ActiveExam[]> => {
     const { data: examsData, error: examsError } = await supabase
       .from('exams')
@@ -69,6 +183,9 @@ const AdminMonitor = () => {
 
     if (examsError) throw examsError;
 
+    const resumes = await loadResumeEvents((examsData || []).map(exam => exam.id));
+    const proctoringEvents = await loadProctoringEvents((examsData || []).map(exam => exam.id));
+
     const examsWithViolations = await Promise.all(
       (examsData || []).map(async (exam) => {
         const { count } = await supabase
@@ -82,6 +199,9 @@ const AdminMonitor = () => {
           last_activity: exam.started_at,
           session_roll_no: exam.students?.roll_no,
           session_student_id: exam.students?.student_id || exam.student_id,
+          resume_count: resumes.get(exam.id)?.count || 0,
+          last_resumed_at: resumes.get(exam.id)?.last,
+          ...summarizeProctoring(proctoringEvents.get(exam.id) || [], exam.started_at),
         };
       })
     );
@@ -124,6 +244,26 @@ const AdminMonitor = () => {
       )
       .subscribe();
 
+    const examEventsChannel = supabase
+      .channel('exam-events-monitor')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'exam_events',
+          filter: `event_type=in.(${MONITOR_EVENT_TYPES.join(',')})`,
+        },
+        (payload) => {
+          console.log('Exam event:', payload);
+          if (payload.new.event_type === 'exam_resumed') {
+            toast.info('A student resumed an interrupted exam');
+          }
+          loadActiveExams();
+        }
+      )
+      .subscribe();
+
     const violationsChannel = supabase
       .channel('violations-monitor')
       .on('postgres_changes', 
@@ -145,6 +285,7 @@ const AdminMonitor = () => {
       clearInterval(interval);
       supabase.removeChannel(examsChannel);
       supabase.removeChannel(sessionsChannel);
+      supabase.removeChannel(examEventsChannel);
       supabase.removeChannel(violationsChannel);
     };
   }, [navigate]);
@@ -205,6 +346,9 @@ const AdminMonitor = () => {
         .select('exam_id')
         .in('exam_id', examIds);
 
+      const resumes = await loadResumeEvents(examIds);
+      const proctoringEvents = await loadProctoringEvents(examIds);
+
       const violationCounts = new Map<string, number>();
       violationRows?.forEach(row => {
         if (!row.exam_id) return;
@@ -229,6 +373,9 @@ const AdminMonitor = () => {
             last_activity: session.last_heartbeat,
             session_roll_no: session.roll_no || exam.students?.roll_no,
             session_student_id: session.student_id,
+            resume_count: resumes.get(exam.id)?.count || 0,
+            last_resumed_at: resumes.get(exam.id)?.last,
+            ...summarizeProctoring(proctoringEvents.get(exam.id) || [], exam.started_at),
           });
         });
       });
@@ -427,8 +574,36 @@ const AdminMonitor = () => {
                           <p><span className="font-medium">Code:</span> {exam.exam_templates?.subject_code || exam.subject_code}</p>
                           <p><span className="font-medium">Created by:</span> {exam.exam_templates?.created_by || 'Admin'}</p>
                           <p><span className="font-medium">Last heartbeat:</span> {exam.last_activity ? formatTime(exam.last_activity) : 'N/A'}</p>
+                          {(exam.time_extension_minutes || 0) > 0 && (
+                            <p><span className="font-medium">Extra time:</span> {exam.time_extension_minutes} min</p>
+                          )}
+                          {exam.latency_ms != null && (
+                            <p><span className="font-medium">Proctoring latency:</span> {exam.latency_ms} ms</p>
+                          )}
                         </div>
 
+                        {exam.unmonitored_since ? (
+                          <div className="flex items-center gap-2 text-xs font-medium text-destructive">
+                            <WifiOff className="w-3.5 h-3.5" />
+                            <span>Unmonitored for {formatGapDuration(Date.now() - exam.unmonitored_since)}</span>
+                          </div>
+                        ) : (exam.unmonitored_ms || 0) > 0 && (
+                          <div className="flex items-center gap-2 text-xs text-warning">
+                            <WifiOff className="w-3.5 h-3.5" />
+                            <span>Unmonitored {formatGapDuration(exam.unmonitored_ms || 0)} in total</span>
+                          </div>
+                        )}
+
+                        {(exam.resume_count || 0) > 0 && (
+                          <div className="flex items-center gap-2 text-xs text-warning">
+                            <RotateCcw className="w-3.5 h-3.5" />
+                            <span>
+                              Resumed {exam.resume_count}×
+                              {exam.last_resumed_at && ` (last ${formatTime(exam.last_resumed_at)})`}
+                            </span>
+                          </div>
+                        )}
+
                         <div className="flex items-center justify-between pt-2 border-t">
                           <div className="flex items-center gap-2">
                             <AlertTriangle className={`w-4 h-4 ${exam.violation_count && exam.violation_count > 0 ? 'text-destructive' : 'text-muted-foreground'}`} />
@@ -436,9 +611,20 @@ const AdminMonitor = () => {
                               {exam.violation_count || 0} Violations
                             </span>
                           </div>
-                          <Badge variant={exam.violation_count && exam.violation_count > 3 ? "destructive" : "secondary"}>
-                            {exam.status}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 px-2 text-xs"
+                              onClick={() => grantTimeExtension(exam)}
+                            >
+                              <TimerReset className="w-3.5 h-3.5 mr-1" />
+                              +{EXTENSION_STEP_MINUTES} min
+                            </Button>
+                            <Badge variant={exam.violation_count && exam.violation_count > 3 ? "destructive" : "secondary"}>
+                              {exam.status}
+                            </Badge>
+                          </div>
                         </div>
                       </div>
                     </CardContent>
@@ -449,6 +635,9 @@ const AdminMonitor = () => {
           </CardContent>
         </Card>
 
+        {/* ID cards waiting for a decision; hidden when there are none */}
+        <IdReviewQueue />
+
         {/* Recent Violations Alert Feed */}
         <Card>
           <CardHeader>
@@ -479,6 +668,19 @@ const AdminMonitor = () => {
                         />
                       </div>
                     )}
+                    {/* Registered face, for identity mismatches */}
+                    {violation.details?.reference_image_url && (
+                      <div className="w-24 h-24 rounded-md overflow-hidden bg-muted flex-shrink-0 border-2 border-primary" title="Registered face">
+                        <img 
+                          src={violation.details.reference_image_url} 
+                          alt="Registered face"
+                          className="w-full h-full object-cover"
+                          onError={(e) => {
+                            e.currentTarget.style.display = 'none';
+                          }}
+                        />
+                      </div>
+                    )}
                     
                     {/* Violation Details */}
                     <div className="flex-1 flex items-start justify-between">
@@ -492,12 +694,21 @@ const AdminMonitor = () => {
                           </p>
                           <p className="text-sm text-muted-foreground">
                             {violation.violation_type?.replace(/_/g, ' ')}
+                            {violation.details?.source === CLIENT_FALLBACK_SOURCE && (
+                              <Badge variant="outline" className="ml-2 text-xs" title="Detected in the student's browser while the proctoring service was unreachable">
+                                Local detection
+                              </Badge>
+                            )}
                           </p>
                           {violation.details?.message && (
                             <p className="text-xs text-muted-foreground mt-1">
                               {violation.details.message}
                             </p>
                           )}
+                          {/* Encrypted clip, for speech_detected and multiple_voices */}
+                          {violation.details?.audio_clip && (
+                            <AudioEvidence evidence={violation.details.audio_clip} />
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
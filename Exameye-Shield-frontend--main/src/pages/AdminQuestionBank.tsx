@@ -0,0 +1,430 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, Library, Pencil, RefreshCw, Search, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { QuestionInput } from "@/components/questions/QuestionInput";
+import { BankQuestionEditor } from "@/components/questionBank/BankQuestionEditor";
+import { TemplateAssembler, type AssembledTemplate } from "@/components/questionBank/TemplateAssembler";
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS, formatAnswer, isQuestionType } from "@/utils/questionTypes";
+import { isSpreadsheetFile, parseBankSpreadsheetRows, readSpreadsheetFile } from "@/utils/templateSpreadsheet";
+import {
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  collectFacets,
+  describeBankQuestion,
+  isDifficulty,
+  searchBank,
+  toExamQuestionRows,
+  type BankQuestion,
+} from "@/utils/questionBank";
+
+const ANY = "any";
+
+const AdminQuestionBank = () => {
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loading, setLoading] = useState(true);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
+  const [search, setSearch] = useState("");
+  const [topic, setTopic] = useState(ANY);
+  const [difficulty, setDifficulty] = useState(ANY);
+  const [tag, setTag] = useState(ANY);
+  const [questionType, setQuestionType] = useState(ANY);
+  const [showArchived, setShowArchived] = useState(false);
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [previewAnswer, setPreviewAnswer] = useState("");
+  const [versions, setVersions] = useState<Tables<"question_bank_versions">[]>([]);
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    const isAuthenticated = sessionStorage.getItem("adminAuth");
+    if (!isAuthenticated) {
+      toast.error("Please login as admin");
+      navigate("/login");
+      return;
+    }
+
+    loadBank();
+  }, [navigate]);
+
+  const loadBank = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("question_bank")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setBank(data || []);
+      console.log(`✅ Question bank loaded: ${data?.length || 0} questions`);
+    } catch (error) {
+      console.error("Error loading question bank:", error);
+      toast.error("Failed to load question bank");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const facets = useMemo(() => collectFacets(bank), [bank]);
+  const activeBank = useMemo(() => bank.filter(question => !question.archived), [bank]);
+
+  const results = useMemo(
+    () =>
+      searchBank(bank, {
+        search,
+        topic: topic === ANY ? undefined : topic,
+        difficulty: isDifficulty(difficulty) ? difficulty : undefined,
+        tag: tag === ANY ? undefined : tag,
+        questionType: isQuestionType(questionType) ? questionType : undefined,
+        includeArchived: showArchived,
+      }),
+    [bank, search, topic, difficulty, tag, questionType, showArchived]
+  );
+
+  const previewQuestion = bank.find(question => question.id === previewId) || null;
+  const previewVersion = previewQuestion?.version;
+
+  useEffect(() => {
+    setPreviewAnswer("");
+    setVersions([]);
+    if (!previewId) return;
+
+    supabase
+      .from("question_bank_versions")
+      .select("*")
+      .eq("question_id", previewId)
+      .order("version", { ascending: false })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading question versions:", error);
+          return;
+        }
+        setVersions(data || []);
+      });
+  }, [previewId, previewVersion]);
+
+  const togglePicked = (id: string, picked: boolean) => {
+    setPickedIds(prev => (picked ? [...prev, id] : prev.filter(p => p !== id)));
+  };
+
+  const handleImport = async (file: File) => {
+    if (!isSpreadsheetFile(file.name)) {
+      toast.error("Please upload an Excel (.xlsx, .xls) or CSV (.csv) file");
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const parsed = parseBankSpreadsheetRows(await readSpreadsheetFile(file));
+      if (parsed.length === 0) {
+        toast.error("No questions found in the file");
+        return;
+      }
+
+      const adminName = sessionStorage.getItem("adminName") || "Admin";
+      const { error } = await supabase.from("question_bank").insert(
+        parsed.map(({ question_number: _questionNumber, ...question }) => ({
+          ...question,
+          created_by: adminName,
+        }))
+      );
+
+      if (error) throw error;
+      toast.success(`Imported ${parsed.length} questions into the bank`);
+      await loadBank();
+    } catch (error) {
+      console.error("Error importing questions:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import questions");
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const saveEdit = async (update: TablesUpdate<"question_bank">) => {
+    if (!editing) return;
+
+    try {
+      setSavingEdit(true);
+      // The database bumps the version and keeps a snapshot, credited to this admin, when the content changes
+      const { data, error } = await supabase
+        .from("question_bank")
+        .update({ ...update, updated_by: sessionStorage.getItem("adminName") || "Admin" })
+        .eq("id", editing.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      setBank(prev => prev.map(question => (question.id === data.id ? data : question)));
+      if (data.version !== editing.version) {
+        toast.success(`Saved as version ${data.version}`);
+      } else {
+        toast.success("Question updated");
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error("Error saving bank question:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save question");
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const createTemplate = async (template: AssembledTemplate) => {
+    try {
+      setCreating(true);
+      const adminName = sessionStorage.getItem("adminName") || "Admin";
+
+      const { data: templateData, error: templateError } = await supabase
+        .from("exam_templates")
+        .insert({
+          template_name: template.templateName,
+          total_questions: template.questions.length,
+          created_by: adminName,
+          subject_code: template.subjectCode,
+          subject_name: template.subjectName,
+          duration_minutes: template.durationMinutes,
+        })
+        .select()
+        .single();
+
+      if (templateError) throw templateError;
+
+      // Questions are copied into the template, pinned to their current bank version
+      const { error: questionsError } = await supabase
+        .from("exam_questions")
+        .insert(toExamQuestionRows(templateData.id, template.questions));
+
+      if (questionsError) throw questionsError;
+
+      toast.success(`Template "${template.templateName}" created with ${template.questions.length} questions`);
+      setPickedIds([]);
+    } catch (error) {
+      console.error("Error creating template from bank:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create template");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const renderFilter = (value: string, onChange: (value: string) => void, placeholder: string, options: Array<[string, string]>) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {options.map(([optionValue, label]) => (
+          <SelectItem key={optionValue} value={optionValue}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Question Bank</h1>
+            <p className="text-muted-foreground">
+              Search and tag reusable questions, then assemble templates by picking questions or drawing by rule.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/dashboard")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+              <Upload className="mr-2 h-4 w-4" />
+              {importing ? "Importing..." : "Import Spreadsheet"}
+            </Button>
+            <Button variant="secondary" onClick={loadBank} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-[1fr_420px] gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span className="flex items-center gap-2">
+                    <Library className="w-4 h-4" />
+                    Questions
+                  </span>
+                  <Badge variant="secondary">
+                    {results.length} of {activeBank.length}
+                  </Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <div className="relative flex-1 min-w-[200px]">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      className="pl-9"
+                      placeholder="Search text, topic, outcome or tag"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                    />
+                  </div>
+                  {renderFilter(topic, setTopic, "All topics", facets.topics.map(t => [t, t]))}
+                  {renderFilter(difficulty, setDifficulty, "All levels", DIFFICULTIES.map(d => [d, DIFFICULTY_LABELS[d]]))}
+                  {renderFilter(tag, setTag, "All tags", facets.tags.map(t => [t, t]))}
+                  {renderFilter(questionType, setQuestionType, "All types", QUESTION_TYPES.map(t => [t, QUESTION_TYPE_LABELS[t]]))}
+                  <div className="flex items-center gap-2">
+                    <Switch id="showArchived" checked={showArchived} onCheckedChange={setShowArchived} />
+                    <Label htmlFor="showArchived" className="text-sm">Archived</Label>
+                  </div>
+                </div>
+
+                {loading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+                    <span className="ml-2 text-muted-foreground">Loading question bank…</span>
+                  </div>
+                ) : results.length === 0 ? (
+                  <p className="py-12 text-center text-muted-foreground">
+                    {bank.length === 0
+                      ? "The bank is empty. Import a spreadsheet with Topic, Difficulty, Outcome and Tags columns to get started."
+                      : "No questions match these filters."}
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10"></TableHead>
+                        <TableHead>Question</TableHead>
+                        <TableHead className="w-40">Tags</TableHead>
+                        <TableHead className="w-16 text-right">Points</TableHead>
+                        <TableHead className="w-12"></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {results.map(question => (
+                        <TableRow
+                          key={question.id}
+                          className={`cursor-pointer ${question.id === previewId ? "bg-primary/5" : ""}`}
+                          onClick={() => setPreviewId(question.id)}
+                        >
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            <Checkbox
+                              checked={pickedIds.includes(question.id)}
+                              disabled={question.archived}
+                              onCheckedChange={(checked) => togglePicked(question.id, checked === true)}
+                              aria-label="Pick for template"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <p className="line-clamp-2">{question.question_text}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {describeBankQuestion(question)}
+                              {question.archived && " · archived"}
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {question.tags.map(t => (
+                                <Badge key={t} variant="outline" className="text-xs">{t}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{question.points}</TableCell>
+                          <TableCell onClick={(e) => e.stopPropagation()}>
+                            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setEditing(question)}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {previewQuestion && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{previewQuestion.question_text}</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    {describeBankQuestion(previewQuestion)}
+                    {previewQuestion.outcome && ` · Outcome: ${previewQuestion.outcome}`}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-xs text-muted-foreground">Student view - try answering to check the question:</p>
+                  <QuestionInput
+                    question={{ ...previewQuestion, question_number: 0 }}
+                    value={previewAnswer}
+                    onChange={setPreviewAnswer}
+                  />
+                  <p className="text-sm">
+                    <span className="font-medium">Correct answer: </span>
+                    {formatAnswer(previewQuestion, previewQuestion.correct_answer) || "—"}
+                  </p>
+                  {versions.length > 1 && (
+                    <div className="text-xs text-muted-foreground space-y-1">
+                      <p className="font-medium">History</p>
+                      {versions.map(version => (
+                        <p key={version.id}>
+                          v{version.version} · {new Date(version.created_at).toLocaleString()}
+                          {version.created_by ? ` · ${version.created_by}` : ""} · {version.question_text}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <TemplateAssembler
+            bank={activeBank}
+            facets={facets}
+            pickedIds={pickedIds}
+            creating={creating}
+            onUnpick={(id) => togglePicked(id, false)}
+            onCreate={createTemplate}
+          />
+        </div>
+      </div>
+
+      <BankQuestionEditor
+        question={editing}
+        saving={savingEdit}
+        onSave={saveEdit}
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  );
+};
+
+export default AdminQuestionBank;
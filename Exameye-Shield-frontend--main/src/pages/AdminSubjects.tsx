@@ -7,6 +7,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, Eye, RefreshCw } from "lucide-react";
+import { gradeFromTotals, parseGradeScale } from "@/utils/grading";
 
 interface SubjectStudentRow {
   examId: string;
@@ -19,6 +20,7 @@ interface SubjectStudentRow {
   totalScore?: number | null;
   maxScore?: number | null;
   percentage?: number | null;
+  gradeLetter?: string | null;
   violations: number;
   photo?: string | null;
 }
@@ -119,7 +121,8 @@ const AdminSubjects = () => {
               exam_templates (
                 subject_name,
                 subject_code,
-                created_by
+                created_by,
+                grade_scale
               )
             `)
             .order("started_at", { ascending: false }),
@@ -193,10 +196,7 @@ const AdminSubjects = () => {
       const violationsCount = violations.filter((v) => isViolationForExam(v, exam, lookup)).length;
       const totalScore = typeof exam.total_score === "number" ? exam.total_score : null;
       const maxScore = typeof exam.max_score === "number" ? exam.max_score : null;
-      const percentage =
-        totalScore !== null && maxScore && maxScore > 0
-          ? Math.round((totalScore / maxScore) * 100)
-          : null;
+      const grade = gradeFromTotals(totalScore, maxScore, parseGradeScale(exam.exam_templates?.grade_scale));
 
       subjectMap.get(mapKey)?.students.push({
         examId: exam.id,
@@ -208,7 +208,8 @@ const AdminSubjects = () => {
         completedAt: exam.completed_at,
         totalScore,
         maxScore,
-        percentage,
+        percentage: grade?.percentage ?? null,
+        gradeLetter: grade?.gradeLetter ?? null,
         violations: violationsCount,
         photo,
       });
@@ -345,7 +346,7 @@ const AdminSubjects = () => {
                           {student.totalScore !== null && student.maxScore
                             ? `${student.totalScore}/${student.maxScore}${
                                 student.percentage !== null ? ` (${student.percentage}%)` : ""
-                              }`
+                              }${student.gradeLetter ? ` · ${student.gradeLetter}` : ""}`
                             : "N/A"}
                         </TableCell>
                         <TableCell>
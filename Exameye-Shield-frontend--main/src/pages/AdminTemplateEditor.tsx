@@ -0,0 +1,687 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { AlertTriangle, ArrowDown, ArrowLeft, ArrowUp, Copy, Download, FilePlus, FileSpreadsheet, History, Lock, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { QuestionInput } from "@/components/questions/QuestionInput";
+import { QuestionDraftForm } from "@/components/templateEditor/QuestionDraftForm";
+import { ImportReport } from "@/components/templateEditor/ImportReport";
+import { QUESTION_TYPE_LABELS, formatAnswer, isAnswered, scoreAnswer } from "@/utils/questionTypes";
+import { isSpreadsheetFile, parseSpreadsheetRows, readSpreadsheetFile } from "@/utils/templateSpreadsheet";
+import {
+  createDraft,
+  draftToQuestion,
+  draftsToQuestionRows,
+  questionToDraft,
+  validateDraft,
+  type QuestionDraft,
+} from "@/utils/templateDraft";
+import { DEFAULT_SUBJECTS } from "@/utils/subjects";
+import { QUESTION_SET_FORMATS, type ImportIssue, type QuestionSetFormat } from "@/utils/questionFormats";
+import { QUESTION_SET_ACCEPT, detectQuestionSetFormat, exportQuestionSet, readQuestionSetFile } from "@/utils/questionSetFiles";
+
+type ExamTemplate = Tables<"exam_templates">;
+
+interface TemplateSettings {
+  templateName: string;
+  subjectCode: string;
+  subjectName: string;
+  duration: number;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  drawCount: string;
+}
+
+const EMPTY_SETTINGS: TemplateSettings = {
+  templateName: "",
+  subjectCode: "",
+  subjectName: "",
+  duration: 15,
+  shuffleQuestions: false,
+  shuffleOptions: false,
+  drawCount: "",
+};
+
+const NEW_TEMPLATE = "new";
+
+interface TransferReport {
+  title: string;
+  action: string;
+  issues: ImportIssue[];
+}
+
+const AdminTemplateEditor = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const templateId = searchParams.get("templateId");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [templates, setTemplates] = useState<ExamTemplate[]>([]);
+  const [baseTemplate, setBaseTemplate] = useState<ExamTemplate | null>(null);
+  const [baseLocked, setBaseLocked] = useState(false);
+  const [settings, setSettings] = useState<TemplateSettings>(EMPTY_SETTINGS);
+  const [drafts, setDrafts] = useState<QuestionDraft[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [previewAnswer, setPreviewAnswer] = useState("");
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [transferReport, setTransferReport] = useState<TransferReport | null>(null);
+
+  useEffect(() => {
+    const isAuthenticated = sessionStorage.getItem("adminAuth");
+    if (!isAuthenticated) {
+      toast.error("Please login as admin");
+      navigate("/login");
+      return;
+    }
+
+    loadTemplates();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (templateId) {
+      loadTemplate(templateId);
+    } else {
+      startNewTemplate();
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    setPreviewAnswer("");
+  }, [selectedId]);
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase
+      .from("exam_templates")
+      .select("*")
+      .eq("is_current", true)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading templates:", error);
+      toast.error("Failed to load templates");
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  const startNewTemplate = () => {
+    const first = createDraft();
+    setBaseTemplate(null);
+    setBaseLocked(false);
+    setSettings(EMPTY_SETTINGS);
+    setDrafts([first]);
+    setSelectedId(first.id);
+    setDirty(false);
+  };
+
+  const loadTemplate = async (id: string) => {
+    try {
+      setLoading(true);
+      const [templateResponse, questionsResponse, inUseResponse] = await Promise.all([
+        supabase.from("exam_templates").select("*").eq("id", id).single(),
+        supabase.from("exam_questions").select("*").eq("exam_template_id", id).order("question_number"),
+        supabase.rpc("template_in_use", { p_template_id: id }),
+      ]);
+
+      if (templateResponse.error) throw templateResponse.error;
+      if (questionsResponse.error) throw questionsResponse.error;
+
+      const template = templateResponse.data;
+      const loaded = (questionsResponse.data || []).map(questionToDraft);
+      setBaseTemplate(template);
+      setBaseLocked(inUseResponse.data === true);
+      setSettings({
+        templateName: template.template_name,
+        subjectCode: template.subject_code,
+        subjectName: template.subject_name,
+        duration: template.duration_minutes || 15,
+        shuffleQuestions: template.shuffle_questions,
+        shuffleOptions: template.shuffle_options,
+        drawCount: template.draw_count ? String(template.draw_count) : "",
+      });
+      setDrafts(loaded);
+      setSelectedId(loaded[0]?.id || null);
+      setDirty(false);
+      console.log(`✅ Loaded template ${template.template_name} v${template.version} with ${loaded.length} questions`);
+    } catch (error) {
+      console.error("Error loading template:", error);
+      toast.error("Failed to load template");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmDiscard = () =>
+    !dirty || window.confirm("You have unsaved changes. Discard them?");
+
+  const switchTemplate = (id: string) => {
+    if (!confirmDiscard()) return;
+    setSearchParams(id === NEW_TEMPLATE ? {} : { templateId: id });
+    if (id === NEW_TEMPLATE && !templateId) startNewTemplate();
+  };
+
+  const updateSettings = (patch: Partial<TemplateSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+    setDirty(true);
+  };
+
+  const updateDrafts = (next: QuestionDraft[]) => {
+    setDrafts(next);
+    setDirty(true);
+  };
+
+  const selectedIndex = drafts.findIndex(draft => draft.id === selectedId);
+  const selectedDraft = selectedIndex >= 0 ? drafts[selectedIndex] : null;
+  const draftErrors = drafts.map(validateDraft);
+  const invalidCount = draftErrors.filter(errors => errors.length > 0).length;
+
+  const addQuestion = () => {
+    const draft = createDraft(selectedDraft?.question_type || "mcq");
+    const insertAt = selectedIndex >= 0 ? selectedIndex + 1 : drafts.length;
+    updateDrafts([...drafts.slice(0, insertAt), draft, ...drafts.slice(insertAt)]);
+    setSelectedId(draft.id);
+  };
+
+  const duplicateQuestion = (index: number) => {
+    const copy = { ...drafts[index], id: createDraft().id };
+    updateDrafts([...drafts.slice(0, index + 1), copy, ...drafts.slice(index + 1)]);
+    setSelectedId(copy.id);
+  };
+
+  const deleteQuestion = (index: number) => {
+    const next = drafts.filter((_, i) => i !== index);
+    updateDrafts(next);
+    if (drafts[index].id === selectedId) {
+      setSelectedId(next[Math.min(index, next.length - 1)]?.id || null);
+    }
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= drafts.length) return;
+    const next = [...drafts];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateDrafts(next);
+  };
+
+  // Spreadsheets and question set files (QTI, Moodle XML, GIFT) are import paths:
+  // parsed questions are appended as drafts to edit before saving
+  const handleImport = async (file: File) => {
+    const format = detectQuestionSetFormat(file.name);
+    if (!isSpreadsheetFile(file.name) && !format) {
+      toast.error("Please upload an Excel (.xlsx, .xls), CSV (.csv), QTI 2.1 (.zip), Moodle XML (.xml) or GIFT (.gift, .txt) file");
+      return;
+    }
+
+    try {
+      let imported: QuestionDraft[];
+      if (format) {
+        const questionSet = await readQuestionSetFile(file);
+        imported = questionSet.questions.map(question => question.draft);
+        if (!settings.templateName.trim() && questionSet.title) updateSettings({ templateName: questionSet.title });
+        if (!baseTemplate && questionSet.durationMinutes) updateSettings({ duration: questionSet.durationMinutes });
+        if (questionSet.issues.length > 0) {
+          setTransferReport({ title: `Imported ${file.name}`, action: "imported", issues: questionSet.issues });
+        }
+      } else {
+        imported = parseSpreadsheetRows(await readSpreadsheetFile(file)).map(questionToDraft);
+      }
+      if (imported.length === 0) {
+        toast.error("No questions found in the file");
+        return;
+      }
+      // Replace the single blank question of a new template rather than keeping it
+      const keep = drafts.filter(draft => draft.question_text.trim() !== "" || draft.options.some(Boolean));
+      updateDrafts([...keep, ...imported]);
+      setSelectedId(imported[0].id);
+      toast.success(`Imported ${imported.length} questions - review them and save`);
+    } catch (error) {
+      console.error("Error importing file:", error);
+      toast.error(error instanceof Error && format ? error.message : "Failed to read the file");
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  // Exports the questions as they are in the editor, saved or not
+  const handleExport = (format: QuestionSetFormat) => {
+    const title = settings.templateName.trim() || "Exam template";
+    const { label, extension, mimeType } = QUESTION_SET_FORMATS[format];
+    const { data, issues } = exportQuestionSet(
+      format,
+      { title, durationMinutes: settings.duration },
+      drafts.map((draft, index) => ({ ...draftToQuestion(draft, index), rubric: draft.rubric }))
+    );
+
+    const blob = new Blob([data], { type: mimeType });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${title.replace(/[^\w-]+/g, "_")}_${format}.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+
+    if (issues.length > 0) {
+      setTransferReport({ title: `Exported ${label}`, action: "exported", issues });
+    } else {
+      toast.success(`Exported ${drafts.length} questions as ${label}`);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings.templateName.trim() || !settings.subjectCode) {
+      toast.error("Enter a template name and choose a subject");
+      return;
+    }
+    if (drafts.length === 0) {
+      toast.error("Add at least one question");
+      return;
+    }
+    if (invalidCount > 0) {
+      const firstInvalid = draftErrors.findIndex(errors => errors.length > 0);
+      setSelectedId(drafts[firstInvalid].id);
+      toast.error(`Fix ${invalidCount} question${invalidCount === 1 ? "" : "s"} before saving`);
+      return;
+    }
+
+    const drawCount = parseInt(settings.drawCount, 10);
+    if (settings.drawCount.trim() && (!(drawCount > 0) || drawCount > drafts.length)) {
+      toast.error(`Questions per student must be between 1 and ${drafts.length}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const adminName = sessionStorage.getItem("adminName") || "Admin";
+
+      // Next version number within the template group (another admin may have saved meanwhile)
+      let version = 1;
+      if (baseTemplate) {
+        const { data: latest } = await supabase
+          .from("exam_templates")
+          .select("version")
+          .eq("template_group_id", baseTemplate.template_group_id)
+          .order("version", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        version = (latest?.version || baseTemplate.version) + 1;
+      }
+
+      const { data: templateData, error: templateError } = await supabase
+        .from("exam_templates")
+        .insert({
+          template_name: settings.templateName.trim(),
+          subject_code: settings.subjectCode,
+          subject_name: settings.subjectName,
+          duration_minutes: settings.duration,
+          total_questions: drafts.length,
+          created_by: adminName,
+          description: baseTemplate?.description ?? null,
+          grade_scale: baseTemplate?.grade_scale ?? null,
+          shuffle_questions: settings.shuffleQuestions,
+          shuffle_options: settings.shuffleOptions,
+          draw_count: drawCount > 0 && drawCount < drafts.length ? drawCount : null,
+          ...(baseTemplate ? { template_group_id: baseTemplate.template_group_id } : {}),
+          version,
+          // Made current only once its questions are saved, so registration never picks an empty version
+          is_current: false,
+          parent_template_id: baseTemplate?.id ?? null,
+        })
+        .select()
+        .single();
+
+      if (templateError) throw templateError;
+
+      const { error: questionsError } = await supabase
+        .from("exam_questions")
+        .insert(draftsToQuestionRows(templateData.id, drafts));
+
+      if (questionsError) {
+        // Don't leave a version without questions behind
+        const { error: cleanupError } = await supabase.from("exam_templates").delete().eq("id", templateData.id);
+        if (cleanupError) console.error("Error removing the unsaved template version:", cleanupError);
+        throw questionsError;
+      }
+
+      const { error: currentVersionError } = await supabase
+        .from("exam_templates")
+        .update({ is_current: true })
+        .eq("id", templateData.id);
+
+      if (currentVersionError) throw currentVersionError;
+
+      // Earlier versions stay as they are for exams already registered against them
+      if (baseTemplate) {
+        const { error: currentError } = await supabase
+          .from("exam_templates")
+          .update({ is_current: false })
+          .eq("template_group_id", templateData.template_group_id)
+          .neq("id", templateData.id);
+
+        if (currentError) throw currentError;
+      }
+
+      toast.success(`Saved "${templateData.template_name}" as version ${templateData.version}`);
+      setDirty(false);
+      await loadTemplates();
+      setSearchParams({ templateId: templateData.id });
+    } catch (error) {
+      console.error("Error saving template:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewQuestion = selectedDraft ? { ...draftToQuestion(selectedDraft, selectedIndex), id: selectedDraft.id } : null;
+  const previewScore = previewQuestion && isAnswered(previewAnswer) ? scoreAnswer(previewQuestion, previewAnswer) : null;
+  const subjectOptions = DEFAULT_SUBJECTS.some(s => s.code === settings.subjectCode) || !settings.subjectCode
+    ? DEFAULT_SUBJECTS
+    : [...DEFAULT_SUBJECTS, { code: settings.subjectCode, name: settings.subjectName }];
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Template Editor</h1>
+            <p className="text-muted-foreground">
+              Edit, add, delete and reorder questions. Saving creates a new version; earlier versions are kept.
+            </p>
+            {baseTemplate && baseLocked && (
+              <p className="flex items-center gap-1 text-sm text-warning mt-1">
+                <Lock className="h-3.5 w-3.5" />
+                v{baseTemplate.version} is locked because students have started it. Your changes will be saved as a new version.
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => confirmDiscard() && navigate("/dashboard")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+            <Select value={templateId || NEW_TEMPLATE} onValueChange={switchTemplate}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_TEMPLATE}>New template</SelectItem>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>
+                    {template.template_name} · {template.subject_code} · v{template.version}
+                  </SelectItem>
+                ))}
+                {baseTemplate && !templates.some(t => t.id === baseTemplate.id) && (
+                  <SelectItem value={baseTemplate.id}>
+                    {baseTemplate.template_name} · v{baseTemplate.version} (older version)
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`.xlsx,.xls,.csv,${QUESTION_SET_ACCEPT}`}
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={loading || drafts.length === 0}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {(Object.keys(QUESTION_SET_FORMATS) as QuestionSetFormat[]).map(format => (
+                  <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+                    {QUESTION_SET_FORMATS[format].label} (.{QUESTION_SET_FORMATS[format].extension})
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {baseTemplate && (
+              <Button variant="outline" onClick={() => confirmDiscard() && navigate(`/template-versions?templateId=${baseTemplate.id}`)}>
+                <History className="mr-2 h-4 w-4" />
+                Versions
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving || loading}>
+              <Save className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : baseTemplate ? `Save as v${baseTemplate.version + 1}` : "Save Template"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Template settings */}
+        <Card>
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="editorTemplateName">Template Name</Label>
+              <Input
+                id="editorTemplateName"
+                placeholder="e.g., Final Exam - Spring 2024"
+                value={settings.templateName}
+                onChange={(e) => updateSettings({ templateName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Subject</Label>
+              <Select
+                value={settings.subjectCode}
+                onValueChange={(code) =>
+                  updateSettings({ subjectCode: code, subjectName: subjectOptions.find(s => s.code === code)?.name || code })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjectOptions.map(subject => (
+                    <SelectItem key={subject.code} value={subject.code}>
+                      {subject.name} - {subject.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editorDuration">Duration (minutes)</Label>
+              <Input
+                id="editorDuration"
+                type="number"
+                min="1"
+                max="300"
+                value={settings.duration}
+                onChange={(e) => updateSettings({ duration: parseInt(e.target.value) || 15 })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="editorShuffleQuestions"
+                checked={settings.shuffleQuestions}
+                onCheckedChange={(checked) => updateSettings({ shuffleQuestions: checked })}
+              />
+              <Label htmlFor="editorShuffleQuestions">Shuffle question order</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="editorShuffleOptions"
+                checked={settings.shuffleOptions}
+                onCheckedChange={(checked) => updateSettings({ shuffleOptions: checked })}
+              />
+              <Label htmlFor="editorShuffleOptions">Shuffle answer options</Label>
+            </div>
+            <div className="flex items-center gap-2 md:col-span-2">
+              <Label htmlFor="editorDrawCount" className="whitespace-nowrap">Questions per student</Label>
+              <Input
+                id="editorDrawCount"
+                type="number"
+                min="1"
+                className="w-28"
+                placeholder="All"
+                value={settings.drawCount}
+                onChange={(e) => updateSettings({ drawCount: e.target.value })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <p className="py-12 text-center text-muted-foreground">Loading template…</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[300px_1fr] xl:grid-cols-[300px_1fr_380px] gap-6">
+            {/* Question list */}
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span>Questions ({drafts.length})</span>
+                  {invalidCount > 0 && <Badge variant="destructive">{invalidCount} to fix</Badge>}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {drafts.map((draft, index) => (
+                  <div
+                    key={draft.id}
+                    className={`p-2 rounded-lg border-2 transition-colors ${
+                      draft.id === selectedId ? "border-primary bg-primary/5" : "border-border"
+                    }`}
+                  >
+                    <button type="button" className="w-full text-left" onClick={() => setSelectedId(draft.id)}>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-sm">Q{index + 1}</span>
+                        <span className="text-xs text-muted-foreground">{QUESTION_TYPE_LABELS[draft.question_type]}</span>
+                        {draftErrors[index].length > 0 && <AlertTriangle className="w-3.5 h-3.5 text-destructive" />}
+                      </div>
+                      <p className="text-sm line-clamp-2">
+                        {draft.question_text || <span className="italic text-muted-foreground">Untitled question</span>}
+                      </p>
+                    </button>
+                    {draft.id === selectedId && (
+                      <div className="flex gap-1 mt-2">
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2"
+                          onClick={() => moveQuestion(index, 1)}
+                          disabled={index === drafts.length - 1}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => duplicateQuestion(index)}>
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 px-2 ml-auto" onClick={() => deleteQuestion(index)}>
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <Button variant="outline" className="w-full" onClick={addQuestion}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Question
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Question form */}
+            {selectedDraft ? (
+              <Card className="h-fit">
+                <CardHeader>
+                  <CardTitle className="text-base">Question {selectedIndex + 1}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <QuestionDraftForm
+                    key={selectedDraft.id}
+                    draft={selectedDraft}
+                    onChange={(draft) => updateDrafts(drafts.map(d => (d.id === draft.id ? draft : d)))}
+                  />
+                  {draftErrors[selectedIndex].length > 0 && (
+                    <ul className="text-sm text-destructive space-y-1">
+                      {draftErrors[selectedIndex].map(error => (
+                        <li key={error} className="flex items-center gap-1">
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                          {error}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            ) : (
+              <Card className="h-fit">
+                <CardContent className="py-16 text-center text-muted-foreground">
+                  <FilePlus className="w-8 h-8 mx-auto mb-2" />
+                  Add a question or import a spreadsheet to get started.
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Live preview - rendered with the same components as the exam page */}
+            {previewQuestion && (
+              <Card className="h-fit">
+                <CardHeader>
+                  <CardTitle className="text-base">Student Preview</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-4 p-4 border rounded-lg">
+                    <div className="flex items-start gap-2">
+                      <span className="font-semibold text-primary">Q{selectedIndex + 1}.</span>
+                      <p className="font-medium flex-1">{previewQuestion.question_text}</p>
+                    </div>
+                    <QuestionInput question={previewQuestion} value={previewAnswer} onChange={setPreviewAnswer} />
+                  </div>
+                  <div className="text-sm space-y-1">
+                    <p>
+                      <span className="font-medium">Correct answer: </span>
+                      {formatAnswer(previewQuestion, previewQuestion.correct_answer) || "—"}
+                    </p>
+                    {isAnswered(previewAnswer) && (
+                      <p className="text-muted-foreground">
+                        {previewScore === null
+                          ? "This answer would be graded manually."
+                          : `This answer would score ${Math.round(previewScore * 100)}% (${Math.round(previewScore * previewQuestion.points * 100) / 100}/${previewQuestion.points} pts).`}
+                      </p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={!!transferReport} onOpenChange={(open) => !open && setTransferReport(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{transferReport?.title}</DialogTitle>
+          </DialogHeader>
+          {transferReport && <ImportReport issues={transferReport.issues} action={transferReport.action} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminTemplateEditor;
@@ -0,0 +1,381 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, ArrowRight, GitCompare, Lock, Pencil, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { formatAnswer } from "@/utils/questionTypes";
+import { regradeExams } from "@/utils/examTotals";
+import {
+  QUESTION_FIELD_LABELS,
+  countKeyChanges,
+  diffTemplateVersions,
+  type QuestionChange,
+} from "@/utils/templateVersions";
+
+type ExamTemplate = Tables<"exam_templates">;
+type TemplateQuestion = Tables<"exam_questions">;
+
+interface VersionUsage {
+  started: number;
+  completedExamIds: string[];
+}
+
+const CHANGE_BADGES: Record<QuestionChange["kind"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  added: { label: "Added", variant: "default" },
+  removed: { label: "Removed", variant: "destructive" },
+  changed: { label: "Changed", variant: "secondary" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+};
+
+const AdminTemplateVersions = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const templateId = searchParams.get("templateId");
+  const [loading, setLoading] = useState(true);
+  const [versions, setVersions] = useState<ExamTemplate[]>([]);
+  const [usage, setUsage] = useState<Record<string, VersionUsage>>({});
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<Record<string, TemplateQuestion[]>>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [confirmRegrade, setConfirmRegrade] = useState(false);
+  const [regrading, setRegrading] = useState(false);
+
+  useEffect(() => {
+    const isAuthenticated = sessionStorage.getItem("adminAuth");
+    if (!isAuthenticated) {
+      toast.error("Please login as admin");
+      navigate("/login");
+      return;
+    }
+
+    if (!templateId) {
+      toast.error("No template selected");
+      navigate("/template-editor");
+      return;
+    }
+
+    loadVersions(templateId);
+  }, [navigate, templateId]);
+
+  const loadVersions = async (id: string) => {
+    try {
+      setLoading(true);
+      const { data: template, error: templateError } = await supabase
+        .from("exam_templates")
+        .select("template_group_id")
+        .eq("id", id)
+        .single();
+
+      if (templateError) throw templateError;
+
+      const { data: versionsData, error: versionsError } = await supabase
+        .from("exam_templates")
+        .select("*")
+        .eq("template_group_id", template.template_group_id)
+        .order("version", { ascending: false });
+
+      if (versionsError) throw versionsError;
+
+      const versionIds = (versionsData || []).map(v => v.id);
+      const [examsResponse, questionsResponse] = await Promise.all([
+        supabase.from("exams").select("id, exam_template_id, status").in("exam_template_id", versionIds),
+        supabase.from("exam_questions").select("*").in("exam_template_id", versionIds).order("question_number"),
+      ]);
+
+      if (examsResponse.error) throw examsResponse.error;
+      if (questionsResponse.error) throw questionsResponse.error;
+
+      const nextUsage: Record<string, VersionUsage> = {};
+      versionIds.forEach(versionId => {
+        const exams = (examsResponse.data || []).filter(exam => exam.exam_template_id === versionId);
+        nextUsage[versionId] = {
+          started: exams.filter(exam => exam.status !== "not_started").length,
+          completedExamIds: exams.filter(exam => exam.status === "completed").map(exam => exam.id),
+        };
+      });
+
+      const nextQuestions: Record<string, TemplateQuestion[]> = {};
+      (questionsResponse.data || []).forEach(question => {
+        if (!question.exam_template_id) return;
+        (nextQuestions[question.exam_template_id] ||= []).push(question);
+      });
+
+      setVersions(versionsData || []);
+      setUsage(nextUsage);
+      setQuestions(nextQuestions);
+      // Default comparison: the selected version against the one before it
+      const selectedIndex = (versionsData || []).findIndex(v => v.id === id);
+      setToId(id);
+      setFromId(versionsData?.[selectedIndex + 1]?.id || null);
+    } catch (error) {
+      console.error("Error loading template versions:", error);
+      toast.error("Failed to load template versions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fromVersion = versions.find(v => v.id === fromId) || null;
+  const toVersion = versions.find(v => v.id === toId) || null;
+
+  const changes = useMemo(
+    () => (fromId && toId ? diffTemplateVersions(questions[fromId] || [], questions[toId] || []) : []),
+    [questions, fromId, toId]
+  );
+  const visibleChanges = showUnchanged ? changes : changes.filter(change => change.kind !== "unchanged");
+  const keyChanges = countKeyChanges(changes);
+  const regradeExamIds = fromId ? usage[fromId]?.completedExamIds || [] : [];
+  const canRegrade =
+    !!fromVersion && !!toVersion && toVersion.version > fromVersion.version && regradeExamIds.length > 0 && keyChanges > 0;
+
+  const handleRegrade = async () => {
+    if (!toVersion || !fromVersion) return;
+
+    try {
+      setRegrading(true);
+      const { regraded, failed } = await regradeExams(regradeExamIds, toVersion.id);
+      if (failed > 0) {
+        toast.warning(`Regraded ${regraded} attempts; ${failed} could not be regraded`);
+      } else {
+        toast.success(`Regraded ${regraded} attempts of v${fromVersion.version} against v${toVersion.version}`);
+      }
+    } catch (error) {
+      console.error("Error regrading exams:", error);
+      toast.error("Failed to regrade attempts");
+    } finally {
+      setRegrading(false);
+      setConfirmRegrade(false);
+    }
+  };
+
+  const renderValue = (question: TemplateQuestion | null, change: QuestionChange) => {
+    if (!question) return <span className="text-muted-foreground">—</span>;
+    return (
+      <div className="space-y-1 text-sm">
+        <p className={change.changedFields.includes("question_text") ? "font-medium" : ""}>{question.question_text}</p>
+        <p className={`text-xs ${change.changedFields.includes("correct_answer") ? "text-foreground font-medium" : "text-muted-foreground"}`}>
+          Answer: {formatAnswer(question, question.correct_answer) || "—"} · {question.points || 1} pts
+        </p>
+      </div>
+    );
+  };
+
+  const renderVersionSelect = (value: string | null, onChange: (id: string) => void) => (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger className="w-56">
+        <SelectValue placeholder="Choose a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.id} value={version.id}>
+            v{version.version} · {version.template_name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Template Versions</h1>
+            <p className="text-muted-foreground">
+              Versions in use by started exams are locked. Compare versions and regrade past attempts against a corrected key.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate(`/template-editor?templateId=${templateId}`)}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Editor
+            </Button>
+            <Button variant="secondary" onClick={() => templateId && loadVersions(templateId)} disabled={loading}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-20">
+            <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+            <span className="ml-2 text-muted-foreground">Loading versions…</span>
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Versions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">Version</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Questions</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Exams</TableHead>
+                      <TableHead className="w-24"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {versions.map(version => {
+                      const versionUsage = usage[version.id];
+                      const locked = (versionUsage?.started || 0) > 0;
+                      return (
+                        <TableRow key={version.id}>
+                          <TableCell className="font-medium">
+                            <div className="flex items-center gap-1">
+                              v{version.version}
+                              {locked && <Lock className="w-3.5 h-3.5 text-muted-foreground" aria-label="Locked" />}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {version.template_name}
+                            {version.is_current && <Badge className="ml-2" variant="secondary">Current</Badge>}
+                          </TableCell>
+                          <TableCell>{questions[version.id]?.length || 0}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {version.created_at ? new Date(version.created_at).toLocaleString() : "N/A"}
+                            {version.created_by && ` · ${version.created_by}`}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {locked
+                              ? `${versionUsage.started} started · ${versionUsage.completedExamIds.length} completed`
+                              : "Not used yet"}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/template-editor?templateId=${version.id}`)}
+                              title="Edit as a new version"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex flex-wrap items-center gap-3 text-base">
+                  <GitCompare className="w-4 h-4" />
+                  Compare
+                  {renderVersionSelect(fromId, setFromId)}
+                  <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                  {renderVersionSelect(toId, setToId)}
+                  <label className="flex items-center gap-2 text-sm font-normal ml-auto">
+                    <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                    Show unchanged
+                  </label>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!fromVersion || !toVersion ? (
+                  <p className="text-sm text-muted-foreground">Choose two versions to compare.</p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap items-center justify-between gap-4 p-3 rounded-lg border bg-muted/40">
+                      <p className="text-sm">
+                        {changes.filter(c => c.kind !== "unchanged").length} question changes, {keyChanges} answer key
+                        {keyChanges === 1 ? " correction" : " corrections"} that can be applied to past attempts.
+                        {" "}{regradeExamIds.length} completed attempts on v{fromVersion.version}.
+                      </p>
+                      <Button onClick={() => setConfirmRegrade(true)} disabled={!canRegrade || regrading}>
+                        <RefreshCw className={`w-4 h-4 mr-2 ${regrading ? "animate-spin" : ""}`} />
+                        Regrade v{fromVersion.version} attempts against v{toVersion.version}
+                      </Button>
+                    </div>
+
+                    {visibleChanges.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-20">#</TableHead>
+                            <TableHead className="w-48">Change</TableHead>
+                            <TableHead>v{fromVersion.version}</TableHead>
+                            <TableHead>v{toVersion.version}</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {visibleChanges.map((change, index) => (
+                            <TableRow key={index}>
+                              <TableCell className="font-medium">
+                                {change.from?.question_number ?? "—"} → {change.to?.question_number ?? "—"}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                  <Badge variant={CHANGE_BADGES[change.kind].variant}>{CHANGE_BADGES[change.kind].label}</Badge>
+                                  {change.moved && <Badge variant="outline">Moved</Badge>}
+                                </div>
+                                {change.changedFields.length > 0 && (
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    {change.changedFields.map(field => QUESTION_FIELD_LABELS[field]).join(", ")}
+                                  </p>
+                                )}
+                              </TableCell>
+                              <TableCell>{renderValue(change.from, change)}</TableCell>
+                              <TableCell>{renderValue(change.to, change)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={confirmRegrade} onOpenChange={setConfirmRegrade}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Regrade past attempts?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {regradeExamIds.length} completed attempts of v{fromVersion?.version} will be regraded with the corrected
+              answer key of v{toVersion?.version}. Students keep their original paper; only correct answers, points and
+              scoring settings of matching questions are taken from v{toVersion?.version}. Their scores may change.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={regrading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRegrade} disabled={regrading}>
+              Regrade {regradeExamIds.length} attempts
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminTemplateVersions;
@@ -2,6 +2,13 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  VOICE_FFT_SIZE,
+  frameFeatures,
+  voiceProfileFromFeatures,
+  type AudioFeatures,
+  type VoiceProfile,
+} from "@/utils/voiceActivity";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -64,6 +71,8 @@ const CompatibilityCheck = () => {
   const [networkTest, setNetworkTest] = useState<StepState>({ status: "idle" });
   const [screenShare, setScreenShare] = useState<StepState>({ status: "idle" });
   const [audioCalibration, setAudioCalibration] = useState<StepState>({ status: "idle" });
+  // Noise floor, speaking level and pitch measured during the audio calibration, for the exam's voice detection
+  const [voiceProfile, setVoiceProfile] = useState<VoiceProfile | null>(null);
   const [lightingCheck, setLightingCheck] = useState<StepState>({ status: "idle" });
   const [singleTabCheck, setSingleTabCheck] = useState<StepState>({ status: "idle" });
   const [resumeSentence, setResumeSentence] = useState("I confirm that I will follow all exam rules.");
@@ -613,6 +622,14 @@ const CompatibilityCheck = () => {
       const bufferLength = analyser.frequencyBinCount;
       const dataArray = new Uint8Array(bufferLength);
       const samples: number[] = [];
+      // Same analysis as the exam's voice detection (utils/voiceActivity.ts)
+      const voiceAnalyser = audioContext.createAnalyser();
+      voiceAnalyser.fftSize = VOICE_FFT_SIZE;
+      voiceAnalyser.smoothingTimeConstant = 0;
+      source.connect(voiceAnalyser);
+      const voiceSpectrum = new Float32Array(voiceAnalyser.frequencyBinCount);
+      const voiceSamples = new Float32Array(voiceAnalyser.fftSize);
+      const voiceFrames: AudioFeatures[] = [];
       const durationMs = 3000;
       const start = performance.now();
 
@@ -620,6 +637,9 @@ const CompatibilityCheck = () => {
         analyser.getByteFrequencyData(dataArray);
         const average = dataArray.reduce((a, b) => a + b) / bufferLength;
         samples.push(average);
+        voiceAnalyser.getFloatFrequencyData(voiceSpectrum);
+        voiceAnalyser.getFloatTimeDomainData(voiceSamples);
+        voiceFrames.push(frameFeatures(voiceSpectrum, voiceSamples, audioContext.sampleRate));
         await new Promise((resolve) => setTimeout(resolve, 100));
       }
 
@@ -655,6 +675,9 @@ const CompatibilityCheck = () => {
           value: normalized,
         });
         sessionStorage.setItem("audioBaseline", String(normalized));
+        const profile = voiceProfileFromFeatures(voiceFrames);
+        console.log("🗣️ Voice profile:", profile);
+        setVoiceProfile(profile);
       }
       await audioContext.close();
     } catch (error) {
@@ -1147,6 +1170,8 @@ const CompatibilityCheck = () => {
       }
 
       const tabToken = crypto.randomUUID();
+      // Liveness challenge result from the verify page, with its evidence frame URLs
+      const livenessCheck = sessionStorage.getItem("livenessCheck");
 
       await supabase.from("compatibility_checks").insert({
         student_id: studentData.id,
@@ -1159,15 +1184,21 @@ const CompatibilityCheck = () => {
         internet_speed_mbps: networkTest.value as number,
         screen_sharing_enabled: true,
         audio_baseline: audioCalibration.value as number,
+        voice_profile: voiceProfile ? { ...voiceProfile } : null,
         lighting_score: lightingCheck.value as number,
         tab_token: tabToken,
+        liveness: livenessCheck ? JSON.parse(livenessCheck) : null,
       });
 
       const payload = {
         completedAt: Date.now(),
         examId: examData.id,
         tabToken,
+        // Picks the proctoring frame size and rate
+        networkSpeedMbps: networkTest.value,
         audioBaseline: audioCalibration.value,
+        // Calibrates the exam's speech detection
+        voiceProfile,
         lightingScore: lightingCheck.value,
       };
       sessionStorage.setItem("compatibilityCheck", JSON.stringify(payload));
@@ -1180,7 +1211,7 @@ const CompatibilityCheck = () => {
       console.error("Compatibility save failed:", error);
       toast.error("Failed to save compatibility results", { id: "compatibility-save" });
     }
-  }, [studentData, allStepsPassed, networkTest, audioCalibration, lightingCheck, navigate]);
+  }, [studentData, allStepsPassed, networkTest, audioCalibration, voiceProfile, lightingCheck, navigate]);
 
   const renderStepCard = (
     title: string,
@@ -8,6 +8,8 @@ import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { gradeExam, gradeFromTotals } from "@/utils/grading";
+import { getPaperQuestions } from "@/utils/examPaper";
 
 interface AnalyticsData {
   totalStudents: number;
@@ -62,7 +64,7 @@ const ExamAnalytics = () => {
     try {
       setLoading(true);
 
-      const [examsResponse, violationsResponse, answersResponse, questionsResponse, studentsResponse] = await Promise.all([
+      const [examsResponse, violationsResponse, answersResponse, questionsResponse, studentsResponse, templatesResponse] = await Promise.all([
         supabase
           .from('exams')
           .select(`
@@ -74,11 +76,12 @@ const ExamAnalytics = () => {
               email,
               id
             )
-          )`),
+          `),
         supabase.from('violations').select('*'),
         supabase.from('exam_answers').select('*'),
         supabase.from('exam_questions').select('*'),
         supabase.from('students').select('id, student_id, roll_no, name'),
+        supabase.from('exam_templates').select('id, shuffle_questions, shuffle_options, draw_count'),
       ]);
 
       const examsData = examsResponse.data;
@@ -120,13 +123,28 @@ const ExamAnalytics = () => {
       const studentAttempts = new Set<string>();
 
       examsData?.forEach(exam => {
-        if (exam.status === 'completed' && exam.students && exam.total_score !== null && exam.max_score !== null && exam.max_score > 0) {
+        if (exam.status === 'completed' && exam.students) {
           const studentId = exam.student_id;
           
           // Only count each student once (their best/latest attempt)
-          if (!studentAttempts.has(studentId)) {
+          if (studentAttempts.has(studentId)) return;
+
+          // Stored score when the exam was graded on submit, otherwise grade it from its answers
+          let percentage = gradeFromTotals(exam.total_score, exam.max_score)?.percentage ?? null;
+          if (percentage === null && exam.exam_template_id) {
+            const grade = gradeExam(
+              getPaperQuestions(
+                (questionsData || []).filter(q => q.exam_template_id === exam.exam_template_id),
+                templatesResponse.data?.find(t => t.id === exam.exam_template_id),
+                exam.shuffle_seed
+              ),
+              (answersData || []).filter(a => a.exam_id === exam.id)
+            );
+            percentage = grade.maxScore > 0 ? grade.percentage : null;
+          }
+
+          if (percentage !== null) {
             studentAttempts.add(studentId);
-            const percentage = Math.round((exam.total_score / exam.max_score) * 100);
             studentScores.push(percentage);
           }
         }
@@ -159,8 +177,8 @@ const ExamAnalytics = () => {
       
       // Sort violations so entries with roll numbers land first
       const sortedViolations = (violationsData || []).slice().sort((a, b) => {
-        const rollA = (a.details as any)?.roll_no || a.roll_no;
-        const rollB = (b.details as any)?.roll_no || b.roll_no;
+        const rollA = (a.details as any)?.roll_no;
+        const rollB = (b.details as any)?.roll_no;
         if (rollA && !rollB) return -1;
         if (!rollA && rollB) return 1;
         return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
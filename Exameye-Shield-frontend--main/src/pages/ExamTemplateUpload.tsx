@@ -1,22 +1,36 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Shield, Upload, FileSpreadsheet, ArrowLeft } from "lucide-react";
+import { Shield, Upload, FileSpreadsheet, ArrowLeft, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import * as XLSX from 'xlsx';
-
-const DEFAULT_SUBJECTS = [
-  { code: "ETCS214A", name: "Data Structure" },
-  { code: "ETCS332B", name: "Engineering Mathematics" },
-  { code: "ETCS456A", name: "Operating System" },
-  { code: "ETCS75A", name: "Theory of Computation" },
-  { code: "ETCS852A", name: "Chemistry" },
-];
+import {
+  isSpreadsheetFile,
+  parseSpreadsheetRows,
+  readSpreadsheetFile,
+  type ParsedQuestion,
+  type SpreadsheetRow,
+} from "@/utils/templateSpreadsheet";
+import { buildAnnotatedWorkbook, validateSpreadsheetRows, type RowIssue } from "@/utils/templateValidation";
+import { buildTemplateWorkbook } from "@/utils/templateWorkbook";
+import {
+  QUESTION_TYPE_LABELS,
+  describeQuestionConfig,
+  formatAnswer,
+  getChoiceOptions,
+  getMatchingOptions,
+} from "@/utils/questionTypes";
+import { DEFAULT_SUBJECTS } from "@/utils/subjects";
+import { QUESTION_SET_FORMATS, type QuestionSetImport } from "@/utils/questionFormats";
+import { QUESTION_SET_ACCEPT, detectQuestionSetFormat, readQuestionSetFile } from "@/utils/questionSetFiles";
+import { draftToQuestion } from "@/utils/templateDraft";
+import { ImportPreviewTable } from "@/components/templateEditor/ImportPreviewTable";
+import { RowIssuesTable } from "@/components/templateEditor/RowIssuesTable";
 
 const ExamTemplateUpload = () => {
   const navigate = useNavigate();
@@ -28,93 +42,84 @@ const ExamTemplateUpload = () => {
   const [customSubjectName, setCustomSubjectName] = useState("");
   const [customSubjectCode, setCustomSubjectCode] = useState("");
   const [duration, setDuration] = useState<number>(15);
-  const [previewQuestions, setPreviewQuestions] = useState<any[]>([]);
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [drawCount, setDrawCount] = useState(""); // Empty = every question
+  const [previewQuestions, setPreviewQuestions] = useState<ParsedQuestion[]>([]);
   const [showPreview, setShowPreview] = useState(false);
+  const [questionSet, setQuestionSet] = useState<QuestionSetImport | null>(null);
+  const [sheetRows, setSheetRows] = useState<SpreadsheetRow[]>([]);
+  const [rowIssues, setRowIssues] = useState<RowIssue[]>([]);
+
+  const rowErrorCount = rowIssues.filter(issue => issue.severity === "error").length;
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
-      const isExcel = selectedFile.name.endsWith('.xlsx') || selectedFile.name.endsWith('.xls');
-      const isCsv = selectedFile.name.endsWith('.csv');
+      const isCsv = selectedFile.name.toLowerCase().endsWith('.csv');
       
-      if (isExcel || isCsv) {
+      if (isSpreadsheetFile(selectedFile.name)) {
         setFile(selectedFile);
-        // Parse and preview immediately
+        setQuestionSet(null);
+        // Parse, validate and preview immediately
         try {
-          const parsedData = isCsv 
-            ? await parseCsvFile(selectedFile)
-            : await parseExcelFile(selectedFile);
-          const processedQuestions = parsedData.map((q: any, index: number) => {
-            const hasOptions = q.Question_No || q.Question || q.Option_A || q.Option_B;
-            return {
-              question_number: q.Question_No || index + 1,
-              question_text: q.Question || '',
-              question_type: (q.Option_A || q.Option_B) ? 'mcq' : 'short_answer',
-              options: (q.Option_A || q.Option_B) ? {
-                a: q.Option_A || '',
-                b: q.Option_B || '',
-                c: q.Option_C || '',
-                d: q.Option_D || ''
-              } : null,
-              correct_answer: q.Correct_Answer || null,
-              points: q.Points || 1
-            };
-          });
-          setPreviewQuestions(processedQuestions);
+          const rows = await readSpreadsheetFile(selectedFile);
+          setSheetRows(rows);
+          setRowIssues(validateSpreadsheetRows(rows));
+          setPreviewQuestions(parseSpreadsheetRows(rows));
           setShowPreview(true);
         } catch (error) {
           console.error('Error parsing file:', error);
+          setSheetRows([]);
+          setRowIssues([]);
           toast.error(`Failed to parse ${isCsv ? 'CSV' : 'Excel'} file`);
         }
+      } else if (detectQuestionSetFormat(selectedFile.name)) {
+        setFile(selectedFile);
+        setSheetRows([]);
+        setRowIssues([]);
+        // QTI, Moodle XML or GIFT: parse errors are shown line by line before anything is uploaded
+        try {
+          const imported = await readQuestionSetFile(selectedFile);
+          setQuestionSet(imported);
+          setPreviewQuestions(imported.questions.map(({ draft }, index) => draftToQuestion(draft, index)));
+          setShowPreview(true);
+          // Take the name and time limit from the file unless already filled in
+          if (!templateName.trim() && imported.title) setTemplateName(imported.title);
+          if (imported.durationMinutes) setDuration(imported.durationMinutes);
+        } catch (error) {
+          console.error('Error parsing question file:', error);
+          setQuestionSet(null);
+          setPreviewQuestions([]);
+          toast.error(error instanceof Error ? error.message : "Failed to read the question file");
+        }
       } else {
-        toast.error("Please select an Excel file (.xlsx or .xls) or CSV file (.csv)");
+        toast.error("Please select an Excel (.xlsx, .xls), CSV (.csv), QTI 2.1 (.zip), Moodle XML (.xml) or GIFT (.gift, .txt) file");
       }
     }
   };
 
-  const parseExcelFile = async (file: File): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet);
-          resolve(jsonData);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      reader.onerror = (error) => reject(error);
-      reader.readAsBinaryString(file);
-    });
+  const downloadWorkbook = (data: ArrayBuffer | Uint8Array, fileName: string) => {
+    const blob = new Blob([data], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
   };
 
-  const parseCsvFile = async (file: File): Promise<any[]> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          // Use XLSX library to parse CSV (it supports CSV format)
-          const workbook = XLSX.read(text, { type: 'string' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet);
-          resolve(jsonData);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      reader.onerror = (error) => reject(error);
-      reader.readAsText(file);
-    });
+  // The selected sheet with each problem noted on its row and cell
+  const handleDownloadAnnotated = () => {
+    if (!file) return;
+    downloadWorkbook(buildAnnotatedWorkbook(sheetRows, rowIssues), `${file.name.replace(/\.[^.]+$/, "")}_checked.xlsx`);
+  };
+
+  // Empty workbook with the expected columns, dropdowns, examples and instructions
+  const handleDownloadTemplate = () => {
+    downloadWorkbook(buildTemplateWorkbook(), "exam_template.xlsx");
   };
 
   const handleUpload = async (e: React.FormEvent) => {
@@ -126,7 +131,12 @@ const ExamTemplateUpload = () => {
     }
 
     if (!file) {
-      toast.error("Please select an Excel or CSV file");
+      toast.error("Please select a question file");
+      return;
+    }
+
+    if (rowErrorCount > 0) {
+      toast.error(`The sheet has ${rowErrorCount} error${rowErrorCount === 1 ? "" : "s"} - fix them and select it again`);
       return;
     }
 
@@ -154,14 +164,18 @@ const ExamTemplateUpload = () => {
     setLoading(true);
 
     try {
-      // Parse file (Excel or CSV)
-      const isCsv = file.name.endsWith('.csv');
-      const questions = isCsv 
-        ? await parseCsvFile(file)
-        : await parseExcelFile(file);
+      // Parsed when the file was selected (Excel, CSV, QTI, Moodle XML or GIFT)
+      const questions = previewQuestions;
       
       if (questions.length === 0) {
-        toast.error("No questions found in the Excel file");
+        toast.error("No questions found in the file");
+        setLoading(false);
+        return;
+      }
+
+      const parsedDrawCount = parseInt(drawCount, 10);
+      if (drawCount.trim() && (!(parsedDrawCount > 0) || parsedDrawCount > questions.length)) {
+        toast.error(`Questions per student must be between 1 and ${questions.length}`);
         setLoading(false);
         return;
       }
@@ -178,34 +192,21 @@ const ExamTemplateUpload = () => {
           created_by: adminName,
           subject_code: subjectCode,
           subject_name: subjectName,
-          duration_minutes: duration
+          duration_minutes: duration,
+          shuffle_questions: shuffleQuestions,
+          shuffle_options: shuffleOptions,
+          draw_count: parsedDrawCount > 0 && parsedDrawCount < questions.length ? parsedDrawCount : null
         })
         .select()
         .single();
 
       if (templateError) throw templateError;
 
-      // Insert questions - detect MCQ automatically if options exist
-      const questionInserts = questions.map((q: any, index: number) => {
-        // Check if question has options (MCQ format)
-        const hasOptions = q.Option_A || q.Option_B || q.Option_C || q.Option_D;
-        const questionType = hasOptions ? 'mcq' : 'short_answer';
-        
-        return {
-          exam_template_id: templateData.id,
-          question_number: q.Question_No || index + 1,
-          question_text: q.Question || q.question || q.text || '',
-          question_type: questionType,
-          options: hasOptions ? {
-            a: q.Option_A || '',
-            b: q.Option_B || '',
-            c: q.Option_C || '',
-            d: q.Option_D || ''
-          } : null,
-          correct_answer: q.Correct_Answer || q.correct_answer || null,
-          points: q.Points || q.points || 1
-        };
-      });
+      // Insert questions - type, options and settings come from the parser
+      const questionInserts = questions.map((q) => ({
+        exam_template_id: templateData.id,
+        ...q,
+      }));
 
       const { error: questionsError } = await supabase
         .from('exam_questions')
@@ -215,8 +216,9 @@ const ExamTemplateUpload = () => {
 
       toast.success(`Template "${templateName}" uploaded with ${questions.length} questions for ${subjectName}!`);
       
+      // Open the new template in the editor to review or fix questions
       setTimeout(() => {
-        navigate('/dashboard');
+        navigate(`/template-editor?templateId=${templateData.id}`);
       }, 1500);
 
     } catch (error: any) {
@@ -254,7 +256,7 @@ const ExamTemplateUpload = () => {
             <div className="text-center mb-8">
               <h2 className="text-2xl font-bold mb-2">Upload Exam Template</h2>
               <p className="text-sm text-muted-foreground">
-                Upload an Excel (.xlsx, .xls) or CSV (.csv) file with exam questions (MCQ or Short Answer)
+                Upload an Excel (.xlsx, .xls) or CSV (.csv) file with exam questions
               </p>
             </div>
 
@@ -285,6 +287,38 @@ const ExamTemplateUpload = () => {
                 <p className="text-xs text-muted-foreground">Default: 15 minutes</p>
               </div>
 
+              {/* Paper randomization - each student's paper is built from a seed stored on their exam */}
+              <div className="space-y-4 p-4 border rounded-lg">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="shuffleQuestions">Shuffle question order</Label>
+                    <p className="text-xs text-muted-foreground">Each student sees the questions in a different order</p>
+                  </div>
+                  <Switch id="shuffleQuestions" checked={shuffleQuestions} onCheckedChange={setShuffleQuestions} />
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="shuffleOptions">Shuffle answer options</Label>
+                    <p className="text-xs text-muted-foreground">Multiple choice and multi-select options are reordered per student</p>
+                  </div>
+                  <Switch id="shuffleOptions" checked={shuffleOptions} onCheckedChange={setShuffleOptions} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="drawCount">Questions per student (optional)</Label>
+                  <Input
+                    id="drawCount"
+                    type="number"
+                    min="1"
+                    placeholder="All questions"
+                    value={drawCount}
+                    onChange={(e) => setDrawCount(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Draw this many questions at random from the uploaded pool. Leave empty to use every question.
+                  </p>
+                </div>
+              </div>
+
               {/* Subject Selection */}
               <div className="space-y-4">
                 <Label>Subject</Label>
@@ -339,12 +373,12 @@ const ExamTemplateUpload = () => {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="file">Excel or CSV File</Label>
+                <Label htmlFor="file">Question File</Label>
                 <div className="flex items-center gap-2">
                   <Input
                     id="file"
                     type="file"
-                    accept=".xlsx,.xls,.csv"
+                    accept={`.xlsx,.xls,.csv,${QUESTION_SET_ACCEPT}`}
                     onChange={handleFileChange}
                     required
                   />
@@ -353,11 +387,20 @@ const ExamTemplateUpload = () => {
                 {file && (
                   <p className="text-xs text-muted-foreground">
                     Selected: {file.name}
+                    {questionSet && ` (${QUESTION_SET_FORMATS[questionSet.format].label})`}
+                  </p>
+                )}
+                <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleDownloadTemplate}>
+                  Download the Excel template with examples
+                </Button>
+                {rowErrorCount > 0 && (
+                  <p className="text-xs text-destructive">
+                    {rowErrorCount} error{rowErrorCount === 1 ? "" : "s"} in the sheet must be fixed before uploading - see the preview below
                   </p>
                 )}
               </div>
 
-              <Button type="submit" className="w-full" size="lg" disabled={loading || previewQuestions.length === 0}>
+              <Button type="submit" className="w-full" size="lg" disabled={loading || previewQuestions.length === 0 || rowErrorCount > 0}>
                 <Upload className="w-4 h-4 mr-2" />
                 {loading ? "Uploading..." : "Upload Template"}
               </Button>
@@ -366,7 +409,7 @@ const ExamTemplateUpload = () => {
         </Card>
 
         {/* Preview Section */}
-        {showPreview && previewQuestions.length > 0 && (
+        {showPreview && (previewQuestions.length > 0 || questionSet || rowIssues.length > 0) && (
           <Card className="mt-6">
             <CardContent className="p-6">
               <div className="flex items-center justify-between mb-4">
@@ -380,75 +423,121 @@ const ExamTemplateUpload = () => {
                 </Button>
               </div>
               
-              <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
-                {previewQuestions.map((q, index) => (
-                  <Card key={index} className="border-2">
-                    <CardContent className="p-4">
-                      <div className="flex items-start gap-3 mb-3">
-                        <span className="font-semibold text-primary text-lg">Q{q.question_number}.</span>
-                        <div className="flex-1">
-                          <p className="font-medium">{q.question_text}</p>
-                          <span className="text-xs text-muted-foreground mt-1 inline-block">
-                            Type: {q.question_type === 'mcq' ? 'Multiple Choice' : 'Short Answer'} | Points: {q.points}
-                          </span>
+              <RowIssuesTable issues={rowIssues} onDownload={handleDownloadAnnotated} />
+              {questionSet ? (
+                <ImportPreviewTable result={questionSet} />
+              ) : (
+                <div className="space-y-4 max-h-[600px] overflow-y-auto pr-2">
+                  {previewQuestions.map((q, index) => (
+                    <Card
+                      key={index}
+                      className={`border-2 ${rowIssues.some(issue => issue.index === index && issue.severity === "error") ? "border-destructive" : ""}`}
+                    >
+                      <CardContent className="p-4">
+                        <div className="flex items-start gap-3 mb-3">
+                          <span className="font-semibold text-primary text-lg">Q{q.question_number}.</span>
+                          <div className="flex-1">
+                            <p className="font-medium">{q.question_text}</p>
+                            <span className="text-xs text-muted-foreground mt-1 inline-block">
+                              Type: {QUESTION_TYPE_LABELS[q.question_type]}
+                              {describeQuestionConfig(q) && ` (${describeQuestionConfig(q)})`} | Points: {q.points}
+                            </span>
+                          </div>
                         </div>
-                      </div>
                       
-                      {q.question_type === 'mcq' && q.options && (
                         <div className="ml-8 space-y-2">
-                          {Object.entries(q.options).map(([key, value]: [string, any]) => (
-                            value && (
+                          {q.question_type === 'matching' ? (
+                            <div className="grid grid-cols-2 gap-2">
+                              {Object.entries(getMatchingOptions(q).prompts).map(([key, value]) => (
+                                <div key={`prompt-${key}`} className="p-2 rounded bg-muted/50 text-sm">
+                                  <span className="font-semibold mr-2">{key}.</span>{value}
+                                </div>
+                              ))}
+                              {Object.entries(getMatchingOptions(q).choices).map(([key, value]) => (
+                                <div key={`choice-${key}`} className="p-2 rounded bg-muted/50 text-sm">
+                                  <span className="font-semibold uppercase mr-2">{key})</span>{value}
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            getChoiceOptions(q).map(([key, value]) => (
                               <div key={key} className="flex items-start gap-2 p-2 rounded bg-muted/50">
                                 <span className="font-semibold text-sm uppercase min-w-[20px]">{key})</span>
                                 <span className="text-sm">{value}</span>
                               </div>
-                            )
-                          ))}
+                            ))
+                          )}
                           {q.correct_answer && (
                             <div className="mt-2 p-2 rounded bg-green-500/10 border border-green-500/20">
                               <span className="text-xs font-semibold text-green-700 dark:text-green-400">
-                                Correct Answer: {q.correct_answer}
+                                Correct Answer: {formatAnswer(q, q.correct_answer)}
                               </span>
                             </div>
                           )}
                         </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
 
         <Card className="mt-6 bg-muted/50">
           <CardContent className="p-6">
-            <h3 className="font-semibold mb-3">File Format Guidelines (Excel/CSV)</h3>
+            <div className="flex items-center justify-between gap-4 mb-3">
+              <h3 className="font-semibold">File Format Guidelines (Excel/CSV)</h3>
+              <Button type="button" variant="outline" size="sm" onClick={handleDownloadTemplate}>
+                <Download className="w-4 h-4 mr-2" />
+                Download Template
+              </Button>
+            </div>
             <ul className="space-y-2 text-sm text-muted-foreground">
               <li className="flex items-start gap-2">
                 <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
-                Supported formats: Excel (.xlsx, .xls) or CSV (.csv)
+                Supported formats: Excel (.xlsx, .xls), CSV (.csv), a QTI 2.1 content package (.zip), Moodle XML (.xml) or GIFT (.gift, .txt) exported from Moodle, Canvas or another LMS
               </li>
               <li className="flex items-start gap-2">
                 <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
-                Required columns: Question_No, Question, Option_A, Option_B, Option_C, Option_D
+                Required column: Question. Most sheets also have Question_No and Option_A, Option_B, ... (as many options as needed)
               </li>
               <li className="flex items-start gap-2">
                 <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
-                For MCQ: Fill all Option_A through Option_D columns with answer choices
+                Optional columns: Question_Type, Correct_Answer, Points (defaults to 1 point per question)
               </li>
               <li className="flex items-start gap-2">
                 <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
-                Optional columns: Correct_Answer, Points (defaults to 1 point per question)
+                Question_Type: mcq, multi_select, true_false, numeric, matching, ordering or short_answer. If omitted, questions with options are MCQ (multi-select when Correct_Answer lists several letters, e.g. "A, C"), otherwise short answer
               </li>
               <li className="flex items-start gap-2">
                 <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
-                Questions with options automatically detected as MCQ, otherwise short answer
+                Numeric: Correct_Answer is the value; optional Tolerance (e.g. 0.5 or 5%), Tolerance_Type (absolute/relative) and Unit
+              </li>
+              <li className="flex items-start gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
+                Matching: one pair per option cell written as "prompt | match". Ordering: list the items in the correct order
+              </li>
+              <li className="flex items-start gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
+                Multi-select, matching and ordering: set Scoring to "partial" for partial credit (default: all or nothing)
               </li>
               <li className="flex items-start gap-2">
                 <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
                 CSV files should use comma (,) as delimiter and include header row
               </li>
+              <li className="flex items-start gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
+                Every row is checked before upload (question text, answer key against the options, numeric points, unique Question_No); rows with errors block the upload and can be downloaded as an annotated copy of the sheet
+              </li>
+              <li className="flex items-start gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
+                QTI packages: choice, text entry, extended text, order and match items are imported; anything else is listed in a report and skipped
+              </li>
+              <li className="flex items-start gap-2">
+                <div className="w-1.5 h-1.5 rounded-full bg-primary mt-1.5"></div>
+                Moodle XML and GIFT: multiple choice, true/false, short answer, numerical, matching and essay questions are imported; lines that can't be read are highlighted in the preview and skipped
+              </li>
             </ul>
           </CardContent>
         </Card>
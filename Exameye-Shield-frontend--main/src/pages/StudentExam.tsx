@@ -1,39 +1,70 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import { Shield, Clock, AlertTriangle, LogOut, Wifi, WifiOff, Loader2 } from "lucide-react";
+import { Shield, Clock, AlertTriangle, LogOut, Wifi, WifiOff, Loader2, Flag, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { violationLogger } from "@/utils/violationLogger";
 import { useProctoringWebSocket } from "@/hooks/useProctoringWebSocket";
+import { useFallbackDetection } from "@/hooks/useFallbackDetection";
+import { useGazeTracking } from "@/hooks/useGazeTracking";
+import { episodeSeverity, formatEpisode, type GazeCalibration } from "@/utils/headPose";
+import { useVoiceDetection } from "@/hooks/useVoiceDetection";
+import { formatSpeechEpisode, speechSeverity, type VoiceProfile } from "@/utils/voiceActivity";
+import { uploadAudioEvidence } from "@/utils/audioEvidence";
 import { AudioMonitor } from "@/components/AudioMonitor";
 import { BrowserActivityMonitor } from "@/components/BrowserActivityMonitor";
+import { AnswerSaveIndicator } from "@/components/AnswerSaveIndicator";
+import { QuestionNavigator } from "@/components/QuestionNavigator";
+import { ExamReviewDialog } from "@/components/ExamReviewDialog";
+import { QuestionInput } from "@/components/questions/QuestionInput";
+import { useAnswerAutosave } from "@/hooks/useAnswerAutosave";
+import { computeExamDeadline, getServerClockOffsetMs, logExamEvent } from "@/utils/examSession";
+import { DEFAULT_GRADE_SCALE, gradeExam, parseGradeScale, type GradeScale } from "@/utils/grading";
+import { buildExamPaper, getPaperSettings } from "@/utils/examPaper";
+import {
+  boostFrameRate,
+  captureFrame,
+  captureProfileForBandwidth,
+  initialFrameRate,
+  nextFrameRate,
+  type FrameRateState,
+} from "@/utils/frameStreaming";
 
 const HEARTBEAT_INTERVAL_MS = 5000;
 const HEARTBEAT_TIMEOUT_MS = 15000;
+const EXTENSION_POLL_INTERVAL_MS = 30000;
 
 const StudentExam = () => {
   const navigate = useNavigate();
   const [studentData, setStudentData] = useState<any>(null);
   const [timeRemaining, setTimeRemaining] = useState(3600);
-  const [answers, setAnswers] = useState<{ [key: number]: string }>({});
   const [examId, setExamId] = useState<string | null>(null);
   const [violationCount, setViolationCount] = useState(0);
-  const [questions, setQuestions] = useState<any[]>([]);
+  const [questions, setQuestions] = useState<any[]>([]); // Questions on this student's paper, in display order
+  const [optionOrders, setOptionOrders] = useState<Record<number, string[]>>({});
   const [questionsLoading, setQuestionsLoading] = useState(true);
   const [calibratedPitch, setCalibratedPitch] = useState(0);
   const [calibratedYaw, setCalibratedYaw] = useState(0);
+  // Browser gaze calibration from the verify page; undefined until session storage has been read
+  const [gazeCalibration, setGazeCalibration] = useState<GazeCalibration | null | undefined>(undefined);
+  // Voice calibration from the compatibility check; undefined until session storage has been read
+  const [voiceProfile, setVoiceProfile] = useState<VoiceProfile | null | undefined>(undefined);
   const [audioLevel, setAudioLevel] = useState(0);
   const [tabSwitchCount, setTabSwitchCount] = useState(0);
   const [copyPasteCount, setCopyPasteCount] = useState(0);
   const [windowFocused, setWindowFocused] = useState(true);
+  const [viewMode, setViewMode] = useState<'paged' | 'scroll'>('paged');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [reviewOpen, setReviewOpen] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Adaptive capture rate; replaced with the bandwidth-based profile when monitoring starts
+  const frameRateRef = useRef<FrameRateState>(initialFrameRate(captureProfileForBandwidth(null)));
   const audioContextRef = useRef<AudioContext | null>(null);
   const studentNameRef = useRef<string>('Unknown Student'); // Always current student name
   const analyserRef = useRef<AnalyserNode | null>(null);
@@ -46,11 +77,18 @@ const StudentExam = () => {
   const compatibilityInfoRef = useRef<any>(null);
   const initializationStartedRef = useRef<boolean>(false);
   const handleSubmitRef = useRef<typeof handleSubmit | null>(null);
+  const deadlineRef = useRef<number | null>(null); // Exam deadline in server-clock epoch ms
+  const clockOffsetRef = useRef<number>(0); // Add to Date.now() to get server time
+  const examTimingRef = useRef<{ startedAt: string; durationMinutes: number; extensionMinutes: number } | null>(null);
+  const gradeScaleRef = useRef<GradeScale>(DEFAULT_GRADE_SCALE);
 
   const AUDIO_SEND_THROTTLE_MS = 1000; // Send audio level to backend max once per second when threshold exceeded
   const AUDIO_SILENCE_THRESHOLD = 5; // Threshold for detecting silence (very low audio level)
   const AUDIO_SILENCE_DURATION_MS = 60000; // Alert after 1 minute (60 seconds) of silence
   const disconnectWebSocketRef = useRef<(() => void) | null>(null);
+  const flushAnswersRef = useRef<(() => Promise<boolean>) | null>(null);
+  const wsConnectedRef = useRef<boolean>(false); // Read by the monitoring loops, which start once
+  const voiceDetectionActiveRef = useRef<boolean>(false); // Loudness goes to the server only without it
 
   // Comprehensive cleanup function to stop all media streams and resources
   // Memoized with useCallback to prevent recreation on every render
@@ -88,7 +126,7 @@ const StudentExam = () => {
     
     // Clear all intervals
     if (detectionIntervalRef.current) {
-      clearInterval(detectionIntervalRef.current);
+      clearTimeout(detectionIntervalRef.current);
       detectionIntervalRef.current = null;
       console.log('✅ Detection interval cleared');
     }
@@ -143,6 +181,14 @@ const StudentExam = () => {
         }
       }
 
+      if (existing && existing.session_token !== token) {
+        // The previous tab stopped sending heartbeats - take over its session
+        logExamEvent(newExamId, studentId, 'session_takeover', {
+          previous_last_heartbeat: existing.last_heartbeat,
+          previous_was_active: existing.is_active,
+        });
+      }
+
       await supabase
         .from('exam_active_sessions')
         .upsert(
@@ -177,6 +223,39 @@ const StudentExam = () => {
     []
   );
 
+  const getSessionToken = useCallback(() => examSessionTokenRef.current, []);
+
+  const handleStaleSession = useCallback(() => {
+    toast.error("This exam is now active in another tab. Answers from this tab are no longer saved.");
+    stopAllMediaStreams();
+    if (disconnectWebSocketRef.current) {
+      disconnectWebSocketRef.current();
+    }
+    navigate('/', { replace: true });
+  }, [navigate, stopAllMediaStreams]);
+
+  // Answers are journaled locally and autosaved to exam_answers as they change
+  const {
+    answers,
+    flags,
+    saveStatus,
+    setAnswer,
+    toggleFlag,
+    flush: flushAnswers,
+    resolveConflicts,
+    clearJournal,
+  } = useAnswerAutosave({
+    examId,
+    studentId: studentData?.id || null,
+    getSessionToken,
+    onStaleSession: handleStaleSession,
+    enabled: !!examId && !!studentData,
+  });
+
+  useEffect(() => {
+    flushAnswersRef.current = flushAnswers;
+  }, [flushAnswers]);
+
   const requestFullscreenGuard = useCallback(() => {
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen().catch(() => {
@@ -188,7 +267,62 @@ const StudentExam = () => {
   }, []);
 
   // WebSocket connection for Python backend
-  const { isConnected: wsConnected, sendFrame, sendAudioLevel, sendBrowserActivity, disconnect: disconnectWebSocket } = useProctoringWebSocket({
+  // Head pose and gaze measured in the browser; each looking-away episode goes through the
+  // proctoring outbox like other browser activity, and the server stops guessing it from frames
+  const { active: gazeTrackingActive } = useGazeTracking({
+    videoRef,
+    calibration: gazeCalibration ?? null,
+    onLookingAway: (episode) => {
+      sendBrowserActivity('looking_away', `Looked ${formatEpisode(episode)}`, {
+        severity: episodeSeverity(episode),
+        details: {
+          source: 'client_gaze',
+          direction: episode.direction,
+          duration_ms: episode.durationMs,
+          peak_yaw: Math.round(episode.peakYaw),
+          peak_pitch: Math.round(episode.peakPitch),
+          ongoing: episode.ongoing,
+          started_at: new Date(episode.startedAt).toISOString(),
+        },
+      });
+    },
+    enabled: !!examId && !!studentData && gazeCalibration !== undefined,
+  });
+
+  // Speech and other voices on the microphone, in place of the server's loudness threshold; each
+  // episode goes through the outbox with an encrypted clip of its start when one could be kept
+  const { active: voiceDetectionActive, activity: voiceActivity } = useVoiceDetection({
+    streamRef,
+    profile: voiceProfile ?? null,
+    onEpisode: async (episode, clip) => {
+      const evidence = clip && examId
+        ? await uploadAudioEvidence(clip.blob, clip.durationMs, {
+            examId,
+            studentName: studentNameRef.current,
+            violationType: episode.type,
+          })
+        : null;
+      sendBrowserActivity(episode.type, formatSpeechEpisode(episode), {
+        severity: speechSeverity(episode),
+        details: {
+          source: 'client_voice',
+          duration_ms: episode.durationMs,
+          speech_ms: episode.speechMs,
+          speakers: episode.speakers,
+          pitch_hz: episode.pitchHz,
+          matches_student_voice: episode.matchesStudent,
+          whispered: episode.whispered,
+          peak_over_floor_db: episode.peakOverFloorDb,
+          ongoing: episode.ongoing,
+          started_at: new Date(episode.startedAt).toISOString(),
+          audio_clip: evidence,
+        },
+      });
+    },
+    enabled: !!examId && !!studentData && voiceProfile !== undefined,
+  });
+
+  const { isConnected: wsConnected, health: connectionHealth, sendFrame, getLinkStats, sendAudioLevel, sendBrowserActivity, disconnect: disconnectWebSocket } = useProctoringWebSocket({
     sessionId: examId || '',
     examId: examId || '',
     studentId: studentData?.id || '',
@@ -198,19 +332,23 @@ const StudentExam = () => {
     subjectName: studentData?.subjectName || studentData?.subjectCode || '',
     calibratedPitch,
     calibratedYaw,
+    clientGaze: gazeTrackingActive,
+    clientVoice: voiceDetectionActive,
     onViolation: async (violation) => {
       // Handle violation from Python backend - Update UI in real-time
       console.log('🚨 Violation received from backend:', violation);
+      // Watch more closely for a while; browser activity comes back here too
+      frameRateRef.current = boostFrameRate(frameRateRef.current);
       console.log('🚨 Violation keys:', Object.keys(violation));
-      console.log('🚨 Violation type:', violation.type, 'violation_type:', violation.violation_type);
+      console.log('🚨 Violation type:', violation.type);
       console.log('🚨 Violation message:', violation.message);
       
-      // Format violation message for display - handle all possible formats
-      const violationType = violation.type || violation.violation_type || 'unknown';
+      // Format violation message for display
+      const violationType = violation.type || 'unknown';
       let message = violation.message;
       
       // Special handling for audio violations
-      if (violationType === 'excessive_noise' || violation.type === 'excessive_noise') {
+      if (violationType === 'excessive_noise') {
         // Format audio violation message with level and threshold
         if (violation.audio_level !== undefined) {
           const level = Math.round(violation.audio_level);
@@ -240,70 +378,109 @@ const StudentExam = () => {
     enabled: !!examId && !!studentData,
   });
 
+  // In-browser detection while the proctoring service is unreachable; its violations go
+  // straight to Supabase, tagged as client_fallback
+  const { active: fallbackDetectionActive } = useFallbackDetection({
+    videoRef,
+    student: {
+      examId: examId || '',
+      studentId: studentData?.id || '',
+      studentName: studentNameRef.current,
+      rollNo: studentData?.rollNo || '',
+      subjectCode: studentData?.subjectCode || '',
+      subjectName: studentData?.subjectName || studentData?.subjectCode || '',
+    },
+    offlineSince: connectionHealth.offlineSince,
+    onViolation: () => setViolationCount(prev => prev + 1),
+    enabled: !!examId && !!studentData,
+  });
+
   // Store disconnect function in ref so it's accessible in cleanup functions
   useEffect(() => {
     disconnectWebSocketRef.current = disconnectWebSocket;
   }, [disconnectWebSocket]);
 
-  const handleSubmit = useCallback(async () => {
+  useEffect(() => {
+    wsConnectedRef.current = wsConnected;
+  }, [wsConnected]);
+
+  useEffect(() => {
+    voiceDetectionActiveRef.current = voiceDetectionActive;
+  }, [voiceDetectionActive]);
+
+  // The camera can be ready before the exam layout mounts the video element (fast start-up
+  // requests beat the first render), so attach the stream once the element is there
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !streamRef.current || video.srcObject === streamRef.current) return;
+    video.srcObject = streamRef.current;
+    video.play().catch(err => console.error('Error starting camera preview:', err));
+  }, [studentData]);
+
+  const handleSubmit = useCallback(async (options?: { force?: boolean }) => {
     if (!examId || !studentData) return;
 
     try {
       toast.info("Submitting and grading your exam...");
       
-      // 1. Save all answers
-      const promises = Object.entries(answers).map(([questionNum, answer]) =>
-        supabase
+      // 1. Make sure every autosaved answer has reached the server; answers saved meanwhile from
+      // another session give way to the ones on this screen, which are what gets submitted
+      if (resolveConflicts() > 0) {
+        toast.info("Answers changed in another session were replaced with the ones on this screen.");
+      }
+      const allSaved = await flushAnswers();
+      if (!allSaved && !options?.force) {
+        toast.error("Some answers are not saved yet. Check your connection and try again.");
+        return;
+      }
+
+      // 2. Grade locally - the same grading module the reports use - from the answers the
+      // server holds, so recalculateExamTotals reproduces the score. When time ran out with
+      // answers still unsaved, those are what the server has, not what is on screen.
+      let gradedAnswers = Object.entries(answers).map(([questionNum, answer]) => ({
+        question_number: parseInt(questionNum),
+        answer,
+      }));
+      if (!allSaved) {
+        const { data: savedAnswers, error: savedAnswersError } = await supabase
           .from('exam_answers')
-          .upsert({
-            exam_id: examId,
-            student_id: studentData.id,
-            question_number: parseInt(questionNum),
-            answer: answer,
-            updated_at: new Date().toISOString()
-          })
-      );
+          .select('question_number, answer')
+          .eq('exam_id', examId);
 
-      await Promise.all(promises);
+        if (savedAnswersError) throw savedAnswersError;
+        gradedAnswers = savedAnswers || [];
+        console.warn('⚠️ Submitting with unsaved answers - grading the saved answers only');
+      }
+      const grade = gradeExam(questions, gradedAnswers, { gradeScale: gradeScaleRef.current });
+      console.log('📊 Grading Results:', grade);
 
-      // 2. Mark exam as completed
-      await supabase
+      // 3. Mark exam as completed with its score
+      const { error: completeError } = await supabase
         .from('exams')
         .update({ 
           status: 'completed',
-          completed_at: new Date().toISOString()
+          completed_at: new Date().toISOString(),
+          total_score: grade.totalScore,
+          max_score: grade.maxScore,
+          grade_letter: grade.gradeLetter,
+          graded: grade.pendingManualCount === 0,
+          graded_at: new Date().toISOString()
         })
         .eq('id', examId);
 
-      await releaseExamSession();
+      if (completeError) throw completeError;
 
-      // 3. Auto-grade the exam
-      const backendUrl = import.meta.env.VITE_PROCTORING_API_URL || 'http://localhost:8001';
-      const gradeResponse = await fetch(`${backendUrl}/api/grade-exam`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          exam_id: examId,
-          student_id: studentData.id,
-          answers: Object.entries(answers).map(([questionNum, answer]) => ({
-            question_number: parseInt(questionNum),
-            answer: answer
-          }))
-        })
-      });
+      await releaseExamSession();
+      await clearJournal();
 
-      const gradeData = await gradeResponse.json();
-      
-      if (gradeData.success) {
-        // Show results immediately
+      if (grade.maxScore > 0) {
         toast.success(`Exam submitted and graded!`, {
-          description: `Score: ${gradeData.total_score}/${gradeData.max_score} (${gradeData.percentage}%) - Grade: ${gradeData.grade_letter}`,
+          description: `Score: ${grade.totalScore}/${grade.maxScore} (${grade.percentage}%) - Grade: ${grade.gradeLetter}`
+            + (grade.pendingManualCount > 0 ? ` · ${grade.pendingManualCount} question(s) awaiting manual grading` : ''),
           duration: 10000
         });
-        
-        console.log('📊 Grading Results:', gradeData);
       } else {
-        toast.warning("Exam submitted but grading failed. Admin will grade manually.");
+        toast.success("Exam submitted! Your answers will be graded by the examiner.");
       }
       
       // Stop all media streams and cleanup resources BEFORE navigation
@@ -329,7 +506,7 @@ const StudentExam = () => {
       }
       releaseExamSession();
     }
-  }, [examId, studentData, answers, navigate, stopAllMediaStreams, disconnectWebSocket, releaseExamSession]);
+  }, [examId, studentData, answers, questions, navigate, stopAllMediaStreams, disconnectWebSocket, releaseExamSession, flushAnswers, resolveConflicts, clearJournal]);
 
   // Store handleSubmit in ref so it's always current for timer
   useEffect(() => {
@@ -353,6 +530,7 @@ const StudentExam = () => {
     }
     try {
       compatibilityInfoRef.current = JSON.parse(compatibilityRaw);
+      setVoiceProfile(compatibilityInfoRef.current?.voiceProfile ?? null);
     } catch (err) {
       console.error('Invalid compatibility payload', err);
       toast.error("Compatibility data corrupted. Please rerun the checks.");
@@ -376,25 +554,63 @@ const StudentExam = () => {
     studentNameRef.current = parsedData.name || 'Unknown Student';
     console.log('✅ Student name loaded and saved to ref:', studentNameRef.current);
 
-    // Start exam first to get examId, then load questions and initialize monitoring
-    startExam(parsedData).then(async (startedExamId) => {
-      if (!startedExamId) {
+    // Start (or resume) exam first to get examId, then load questions and initialize monitoring
+    startExam(parsedData).then(async (started) => {
+      if (!started) {
         toast.error("Failed to start exam. Please try again.");
         initializationStartedRef.current = false; // Reset on failure
         return;
       }
+      if (started.alreadyCompleted) {
+        toast.error("You have already submitted this exam.");
+        navigate('/', { replace: true });
+        return;
+      }
+      const startedExamId = started.examId;
       
       // Load exam questions after examId is set
-      await loadExamQuestions();
+      const durationMinutes = await loadExamQuestions();
+
+      // Count down against the persisted start time so a reload never restarts the clock
+      examTimingRef.current = {
+        startedAt: started.startedAt,
+        durationMinutes,
+        extensionMinutes: started.extensionMinutes,
+      };
+      deadlineRef.current = computeExamDeadline(started.startedAt, durationMinutes, started.extensionMinutes);
       
       // Claim exam session and initialize proctoring
-      const allowed = await claimExamSession(startedExamId, parsedData.id);
+      let allowed = await claimExamSession(startedExamId, parsedData.id);
+      if (!allowed && started.resumed) {
+        // The interrupted session may still look alive - take it over once its heartbeat expires
+        toast.info("Resuming your exam. Waiting for the previous session to close...");
+        const waitUntil = Date.now() + HEARTBEAT_TIMEOUT_MS + HEARTBEAT_INTERVAL_MS;
+        while (!allowed && Date.now() < waitUntil) {
+          await new Promise((resolve) => setTimeout(resolve, HEARTBEAT_INTERVAL_MS));
+          allowed = await claimExamSession(startedExamId, parsedData.id);
+        }
+      }
       if (!allowed) {
         toast.error("Exam already active in another tab. Please close other tabs.");
         navigate('/', { replace: true });
         initializationStartedRef.current = false; // Reset on redirect
         return;
       }
+
+      if (started.resumed) {
+        const secondsLeft = Math.max(0, Math.round((deadlineRef.current - (Date.now() + clockOffsetRef.current)) / 1000));
+        logExamEvent(startedExamId, parsedData.id, 'exam_resumed', {
+          started_at: started.startedAt,
+          seconds_remaining: secondsLeft,
+          session_token: examSessionTokenRef.current,
+        });
+        toast.success("Exam resumed. Your saved answers have been restored.");
+      } else {
+        logExamEvent(startedExamId, parsedData.id, 'exam_started', {
+          started_at: started.startedAt,
+          session_token: examSessionTokenRef.current,
+        });
+      }
       
       console.log('✅ Exam started, examId:', startedExamId);
       console.log('✅ Loading questions and initializing proctoring system...');
@@ -419,18 +635,18 @@ const StudentExam = () => {
       initializationStartedRef.current = false; // Reset on error
     });
 
+    // Recompute from the deadline every tick so the countdown never drifts
     const timer = setInterval(() => {
-      setTimeRemaining(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          // Use ref to get current handleSubmit
-          if (handleSubmitRef.current) {
-            handleSubmitRef.current();
-          }
-          return 0;
+      if (deadlineRef.current === null) return;
+      const remaining = Math.max(0, Math.round((deadlineRef.current - (Date.now() + clockOffsetRef.current)) / 1000));
+      setTimeRemaining(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        // Use ref to get current handleSubmit
+        if (handleSubmitRef.current) {
+          handleSubmitRef.current({ force: true });
         }
-        return prev - 1;
-      });
+      }
     }, 1000);
 
     // Auto-submit exam and redirect to homepage if back button pressed
@@ -452,25 +668,16 @@ const StudentExam = () => {
         console.log('✅ WebSocket disconnected on back button');
       }
 
+      // Push any answers still pending before the session is released
+      if (flushAnswersRef.current) {
+        await flushAnswersRef.current();
+      }
+
       releaseExamSession();
       
       // Auto-submit the exam
       if (examId && studentData) {
         try {
-          // Save current answers
-          const promises = Object.entries(answers).map(([questionNum, answer]) =>
-            supabase
-              .from('exam_answers')
-              .upsert({
-                exam_id: examId,
-                student_id: studentData.id,
-                question_number: parseInt(questionNum),
-                answer: answer,
-                updated_at: new Date().toISOString()
-              })
-          );
-          await Promise.all(promises);
-          
           // Mark exam as completed
           await supabase
             .from('exams')
@@ -532,6 +739,33 @@ const StudentExam = () => {
     }
   }, []);
 
+  // Pick up time extensions granted by an admin while the exam is running
+  useEffect(() => {
+    if (!examId) return;
+
+    const interval = setInterval(async () => {
+      const timing = examTimingRef.current;
+      if (!timing) return;
+
+      const { data } = await supabase
+        .from('exams')
+        .select('time_extension_minutes')
+        .eq('id', examId)
+        .maybeSingle();
+
+      const extensionMinutes = data?.time_extension_minutes ?? timing.extensionMinutes;
+      if (extensionMinutes !== timing.extensionMinutes) {
+        examTimingRef.current = { ...timing, extensionMinutes };
+        deadlineRef.current = computeExamDeadline(timing.startedAt, timing.durationMinutes, extensionMinutes);
+        if (extensionMinutes > timing.extensionMinutes) {
+          toast.info(`Your exam time was extended by ${extensionMinutes - timing.extensionMinutes} minute(s).`);
+        }
+      }
+    }, EXTENSION_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [examId]);
+
   // Enforce fullscreen – auto-submit if student exits
   useEffect(() => {
     if (!examId) return;
@@ -543,7 +777,7 @@ const StudentExam = () => {
           fullscreenTimeoutRef.current = setTimeout(() => {
             toast.error("Exam submitted due to leaving fullscreen.");
             if (handleSubmitRef.current) {
-              handleSubmitRef.current();
+              handleSubmitRef.current({ force: true });
             }
           }, 5000);
         }
@@ -578,13 +812,9 @@ const StudentExam = () => {
           return newCount;
         });
         
-        // Send tab switch through WebSocket to backend if connected
-        if (wsConnected) {
-          console.log('📤 Sending tab switch to backend via WebSocket');
-          sendBrowserActivity('tab_switch', 'Tab switched - student navigated away from exam page');
-        } else {
-          console.warn('⚠️ WebSocket not connected, tab switch not sent to backend');
-        }
+        // Queued and replayed by the hook if the WebSocket is down
+        console.log('📤 Sending tab switch to backend via WebSocket');
+        sendBrowserActivity('tab_switch', 'Tab switched - student navigated away from exam page');
       }
       setWindowFocused(!document.hidden);
     };
@@ -601,13 +831,9 @@ const StudentExam = () => {
         return newCount;
       });
       
-      // Send copy/paste through WebSocket to backend if connected
-      if (wsConnected) {
-        console.log(`📤 Sending ${eventType} to backend via WebSocket`);
-        sendBrowserActivity('copy_paste', `${eventType.charAt(0).toUpperCase() + eventType.slice(1)} operation attempted`);
-      } else {
-        console.warn('⚠️ WebSocket not connected, copy/paste not sent to backend');
-      }
+      // Queued and replayed by the hook if the WebSocket is down
+      console.log(`📤 Sending ${eventType} to backend via WebSocket`);
+      sendBrowserActivity('copy_paste', `${eventType.charAt(0).toUpperCase() + eventType.slice(1)} operation attempted`);
     };
 
     // Attach listeners as soon as exam starts (don't wait for WebSocket)
@@ -620,7 +846,7 @@ const StudentExam = () => {
       document.removeEventListener('copy', handleCopyPaste);
       document.removeEventListener('paste', handleCopyPaste);
     };
-  }, [examId, studentData, wsConnected, sendBrowserActivity]);
+  }, [examId, studentData, sendBrowserActivity]);
 
   const initializeMonitoring = async () => {
     try {
@@ -695,13 +921,15 @@ const StudentExam = () => {
           }
           
           // Send to backend immediately if threshold is exceeded (throttled to prevent spam)
-          // IMPORTANT: Always send audio level when threshold is exceeded so backend can detect violations
-          if (normalizedLevel >= 30 && wsConnected) {
+          // IMPORTANT: Always send audio level when threshold is exceeded so backend can detect violations,
+          // unless voice detection is running - then speech is flagged here and loudness is not a violation
+          const sendLoudness = wsConnectedRef.current && !voiceDetectionActiveRef.current;
+          if (normalizedLevel >= 30 && sendLoudness) {
             // Send immediately if threshold exceeded (no throttle for violation detection)
             sendAudioLevel(normalizedLevel, studentNameRef.current);
             lastAudioSendTime.current = now;
             console.log(`🔊 Audio level ${normalizedLevel}% exceeds threshold (30%), sent to backend with student: ${studentNameRef.current}`);
-          } else if (normalizedLevel >= 25 && wsConnected && (now - lastAudioSendTime.current) >= AUDIO_SEND_THROTTLE_MS) {
+          } else if (normalizedLevel >= 25 && sendLoudness && (now - lastAudioSendTime.current) >= AUDIO_SEND_THROTTLE_MS) {
             // Also send moderate levels periodically for monitoring (throttled)
             sendAudioLevel(normalizedLevel, studentNameRef.current);
             lastAudioSendTime.current = now;
@@ -715,11 +943,13 @@ const StudentExam = () => {
       // Get calibration from session storage
       const calibrationData = sessionStorage.getItem('calibration');
       if (calibrationData) {
-        const { pitch, yaw } = JSON.parse(calibrationData);
+        const { pitch, yaw, gaze } = JSON.parse(calibrationData);
         setCalibratedPitch(pitch);
         setCalibratedYaw(yaw);
-        console.log('✅ Calibration loaded:', { pitch, yaw });
+        setGazeCalibration(gaze ?? null);
+        console.log('✅ Calibration loaded:', { pitch, yaw, gaze });
       } else {
+        setGazeCalibration(null);
         console.warn('⚠️ No calibration data found in session storage!');
         toast.warning('Head pose calibration not found. Detection accuracy may be reduced.', {
           duration: 5000
@@ -734,9 +964,10 @@ const StudentExam = () => {
       
       const waitForConnection = setInterval(() => {
         elapsedTime += checkInterval;
-        console.log(`🔍 Checking WebSocket status: wsConnected=${wsConnected}, examId=${!!examId}, studentData=${!!studentData}`);
+        console.log(`🔍 Checking WebSocket status: wsConnected=${wsConnectedRef.current}`);
         
-        if (wsConnected && examId && studentData) {
+        // Runs after the exam has started, so exam and student are set; only the socket is awaited
+        if (wsConnectedRef.current) {
           console.log('✅ WebSocket connected and ready! Starting AI monitoring...');
           clearInterval(waitForConnection);
           startAIMonitoring();
@@ -753,16 +984,17 @@ const StudentExam = () => {
   };
 
   const startAIMonitoring = () => {
-    console.log('🎬 Starting AI monitoring - capturing frames every 2 seconds');
+    const profile = captureProfileForBandwidth(compatibilityInfoRef.current?.networkSpeedMbps);
+    frameRateRef.current = initialFrameRate(profile);
+    console.log(`🎬 Starting AI monitoring - ${profile.name} profile (${profile.maxWidth}px, quality ${profile.jpegQuality}), every ${profile.baseIntervalMs}ms`);
     console.log('📊 Initial state:', { 
       hasVideo: !!videoRef.current, 
       hasStream: !!streamRef.current, 
-      hasExamId: !!examId, 
-      hasStudentData: !!studentData,
-      wsConnected 
+      wsConnected: wsConnectedRef.current 
     });
     
-    detectionIntervalRef.current = setInterval(async () => {
+    let lastFrameBytes = 0;
+    const captureTick = async () => {
       // Only check video/stream at capture time
       if (!videoRef.current || !streamRef.current) {
         console.warn('⚠️ Cannot capture frame - no video/stream');
@@ -770,25 +1002,13 @@ const StudentExam = () => {
       }
 
       try {
-        console.log('📸 Capturing frame...');
-        // Capture frame from video
-        const canvas = document.createElement('canvas');
-        canvas.width = videoRef.current.videoWidth;
-        canvas.height = videoRef.current.videoHeight;
-        
-        // Skip if video hasn't loaded yet
-        if (canvas.width === 0 || canvas.height === 0) {
-          console.warn('⚠️ Video not ready yet (dimensions 0x0)');
-          return;
+        const link = getLinkStats();
+        const previousInterval = frameRateRef.current.intervalMs;
+        frameRateRef.current = nextFrameRate(frameRateRef.current, link, lastFrameBytes);
+        if (frameRateRef.current.intervalMs !== previousInterval) {
+          console.log(`📶 Frame interval ${previousInterval}ms → ${frameRateRef.current.intervalMs}ms`, link);
         }
         
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-        
-        ctx.drawImage(videoRef.current, 0, 0);
-        const snapshot = canvas.toDataURL('image/jpeg', 0.8);
-        console.log(`📷 Frame captured: ${snapshot.substring(0, 50)}... (${snapshot.length} bytes)`);
-        
         // Get audio level and normalize to 0-100 scale
         let currentAudioLevel = 0;
         if (analyserRef.current) {
@@ -802,28 +1022,50 @@ const StudentExam = () => {
         // Always update audio level state for UI display (real-time update)
         setAudioLevel(currentAudioLevel);
 
-        // Send to backend via WebSocket - use ref to get always-current student name
+        // Use ref to get always-current student name
         const currentStudentName = studentNameRef.current;
-        console.log(`📡 Attempting to send frame to backend (audio: ${currentAudioLevel}%, student: ${currentStudentName})`);
-        sendFrame(snapshot, currentAudioLevel, currentStudentName);
+
+        // A frame still queued in the browser: skip this one rather than pile more on
+        if (frameRateRef.current.congested && link.bufferedAmount > 0) {
+          console.warn(`⏭️ Skipping frame - ${link.bufferedAmount} bytes still buffered`);
+        } else {
+          const jpeg = await captureFrame(videoRef.current, profile);
+          if (!jpeg) {
+            console.warn('⚠️ Video not ready yet (dimensions 0x0)');
+          } else {
+            lastFrameBytes = jpeg.byteLength;
+            sendFrame(jpeg, currentAudioLevel, currentStudentName);
+          }
+        }
         
-        // Also send audio level separately with student name
-        console.log(`🔊 Sending audio level ${currentAudioLevel}% with student name: ${currentStudentName}`);
-        sendAudioLevel(currentAudioLevel, currentStudentName);
-        console.log('✅ Frame send attempted with student name:', currentStudentName);
+        // Also send audio level separately with student name (the loudness fallback without voice detection)
+        if (!voiceDetectionActiveRef.current) {
+          sendAudioLevel(currentAudioLevel, currentStudentName);
+        }
       } catch (error) {
         console.error('❌ AI monitoring error:', error);
       }
-    }, 2000);
+    };
+
+    const scheduleNext = () => {
+      detectionIntervalRef.current = setTimeout(async () => {
+        await captureTick();
+        // Cleared on exam end
+        if (detectionIntervalRef.current) scheduleNext();
+      }, frameRateRef.current.intervalMs);
+    };
+    scheduleNext();
   };
 
-  const loadExamQuestions = async () => {
+  // Loads the questions and returns the template duration in minutes
+  const loadExamQuestions = async (): Promise<number> => {
+    let durationMinutes = 15;
     try {
       setQuestionsLoading(true);
       const data = sessionStorage.getItem('studentData');
       if (!data) {
         setQuestionsLoading(false);
-        return;
+        return durationMinutes;
       }
       
       const parsedData = JSON.parse(data);
@@ -831,23 +1073,23 @@ const StudentExam = () => {
       // Get exam template ID for this subject
       const { data: examData, error: examError } = await supabase
         .from('exams')
-        .select('exam_template_id')
+        .select('exam_template_id, shuffle_seed')
         .eq('subject_code', parsedData.subjectCode)
         .eq('student_id', parsedData.id)
         .single();
 
       if (examError) throw examError;
 
-      // Get template duration
+      // Get template duration, grade scale and paper settings
       const { data: templateData } = await supabase
         .from('exam_templates')
-        .select('duration_minutes')
+        .select('duration_minutes, grade_scale, shuffle_questions, shuffle_options, draw_count')
         .eq('id', examData.exam_template_id)
         .single();
 
-      // Set exam duration from template (default 15 minutes)
-      const durationMinutes = templateData?.duration_minutes || 15;
-      setTimeRemaining(durationMinutes * 60);
+      // Exam duration from template (default 15 minutes)
+      durationMinutes = templateData?.duration_minutes || 15;
+      gradeScaleRef.current = parseGradeScale(templateData?.grade_scale);
 
       // Load questions for this exam template
       const { data: questionsData, error } = await supabase
@@ -859,8 +1101,11 @@ const StudentExam = () => {
       if (error) throw error;
 
       if (questionsData && questionsData.length > 0) {
-        setQuestions(questionsData);
-        console.log(`✅ Loaded ${questionsData.length} exam questions`);
+        // Draw and shuffle from the exam's seed so a resumed exam shows the same paper
+        const paper = buildExamPaper(questionsData, getPaperSettings(templateData), examData.shuffle_seed);
+        setQuestions(paper.questions);
+        setOptionOrders(paper.optionOrders);
+        console.log(`✅ Loaded ${paper.questions.length} of ${questionsData.length} exam questions`);
       } else {
         toast.error("No questions found for this exam");
         setQuestions([]);
@@ -872,30 +1117,54 @@ const StudentExam = () => {
     } finally {
       setQuestionsLoading(false);
     }
+    return durationMinutes;
   };
 
+  // Starts the exam, or resumes it if it is already in progress (keeping the original started_at)
   const startExam = async (data: any) => {
     try {
-      const { data: exams, error } = await supabase
-        .from('exams')
-        .select('id')
-        .eq('subject_code', data.subjectCode)
-        .eq('student_id', data.id)
-        .single();
+      const [{ data: exams, error }, clockOffset] = await Promise.all([
+        supabase
+          .from('exams')
+          .select('id, status, started_at, time_extension_minutes')
+          .eq('subject_code', data.subjectCode)
+          .eq('student_id', data.id)
+          .single(),
+        getServerClockOffsetMs(),
+      ]);
 
       if (error) throw error;
+      clockOffsetRef.current = clockOffset;
+
+      const result = {
+        examId: exams.id,
+        startedAt: exams.started_at,
+        extensionMinutes: exams.time_extension_minutes || 0,
+        resumed: false,
+        alreadyCompleted: exams.status === 'completed',
+      };
+
+      if (result.alreadyCompleted) {
+        return result;
+      }
 
       setExamId(exams.id);
 
+      if (exams.status === 'in_progress' && exams.started_at) {
+        console.log('🔁 Resuming exam started at', exams.started_at);
+        return { ...result, resumed: true };
+      }
+
+      const startedAt = new Date(Date.now() + clockOffset).toISOString();
       await supabase
         .from('exams')
         .update({ 
           status: 'in_progress',
-          started_at: new Date().toISOString()
+          started_at: startedAt
         })
         .eq('id', exams.id);
 
-      return exams.id;
+      return { ...result, startedAt };
     } catch (error) {
       console.error('Error starting exam:', error);
       return null;
@@ -967,12 +1236,85 @@ const StudentExam = () => {
     }
   };
 
+  const questionNumbers = questions.map(q => q.question_number as number);
+  const currentQuestion = questions[currentIndex];
+  // Questions are labelled by their position on the (possibly shuffled) paper
+  const questionPositions = questionNumbers.map((_, index) => index + 1);
+  const unansweredQuestions = questionPositions.filter(p => !answers[questionNumbers[p - 1]] || answers[questionNumbers[p - 1]].trim() === '');
+  const flaggedQuestions = questionPositions.filter(p => flags[questionNumbers[p - 1]]);
+
+  const goToIndex = useCallback((index: number) => {
+    if (index < 0 || index >= questions.length) return;
+    setCurrentIndex(index);
+    if (viewMode === 'scroll') {
+      document
+        .getElementById(`question-${questions[index].question_number}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [questions, viewMode]);
+
+  // Keyboard shortcuts (ignored while typing an answer)
+  useEffect(() => {
+    if (questions.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'radio') || target.isContentEditable)) {
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || reviewOpen) return;
+
+      if (e.key === 'ArrowRight') {
+        e.preventDefault();
+        goToIndex(currentIndex + 1);
+      } else if (e.key === 'ArrowLeft') {
+        e.preventDefault();
+        goToIndex(currentIndex - 1);
+      } else if (e.key === 'f' || e.key === 'F') {
+        const questionNumber = questions[currentIndex]?.question_number;
+        if (questionNumber !== undefined) toggleFlag(questionNumber);
+      } else if (e.key === 'r' || e.key === 'R') {
+        setReviewOpen(true);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [questions, currentIndex, goToIndex, toggleFlag, reviewOpen]);
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const renderQuestion = (question: typeof questions[number], index: number) => (
+    <div key={question.id} id={`question-${question.question_number}`} className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-start gap-2">
+        <span className="font-semibold text-primary">Q{index + 1}.</span>
+        <p className="font-medium flex-1">{question.question_text}</p>
+        <AnswerSaveIndicator status={saveStatus[question.question_number]} />
+        <Button
+          type="button"
+          variant={flags[question.question_number] ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 px-2"
+          onClick={() => toggleFlag(question.question_number)}
+          title="Flag for review (F)"
+        >
+          <Flag className={`w-4 h-4 ${flags[question.question_number] ? 'text-amber-500 fill-amber-500' : ''}`} />
+        </Button>
+      </div>
+
+      <QuestionInput
+        question={question}
+        value={answers[question.question_number] || ''}
+        onChange={(value) => setAnswer(question.question_number, value)}
+        optionOrder={optionOrders[question.question_number]}
+      />
+    </div>
+  );
+
   if (!studentData) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center gap-3">
@@ -998,14 +1340,26 @@ const StudentExam = () => {
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2">
               {wsConnected ? (
-                <Wifi className="w-4 h-4 text-green-500" />
+                <span title={connectionHealth.latencyMs !== null ? `Proctoring connected (${connectionHealth.latencyMs} ms)` : "Proctoring connected"}>
+                  <Wifi className="w-4 h-4 text-green-500" />
+                </span>
               ) : (
-                <WifiOff className="w-4 h-4 text-orange-500" />
+                <span
+                  title={
+                    connectionHealth.status === "unsupported"
+                      ? "Proctoring unavailable - reload the page"
+                      : fallbackDetectionActive
+                        ? "Proctoring service unreachable - monitoring locally"
+                        : "Reconnecting to proctoring service..."
+                  }
+                >
+                  <WifiOff className="w-4 h-4 text-orange-500" />
+                </span>
               )}
               <Clock className="w-4 h-4" />
               <span className="text-lg font-mono font-bold">{formatTime(timeRemaining)}</span>
             </div>
-            <Button variant="destructive" size="sm" onClick={handleSubmit}>
+            <Button variant="destructive" size="sm" onClick={() => setReviewOpen(true)}>
               <LogOut className="w-4 h-4 mr-2" />
               End Exam
             </Button>
@@ -1019,7 +1373,16 @@ const StudentExam = () => {
           <div className="lg:col-span-2">
             <Card>
               <CardContent className="p-6">
-                <h2 className="text-2xl font-bold mb-6">Examination Paper</h2>
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-2xl font-bold">Examination Paper</h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setViewMode(viewMode === 'paged' ? 'scroll' : 'paged')}
+                  >
+                    {viewMode === 'paged' ? 'Show all questions' : 'One question at a time'}
+                  </Button>
+                </div>
                 
                 {questionsLoading ? (
                   <div className="flex flex-col items-center justify-center py-12">
@@ -1032,56 +1395,43 @@ const StudentExam = () => {
                     <p className="text-sm text-muted-foreground">No questions available for this exam.</p>
                   </div>
                 ) : (
-                  <div className="space-y-8">
-                    {questions.map((question, index) => (
-                    <div key={question.id} className="space-y-4 p-4 border rounded-lg">
-                      <div className="flex items-start gap-2">
-                        <span className="font-semibold text-primary">Q{question.question_number}.</span>
-                        <p className="font-medium flex-1">{question.question_text}</p>
-                      </div>
-                      
-                      {question.question_type === 'mcq' && question.options ? (
-                        <div className="space-y-3 ml-6">
-                          {Object.entries(question.options).map(([key, value]: [string, any]) => (
-                            <label
-                              key={key}
-                              className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all hover:bg-accent ${
-                                answers[question.question_number] === key
-                                  ? 'border-primary bg-primary/5'
-                                  : 'border-border'
-                              }`}
-                            >
-                              <input
-                                type="radio"
-                                name={`question-${question.question_number}`}
-                                value={key}
-                                checked={answers[question.question_number] === key}
-                                onChange={(e) =>
-                                  setAnswers({ ...answers, [question.question_number]: e.target.value })
-                                }
-                                className="mt-1"
-                              />
-                              <div className="flex-1">
-                                <span className="font-semibold text-sm uppercase mr-2">{key})</span>
-                                <span>{value}</span>
-                              </div>
-                            </label>
-                          ))}
+                  <>
+                    {viewMode === 'paged' ? (
+                      <div className="space-y-4">
+                        {currentQuestion && renderQuestion(currentQuestion, currentIndex)}
+                        <div className="flex items-center justify-between">
+                          <Button
+                            variant="outline"
+                            onClick={() => goToIndex(currentIndex - 1)}
+                            disabled={currentIndex === 0}
+                          >
+                            <ChevronLeft className="w-4 h-4 mr-1" />
+                            Previous
+                          </Button>
+                          <span className="text-sm text-muted-foreground">
+                            Question {currentIndex + 1} of {questions.length}
+                          </span>
+                          {currentIndex < questions.length - 1 ? (
+                            <Button variant="outline" onClick={() => goToIndex(currentIndex + 1)}>
+                              Next
+                              <ChevronRight className="w-4 h-4 ml-1" />
+                            </Button>
+                          ) : (
+                            <Button onClick={() => setReviewOpen(true)}>
+                              Review &amp; Submit
+                            </Button>
+                          )}
                         </div>
-                      ) : (
-                        <Textarea
-                          placeholder="Type your answer here..."
-                          value={answers[question.question_number] || ''}
-                          onChange={(e) =>
-                            setAnswers({ ...answers, [question.question_number]: e.target.value })
-                          }
-                          rows={6}
-                          className="resize-none ml-6"
-                        />
-                      )}
-                    </div>
-                  ))}
-                  </div>
+                      </div>
+                    ) : (
+                      <div className="space-y-8">
+                        {questions.map(renderQuestion)}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-6">
+                      Shortcuts: ← / → previous / next question · F flag for review · R review answers
+                    </p>
+                  </>
                 )}
               </CardContent>
             </Card>
@@ -1089,6 +1439,17 @@ const StudentExam = () => {
 
           {/* Sidebar */}
           <div className="space-y-4">
+            {/* Question Navigator */}
+            {questions.length > 0 && (
+              <QuestionNavigator
+                questionNumbers={questionNumbers}
+                currentIndex={viewMode === 'paged' ? currentIndex : -1}
+                answers={answers}
+                flags={flags}
+                onSelect={goToIndex}
+              />
+            )}
+
             {/* Live Monitoring */}
             <Card>
               <CardContent className="p-4">
@@ -1120,7 +1481,11 @@ const StudentExam = () => {
             </Card>
 
             {/* Audio Monitor */}
-            <AudioMonitor audioLevel={audioLevel} threshold={30} />
+            <AudioMonitor
+              audioLevel={audioLevel}
+              threshold={30}
+              voiceActivity={voiceDetectionActive ? voiceActivity : null}
+            />
 
             {/* Browser Activity Monitor */}
             <BrowserActivityMonitor 
@@ -1132,6 +1497,16 @@ const StudentExam = () => {
           </div>
         </div>
       </div>
+
+      <ExamReviewDialog
+        open={reviewOpen}
+        onOpenChange={setReviewOpen}
+        totalQuestions={questions.length}
+        unansweredQuestions={unansweredQuestions}
+        flaggedQuestions={flaggedQuestions}
+        onJumpToQuestion={(position) => goToIndex(position - 1)}
+        onConfirmSubmit={() => handleSubmit()}
+      />
     </div>
   );
 };
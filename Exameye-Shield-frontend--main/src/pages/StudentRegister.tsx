@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { enrollFace } from "@/utils/faceIdentity";
 
 const StudentRegister = () => {
   const navigate = useNavigate();
@@ -224,12 +225,15 @@ const StudentRegister = () => {
     setLoading(true);
 
     try {
-      // Validate subject code exists
+      // Validate subject code exists - students sit the current version of the newest template
       const { data: templateData, error: templateError } = await supabase
         .from('exam_templates')
         .select('id, subject_name, subject_code')
         .eq('subject_code', formData.subjectCode.trim().toUpperCase())
-        .single();
+        .eq('is_current', true)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (templateError || !templateData) {
         toast.error("Invalid subject code. Please check with your administrator.");
@@ -262,6 +266,13 @@ const StudentRegister = () => {
         .update({ face_image_url: faceUrl })
         .eq('id', studentData.id);
 
+      // Embedding for identity checks; StudentVerify computes it later if this fails
+      try {
+        await enrollFace(studentData.id);
+      } catch (error) {
+        console.warn('⚠️ Face enrollment failed, will retry at verification:', error);
+      }
+
       // Create exam session
       const { error: examError } = await supabase
         .from('exams')
@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
-import { ArrowLeft, Download, FileText, Calendar, Clock, AlertTriangle, CheckCircle, XCircle, RefreshCw } from "lucide-react";
+import { ArrowLeft, Download, FileText, Calendar, Clock, AlertTriangle, CheckCircle, XCircle, RefreshCw, Flag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -9,6 +9,35 @@ import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { pdfGenerator } from "@/utils/pdfGenerator";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import {
+  DEFAULT_GRADE_SCALE,
+  gradeExam,
+  gradeQuestion,
+  parseGradeScale,
+  parseRubric,
+  type GradeScale,
+  type RubricCriterion,
+} from "@/utils/grading";
+import {
+  QUESTION_TYPE_LABELS,
+  describeQuestionConfig,
+  formatAnswer,
+  getChoiceOptions,
+  getMatchingOptions,
+  getQuestionType,
+} from "@/utils/questionTypes";
+import { buildExamPaper, getDisplayedLabels, getPaperSettings } from "@/utils/examPaper";
+import { loadGradingQuestions } from "@/utils/examTotals";
+import {
+  PROCTORING_EVENT_TYPES,
+  computeCoverage,
+  formatGapDuration,
+  gapsFromEvents,
+  type ProctoringCoverage,
+} from "@/utils/proctoringCoverage";
+import { CLIENT_FALLBACK_SOURCE } from "@/utils/fallbackDetection";
+import { formatSimilarity } from "@/utils/faceIdentity";
 
 interface StudentReportData {
   student: {
@@ -37,7 +66,15 @@ interface StudentReportData {
     correct_answer?: string;
     points: number;
     options?: any;
+    config?: Json | null;
+    rubric?: RubricCriterion[];
+    manualGrade?: Tables<'answer_grades'> | null;
+    flagged?: boolean;
+    // Position on the student's paper and the option labels they saw (when shuffled)
+    paperPosition?: number;
+    optionLabels?: Record<string, string>;
   }>;
+  gradeScale?: GradeScale;
   violations: Array<{
     id: string;
     violation_type: string;
@@ -46,6 +83,8 @@ interface StudentReportData {
     image_url?: string;
     details?: any;
   }>;
+  // Share of the exam the proctoring connection was up; missing when the exam wasn't found
+  coverage?: ProctoringCoverage;
 }
 
 const StudentReport = () => {
@@ -315,6 +354,7 @@ const StudentReport = () => {
 
       // Fetch answers with questions - only if exam exists
       let answersWithQuestions: any[] = [];
+      let gradeScale: GradeScale = DEFAULT_GRADE_SCALE;
       if (examData) {
         const { data: answersData, error: answersError } = await supabase
           .from('exam_answers')
@@ -325,29 +365,62 @@ const StudentReport = () => {
         if (!answersError && answersData) {
           // Fetch questions to join with answers - only if exam_template_id exists
           let questionsData = null;
+          let optionOrders: Record<number, string[]> = {};
+          let paperPositions: Record<number, number> = {};
           if (examData.exam_template_id) {
-            const { data, error: questionsError } = await supabase
-              .from('exam_questions')
-              .select('*')
-              .eq('exam_template_id', examData.exam_template_id)
-              .order('question_number');
+            // Includes the corrected key when the exam was regraded against a later version
+            const data = await loadGradingQuestions(examData.exam_template_id, examData.graded_template_id)
+              .catch(questionsError => {
+                console.error('Error loading exam questions:', questionsError);
+                return null;
+              });
+
+            const { data: templateData } = await supabase
+              .from('exam_templates')
+              .select('grade_scale, shuffle_questions, shuffle_options, draw_count')
+              .eq('id', examData.exam_template_id)
+              .maybeSingle();
+            gradeScale = parseGradeScale(templateData?.grade_scale);
 
-            if (!questionsError) {
-              questionsData = data;
+            if (data) {
+              // Rebuild the student's paper so undrawn questions are left out and shuffled
+              // option labels can be mapped back to the canonical ones
+              const paper = buildExamPaper(data, getPaperSettings(templateData), examData.shuffle_seed);
+              questionsData = [...paper.questions].sort((a, b) => a.question_number - b.question_number);
+              optionOrders = paper.optionOrders;
+              paperPositions = Object.fromEntries(paper.questions.map((q, index) => [q.question_number, index + 1]));
             }
           }
 
-          // Merge answers with questions
-          answersWithQuestions = (answersData || []).map(answer => {
-            const question = questionsData?.find(q => q.question_number === answer.question_number);
+          // Examiner grades for manually graded questions
+          const { data: gradesData } = await supabase
+            .from('answer_grades')
+            .select('*')
+            .eq('exam_id', examData.id);
+
+          // Merge answers with questions - list every question so unanswered ones are graded too
+          const questionNumbers = questionsData && questionsData.length > 0
+            ? questionsData.map(q => q.question_number)
+            : (answersData || []).map(a => a.question_number);
+          answersWithQuestions = questionNumbers.map(questionNumber => {
+            const question = questionsData?.find(q => q.question_number === questionNumber);
+            const answer = answersData?.find(a => a.question_number === questionNumber);
             return {
-              question_number: answer.question_number,
+              question_number: questionNumber,
               question_text: question?.question_text || 'Question not found',
               question_type: question?.question_type || 'short_answer',
-              answer: answer.answer || 'Not answered',
+              answer: answer?.answer || '',
               correct_answer: question?.correct_answer,
-              points: question?.points || 0,
+              points: question?.points ?? null,
               options: question?.options,
+              config: question?.config,
+              rubric: parseRubric(question?.rubric),
+              manualGrade: gradesData?.find(g => g.question_number === questionNumber) || null,
+              flagged: !!answer?.flagged,
+              paperPosition: paperPositions[questionNumber],
+              optionLabels: question && optionOrders[questionNumber]
+                ? getDisplayedLabels(question, optionOrders[questionNumber])
+                : undefined,
             };
           });
         }
@@ -706,6 +779,22 @@ const StudentReport = () => {
         }
       }
       
+      // Proctoring coverage from the connection events the exam page logged
+      let coverage: ProctoringCoverage | undefined;
+      if (examData?.id && examData.started_at) {
+        const { data: proctoringEvents, error: proctoringEventsError } = await supabase
+          .from('exam_events')
+          .select('event_type, details, created_at')
+          .eq('exam_id', examData.id)
+          .in('event_type', [...PROCTORING_EVENT_TYPES]);
+        if (proctoringEventsError) {
+          console.warn('Could not load proctoring events:', proctoringEventsError);
+        } else {
+          const windowEnd = examData.completed_at ? new Date(examData.completed_at).getTime() : Date.now();
+          coverage = computeCoverage(gapsFromEvents(proctoringEvents || []), new Date(examData.started_at).getTime(), windowEnd);
+        }
+      }
+
       console.log('✅ Final student data being used:', { 
         name: finalStudentName, 
         id: finalStudentData.id, 
@@ -742,7 +831,9 @@ const StudentReport = () => {
           duration_minutes: 0,
         },
         answers: answersWithQuestions,
+        gradeScale,
         violations: violationsData,
+        coverage,
       });
 
       setLoading(false);
@@ -960,42 +1051,23 @@ const StudentReport = () => {
   };
 
   const calculateScore = () => {
-    if (!reportData) return { correct: 0, total: 0, percentage: 0, grade: 'F' };
+    if (!reportData) return { correct: 0, total: 0, percentage: 0, grade: 'F', earnedPoints: 0, totalPoints: 0, pendingManual: 0 };
     
-    let correct = 0;
-    let totalPoints = 0;
-    let earnedPoints = 0;
-    
-    reportData.answers.forEach(answer => {
-      if (answer.question_type === 'mcq' && answer.correct_answer) {
-        const points = answer.points || 1;
-        totalPoints += points;
-        
-        // Case-insensitive comparison
-        if (answer.answer?.trim().toLowerCase() === answer.correct_answer?.trim().toLowerCase()) {
-          correct++;
-          earnedPoints += points;
-        }
-      }
+    // Same grading module the exam page uses on submit
+    const result = gradeExam(reportData.answers, reportData.answers, {
+      gradeScale: reportData.gradeScale,
+      manualGrades: reportData.answers.flatMap(a => (a.manualGrade ? [a.manualGrade] : [])),
     });
     
-    const total = reportData.answers.filter(a => a.question_type === 'mcq' && a.correct_answer).length;
-    const percentage = totalPoints > 0 ? Math.round((earnedPoints / totalPoints) * 100) : 0;
-    
-    // Calculate letter grade
-    let grade = 'F';
-    if (percentage >= 90) grade = 'A+';
-    else if (percentage >= 85) grade = 'A';
-    else if (percentage >= 80) grade = 'A-';
-    else if (percentage >= 75) grade = 'B+';
-    else if (percentage >= 70) grade = 'B';
-    else if (percentage >= 65) grade = 'B-';
-    else if (percentage >= 60) grade = 'C+';
-    else if (percentage >= 55) grade = 'C';
-    else if (percentage >= 50) grade = 'C-';
-    else if (percentage >= 40) grade = 'D';
-    
-    return { correct, total, percentage, grade, earnedPoints, totalPoints };
+    return {
+      correct: result.correctCount,
+      total: result.autoGradedCount,
+      percentage: result.percentage,
+      grade: result.gradeLetter,
+      earnedPoints: result.totalScore,
+      totalPoints: result.maxScore,
+      pendingManual: result.pendingManualCount,
+    };
   };
 
   if (loading) {
@@ -1132,12 +1204,35 @@ const StudentReport = () => {
                   {reportData.exam.status}
                 </Badge>
               </div>
+              {reportData.coverage && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Proctoring Coverage</p>
+                  <p className={`font-medium ${reportData.coverage.coveragePercent < 95 ? 'text-destructive' : ''}`}>
+                    {reportData.coverage.coveragePercent}%
+                  </p>
+                  {reportData.coverage.gapCount > 0 && (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Unmonitored for {formatGapDuration(reportData.coverage.unmonitoredMs)} across {reportData.coverage.gapCount} gap{reportData.coverage.gapCount === 1 ? '' : 's'}
+                      </p>
+                      <ul className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                        {reportData.coverage.gaps.map(gap => (
+                          <li key={gap.startedAt}>
+                            {new Date(gap.startedAt).toLocaleTimeString()} – {gap.endedAt ? new Date(gap.endedAt).toLocaleTimeString() : reportData.exam.completed_at ? 'end of exam' : 'now'}
+                            {gap.endedAt && ` (${formatGapDuration(gap.endedAt - gap.startedAt)})`}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
 
-        {/* Score Summary (for MCQ) */}
-        {reportData.answers.some(a => a.question_type === 'mcq') && (
+        {/* Score Summary (for auto-graded questions) */}
+        {score.total > 0 && (
           <Card className="mb-8">
             <CardHeader>
               <CardTitle>Score Summary</CardTitle>
@@ -1159,6 +1254,12 @@ const StudentReport = () => {
                     <span className="text-sm">Correct Answers</span>
                     <span className="font-bold text-success">{score.correct}/{score.total}</span>
                   </div>
+                  {score.pendingManual > 0 && (
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm">Awaiting Manual Grading</span>
+                      <span className="font-bold text-muted-foreground">{score.pendingManual}</span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="text-sm">Violations</span>
                     <span className="font-bold text-destructive">{reportData.violations.length}</span>
@@ -1190,40 +1291,109 @@ const StudentReport = () => {
                 </TableHeader>
                 <TableBody>
                   {reportData.answers.map((answer) => {
-                    const isCorrect = answer.question_type === 'mcq' && answer.correct_answer 
-                      ? answer.answer?.trim().toLowerCase() === answer.correct_answer?.trim().toLowerCase()
-                      : null;
+                    const { fraction, pointsEarned } = gradeQuestion(answer, answer.answer, answer.manualGrade?.points_awarded);
+                    const rubricScores = (answer.manualGrade?.rubric_scores || {}) as Record<string, number>;
+                    const isCorrect = fraction === null ? null : fraction === 1;
+                    const matching = answer.question_type === 'matching' ? getMatchingOptions(answer) : null;
                     
                     return (
                       <TableRow key={answer.question_number}>
-                        <TableCell className="font-medium">{answer.question_number}</TableCell>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-1">
+                            {answer.question_number}
+                            {answer.paperPosition && answer.paperPosition !== answer.question_number && (
+                              <span
+                                className="text-xs text-muted-foreground font-normal"
+                                title="Position on the student's shuffled paper"
+                              >
+                                (Q{answer.paperPosition})
+                              </span>
+                            )}
+                            {answer.flagged && (
+                              <Flag
+                                className="w-3.5 h-3.5 text-amber-500 fill-amber-500"
+                                aria-label="Flagged for review by student"
+                              />
+                            )}
+                          </div>
+                        </TableCell>
                         <TableCell>
                           <div className="max-w-md">
                             <p className="mb-2">{answer.question_text}</p>
-                            {answer.question_type === 'mcq' && answer.options && (
+                            {matching ? (
+                              <div className="text-xs text-muted-foreground grid grid-cols-2 gap-x-4 gap-y-1">
+                                <div className="space-y-1">
+                                  {Object.entries(matching.prompts).map(([key, value]) => (
+                                    <div key={key} className="flex gap-2">
+                                      <span className="font-medium">{key}.</span>
+                                      <span>{value}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                                <div className="space-y-1">
+                                  {Object.entries(matching.choices).map(([key, value]) => (
+                                    <div key={key} className="flex gap-2">
+                                      <span className="font-medium">{key}:</span>
+                                      <span>{value}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            ) : getChoiceOptions(answer).length > 0 && (
                               <div className="text-xs text-muted-foreground space-y-1">
-                                {Object.entries(answer.options).map(([key, value]) => (
+                                {getChoiceOptions(answer).map(([key, value]) => (
                                   <div key={key} className="flex gap-2">
                                     <span className="font-medium">{key}:</span>
-                                    <span>{value as string}</span>
+                                    <span>{value}</span>
+                                    {answer.optionLabels?.[key] && answer.optionLabels[key] !== key && (
+                                      <span className="italic">(shown to student as {answer.optionLabels[key]})</span>
+                                    )}
                                   </div>
                                 ))}
                               </div>
                             )}
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {QUESTION_TYPE_LABELS[getQuestionType(answer)]}
+                              {describeQuestionConfig(answer) && ` · ${describeQuestionConfig(answer)}`}
+                            </p>
+                            {answer.manualGrade && (
+                              <div className="mt-2 p-2 rounded border bg-muted/40 text-xs space-y-1">
+                                {answer.rubric && answer.rubric.length > 0 && answer.rubric.map(criterion => (
+                                  <div key={criterion.id} className="flex justify-between gap-4">
+                                    <span>{criterion.description}</span>
+                                    <span className="font-medium whitespace-nowrap">
+                                      {rubricScores[criterion.id] ?? 0}/{criterion.points}
+                                    </span>
+                                  </div>
+                                ))}
+                                {answer.manualGrade.feedback && (
+                                  <p className="italic">Feedback: {answer.manualGrade.feedback}</p>
+                                )}
+                                <p className="text-muted-foreground">
+                                  Graded by {answer.manualGrade.graded_by} on {formatDate(answer.manualGrade.graded_at)}
+                                </p>
+                              </div>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
                           <span className={isCorrect === false ? 'text-destructive font-medium' : ''}>
-                            {answer.answer || <span className="text-muted-foreground italic">Not answered</span>}
+                            {formatAnswer(answer, answer.answer) || <span className="text-muted-foreground italic">Not answered</span>}
                           </span>
                         </TableCell>
                         <TableCell>
-                          {answer.correct_answer || <span className="text-muted-foreground">—</span>}
+                          {formatAnswer(answer, answer.correct_answer) || <span className="text-muted-foreground">—</span>}
                         </TableCell>
                         <TableCell>
                           {isCorrect === true && <CheckCircle className="w-5 h-5 text-success" />}
-                          {isCorrect === false && <XCircle className="w-5 h-5 text-destructive" />}
+                          {fraction !== null && fraction > 0 && fraction < 1 && (
+                            <span className="text-xs font-medium text-warning">{Math.round(fraction * 100)}%</span>
+                          )}
+                          {fraction === 0 && <XCircle className="w-5 h-5 text-destructive" />}
                           {isCorrect === null && <span className="text-muted-foreground text-xs">Manual</span>}
+                          {answer.manualGrade && (
+                            <span className="block text-xs text-muted-foreground">{pointsEarned}/{answer.points ?? 1} pts</span>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -1258,6 +1428,11 @@ const StudentReport = () => {
                         <div className="flex items-center gap-2 mb-2">
                           <Badge variant="destructive">{formatViolationType(violation.violation_type)}</Badge>
                           <Badge variant="outline">{violation.severity}</Badge>
+                          {violation.details?.source === CLIENT_FALLBACK_SOURCE && (
+                            <Badge variant="secondary" title="Detected in the student's browser while the proctoring service was unreachable">
+                              Local detection
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm text-muted-foreground">
                           <Clock className="w-3 h-3 inline mr-1" />
@@ -1267,6 +1442,23 @@ const StudentReport = () => {
                           <p className="text-sm mt-2">{violation.details.message}</p>
                         )}
                       </div>
+                      {violation.details?.reference_image_url && (
+                        <div className="ml-4 text-center">
+                          <div className="text-xs text-muted-foreground mb-1 font-semibold">🪪 Registered Face</div>
+                          <img
+                            src={violation.details.reference_image_url}
+                            alt="Registered face"
+                            className="w-32 h-24 object-cover rounded border-2 border-primary cursor-pointer hover:scale-105 transition-transform"
+                            onClick={() => window.open(violation.details.reference_image_url, '_blank')}
+                            title="Face the student registered with - click to view full image"
+                          />
+                          {typeof violation.details.similarity === 'number' && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Similarity {formatSimilarity(violation.details.similarity)}
+                            </div>
+                          )}
+                        </div>
+                      )}
                       {violation.image_url && (
                         <div className="ml-4 text-center">
                           <div className="text-xs text-muted-foreground mb-1 font-semibold">📷 Evidence Captured</div>
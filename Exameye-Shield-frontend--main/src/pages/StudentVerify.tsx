@@ -1,10 +1,23 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { Shield, Camera, Mic, User, ArrowRight } from "lucide-react";
+import { Shield, Camera, Mic, User, ScanFace, Activity, IdCard, ArrowRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { formatSimilarity, verifyFace } from "@/utils/faceIdentity";
+import { CARD_OUTPUT_WIDTH, cropToCanvas, findCardEdges, guideRect, readCardText } from "@/utils/idCard";
+import {
+  ID_REVIEW_POLL_MS,
+  isIdCheckApproved,
+  isIdCheckRejected,
+  submitIdCheck,
+  type IdCheckStatus,
+} from "@/utils/idVerification";
+import { stepPrompt, type LivenessResult } from "@/utils/liveness";
+import { useLivenessChallenge } from "@/hooks/useLivenessChallenge";
+import { calibrateGaze } from "@/hooks/useGazeTracking";
 
 const MICROPHONE_THRESHOLD = 10; // percentage (approx)
 
@@ -15,13 +28,22 @@ const StudentVerify = () => {
     camera: { status: 'waiting', message: 'Waiting...' },
     sound: { status: 'waiting', message: 'Waiting...' },
     face: { status: 'waiting', message: 'Waiting...' },
+    identity: { status: 'waiting', message: 'Waiting...' },
+    liveness: { status: 'waiting', message: 'Waiting...' },
+    idCard: { status: 'waiting', message: 'Waiting...' },
   });
   const [verificationStarted, setVerificationStarted] = useState(false);
   const [progress, setProgress] = useState(0);
   const [soundDetected, setSoundDetected] = useState(false);
+  // Card-shaped guide over the preview, in video pixels, while waiting for the student to show their ID
+  const [idCardGuide, setIdCardGuide] = useState<{ width: number; height: number } | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const failedLivenessAttemptsRef = useRef(0);
+  const idCaptureResolveRef = useRef<(() => void) | null>(null);
+  const unmountedRef = useRef(false);
+  const { prompt: livenessPrompt, run: runLivenessChallenge } = useLivenessChallenge(videoRef);
 
   useEffect(() => {
     const data = sessionStorage.getItem('studentData');
@@ -33,12 +55,150 @@ const StudentVerify = () => {
     setStudentData(JSON.parse(data));
 
     return () => {
+      unmountedRef.current = true;
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
     };
   }, [navigate]);
 
+  // Verification images go next to the registered face, under the student's roll number
+  const uploadVerificationImage = async (dataUrl: string, path: string): Promise<string> => {
+    const blob = await (await fetch(dataUrl)).blob();
+    const fileName = `${studentData.rollNo}/${path}`;
+    const { error } = await supabase.storage
+      .from('face-registrations')
+      .upload(fileName, blob, {
+        contentType: 'image/jpeg',
+        upsert: false
+      });
+    if (error) throw error;
+    const { data: { publicUrl } } = supabase.storage
+      .from('face-registrations')
+      .getPublicUrl(fileName);
+    return publicUrl;
+  };
+
+  // A frame that fails to upload is left out
+  const uploadLivenessEvidence = async (result: LivenessResult): Promise<LivenessResult> => {
+    const steps = await Promise.all(result.steps.map(async (step, index) => {
+      if (!step.evidence?.startsWith('data:')) return step;
+      try {
+        const publicUrl = await uploadVerificationImage(step.evidence, `liveness/${Date.now()}_${index + 1}_${step.kind}.jpg`);
+        return { ...step, evidence: publicUrl };
+      } catch (error) {
+        console.warn('⚠️ Liveness evidence upload failed:', error);
+        return { ...step, evidence: undefined };
+      }
+    }));
+    return { ...result, steps };
+  };
+
+  // Shows the card guide and waits for the "Capture ID" button
+  const waitForIdCapture = (width: number, height: number) => new Promise<void>(resolve => {
+    idCaptureResolveRef.current = resolve;
+    setIdCardGuide({ width, height });
+  });
+
+  const captureIdCard = () => {
+    setIdCardGuide(null);
+    idCaptureResolveRef.current?.();
+    idCaptureResolveRef.current = null;
+  };
+
+  // Captures the ID card, cross-checks it against the live face and the student record, stores
+  // the result in id_verifications and waits for an admin if it's inconclusive. True once approved.
+  const runIdCheck = async (liveFrame: string): Promise<boolean> => {
+    const video = videoRef.current;
+    if (!video) throw new Error('Camera preview not ready');
+    await waitForIdCapture(video.videoWidth, video.videoHeight);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+    ctx.drawImage(video, 0, 0);
+    const edges = findCardEdges(ctx.getImageData(0, 0, canvas.width, canvas.height), guideRect(canvas.width, canvas.height));
+    console.log('🪪 ID card edges:', edges);
+    const card = cropToCanvas(canvas, edges, CARD_OUTPUT_WIDTH);
+    const cardBase64 = card.toDataURL('image/jpeg', 0.9);
+
+    setChecks(prev => ({ ...prev, idCard: { status: 'checking', message: 'Reading your ID card...' } }));
+    // An unreadable card leaves the decision to an admin rather than blocking the student
+    const ocrText = await readCardText(card).catch(error => {
+      console.warn('⚠️ ID card OCR failed:', error);
+      return '';
+    });
+    console.log('🪪 ID card text:', ocrText);
+
+    const stamp = Date.now();
+    const cardImageUrl = await uploadVerificationImage(cardBase64, `id-card/${stamp}_card.jpg`);
+    const liveImageUrl = await uploadVerificationImage(liveFrame, `id-card/${stamp}_live.jpg`).catch(error => {
+      console.warn('⚠️ Live frame upload failed:', error);
+      return null;
+    });
+
+    const { data: examData } = await supabase
+      .from('exams')
+      .select('id')
+      .eq('student_id', studentData.id)
+      .eq('subject_code', studentData.subjectCode)
+      .maybeSingle();
+
+    // The proctoring service scores the card, decides and stores the check; the browser can't choose the status
+    const record = await submitIdCheck({
+      studentId: studentData.id,
+      examId: examData?.id ?? null,
+      cardBase64,
+      liveBase64: liveFrame,
+      ocrText,
+      cardImageUrl,
+      liveImageUrl,
+      cardEdges: edges,
+    });
+    console.log('🪪 ID check:', record);
+
+    let status = record.status;
+    let reviewNote: string | null = null;
+    if (status === 'pending_review') {
+      setChecks(prev => ({ ...prev, idCard: { status: 'checking', message: 'Waiting for an invigilator to review your ID...' } }));
+      toast.info("Your ID couldn't be checked automatically. An invigilator will review it shortly - please stay on this page.", {
+        duration: 8000
+      });
+      while (status === 'pending_review' && !unmountedRef.current) {
+        await new Promise(resolve => setTimeout(resolve, ID_REVIEW_POLL_MS));
+        const { data } = await supabase
+          .from('id_verifications')
+          .select('status, review_note')
+          .eq('id', record.id)
+          .single();
+        if (data) {
+          status = data.status as IdCheckStatus;
+          reviewNote = data.review_note;
+        }
+      }
+    }
+
+    if (isIdCheckApproved(status)) {
+      setChecks(prev => ({
+        ...prev,
+        idCard: { status: 'success', message: status === 'approved' ? 'ID approved by invigilator' : 'ID matches your registration' }
+      }));
+      return true;
+    }
+    if (isIdCheckRejected(status)) {
+      setChecks(prev => ({
+        ...prev,
+        idCard: { status: 'error', message: reviewNote || 'ID does not match your registration' }
+      }));
+      toast.error(`ID check failed${reviewNote ? ` - ${reviewNote}` : ''}. Hold the front of your own ID card inside the frame and try again.`, {
+        duration: 6000
+      });
+    }
+    return false;
+  };
+
   const startVerification = async () => {
     setVerificationStarted(true);
     setProgress(0);
@@ -115,6 +275,9 @@ const StudentVerify = () => {
       // Step 2: Wait for camera to be ready
       await new Promise(resolve => setTimeout(resolve, 1000));
 
+      // Frame the face checks ran on, compared with the ID card photo later
+      let liveFrame = '';
+
       // Step 3: Face Detection Check - Use proctoring backend service
       setChecks(prev => ({ ...prev, face: { status: 'checking', message: 'Verifying face position...' } }));
       
@@ -134,6 +297,7 @@ const StudentVerify = () => {
           
           ctx.drawImage(videoRef.current, 0, 0);
           const frameBase64 = canvas.toDataURL('image/jpeg');
+          liveFrame = frameBase64;
           
           // Call proctoring service environment check
           console.log('Calling environment check at:', `${PROCTORING_API_URL}/api/environment-check`);
@@ -178,9 +342,15 @@ const StudentVerify = () => {
               const calibration = await calibrationResponse.json();
               if (calibration.success) {
                 console.log('Calibration successful:', calibration);
+                // Same pose measured in the browser, for gaze tracking during the exam (utils/headPose.ts)
+                const gaze = await calibrateGaze(videoRef.current).catch(error => {
+                  console.warn('⚠️ Gaze calibration failed:', error);
+                  return null;
+                });
                 sessionStorage.setItem('calibration', JSON.stringify({
                   pitch: calibration.pitch,
-                  yaw: calibration.yaw
+                  yaw: calibration.yaw,
+                  gaze
                 }));
                 toast.success('Proctoring system ready!');
               }
@@ -207,6 +377,37 @@ const StudentVerify = () => {
             setVerificationStarted(false);
             return; // Block exam start
           }
+
+          // Check 3: Face MUST match the one registered
+          setChecks(prev => ({ ...prev, identity: { status: 'checking', message: 'Comparing with your registered face...' } }));
+          const identity = await verifyFace(studentData.id, frameBase64);
+          console.log('Identity check result:', identity);
+          if (!identity.available) {
+            // Nothing to compare with (models not deployed or no usable registered image)
+            console.warn('⚠️ Identity check unavailable:', identity.message);
+            setChecks(prev => ({ ...prev, identity: { status: 'warning', message: 'Identity check unavailable' } }));
+          } else if (!identity.match) {
+            setChecks(prev => ({
+              ...prev,
+              identity: {
+                status: 'error',
+                message: identity.face_count === 1
+                  ? `Does not match your registered face (${formatSimilarity(identity.similarity)})`
+                  : identity.message,
+              }
+            }));
+            toast.error("Your face does not match the face you registered with. Face the camera in good light and try again.", {
+              duration: 6000
+            });
+            setVerificationStarted(false);
+            return; // Block exam start
+          } else {
+            setChecks(prev => ({
+              ...prev,
+              identity: { status: 'success', message: `Matches your registration (${formatSimilarity(identity.similarity)})` }
+            }));
+          }
+          setProgress(90);
           
         } catch (error) {
           console.error('Verification error:', error);
@@ -216,7 +417,8 @@ const StudentVerify = () => {
           // Show actual error - don't allow proceeding with bad setup
           setChecks(prev => ({ 
             ...prev, 
-            face: { status: 'error', message: 'Unable to verify - Service unavailable' }
+            face: { status: 'error', message: 'Unable to verify - Service unavailable' },
+            identity: prev.identity.status === 'checking' ? { status: 'error', message: 'Unable to verify' } : prev.identity
           }));
           
           setProgress(60);
@@ -225,6 +427,50 @@ const StudentVerify = () => {
         }
       }
 
+      // Step 4: Liveness - a photo or a recording can't follow a randomized challenge
+      setChecks(prev => ({ ...prev, liveness: { status: 'checking', message: 'Follow the instructions on the camera preview' } }));
+      try {
+        const liveness = await runLivenessChallenge(stream);
+        if (!liveness.passed) {
+          failedLivenessAttemptsRef.current += 1;
+          setChecks(prev => ({ ...prev, liveness: { status: 'error', message: liveness.message } }));
+          toast.error(`Liveness check failed - ${liveness.message}. Please try again.`, {
+            duration: 6000
+          });
+          setVerificationStarted(false);
+          return; // Block exam start
+        }
+        setChecks(prev => ({ ...prev, liveness: { status: 'success', message: 'Liveness confirmed' } }));
+        // Saved with the compatibility_checks record
+        const stored = await uploadLivenessEvidence(liveness);
+        sessionStorage.setItem('livenessCheck', JSON.stringify({
+          ...stored,
+          failedAttempts: failedLivenessAttemptsRef.current
+        }));
+      } catch (error) {
+        console.error('Liveness check error:', error);
+        setChecks(prev => ({ ...prev, liveness: { status: 'error', message: 'Unable to run liveness check' } }));
+        toast.error("Liveness check could not start. Please check your connection and try again.");
+        setVerificationStarted(false);
+        return; // Don't proceed to exam
+      }
+
+      // Step 5: Photo ID - card photo against the live face, card text against the registration
+      setChecks(prev => ({ ...prev, idCard: { status: 'checking', message: 'Hold the front of your ID card inside the frame' } }));
+      try {
+        const approved = await runIdCheck(liveFrame);
+        if (!approved) {
+          setVerificationStarted(false);
+          return; // Block exam start
+        }
+      } catch (error) {
+        console.error('ID check error:', error);
+        setChecks(prev => ({ ...prev, idCard: { status: 'error', message: 'Unable to check ID card' } }));
+        toast.error("ID card check failed. Please check your connection and try again.");
+        setVerificationStarted(false);
+        return; // Don't proceed to exam
+      }
+
       await new Promise(resolve => setTimeout(resolve, 500));
       setProgress(100);
 
@@ -263,7 +509,7 @@ const StudentVerify = () => {
           <Card>
             <CardContent className="p-6">
               <h2 className="text-xl font-bold mb-4">Camera Preview</h2>
-              <div className="aspect-video bg-muted rounded-lg overflow-hidden flex items-center justify-center">
+              <div className="relative aspect-video bg-muted rounded-lg overflow-hidden flex items-center justify-center">
                 {verificationStarted ? (
                   <video 
                     ref={videoRef} 
@@ -274,6 +520,48 @@ const StudentVerify = () => {
                 ) : (
                   <Camera className="w-16 h-16 text-muted-foreground" />
                 )}
+                {livenessPrompt && (
+                  <div className="absolute inset-x-0 bottom-0 bg-black/70 text-white p-3 text-center">
+                    <p className="text-xs opacity-80">
+                      {livenessPrompt.step ? `Step ${livenessPrompt.index + 1} of ${livenessPrompt.total}` : 'Get ready'}
+                    </p>
+                    <p className="text-lg font-semibold">
+                      {livenessPrompt.step ? stepPrompt(livenessPrompt.step) : 'Look straight at the camera'}
+                    </p>
+                    <p className="text-xs opacity-80">{Math.ceil(livenessPrompt.remainingMs / 1000)}s</p>
+                  </div>
+                )}
+                {idCardGuide && (() => {
+                  // Same slice scaling as the video's object-cover, so the guide sits where the crop is taken
+                  const guide = guideRect(idCardGuide.width, idCardGuide.height);
+                  return (
+                    <>
+                      <svg
+                        className="absolute inset-0 w-full h-full pointer-events-none"
+                        viewBox={`0 0 ${idCardGuide.width} ${idCardGuide.height}`}
+                        preserveAspectRatio="xMidYMid slice"
+                      >
+                        <rect
+                          x={guide.x}
+                          y={guide.y}
+                          width={guide.width}
+                          height={guide.height}
+                          rx={guide.width * 0.04}
+                          fill="none"
+                          stroke="white"
+                          strokeWidth={3}
+                          strokeDasharray="12 8"
+                        />
+                      </svg>
+                      <div className="absolute inset-x-0 bottom-0 bg-black/70 text-white p-3 flex items-center justify-between gap-3">
+                        <p className="text-sm">Hold the front of your ID card inside the frame, photo and name facing the camera</p>
+                        <Button size="sm" onClick={captureIdCard}>
+                          Capture ID
+                        </Button>
+                      </div>
+                    </>
+                  );
+                })()}
               </div>
             </CardContent>
           </Card>
@@ -309,6 +597,30 @@ const StudentVerify = () => {
                     <p className="text-sm text-muted-foreground">{checks.face.message}</p>
                   </div>
                 </div>
+
+                <div className="flex items-center gap-3">
+                  {getStatusIcon(checks.identity.status, ScanFace)}
+                  <div className="flex-1">
+                    <p className="font-semibold">Identity Match</p>
+                    <p className="text-sm text-muted-foreground">{checks.identity.message}</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  {getStatusIcon(checks.liveness.status, Activity)}
+                  <div className="flex-1">
+                    <p className="font-semibold">Liveness Check</p>
+                    <p className="text-sm text-muted-foreground">{checks.liveness.message}</p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3">
+                  {getStatusIcon(checks.idCard.status, IdCard)}
+                  <div className="flex-1">
+                    <p className="font-semibold">ID Card Check</p>
+                    <p className="text-sm text-muted-foreground">{checks.idCard.message}</p>
+                  </div>
+                </div>
               </div>
 
               {!verificationStarted && (
@@ -338,6 +650,18 @@ const StudentVerify = () => {
                 <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
                 No other person should be visible
               </li>
+              <li className="flex items-center gap-2 text-sm">
+                <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
+                Your face is compared with the photo taken at registration
+              </li>
+              <li className="flex items-center gap-2 text-sm">
+                <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
+                Follow the on-screen steps: turn your head, blink and read a number aloud
+              </li>
+              <li className="flex items-center gap-2 text-sm">
+                <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
+                Have your student ID card ready to show to the camera
+              </li>
               <li className="flex items-center gap-2 text-sm">
                 <span className="w-1.5 h-1.5 rounded-full bg-primary"></span>
                 Make some sound to verify audio detection
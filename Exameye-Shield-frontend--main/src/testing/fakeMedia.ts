@@ -0,0 +1,209 @@
+// Fake camera, microphone and screen share for end-to-end runs on machines without devices.
+//
+// The camera is a canvas: either a synthetic scene (a lit background with zero, one or two
+// cartoon faces, moving slightly so frames differ) or a recorded clip drawn onto it in a loop.
+// The microphone is looped white noise at a settable level, broadband so the analyser-based
+// level meters on the pages read it the way they read a voice. Screen share is a second canvas
+// reporting the displaySurface tests ask for.
+//
+// Every getUserMedia call gets clones of the source tracks, so a page stopping its tracks
+// doesn't starve the next page. Headless Chrome needs --autoplay-policy=no-user-gesture-required
+// for the audio to start without a click.
+
+export type FakeScene = 'face' | 'no_face' | 'two_faces' | 'dark';
+export type FakeDisplaySurface = 'monitor' | 'window' | 'browser';
+
+export interface FakeMediaOptions {
+  // Video to loop instead of the synthetic scene; same-origin or CORS-enabled
+  clipUrl?: string;
+  width?: number;
+  height?: number;
+  fps?: number;
+  // Noise gain, 0-1
+  audioLevel?: number;
+}
+
+const drawFace = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number) => {
+  ctx.fillStyle = '#e0ac69';
+  ctx.beginPath();
+  ctx.ellipse(x, y, size * 0.75, size, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#2b2b2b';
+  [-1, 1].forEach(side => {
+    ctx.beginPath();
+    ctx.arc(x + side * size * 0.3, y - size * 0.2, size * 0.09, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.strokeStyle = '#8b3a3a';
+  ctx.lineWidth = Math.max(2, size * 0.05);
+  ctx.beginPath();
+  ctx.arc(x, y + size * 0.3, size * 0.3, 0.15 * Math.PI, 0.85 * Math.PI);
+  ctx.stroke();
+};
+
+const mediaError = (name: string, message: string) => new DOMException(message, name);
+
+export class FakeMediaSource {
+  private width: number;
+  private height: number;
+  private fps: number;
+  private scene: FakeScene = 'face';
+  private audioLevel: number;
+  private permission: 'granted' | 'denied' = 'granted';
+  private displaySurface: FakeDisplaySurface = 'monitor';
+  private camera: HTMLCanvasElement;
+  private screen: HTMLCanvasElement;
+  private clip: HTMLVideoElement | null = null;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private cameraTrack: MediaStreamTrack | null = null;
+  private screenTrack: MediaStreamTrack | null = null;
+  private audio: { context: AudioContext; gain: GainNode; track: MediaStreamTrack } | null = null;
+
+  constructor(options: FakeMediaOptions = {}) {
+    this.width = options.width ?? 640;
+    this.height = options.height ?? 480;
+    this.fps = options.fps ?? 15;
+    this.audioLevel = options.audioLevel ?? 0.2;
+    this.camera = Object.assign(document.createElement('canvas'), { width: this.width, height: this.height });
+    this.screen = Object.assign(document.createElement('canvas'), { width: 1280, height: 720 });
+    if (options.clipUrl) this.setClip(options.clipUrl);
+  }
+
+  // Replaces the browser's device APIs with this source
+  install() {
+    const devices = navigator.mediaDevices ?? ({} as MediaDevices);
+    if (!navigator.mediaDevices) {
+      Object.defineProperty(navigator, 'mediaDevices', { value: devices, configurable: true });
+    }
+    devices.getUserMedia = constraints => this.getUserMedia(constraints);
+    devices.getDisplayMedia = constraints => this.getDisplayMedia(constraints);
+    devices.enumerateDevices = async () => this.devices();
+    console.log('🧪 Fake camera, microphone and screen share installed');
+  }
+
+  setScene(scene: FakeScene) {
+    this.scene = scene;
+  }
+
+  // Null goes back to the synthetic scene
+  setClip(url: string | null) {
+    this.clip?.pause();
+    this.clip = null;
+    if (!url) return;
+    const clip = document.createElement('video');
+    Object.assign(clip, { src: url, muted: true, loop: true, playsInline: true, crossOrigin: 'anonymous' });
+    clip.play().catch(error => console.warn('⚠️ Fake camera clip did not start:', error));
+    this.clip = clip;
+  }
+
+  setAudioLevel(level: number) {
+    this.audioLevel = Math.min(1, Math.max(0, level));
+    this.audio?.gain.gain.setValueAtTime(this.audioLevel, this.audio.context.currentTime);
+  }
+
+  // Denied makes every request fail with NotAllowedError, like a blocked permission prompt
+  setPermission(permission: 'granted' | 'denied') {
+    this.permission = permission;
+  }
+
+  setDisplaySurface(surface: FakeDisplaySurface) {
+    this.displaySurface = surface;
+  }
+
+  async getUserMedia(constraints: MediaStreamConstraints = {}): Promise<MediaStream> {
+    if (this.permission === 'denied') {
+      throw mediaError('NotAllowedError', 'Permission denied');
+    }
+    if (!constraints.video && !constraints.audio) {
+      throw new TypeError('At least one of audio and video must be requested');
+    }
+    const tracks: MediaStreamTrack[] = [];
+    if (constraints.video) tracks.push(this.liveCameraTrack().clone());
+    if (constraints.audio) tracks.push(this.liveAudioTrack().clone());
+    return new MediaStream(tracks);
+  }
+
+  async getDisplayMedia(_constraints: DisplayMediaStreamOptions = {}): Promise<MediaStream> {
+    if (this.permission === 'denied') {
+      throw mediaError('NotAllowedError', 'Permission denied');
+    }
+    if (!this.screenTrack || this.screenTrack.readyState === 'ended') {
+      this.screenTrack = this.screen.captureStream(1).getVideoTracks()[0];
+    }
+    this.startDrawing();
+    const track = this.screenTrack.clone();
+    const getSettings = track.getSettings.bind(track);
+    const displaySurface = this.displaySurface;
+    track.getSettings = () => ({ ...getSettings(), displaySurface });
+    return new MediaStream([track]);
+  }
+
+  private devices(): MediaDeviceInfo[] {
+    const device = (kind: MediaDeviceKind, label: string) =>
+      ({ deviceId: `fake-${kind}`, groupId: 'fake', kind, label, toJSON: () => ({}) }) as MediaDeviceInfo;
+    return [device('videoinput', 'Fake camera'), device('audioinput', 'Fake microphone')];
+  }
+
+  private liveCameraTrack(): MediaStreamTrack {
+    if (!this.cameraTrack || this.cameraTrack.readyState === 'ended') {
+      this.cameraTrack = this.camera.captureStream(this.fps).getVideoTracks()[0];
+    }
+    this.startDrawing();
+    return this.cameraTrack;
+  }
+
+  private startDrawing() {
+    if (this.drawTimer) return;
+    this.draw();
+    this.drawTimer = setInterval(() => this.draw(), 1000 / this.fps);
+  }
+
+  private liveAudioTrack(): MediaStreamTrack {
+    if (!this.audio || this.audio.track.readyState === 'ended') {
+      const context = new AudioContext();
+      const noise = context.createBuffer(1, context.sampleRate * 2, context.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+      const source = context.createBufferSource();
+      source.buffer = noise;
+      source.loop = true;
+      const gain = context.createGain();
+      gain.gain.value = this.audioLevel;
+      const destination = context.createMediaStreamDestination();
+      source.connect(gain).connect(destination);
+      source.start();
+      context.resume().catch(() => undefined);
+      this.audio = { context, gain, track: destination.stream.getAudioTracks()[0] };
+    }
+    return this.audio.track;
+  }
+
+  private draw() {
+    const ctx = this.camera.getContext('2d');
+    if (!ctx) return;
+    const { width, height } = this.camera;
+
+    if (this.clip && this.clip.readyState >= 2) {
+      ctx.drawImage(this.clip, 0, 0, width, height);
+    } else {
+      ctx.fillStyle = this.scene === 'dark' ? '#050505' : '#c9d6df';
+      ctx.fillRect(0, 0, width, height);
+      const sway = Math.sin(Date.now() / 700) * width * 0.01;
+      if (this.scene === 'face') drawFace(ctx, width / 2 + sway, height / 2, height * 0.28);
+      if (this.scene === 'two_faces') {
+        drawFace(ctx, width * 0.3 + sway, height / 2, height * 0.22);
+        drawFace(ctx, width * 0.7 - sway, height / 2, height * 0.22);
+      }
+    }
+
+    const screen = this.screen.getContext('2d');
+    if (screen) {
+      screen.fillStyle = '#ffffff';
+      screen.fillRect(0, 0, this.screen.width, this.screen.height);
+      screen.fillStyle = '#333333';
+      screen.font = '32px sans-serif';
+      screen.fillText(`Fake screen ${new Date().toISOString()}`, 40, 80);
+    }
+  }
+}
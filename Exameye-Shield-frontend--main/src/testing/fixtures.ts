@@ -0,0 +1,72 @@
+import type { MemorySupabase } from '@/testing/memorySupabase';
+
+// Data the in-memory database starts with: one current template with a short paper of every
+// auto-graded kind plus a free-text question, enough to register and sit a whole exam.
+
+export const E2E_SUBJECT_CODE = 'E2E101';
+export const E2E_TEMPLATE_ID = '00000000-0000-4000-8000-00000000e2e1';
+
+export const seedFixtures = (db: MemorySupabase) => {
+  db.seed('exam_templates', [
+    {
+      id: E2E_TEMPLATE_ID,
+      template_name: 'End-to-end test paper',
+      template_group_id: E2E_TEMPLATE_ID,
+      subject_code: E2E_SUBJECT_CODE,
+      subject_name: 'End-to-End Testing',
+      description: null,
+      duration_minutes: 10,
+      grade_scale: null,
+      draw_count: null,
+      shuffle_questions: false,
+      shuffle_options: false,
+      is_current: true,
+      version: 1,
+      parent_template_id: null,
+      total_questions: 3,
+      created_by: null,
+    },
+  ]);
+
+  db.seed('exam_questions', [
+    {
+      exam_template_id: E2E_TEMPLATE_ID,
+      question_number: 1,
+      question_type: 'mcq',
+      question_text: 'Which protocol does the proctoring socket speak first?',
+      options: { a: 'ping', b: 'hello', c: 'frame', d: 'context' },
+      correct_answer: 'b',
+      points: 1,
+      config: null,
+      rubric: null,
+      bank_question_id: null,
+      bank_version: null,
+    },
+    {
+      exam_template_id: E2E_TEMPLATE_ID,
+      question_number: 2,
+      question_type: 'true_false',
+      question_text: 'Binary frames carry the student details in their header.',
+      options: null,
+      correct_answer: 'false',
+      points: 1,
+      config: null,
+      rubric: null,
+      bank_question_id: null,
+      bank_version: null,
+    },
+    {
+      exam_template_id: E2E_TEMPLATE_ID,
+      question_number: 3,
+      question_type: 'short_answer',
+      question_text: 'Describe what happens to a tab switch while the connection is down.',
+      options: null,
+      correct_answer: null,
+      points: 2,
+      config: null,
+      rubric: null,
+      bank_question_id: null,
+      bank_version: null,
+    },
+  ]);
+};
@@ -0,0 +1,27 @@
+import { FakeMediaSource } from '@/testing/fakeMedia';
+import { memorySupabase } from '@/testing/memorySupabase';
+
+// Loaded ahead of the app on every page in e2e runs (see e2e/harnessPlugin.ts). Swaps in the fake
+// devices before any page asks for them and hands the controls to whatever drives the browser:
+//
+//   window.__examHarness.media.setScene('two_faces')
+//   window.__examHarness.db.rows('violations')
+//   fetch(`${window.__examHarness.proctoringControl}/sessions`)
+
+const media = new FakeMediaSource({ clipUrl: import.meta.env.VITE_E2E_MEDIA_CLIP || undefined });
+media.install();
+
+const harness = {
+  media,
+  db: memorySupabase,
+  // Control API of the mock proctoring server; see e2e/mockProctoringServer.ts
+  proctoringControl: '/__mock/proctoring',
+};
+
+declare global {
+  interface Window {
+    __examHarness?: typeof harness;
+  }
+}
+
+window.__examHarness = harness;
@@ -0,0 +1,481 @@
+import { seedFixtures } from '@/testing/fixtures';
+
+// In-memory stand-in for the Supabase client in end-to-end runs, covering the part of the
+// supabase-js API the student pages use: from(table) with select / insert / update / upsert /
+// delete, the eq-style filters, order, limit, range, single and maybeSingle; rpc with
+// registered handlers; storage uploads (kept as object URLs); and realtime channels that
+// subscribe but never fire. Embedded selects (`students(name)`) and or/not filters are not
+// supported and come back as errors, so a page that starts using them fails loudly.
+//
+// Tables are saved to sessionStorage after every write so a full page reload keeps the data,
+// like the real database would. Uploaded files are not.
+
+export type MemoryRow = Record<string, unknown>;
+
+export interface MemoryError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+export interface MemoryResult {
+  data: unknown;
+  error: MemoryError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+type RpcHandler = (args: Record<string, unknown>) => unknown;
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+const STORAGE_KEY = 'exameye-e2e-memory-db';
+
+const memoryError = (message: string, code = 'MEMORY'): MemoryError => ({ message, code, details: null, hint: null });
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// Column defaults the database would fill in, beyond id and created_at
+const COLUMN_DEFAULTS: Record<string, () => MemoryRow> = {
+  exams: () => ({
+    status: 'not_started',
+    started_at: null,
+    completed_at: null,
+    shuffle_seed: crypto.randomUUID(),
+    time_extension_minutes: 0,
+    graded: false,
+  }),
+  students: () => ({ face_image_url: null, registered_at: new Date().toISOString() }),
+  exam_active_sessions: () => ({ is_active: true, last_heartbeat: new Date().toISOString() }),
+  exam_answers: () => ({ flagged: false, updated_at: new Date().toISOString() }),
+  violations: () => ({ severity: 'low', timestamp: new Date().toISOString() }),
+  id_verifications: () => ({ status: 'pending_review', reviewed_by: null, reviewed_at: null, review_note: null }),
+};
+
+const compare = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+};
+
+const containsValue = (actual: unknown, expected: unknown): boolean => {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.every(item => actual.some(value => containsValue(value, item)));
+  }
+  if (expected && typeof expected === 'object') {
+    return (
+      !!actual &&
+      typeof actual === 'object' &&
+      Object.entries(expected).every(([key, value]) => containsValue((actual as MemoryRow)[key], value))
+    );
+  }
+  return actual === expected;
+};
+
+// "(a,b,c)" from filter(column, 'in', ...) into its values
+const parseInList = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : String(value).replace(/^\(|\)$/g, '').split(',').map(item => item.trim());
+
+export class MemoryQuery implements PromiseLike<MemoryResult> {
+  private operation: Operation = 'select';
+  private columns: string | null = null;
+  private returning = false;
+  private countRows = false;
+  private headOnly = false;
+  private values: MemoryRow[] = [];
+  private conflictColumns = ['id'];
+  private ignoreDuplicates = false;
+  private filters: ((row: MemoryRow) => boolean)[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private rowLimit: number | null = null;
+  private rowOffset = 0;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+  private unsupported: string | null = null;
+
+  constructor(private db: MemorySupabase, private table: string) {}
+
+  select(columns = '*', options: { count?: 'exact' | 'planned' | 'estimated'; head?: boolean } = {}) {
+    if (this.operation === 'select') {
+      this.countRows = !!options.count;
+      this.headOnly = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: MemoryRow | MemoryRow[]) {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: MemoryRow | MemoryRow[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    if (options.onConflict) this.conflictColumns = options.onConflict.split(',').map(column => column.trim());
+    this.ignoreDuplicates = !!options.ignoreDuplicates;
+    return this;
+  }
+
+  update(values: MemoryRow) {
+    this.operation = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(row => row[column] === value);
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(row => row[column] !== value);
+  }
+
+  gt(column: string, value: unknown) {
+    return this.where(row => row[column] !== null && row[column] !== undefined && compare(row[column], value) > 0);
+  }
+
+  gte(column: string, value: unknown) {
+    return this.where(row => row[column] !== null && row[column] !== undefined && compare(row[column], value) >= 0);
+  }
+
+  lt(column: string, value: unknown) {
+    return this.where(row => row[column] !== null && row[column] !== undefined && compare(row[column], value) < 0);
+  }
+
+  lte(column: string, value: unknown) {
+    return this.where(row => row[column] !== null && row[column] !== undefined && compare(row[column], value) <= 0);
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(row => values.includes(row[column]));
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.where(row => (row[column] ?? null) === value);
+  }
+
+  contains(column: string, value: unknown) {
+    return this.where(row => containsValue(row[column], value));
+  }
+
+  match(query: MemoryRow) {
+    return this.where(row => Object.entries(query).every(([column, value]) => row[column] === value));
+  }
+
+  filter(column: string, operator: string, value: unknown) {
+    switch (operator) {
+      case 'eq': return this.eq(column, value);
+      case 'neq': return this.neq(column, value);
+      case 'gt': return this.gt(column, value);
+      case 'gte': return this.gte(column, value);
+      case 'lt': return this.lt(column, value);
+      case 'lte': return this.lte(column, value);
+      case 'in': return this.in(column, parseInList(value));
+      case 'is': return this.is(column, value === 'null' ? null : (value as null | boolean));
+      default:
+        this.unsupported = `filter operator "${operator}"`;
+        return this;
+    }
+  }
+
+  or(_filters: string) {
+    this.unsupported = 'or() filters';
+    return this;
+  }
+
+  not(_column: string, _operator: string, _value: unknown) {
+    this.unsupported = 'not() filters';
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rowOffset = from;
+    this.rowLimit = to - from + 1;
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = MemoryResult, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    // Resolve asynchronously, like a network round trip
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private where(predicate: (row: MemoryRow) => boolean) {
+    this.filters.push(predicate);
+    return this;
+  }
+
+  private project(rows: MemoryRow[]): MemoryRow[] | MemoryError {
+    const columns = (this.columns ?? '*').split(',').map(column => column.trim()).filter(Boolean);
+    if (columns.some(column => column.includes('('))) {
+      return memoryError(`Embedded selects are not supported by the in-memory database: ${this.columns}`);
+    }
+    if (columns.includes('*')) return rows.map(row => clone(row));
+    return rows.map(row => Object.fromEntries(columns.map(column => [column, clone(row[column] ?? null)])));
+  }
+
+  private execute(): MemoryResult {
+    const failure = this.unsupported
+      ? memoryError(`${this.unsupported} not supported by the in-memory database`)
+      : this.db.takeFailure(this.table, this.operation);
+    if (failure) {
+      return { data: null, error: failure, count: null, status: 400, statusText: 'Bad Request' };
+    }
+
+    let affected: MemoryRow[];
+    switch (this.operation) {
+      case 'insert':
+        affected = this.values.map(values => this.db.insertRow(this.table, values));
+        break;
+      case 'upsert':
+        affected = this.values
+          .map(values => this.db.upsertRow(this.table, values, this.conflictColumns, this.ignoreDuplicates))
+          .filter((row): row is MemoryRow => row !== null);
+        break;
+      case 'update':
+        affected = this.db.updateRows(this.table, row => this.filters.every(filter => filter(row)), this.values[0]);
+        break;
+      case 'delete':
+        affected = this.db.deleteRows(this.table, row => this.filters.every(filter => filter(row)));
+        break;
+      default:
+        affected = this.db.rows(this.table).filter(row => this.filters.every(filter => filter(row)));
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null, count: null, status: this.operation === 'insert' ? 201 : 204, statusText: 'OK' };
+    }
+
+    const ordered = [...affected].sort((a, b) => {
+      for (const { column, ascending } of this.orders) {
+        const result = compare(a[column], b[column]);
+        if (result !== 0) return ascending ? result : -result;
+      }
+      return 0;
+    });
+    const page = ordered.slice(this.rowOffset, this.rowLimit === null ? undefined : this.rowOffset + this.rowLimit);
+    const projected = this.project(page);
+    if (!Array.isArray(projected)) {
+      return { data: null, error: projected, count: null, status: 400, statusText: 'Bad Request' };
+    }
+    const count = this.countRows ? ordered.length : null;
+
+    if (this.singleMode) {
+      if (projected.length > 1 || (projected.length === 0 && this.singleMode === 'single')) {
+        return {
+          data: null,
+          error: memoryError(`JSON object requested, multiple (or no) rows returned (${projected.length} rows)`, 'PGRST116'),
+          count,
+          status: 406,
+          statusText: 'Not Acceptable',
+        };
+      }
+      return { data: projected[0] ?? null, error: null, count, status: 200, statusText: 'OK' };
+    }
+    return { data: this.headOnly ? null : projected, error: null, count, status: 200, statusText: 'OK' };
+  }
+}
+
+class MemoryChannel {
+  constructor(public topic: string) {}
+
+  on(..._args: unknown[]) {
+    return this;
+  }
+
+  subscribe(callback?: (status: string) => void) {
+    setTimeout(() => callback?.('SUBSCRIBED'), 0);
+    return this;
+  }
+
+  async unsubscribe() {
+    return 'ok';
+  }
+}
+
+export class MemorySupabase {
+  private tables: Record<string, MemoryRow[]> = {};
+  private rpcHandlers = new Map<string, RpcHandler>();
+  private files = new Map<string, string>();
+  private failures: { table: string; operation: Operation | '*'; message: string }[] = [];
+
+  constructor() {
+    this.registerDefaultRpcs();
+    if (!this.load()) {
+      seedFixtures(this);
+    }
+  }
+
+  // The object the app gets instead of the supabase-js client
+  client() {
+    return {
+      from: (table: string) => new MemoryQuery(this, table),
+      rpc: async (name: string, args: Record<string, unknown> = {}) => {
+        const handler = this.rpcHandlers.get(name);
+        if (!handler) {
+          return { data: null, error: memoryError(`No in-memory handler for rpc ${name}`, 'PGRST202') };
+        }
+        return { data: clone(handler(args)), error: null };
+      },
+      storage: {
+        from: (bucket: string) => ({
+          upload: async (path: string, file: Blob, _options?: unknown) => {
+            const key = `${bucket}/${path}`;
+            if (this.files.has(key)) {
+              return { data: null, error: memoryError('The resource already exists', 'Duplicate') };
+            }
+            this.files.set(key, URL.createObjectURL(file));
+            return { data: { path, id: key, fullPath: key }, error: null };
+          },
+          getPublicUrl: (path: string) => ({
+            data: { publicUrl: this.files.get(`${bucket}/${path}`) ?? `memory://${bucket}/${path}` },
+          }),
+        }),
+      },
+      channel: (topic: string) => new MemoryChannel(topic),
+      removeChannel: async (_channel: MemoryChannel) => 'ok',
+      removeAllChannels: async () => [],
+    };
+  }
+
+  rows(table: string): MemoryRow[] {
+    return this.tables[table] ?? [];
+  }
+
+  seed(table: string, rows: MemoryRow[]) {
+    rows.forEach(row => this.insertRow(table, row));
+  }
+
+  // Empties every table; fixtures are seeded again unless empty is true
+  reset(empty = false) {
+    this.tables = {};
+    this.failures = [];
+    if (!empty) seedFixtures(this);
+    this.save();
+  }
+
+  setRpc(name: string, handler: RpcHandler) {
+    this.rpcHandlers.set(name, handler);
+  }
+
+  // The next matching query on the table fails with this message, to exercise error paths
+  failNext(table: string, operation: Operation | '*' = '*', message = 'Simulated database failure') {
+    this.failures.push({ table, operation, message });
+  }
+
+  takeFailure(table: string, operation: Operation): MemoryError | null {
+    const index = this.failures.findIndex(
+      failure => failure.table === table && (failure.operation === '*' || failure.operation === operation)
+    );
+    if (index === -1) return null;
+    const [failure] = this.failures.splice(index, 1);
+    return memoryError(failure.message);
+  }
+
+  insertRow(table: string, values: MemoryRow): MemoryRow {
+    const row: MemoryRow = {
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      ...(COLUMN_DEFAULTS[table]?.() ?? {}),
+      ...clone(values),
+    };
+    this.tables[table] = [...this.rows(table), row];
+    this.save();
+    return row;
+  }
+
+  // Null when the row exists and duplicates are ignored
+  upsertRow(table: string, values: MemoryRow, conflictColumns: string[], ignoreDuplicates: boolean): MemoryRow | null {
+    const existing = this.rows(table).find(row => conflictColumns.every(column => row[column] === values[column]));
+    if (!existing) return this.insertRow(table, values);
+    if (ignoreDuplicates) return null;
+    return this.updateRows(table, row => row === existing, values)[0];
+  }
+
+  updateRows(table: string, predicate: (row: MemoryRow) => boolean, values: MemoryRow): MemoryRow[] {
+    const updated: MemoryRow[] = [];
+    this.tables[table] = this.rows(table).map(row => {
+      if (!predicate(row)) return row;
+      const next = { ...row, ...clone(values) };
+      updated.push(next);
+      return next;
+    });
+    this.save();
+    return updated;
+  }
+
+  deleteRows(table: string, predicate: (row: MemoryRow) => boolean): MemoryRow[] {
+    const deleted = this.rows(table).filter(predicate);
+    this.tables[table] = this.rows(table).filter(row => !predicate(row));
+    this.save();
+    return deleted;
+  }
+
+  private registerDefaultRpcs() {
+    this.setRpc('get_server_time', () => new Date().toISOString());
+    this.setRpc('template_in_use', () => false);
+    this.setRpc('extend_exam_time', ({ p_exam_id, p_minutes }) => {
+      const exam = this.rows('exams').find(row => row.id === p_exam_id);
+      if (!exam) return null;
+      const total = Number(exam.time_extension_minutes || 0) + Number(p_minutes);
+      this.updateRows('exams', row => row === exam, { time_extension_minutes: total });
+      return total;
+    });
+  }
+
+  private load(): boolean {
+    try {
+      const saved = sessionStorage.getItem(STORAGE_KEY);
+      if (!saved) return false;
+      this.tables = JSON.parse(saved);
+      return true;
+    } catch (error) {
+      console.warn('⚠️ Could not restore the in-memory database:', error);
+      return false;
+    }
+  }
+
+  private save() {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(this.tables));
+    } catch (error) {
+      console.warn('⚠️ Could not save the in-memory database:', error);
+    }
+  }
+}
+
+export const memorySupabase = new MemorySupabase();
@@ -0,0 +1,8 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { memorySupabase } from '@/testing/memorySupabase';
+
+// Takes the place of @/integrations/supabase/client in e2e runs (see e2e/harnessPlugin.ts).
+// Typed as the real client so the pages compile unchanged; only the subset described in
+// memorySupabase.ts works.
+export const supabase = memorySupabase.client() as unknown as SupabaseClient<Database>;
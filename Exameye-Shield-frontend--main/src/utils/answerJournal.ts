@@ -0,0 +1,133 @@
+// Local IndexedDB journal of exam answers so a crash or reload never loses work.
+// Every answer change is written here first; the autosave hook then syncs it to exam_answers.
+
+export type AnswerSyncStatus = 'saved' | 'pending' | 'conflict';
+
+export interface JournaledAnswer {
+  key: string;
+  examId: string;
+  studentId: string;
+  questionNumber: number;
+  answer: string;
+  flagged: boolean;
+  updatedAt: string;
+  status: AnswerSyncStatus;
+}
+
+const DB_NAME = 'exameye-answer-journal';
+const DB_VERSION = 1;
+const STORE_NAME = 'answers';
+const EXAM_INDEX = 'by_exam_student';
+
+export const journalKey = (examId: string, studentId: string, questionNumber: number) =>
+  `${examId}:${studentId}:${questionNumber}`;
+
+export class AnswerJournal {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Fallback when IndexedDB is unavailable (private mode, old browsers)
+  private memoryStore = new Map<string, JournaledAnswer>();
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('⚠️ IndexedDB not available, answer journal kept in memory only');
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex(EXAM_INDEX, ['examId', 'studentId']);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('❌ Failed to open answer journal:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  async put(entry: JournaledAnswer): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memoryStore.set(entry.key, entry);
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async markStatus(key: string, status: AnswerSyncStatus, expectedUpdatedAt?: string): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      const entry = this.memoryStore.get(key);
+      if (entry && (!expectedUpdatedAt || entry.updatedAt === expectedUpdatedAt)) {
+        this.memoryStore.set(key, { ...entry, status });
+      }
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const request = store.get(key);
+      request.onsuccess = () => {
+        const entry = request.result as JournaledAnswer | undefined;
+        // Only update the version we synced; a newer edit may have landed meanwhile
+        if (entry && (!expectedUpdatedAt || entry.updatedAt === expectedUpdatedAt)) {
+          store.put({ ...entry, status });
+        }
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getAll(examId: string, studentId: string): Promise<JournaledAnswer[]> {
+    const db = await this.open();
+    if (!db) {
+      return Array.from(this.memoryStore.values()).filter(
+        (entry) => entry.examId === examId && entry.studentId === studentId
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const request = tx.objectStore(STORE_NAME).index(EXAM_INDEX).getAll([examId, studentId]);
+      request.onsuccess = () => resolve((request.result as JournaledAnswer[]) || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clear(examId: string, studentId: string): Promise<void> {
+    const entries = await this.getAll(examId, studentId);
+    const db = await this.open();
+    if (!db) {
+      entries.forEach((entry) => this.memoryStore.delete(entry.key));
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      entries.forEach((entry) => store.delete(entry.key));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+}
+
+export const answerJournal = new AnswerJournal();
@@ -0,0 +1,130 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Audio clips kept as evidence for speech_detected / multiple_voices violations. A clip of the
+// exam room is more sensitive than a snapshot, so it is never stored in the clear: each clip is
+// encrypted in the browser with a fresh AES-256-GCM key, and that key is wrapped with the
+// examiners' RSA-OAEP public key (VITE_EVIDENCE_PUBLIC_KEY, SPKI PEM). Only the holder of the
+// matching private key can listen to it; the student's browser can't even read its own clips
+// back. Without a public key configured, clips are not uploaded at all.
+
+export const EVIDENCE_ALGORITHM = 'RSA-OAEP-256+AES-256-GCM';
+
+// What goes into violations.details.audio_clip
+export interface AudioEvidence {
+  url: string;
+  algorithm: typeof EVIDENCE_ALGORITHM;
+  // Base64 AES key wrapped with the public key, and the GCM nonce
+  wrapped_key: string;
+  iv: string;
+  mime_type: string;
+  duration_ms: number;
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  view.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+// DER bytes of a PEM key, or of bare base64
+const pemBody = (pem: string) => fromBase64(pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, ''));
+
+const RSA_OAEP = { name: 'RSA-OAEP', hash: 'SHA-256' };
+
+let publicKeyPromise: Promise<CryptoKey | null> | null = null;
+
+const evidencePublicKey = (): Promise<CryptoKey | null> => {
+  if (!publicKeyPromise) {
+    const pem = import.meta.env.VITE_EVIDENCE_PUBLIC_KEY;
+    publicKeyPromise = pem
+      ? crypto.subtle.importKey('spki', pemBody(pem), RSA_OAEP, false, ['wrapKey']).catch(error => {
+          console.error('❌ VITE_EVIDENCE_PUBLIC_KEY is not a valid RSA public key:', error);
+          return null;
+        })
+      : Promise.resolve(null);
+  }
+  return publicKeyPromise;
+};
+
+export const encryptClip = async (clip: Blob, publicKey: CryptoKey) => {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await clip.arrayBuffer());
+  const wrappedKey = await crypto.subtle.wrapKey('raw', key, publicKey, RSA_OAEP);
+  return { ciphertext, iv: toBase64(iv), wrappedKey: toBase64(wrappedKey) };
+};
+
+// Encrypts and uploads a clip next to the violation snapshots; null when there is no public key
+// or the upload failed, in which case the violation is reported without a clip
+export const uploadAudioEvidence = async (
+  clip: Blob,
+  durationMs: number,
+  { examId, studentName, violationType }: { examId: string; studentName: string; violationType: string }
+): Promise<AudioEvidence | null> => {
+  const publicKey = await evidencePublicKey();
+  if (!publicKey) {
+    console.warn('⚠️ No VITE_EVIDENCE_PUBLIC_KEY configured - audio evidence is not uploaded');
+    return null;
+  }
+
+  try {
+    const { ciphertext, iv, wrappedKey } = await encryptClip(clip, publicKey);
+    const sanitizedName = studentName.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9_-]/g, '');
+    const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
+    const fileName = `${sanitizedName}/${examId}/${violationType}_${timestamp}.audio.enc`;
+
+    const { error } = await supabase.storage
+      .from('violation-evidence')
+      .upload(fileName, new Blob([ciphertext]), {
+        contentType: 'application/octet-stream',
+        upsert: false
+      });
+    if (error) throw error;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('violation-evidence')
+      .getPublicUrl(fileName);
+
+    return {
+      url: publicUrl,
+      algorithm: EVIDENCE_ALGORITHM,
+      wrapped_key: wrappedKey,
+      iv,
+      mime_type: clip.type || 'audio/webm',
+      duration_ms: durationMs,
+    };
+  } catch (error) {
+    console.error('❌ Audio evidence upload failed:', error);
+    return null;
+  }
+};
+
+// PKCS#8 PEM private key ("BEGIN PRIVATE KEY"), as written by `openssl genpkey`
+export const importEvidencePrivateKey = (pem: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('pkcs8', pemBody(pem), RSA_OAEP, false, ['unwrapKey']);
+
+// The clip as a playable Blob
+export const decryptAudioEvidence = async (evidence: AudioEvidence, privateKey: CryptoKey): Promise<Blob> => {
+  const response = await fetch(evidence.url);
+  if (!response.ok) throw new Error(`Failed to download audio evidence (${response.status})`);
+  const key = await crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(evidence.wrapped_key),
+    privateKey,
+    RSA_OAEP,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['decrypt']
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(evidence.iv) },
+    key,
+    await response.arrayBuffer()
+  );
+  return new Blob([plaintext], { type: evidence.mime_type });
+};
@@ -0,0 +1,110 @@
+import { seededShuffle } from '@/utils/seededShuffle';
+import { getChoiceOptions, getQuestionType, optionKey, type QuestionDefinition } from '@/utils/questionTypes';
+
+// Builds the paper a student sees from the template's questions: an optional random draw
+// from the pool, optional question shuffling and optional MCQ option shuffling.
+// Everything is derived from exams.shuffle_seed, so a resumed exam, the grader and the
+// report all rebuild exactly the same paper. Answers are always stored with the canonical
+// question_number and option keys; only the labels shown to the student change.
+
+export interface PaperSettings {
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  // Number of questions drawn from the pool; null = every question
+  drawCount: number | null;
+}
+
+export interface DisplayedOption {
+  // Canonical option key, as stored in answers and correct_answer
+  key: string;
+  // Label shown to the student (a, b, c ... in displayed order)
+  label: string;
+  text: string;
+}
+
+export interface PaperQuestion extends QuestionDefinition {
+  question_number: number;
+}
+
+export interface ExamPaper<Q extends PaperQuestion> {
+  questions: Q[];
+  // Canonical option keys in the order shown, per question_number (shuffled questions only)
+  optionOrders: Record<number, string[]>;
+}
+
+// Settings columns on exam_templates
+export interface PaperSettingsRow {
+  shuffle_questions?: boolean | null;
+  shuffle_options?: boolean | null;
+  draw_count?: number | null;
+}
+
+export const getPaperSettings = (template?: PaperSettingsRow | null): PaperSettings => ({
+  shuffleQuestions: !!template?.shuffle_questions,
+  shuffleOptions: !!template?.shuffle_options,
+  drawCount: template?.draw_count && template.draw_count > 0 ? template.draw_count : null,
+});
+
+const SHUFFLABLE_OPTION_TYPES = ['mcq', 'multi_select'];
+
+export const buildExamPaper = <Q extends PaperQuestion>(
+  questions: Q[],
+  settings: PaperSettings,
+  seed?: string | null
+): ExamPaper<Q> => {
+  let paper = [...questions].sort((a, b) => a.question_number - b.question_number);
+
+  // Without a seed the paper can't be reproduced, so fall back to the full ordered template
+  if (!seed) return { questions: paper, optionOrders: {} };
+
+  if (settings.drawCount !== null && settings.drawCount < paper.length) {
+    const drawn = new Set(
+      seededShuffle(paper.map(q => q.question_number), `${seed}:draw`).slice(0, settings.drawCount)
+    );
+    paper = paper.filter(q => drawn.has(q.question_number));
+  }
+
+  if (settings.shuffleQuestions) {
+    paper = seededShuffle(paper, `${seed}:order`);
+  }
+
+  const optionOrders: Record<number, string[]> = {};
+  if (settings.shuffleOptions) {
+    paper.forEach(question => {
+      if (!SHUFFLABLE_OPTION_TYPES.includes(getQuestionType(question))) return;
+      const keys = getChoiceOptions(question).map(([key]) => key);
+      optionOrders[question.question_number] = seededShuffle(keys, `${seed}:options:${question.question_number}`);
+    });
+  }
+
+  return { questions: paper, optionOrders };
+};
+
+// Questions on the paper, in canonical question_number order (for grading and reports)
+export const getPaperQuestions = <Q extends PaperQuestion>(
+  questions: Q[],
+  template?: PaperSettingsRow | null,
+  seed?: string | null
+): Q[] =>
+  buildExamPaper(questions, getPaperSettings(template), seed).questions
+    .sort((a, b) => a.question_number - b.question_number);
+
+// Choice options in the order shown to the student, relabelled a, b, c ... by position
+export const getDisplayedOptions = (question: QuestionDefinition, optionOrder?: string[]): DisplayedOption[] => {
+  const options = getChoiceOptions(question);
+  if (!optionOrder || optionOrder.length === 0) {
+    return options.map(([key, text]) => ({ key, label: key, text }));
+  }
+
+  const textByKey = new Map(options);
+  // Keys added to the question after the paper was built go last, in canonical order
+  const ordered = [
+    ...optionOrder.filter(key => textByKey.has(key)),
+    ...options.map(([key]) => key).filter(key => !optionOrder.includes(key)),
+  ];
+  return ordered.map((key, index) => ({ key, label: optionKey(index), text: textByKey.get(key) || '' }));
+};
+
+// Maps canonical keys to the labels the student saw, e.g. for showing answers in reports
+export const getDisplayedLabels = (question: QuestionDefinition, optionOrder?: string[]): Record<string, string> =>
+  Object.fromEntries(getDisplayedOptions(question, optionOrder).map(option => [option.key, option.label]));
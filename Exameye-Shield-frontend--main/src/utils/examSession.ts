@@ -0,0 +1,65 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export type ExamEventType =
+  | 'exam_started'
+  | 'exam_resumed'
+  | 'session_takeover'
+  | 'time_extended'
+  | 'proctoring_connected'
+  | 'proctoring_gap_started'
+  | 'proctoring_gap'
+  | 'proctoring_health';
+
+// Offset (ms) to add to Date.now() to get the database clock.
+// Falls back to 0 (trust the local clock) if the server time cannot be fetched.
+export const getServerClockOffsetMs = async (): Promise<number> => {
+  try {
+    const requestedAt = Date.now();
+    const { data, error } = await supabase.rpc('get_server_time');
+    if (error || !data) throw error || new Error('No server time returned');
+    const receivedAt = Date.now();
+
+    // Assume the server read its clock halfway through the round trip
+    const localMidpoint = requestedAt + (receivedAt - requestedAt) / 2;
+    const offset = new Date(data).getTime() - localMidpoint;
+    console.log(`🕒 Server clock offset: ${Math.round(offset)}ms`);
+    return offset;
+  } catch (error) {
+    console.warn('⚠️ Could not read server time, using local clock:', error);
+    return 0;
+  }
+};
+
+// Deadline (epoch ms, server clock) for an exam started at startedAt
+export const computeExamDeadline = (
+  startedAt: string,
+  durationMinutes: number,
+  extensionMinutes = 0
+): number => {
+  return new Date(startedAt).getTime() + (durationMinutes + extensionMinutes) * 60 * 1000;
+};
+
+export const logExamEvent = async (
+  examId: string,
+  studentId: string,
+  eventType: ExamEventType,
+  details: { [key: string]: Json | undefined } = {}
+) => {
+  try {
+    const { error } = await supabase
+      .from('exam_events')
+      .insert({
+        exam_id: examId,
+        student_id: studentId,
+        event_type: eventType,
+        details,
+      });
+
+    if (error) throw error;
+    console.log(`📝 Exam event logged: ${eventType}`);
+  } catch (error) {
+    // Events are for admin visibility only - never block the exam on them
+    console.error('Error logging exam event:', error);
+  }
+};
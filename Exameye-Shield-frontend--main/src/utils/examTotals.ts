@@ -0,0 +1,107 @@
+import { supabase } from '@/integrations/supabase/client';
+import { gradeExam, parseGradeScale, type ExamGrade } from '@/utils/grading';
+import { getPaperQuestions } from '@/utils/examPaper';
+import { applyCorrectedKey } from '@/utils/templateVersions';
+
+// The exam's own template questions, with the corrected answer key of a later version
+// applied when the exam was regraded against it (exams.graded_template_id)
+export const loadGradingQuestions = async (templateId: string, gradedTemplateId?: string | null) => {
+  const [questionsResponse, correctedResponse] = await Promise.all([
+    supabase.from('exam_questions').select('*').eq('exam_template_id', templateId).order('question_number'),
+    gradedTemplateId && gradedTemplateId !== templateId
+      ? supabase.from('exam_questions').select('*').eq('exam_template_id', gradedTemplateId)
+      : Promise.resolve(null),
+  ]);
+
+  if (questionsResponse.error) throw questionsResponse.error;
+  if (correctedResponse?.error) throw correctedResponse.error;
+
+  const questions = questionsResponse.data || [];
+  return correctedResponse?.data ? applyCorrectedKey(questions, correctedResponse.data) : questions;
+};
+
+// Re-grades a completed exam from its stored answers and manual grades and writes the
+// totals back to the exams row. Called after an examiner grades a question.
+export const recalculateExamTotals = async (examId: string): Promise<ExamGrade | null> => {
+  try {
+    const { data: exam, error: examError } = await supabase
+      .from('exams')
+      .select('exam_template_id, graded_template_id, shuffle_seed')
+      .eq('id', examId)
+      .single();
+
+    if (examError) throw examError;
+    if (!exam.exam_template_id) return null;
+
+    const [questions, answersResponse, gradesResponse, templateResponse] = await Promise.all([
+      loadGradingQuestions(exam.exam_template_id, exam.graded_template_id),
+      supabase.from('exam_answers').select('question_number, answer').eq('exam_id', examId),
+      supabase.from('answer_grades').select('question_number, points_awarded').eq('exam_id', examId),
+      supabase
+        .from('exam_templates')
+        .select('grade_scale, shuffle_questions, shuffle_options, draw_count')
+        .eq('id', exam.exam_template_id)
+        .maybeSingle(),
+    ]);
+
+    if (answersResponse.error) throw answersResponse.error;
+    if (gradesResponse.error) throw gradesResponse.error;
+
+    // Only the questions drawn onto this student's paper count towards the score
+    const paperQuestions = getPaperQuestions(questions, templateResponse.data, exam.shuffle_seed);
+    const grade = gradeExam(paperQuestions, answersResponse.data || [], {
+      gradeScale: parseGradeScale(templateResponse.data?.grade_scale),
+      manualGrades: gradesResponse.data || [],
+    });
+
+    const { error: updateError } = await supabase
+      .from('exams')
+      .update({
+        total_score: grade.totalScore,
+        max_score: grade.maxScore,
+        grade_letter: grade.gradeLetter,
+        graded: grade.pendingManualCount === 0,
+        graded_at: new Date().toISOString(),
+      })
+      .eq('id', examId);
+
+    if (updateError) throw updateError;
+
+    console.log(`📊 Exam ${examId} re-graded: ${grade.totalScore}/${grade.maxScore} (${grade.pendingManualCount} pending)`);
+    return grade;
+  } catch (error) {
+    console.error('Error recalculating exam totals:', error);
+    return null;
+  }
+};
+
+// Regrades completed exams of a template version against a later version's corrected key
+export const regradeExams = async (
+  examIds: string[],
+  gradedTemplateId: string
+): Promise<{ regraded: number; failed: number }> => {
+  let regraded = 0;
+  let failed = 0;
+
+  for (const examId of examIds) {
+    const { error } = await supabase
+      .from('exams')
+      .update({ graded_template_id: gradedTemplateId })
+      .eq('id', examId);
+
+    if (error) {
+      console.error(`Error binding exam ${examId} to corrected version:`, error);
+      failed++;
+      continue;
+    }
+
+    if (await recalculateExamTotals(examId)) {
+      regraded++;
+    } else {
+      failed++;
+    }
+  }
+
+  console.log(`📊 Regraded ${regraded} exams against template ${gradedTemplateId} (${failed} failed)`);
+  return { regraded, failed };
+};
@@ -0,0 +1,47 @@
+// 1:1 face matching against the face a student registered with. The proctoring service
+// (backend/face_identity.py) keeps an embedding of students.face_image_url; StudentRegister
+// asks for it to be computed, StudentVerify checks the student's face against it before the
+// exam unlocks, and during the exam the service re-checks the stream itself and raises
+// identity_mismatch violations with the registered image in details.reference_image_url.
+
+export interface FaceVerifyResult {
+  // False when the service has no face models or no usable registered face to compare with
+  available: boolean;
+  match: boolean;
+  similarity?: number | null;
+  threshold: number;
+  face_count: number;
+  message: string;
+}
+
+const apiUrl = () => import.meta.env.VITE_PROCTORING_API_URL || window.location.origin;
+
+// Computes the embedding of the registered face image; false if it couldn't (no face found, models missing)
+export const enrollFace = async (studentId: string): Promise<boolean> => {
+  const response = await fetch(`${apiUrl()}/api/face/enroll`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ student_id: studentId }),
+  });
+  if (!response.ok) {
+    throw new Error(`Face enrollment failed: ${response.status} ${await response.text()}`);
+  }
+  const result: { success: boolean; message: string } = await response.json();
+  if (!result.success) console.warn('⚠️ Face enrollment:', result.message);
+  return result.success;
+};
+
+export const verifyFace = async (studentId: string, frameBase64: string): Promise<FaceVerifyResult> => {
+  const response = await fetch(`${apiUrl()}/api/face/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ student_id: studentId, frame_base64: frameBase64 }),
+  });
+  if (!response.ok) {
+    throw new Error(`Face verification failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+};
+
+export const formatSimilarity = (similarity: number | null | undefined) =>
+  typeof similarity === 'number' ? `${Math.round(similarity * 100)}%` : 'n/a';
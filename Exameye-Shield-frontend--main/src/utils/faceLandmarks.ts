@@ -0,0 +1,58 @@
+import { FaceMesh, type NormalizedLandmark } from '@mediapipe/face_mesh';
+
+// MediaPipe face mesh for the liveness challenge (utils/liveness.ts) and gaze tracking
+// (utils/headPose.ts): 468 landmarks per face plus 10 for the irises, enough for head turns,
+// eyelid movement and eye direction that face detection's six keypoints can't show.
+export class FaceLandmarkTracker {
+  private faceMesh: FaceMesh | null = null;
+  private pending: ((faces: NormalizedLandmark[][]) => void) | null = null;
+
+  async initialize() {
+    if (this.faceMesh) return;
+
+    console.log('Initializing face landmark model...');
+    const faceMesh = new FaceMesh({
+      locateFile: (file) => {
+        return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
+      }
+    });
+    faceMesh.setOptions({
+      // Two, so a second face in view can be noticed
+      maxNumFaces: 2,
+      // Iris landmarks, for gaze
+      refineLandmarks: true,
+      minDetectionConfidence: 0.5,
+      minTrackingConfidence: 0.5
+    });
+    faceMesh.onResults((results) => {
+      const resolve = this.pending;
+      this.pending = null;
+      resolve?.(results.multiFaceLandmarks ?? []);
+    });
+    await faceMesh.initialize();
+    this.faceMesh = faceMesh;
+    console.log('Face landmark model loaded');
+  }
+
+  // Landmarks of each face in the frame, normalized to the frame size
+  async detect(videoElement: HTMLVideoElement): Promise<NormalizedLandmark[][]> {
+    const faceMesh = this.faceMesh;
+    if (!faceMesh) {
+      throw new Error('Face landmark model not initialized');
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = resolve;
+      faceMesh.send({ image: videoElement }).catch(reject);
+    });
+  }
+
+  cleanup() {
+    if (this.faceMesh) {
+      this.faceMesh.close();
+    }
+    this.faceMesh = null;
+    this.pending = null;
+  }
+}
+
+export const faceLandmarkTracker = new FaceLandmarkTracker();
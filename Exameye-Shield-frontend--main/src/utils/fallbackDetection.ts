@@ -0,0 +1,91 @@
+import type { DetectionResult } from '@/utils/aiDetection';
+
+// In-browser detection for while the proctoring service is unreachable. The exam page runs
+// AIProctorDetector (COCO-SSD and MediaPipe) at a lower rate than frames normally go to the
+// service, keeps what it finds in memory with a snapshot, and writes it to the violations table
+// itself, tagged with details.source = CLIENT_FALLBACK_SOURCE.
+//
+// Violation types and severities follow the service's (backend/proctoring_service.py) so reports
+// count them together, and the same 10 second per-type cooldown applies.
+
+export const CLIENT_FALLBACK_SOURCE = 'client_fallback';
+
+// Offline this long before the local detector takes over, so a quick reconnect doesn't load the CPU
+export const FALLBACK_START_AFTER_MS = 5000;
+export const FALLBACK_INTERVAL_MS = 6000;
+export const FALLBACK_COOLDOWN_MS = 10000;
+// Oldest captures are dropped past this, to bound the memory held in snapshots
+export const MAX_BUFFERED_CAPTURES = 30;
+
+export interface FallbackViolation {
+  type: 'multiple_person' | 'no_person' | 'phone_detected' | 'object_detected';
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+  confidence?: number;
+}
+
+// One detection pass that found something: its violations share the snapshot
+export interface FallbackCapture {
+  id: string;
+  occurredAt: string;
+  snapshot: string;
+  // Set once the snapshot is uploaded, so a retry doesn't upload it again
+  imageUrl?: string;
+  // Not yet written to the violations table
+  violations: FallbackViolation[];
+}
+
+// faceCount is null when face detection didn't answer in time
+export const violationsFromDetections = (
+  detections: DetectionResult[],
+  faceCount: number | null
+): FallbackViolation[] => {
+  const violations: FallbackViolation[] = [];
+  const find = (type: DetectionResult['type']) => detections.find(detection => detection.type === type);
+
+  const multiple = find('multiple_person');
+  if (multiple || (faceCount !== null && faceCount > 1)) {
+    const count = faceCount !== null && faceCount > 1 ? faceCount : 2;
+    violations.push({
+      type: 'multiple_person',
+      severity: 'high',
+      message: `${count} people detected in frame`,
+      confidence: multiple?.confidence,
+    });
+  }
+  // A face the object model missed still means someone is there
+  const noPerson = find('no_person');
+  if (noPerson && !(faceCount !== null && faceCount > 0)) {
+    violations.push({ type: 'no_person', severity: 'medium', message: 'No person detected in frame', confidence: noPerson.confidence });
+  }
+  const phone = find('phone');
+  if (phone) {
+    violations.push({ type: 'phone_detected', severity: 'high', message: 'Mobile phone detected', confidence: phone.confidence });
+  }
+  const object = find('object');
+  if (object) {
+    violations.push({ type: 'object_detected', severity: 'medium', message: 'Suspicious object detected', confidence: object.confidence });
+  }
+  return violations;
+};
+
+// Drops violations whose type was reported within the cooldown; updates lastReportedAt for the rest
+export const applyCooldown = (
+  violations: FallbackViolation[],
+  lastReportedAt: Map<string, number>,
+  now: number = Date.now()
+): FallbackViolation[] =>
+  violations.filter(violation => {
+    const last = lastReportedAt.get(violation.type);
+    if (last !== undefined && now - last < FALLBACK_COOLDOWN_MS) return false;
+    lastReportedAt.set(violation.type, now);
+    return true;
+  });
+
+export const bufferCapture = (buffer: FallbackCapture[], capture: FallbackCapture): FallbackCapture[] => {
+  const next = [...buffer, capture];
+  if (next.length > MAX_BUFFERED_CAPTURES) {
+    console.warn(`⚠️ Fallback detection buffer full - dropping ${next.length - MAX_BUFFERED_CAPTURES} oldest capture(s)`);
+  }
+  return next.slice(-MAX_BUFFERED_CAPTURES);
+};
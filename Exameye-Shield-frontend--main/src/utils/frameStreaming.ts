@@ -0,0 +1,126 @@
+// Frame capture for the proctoring stream: how big and how often.
+//
+// The capture profile is picked once from the bandwidth measured in the compatibility check.
+// The interval then adapts while the exam runs: it backs off when frames pile up in the
+// socket's send buffer or the server's frame_acks lag behind, creeps back once the link has
+// been healthy for a few frames, and drops to MIN_INTERVAL_MS for a while after a suspicious
+// event so the moments that matter are covered more densely.
+
+export interface CaptureProfile {
+  name: 'low' | 'medium' | 'high';
+  // Frames are scaled down to this width, keeping the aspect ratio
+  maxWidth: number;
+  jpegQuality: number;
+  baseIntervalMs: number;
+}
+
+export const CAPTURE_PROFILES: CaptureProfile[] = [
+  { name: 'low', maxWidth: 320, jpegQuality: 0.5, baseIntervalMs: 3000 },
+  { name: 'medium', maxWidth: 480, jpegQuality: 0.6, baseIntervalMs: 2000 },
+  { name: 'high', maxWidth: 640, jpegQuality: 0.7, baseIntervalMs: 2000 },
+];
+
+// Lowest measured speed (Mbps) for each profile above low
+const PROFILE_MIN_MBPS: Record<CaptureProfile['name'], number> = { low: 0, medium: 3, high: 8 };
+
+export const MIN_INTERVAL_MS = 1000;
+export const MAX_INTERVAL_MS = 10000;
+// How long the faster rate lasts after a suspicious event
+export const BOOST_DURATION_MS = 20000;
+// Frames acked later than this count as congestion, whatever the interval
+const ACK_LAG_LIMIT_MS = 3000;
+// Healthy frames in a row before the interval steps back down
+const HEALTHY_FRAMES_TO_RECOVER = 3;
+const BACKOFF_FACTOR = 1.5;
+
+// Unknown speed (an old compatibility check) gets the medium profile
+export const captureProfileForBandwidth = (mbps?: number | null): CaptureProfile => {
+  if (typeof mbps !== 'number' || !Number.isFinite(mbps)) {
+    return CAPTURE_PROFILES[1];
+  }
+  return [...CAPTURE_PROFILES].reverse().find(profile => mbps >= PROFILE_MIN_MBPS[profile.name]) ?? CAPTURE_PROFILES[0];
+};
+
+// Draws the current video frame at the profile's size and encodes it as JPEG.
+// Null while the video has no dimensions yet.
+export const captureFrame = async (video: HTMLVideoElement, profile: CaptureProfile): Promise<ArrayBuffer | null> => {
+  if (video.videoWidth === 0 || video.videoHeight === 0) {
+    return null;
+  }
+  const scale = Math.min(1, profile.maxWidth / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', profile.jpegQuality));
+  return blob ? blob.arrayBuffer() : null;
+};
+
+// What the socket looks like right before a frame is captured
+export interface LinkSample {
+  // WebSocket.bufferedAmount: bytes queued but not yet sent
+  bufferedAmount: number;
+  // Time from sending a frame to its frame_ack; the age of the oldest unacked frame when that is longer.
+  // Null before the first ack.
+  ackLagMs: number | null;
+}
+
+export interface FrameRateState {
+  intervalMs: number;
+  baseIntervalMs: number;
+  // Timestamp (ms) until which the boosted rate applies
+  boostUntil: number;
+  healthyFrames: number;
+  congested: boolean;
+}
+
+export const initialFrameRate = (profile: CaptureProfile): FrameRateState => ({
+  intervalMs: profile.baseIntervalMs,
+  baseIntervalMs: profile.baseIntervalMs,
+  boostUntil: 0,
+  healthyFrames: 0,
+  congested: false,
+});
+
+// More than one frame still waiting to leave the browser, or acks falling behind the capture rate
+export const isCongested = (state: FrameRateState, sample: LinkSample, lastFrameBytes: number): boolean =>
+  (lastFrameBytes > 0 && sample.bufferedAmount > lastFrameBytes) ||
+  (sample.ackLagMs !== null && sample.ackLagMs > Math.max(ACK_LAG_LIMIT_MS, state.intervalMs));
+
+const clampInterval = (ms: number) => Math.round(Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, ms)));
+
+// Adjusts the interval from the latest link sample; call once per capture tick
+export const nextFrameRate = (
+  state: FrameRateState,
+  sample: LinkSample,
+  lastFrameBytes: number,
+  now: number = Date.now(),
+): FrameRateState => {
+  if (isCongested(state, sample, lastFrameBytes)) {
+    return { ...state, intervalMs: clampInterval(state.intervalMs * BACKOFF_FACTOR), healthyFrames: 0, congested: true };
+  }
+
+  const target = now < state.boostUntil ? MIN_INTERVAL_MS : state.baseIntervalMs;
+  const healthyFrames = state.healthyFrames + 1;
+  let intervalMs = state.intervalMs;
+  if (intervalMs < target) {
+    // Boost over
+    intervalMs = target;
+  } else if (intervalMs > target && healthyFrames >= HEALTHY_FRAMES_TO_RECOVER) {
+    intervalMs = clampInterval(Math.max(target, intervalMs / BACKOFF_FACTOR));
+    return { ...state, intervalMs, healthyFrames: 0, congested: false };
+  }
+  return { ...state, intervalMs, healthyFrames, congested: false };
+};
+
+// Speeds up capture after a suspicious event. Halves the interval straight away rather than
+// jumping to the minimum, so a link that was just backed off isn't flooded; nextFrameRate takes
+// it the rest of the way while the link keeps up.
+export const boostFrameRate = (state: FrameRateState, now: number = Date.now()): FrameRateState => ({
+  ...state,
+  boostUntil: now + BOOST_DURATION_MS,
+  intervalMs: clampInterval(state.intervalMs / 2),
+});
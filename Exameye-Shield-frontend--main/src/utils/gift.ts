@@ -0,0 +1,401 @@
+import { createDraft, joinMatchingOption, type QuestionDraft } from '@/utils/templateDraft';
+import {
+  htmlToText,
+  moodleFraction,
+  tidyText,
+  type ExportQuestion,
+  type ExportTemplateInfo,
+  type ImportIssue,
+  type ImportedQuestion,
+  type QuestionSetExport,
+  type QuestionSetImport,
+} from '@/utils/questionFormats';
+import {
+  getChoiceOptions,
+  getMatchingOptions,
+  getQuestionConfig,
+  getQuestionType,
+  optionKey,
+  parseBoolean,
+  parseKeyList,
+  parsePairs,
+} from '@/utils/questionTypes';
+
+// GIFT, Moodle's plain-text question format. Questions are separated by blank lines:
+//
+//   // comment
+//   $CATEGORY: $course$/top/Midterm
+//   ::Title:: Question text {=right ~wrong ~wrong}
+//   Multiple answers {~%50%right ~%50%also right ~%-100%wrong}
+//   True or false {T}
+//   Numeric {#9.81:0.05}   or a range {#9.76..9.86}
+//   Matching {=cat -> meow =dog -> woof}
+//   Short answer {=Paris =paris}   Essay {}
+//
+// ~ = # { } : are escaped with a backslash. GIFT has no points; exports put them in a
+// "// Points: 2" comment above the question, which imports read back.
+
+interface BlockContext {
+  item: string;
+  line?: number;
+  issues: ImportIssue[];
+}
+
+const note = (context: BlockContext, message: string, skipped = false, line = context.line) => {
+  context.issues.push({ item: context.item, line, message, skipped });
+};
+
+const SPECIAL_CHARACTERS = /([\\~=#{}:])/g;
+
+const escapeGift = (text: string) => text.replace(SPECIAL_CHARACTERS, '\\$1');
+
+const unescapeGift = (text: string) => text.replace(/\\n/g, '\n').replace(/\\([\\~=#{}:])/g, '$1');
+
+// Index of the first unescaped occurrence of one of the characters, from a position
+const findUnescaped = (text: string, characters: string, from = 0): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (characters.includes(text[i])) return i;
+  }
+  return -1;
+};
+
+// Splits on unescaped separator characters, keeping each separator at the start of its part
+const splitUnescaped = (text: string, separators: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  let index = findUnescaped(text, separators);
+  while (index !== -1) {
+    parts.push(text.slice(start, index));
+    start = index;
+    index = findUnescaped(text, separators, index + 1);
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+// Drops "#feedback" from an answer
+const withoutFeedback = (text: string) => {
+  const index = findUnescaped(text, '#');
+  return index === -1 ? text : text.slice(0, index);
+};
+
+interface GiftAnswer {
+  correct: boolean;
+  weight: number | null;
+  text: string;
+}
+
+const parseAnswers = (body: string): { answers: GiftAnswer[]; leading: string } => {
+  const [leading, ...parts] = splitUnescaped(body, '=~');
+  const answers = parts.map(part => {
+    let text = withoutFeedback(part.slice(1)).trim();
+    let weight: number | null = null;
+    const weighted = text.match(/^%(-?\d+(?:\.\d+)?)%/);
+    if (weighted) {
+      weight = parseFloat(weighted[1]);
+      text = text.slice(weighted[0].length).trim();
+    }
+    return { correct: part[0] === '=', weight, text };
+  });
+  return { answers, leading: leading.trim() };
+};
+
+const toText = (text: string, html: boolean) => (html ? htmlToText(unescapeGift(text)) : tidyText(unescapeGift(text)));
+
+const parseNumericAnswer = (spec: string): { value: string; tolerance: string } | null => {
+  const clean = withoutFeedback(spec).trim().replace(/^%[-\d.]+%/, '');
+  const range = clean.match(/^(-?[\d.eE+-]+)\s*\.\.\s*(-?[\d.eE+-]+)$/);
+  if (range) {
+    const [min, max] = [parseFloat(range[1]), parseFloat(range[2])];
+    if (!Number.isFinite(min) || !Number.isFinite(max)) return null;
+    return { value: String(+((min + max) / 2).toFixed(10)), tolerance: String(+Math.abs((max - min) / 2).toFixed(10)) };
+  }
+  const [value, tolerance = ''] = clean.split(':').map(part => part.trim());
+  if (!Number.isFinite(parseFloat(value))) return null;
+  return { value, tolerance: parseFloat(tolerance) > 0 ? tolerance : '' };
+};
+
+const readNumeric = (draft: QuestionDraft, body: string, context: BlockContext): QuestionDraft | null => {
+  const specs = splitUnescaped(body.slice(1), '=');
+  // "{#5:1}" has the answer before any "="; "{#=5:1 =%50%4:2}" lists weighted alternatives
+  const accepted = (specs[0].trim() ? [specs[0]] : specs.slice(1).map(spec => spec.slice(1)))
+    .filter(spec => !/^\s*%(?!100%)/.test(spec));
+  const parsed = accepted.map(parseNumericAnswer);
+  if (parsed.length === 0 || !parsed[0]) {
+    note(context, 'Numeric answer is not a number', true);
+    return null;
+  }
+  if (parsed.length > 1) note(context, `Only the first of ${parsed.length} accepted numbers was kept`);
+  return {
+    ...draft,
+    question_type: 'numeric',
+    options: [],
+    correct_answer: parsed[0].value,
+    tolerance: parsed[0].tolerance,
+  };
+};
+
+const readAnswerBlock = (draft: QuestionDraft, body: string, html: boolean, context: BlockContext): QuestionDraft | null => {
+  const trimmed = body.trim();
+  if (!trimmed) return { ...draft, question_type: 'short_answer', options: [] };
+  if (trimmed.startsWith('#')) return readNumeric(draft, trimmed, context);
+
+  const booleanAnswer = withoutFeedback(trimmed).trim().toUpperCase();
+  if (['T', 'TRUE', 'F', 'FALSE'].includes(booleanAnswer)) {
+    return { ...draft, question_type: 'true_false', options: [], correct_answer: String(parseBoolean(booleanAnswer)) };
+  }
+
+  const { answers, leading } = parseAnswers(trimmed);
+  if (leading) {
+    note(context, `Unexpected text "${leading}" before the first answer; answers start with = or ~`, true);
+    return null;
+  }
+  if (answers.length === 0) {
+    note(context, 'No answers found', true);
+    return null;
+  }
+
+  // Matching: every answer is "=prompt -> match"
+  if (answers.every(answer => answer.correct) && answers.some(answer => answer.text.includes('->'))) {
+    const pairs = answers.map(answer => {
+      const [prompt, ...match] = answer.text.split('->');
+      return [toText(prompt, html), toText(match.join('->'), html)];
+    });
+    const options = pairs.filter(([prompt, match]) => prompt && match).map(([prompt, match]) => joinMatchingOption(prompt, match));
+    if (options.length < 2) {
+      note(context, 'Matching question with fewer than two pairs', true);
+      return null;
+    }
+    const distractors = pairs.filter(([prompt, match]) => !prompt && match).length;
+    if (distractors > 0) note(context, `${distractors} extra matches (distractors) were dropped`);
+    return { ...draft, question_type: 'matching', options };
+  }
+
+  // Short answer: only "=" answers, each an accepted response
+  if (answers.every(answer => answer.correct)) {
+    note(context, 'Imported as a manually graded short answer; accepted answers kept as the model answer');
+    return {
+      ...draft,
+      question_type: 'short_answer',
+      options: [],
+      correct_answer: answers.map(answer => toText(answer.text, html)).join(' / '),
+    };
+  }
+
+  const options = answers.map(answer => toText(answer.text, html));
+  if (options.some(option => !option)) {
+    note(context, 'An answer is empty', true);
+    return null;
+  }
+  const marked = answers.map((answer, index) => (answer.correct ? index : -1)).filter(index => index !== -1);
+  const weighted = answers.map((answer, index) => (!answer.correct && (answer.weight || 0) > 0 ? index : -1)).filter(index => index !== -1);
+
+  if (marked.length === 1) {
+    if (weighted.length > 0) note(context, 'Partial credit for other answers was dropped');
+    return { ...draft, question_type: 'mcq', options, correct_answer: optionKey(marked[0]) };
+  }
+  if (marked.length > 1) {
+    note(context, 'Several answers marked with "="; imported as multiple answers, all required');
+    return { ...draft, question_type: 'multi_select', options, correct_answer: marked.map(optionKey).join(',') };
+  }
+  if (weighted.length === 0) {
+    note(context, 'No correct answer; mark one before using it');
+    return { ...draft, question_type: 'mcq', options, correct_answer: '' };
+  }
+  if (new Set(weighted.map(index => answers[index].weight)).size > 1) {
+    note(context, 'Unequal answer weights were replaced by equal shares');
+  }
+  return {
+    ...draft,
+    question_type: 'multi_select',
+    options,
+    correct_answer: weighted.map(optionKey).join(','),
+    scoring: 'partial',
+  };
+};
+
+const readBlock = (block: string, context: BlockContext): QuestionDraft | null => {
+  let text = block;
+  const titled = text.match(/^\s*::((?:\\.|[^:\\]|:(?!:))*)::/);
+  if (titled) {
+    context.item = unescapeGift(titled[1]).trim() || context.item;
+    text = text.slice(titled[0].length);
+  }
+
+  const format = text.match(/^\s*\[(html|moodle|plain|markdown)\]/i);
+  const html = format?.[1].toLowerCase() === 'html';
+  if (format) text = text.slice(format[0].length);
+
+  const lineOf = (index: number) => (context.line || 1) + block.slice(0, block.length - text.length + index).split('\n').length - 1;
+  const open = findUnescaped(text, '{');
+  if (open === -1) {
+    note(context, 'No answer block {...}; descriptions are not imported', true);
+    return null;
+  }
+  const close = findUnescaped(text, '}', open + 1);
+  if (close === -1) {
+    note(context, 'Missing closing }', true, lineOf(open));
+    return null;
+  }
+  const nestedOpen = findUnescaped(text.slice(0, close), '{', open + 1);
+  if (nestedOpen !== -1) {
+    note(context, 'Unescaped { inside the answer block', true, lineOf(nestedOpen));
+    return null;
+  }
+
+  // Text after the answers makes it a fill-in-the-blank; keep the gap visible in the stem
+  const after = text.slice(close + 1).trim();
+  const stem = toText(after ? `${text.slice(0, open)} _____ ${after}` : text.slice(0, open), html);
+  if (!stem) note(context, 'Question text is empty');
+  if (html && /<(img|object|math|audio|video|embed)\b/i.test(text)) note(context, 'Images, media and formulas were not imported');
+
+  return readAnswerBlock({ ...createDraft(), question_text: stem }, text.slice(open + 1, close), html, context);
+};
+
+export const parseGift = (source: string): QuestionSetImport => {
+  const issues: ImportIssue[] = [];
+  const questions: ImportedQuestion[] = [];
+  let title: string | null = null;
+
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let block: string[] = [];
+  let blockLine = 0;
+  let points: number | null = null;
+  let blockCount = 0;
+
+  const flush = () => {
+    const text = block.join('\n');
+    block = [];
+    if (!text.trim()) return;
+    blockCount++;
+    const context: BlockContext = { item: `Question ${blockCount}`, line: blockLine, issues };
+    const draft = readBlock(text, context);
+    if (draft) questions.push({ draft: { ...draft, points: points || 1 }, item: context.item, line: context.line });
+    points = null;
+  };
+
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('//')) {
+      const declared = trimmed.match(/^\/\/\s*points:\s*(\d+)\s*$/i);
+      if (declared && block.length === 0) points = parseInt(declared[1], 10);
+      return;
+    }
+    if (trimmed.startsWith('$CATEGORY:')) {
+      flush();
+      title = trimmed.slice('$CATEGORY:'.length).split('/').map(part => part.trim()).filter(Boolean).pop() || title;
+      return;
+    }
+    // Like Moodle, a blank line always ends the question
+    if (!trimmed) {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockLine = index + 1;
+    block.push(line);
+  });
+  flush();
+
+  if (questions.length === 0 && issues.length === 0) {
+    throw new Error('No GIFT questions found in the file');
+  }
+
+  console.log(`📦 GIFT import: ${questions.length} questions, ${issues.length} issues`);
+  return { format: 'gift', title, durationMinutes: null, questions, issues };
+};
+
+// ---- Export ----
+
+const giftText = (text: string) =>
+  text
+    .split('\n')
+    .map(line => escapeGift(line.trim()))
+    .filter(Boolean)
+    .join('\n');
+
+const buildAnswers = (question: ExportQuestion, context: BlockContext): string | null => {
+  const type = getQuestionType(question);
+  const config = getQuestionConfig(question);
+  const correctKeys = parseKeyList(question.correct_answer);
+  if (type !== 'short_answer' && !question.correct_answer?.trim()) note(context, 'No correct answer; exported without one');
+
+  switch (type) {
+    case 'mcq':
+      return getChoiceOptions(question)
+        .map(([key, text]) => `\t${correctKeys.includes(key) ? '=' : '~'}${giftText(text)}`)
+        .join('\n');
+
+    case 'multi_select': {
+      if (config.scoring !== 'partial') {
+        note(context, 'GIFT multiple-answer questions use partial credit; all-or-nothing scoring was not kept');
+      }
+      // Same shares as the grader's partial credit: each wrong answer cancels a right one
+      const share = moodleFraction(100 / Math.max(1, correctKeys.length));
+      return getChoiceOptions(question)
+        .map(([key, text]) => `\t~%${correctKeys.includes(key) ? share : -share}%${giftText(text)}`)
+        .join('\n');
+    }
+
+    case 'true_false': {
+      const value = parseBoolean(question.correct_answer);
+      return value === null ? '' : value ? 'TRUE' : 'FALSE';
+    }
+
+    case 'numeric': {
+      const value = parseFloat(question.correct_answer || '');
+      let tolerance = Math.abs(config.tolerance || 0);
+      if (config.tolerance_type === 'relative' && tolerance) {
+        tolerance = +(tolerance * Math.abs(value || 0)).toFixed(6);
+        note(context, `Relative tolerance exported as an absolute tolerance of ${tolerance}`);
+      }
+      if (config.unit) note(context, `Unit "${config.unit}" has no GIFT equivalent and was not exported`);
+      return `#${question.correct_answer?.trim() || ''}${tolerance ? `:${tolerance}` : ''}`;
+    }
+
+    case 'matching': {
+      const { prompts, choices } = getMatchingOptions(question);
+      const pairs = Object.entries(parsePairs(question.correct_answer)).filter(([prompt, choice]) => prompts[prompt] && choices[choice]);
+      if (pairs.length < 2) {
+        note(context, 'Matching question needs at least two complete pairs', true);
+        return null;
+      }
+      if (pairs.length < 3) note(context, 'Moodle needs at least three matches; add a distractor after importing there');
+      return pairs
+        .map(([prompt, choice]) => `\t=${giftText(prompts[prompt])} -> ${giftText(choices[choice])}`)
+        .join('\n');
+    }
+
+    case 'ordering':
+      note(context, 'Ordering questions have no GIFT equivalent', true);
+      return null;
+
+    default:
+      if (question.correct_answer?.trim()) note(context, 'Model answer has no GIFT equivalent and was not exported');
+      if (question.rubric) note(context, 'Grading rubric is not part of GIFT and was not exported');
+      return '';
+  }
+};
+
+export const buildGift = (template: ExportTemplateInfo, questions: ExportQuestion[]): QuestionSetExport => {
+  const issues: ImportIssue[] = [];
+  const blocks: string[] = [];
+
+  questions.forEach(question => {
+    const answers = buildAnswers(question, { item: `Q${question.question_number}`, issues });
+    if (answers === null) return;
+    const body = answers.includes('\n') ? `{\n${answers}\n}` : `{${answers}}`;
+    blocks.push(`// Points: ${question.points || 1}\n::Q${question.question_number}:: ${giftText(question.question_text)} ${body}`);
+  });
+
+  const gift = [
+    `// ${template.title}`,
+    `$CATEGORY: $course$/top/${template.title.replace(/\//g, '-')}`,
+    '',
+    blocks.join('\n\n'),
+    '',
+  ].join('\n');
+
+  console.log(`📦 GIFT export: ${blocks.length} questions, ${issues.length} issues`);
+  return { data: gift, issues };
+};
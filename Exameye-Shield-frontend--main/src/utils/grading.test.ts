@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { gradeExam, gradeQuestion, type GradableQuestion } from '@/utils/grading';
+
+const question = (overrides: Partial<GradableQuestion>): GradableQuestion => ({
+  question_number: 1,
+  question_type: 'mcq',
+  options: { a: 'Alpha', b: 'Beta', c: 'Gamma', d: 'Delta' },
+  correct_answer: 'b',
+  config: null,
+  points: 2,
+  ...overrides,
+});
+
+const multiSelect = (scoring: 'partial' | 'all_or_nothing') =>
+  question({ question_type: 'multi_select', correct_answer: 'a,c', config: { scoring }, points: 4 });
+
+const numeric = (config: GradableQuestion['config']) =>
+  question({ question_type: 'numeric', options: null, correct_answer: '9.81', config, points: 1 });
+
+const matching = (scoring: 'partial' | 'all_or_nothing') =>
+  question({
+    question_type: 'matching',
+    options: { prompts: { '1': 'Dog', '2': 'Cat', '3': 'Cow' }, choices: { a: 'Bark', b: 'Meow', c: 'Moo' } },
+    correct_answer: '1:a,2:b,3:c',
+    config: { scoring },
+    points: 3,
+  });
+
+const ordering = (scoring: 'partial' | 'all_or_nothing') =>
+  question({ question_type: 'ordering', correct_answer: 'c,a,b,d', config: { scoring }, points: 4 });
+
+const shortAnswer = question({ question_type: 'short_answer', options: null, correct_answer: null, points: 5 });
+
+describe('gradeQuestion', () => {
+  it.each([
+    ['mcq correct', question({}), 'b', 'correct', 2],
+    ['mcq ignores case and spaces', question({}), ' B ', 'correct', 2],
+    ['mcq wrong', question({}), 'a', 'incorrect', 0],
+    ['mcq unanswered', question({}), '', 'unanswered', 0],
+    ['points default to 1', question({ points: null }), 'b', 'correct', 1],
+    ['0-point question stays worth 0', question({ points: 0 }), 'b', 'correct', 0],
+    ['true/false', question({ question_type: 'true_false', options: null, correct_answer: 'true' }), 'True', 'correct', 2],
+
+    ['multi-select all or nothing, exact', multiSelect('all_or_nothing'), 'c,a', 'correct', 4],
+    ['multi-select all or nothing, one missing', multiSelect('all_or_nothing'), 'a', 'incorrect', 0],
+    ['multi-select partial, one of two', multiSelect('partial'), 'a', 'partial', 2],
+    ['multi-select partial, wrong pick cancels a right one', multiSelect('partial'), 'a,b', 'incorrect', 0],
+    ['multi-select partial, everything selected', multiSelect('partial'), 'a,b,c,d', 'incorrect', 0],
+
+    ['numeric exact', numeric(null), '9.81', 'correct', 1],
+    ['numeric without tolerance', numeric(null), '9.8', 'incorrect', 0],
+    ['numeric within absolute tolerance', numeric({ tolerance: 0.05 }), '9.78', 'correct', 1],
+    ['numeric outside absolute tolerance', numeric({ tolerance: 0.05 }), '9.7', 'incorrect', 0],
+    ['numeric within relative tolerance', numeric({ tolerance: 0.02, tolerance_type: 'relative' }), '10', 'correct', 1],
+    ['numeric outside relative tolerance', numeric({ tolerance: 0.01, tolerance_type: 'relative' }), '10', 'incorrect', 0],
+    ['numeric not a number', numeric({ tolerance: 1 }), 'ten', 'incorrect', 0],
+
+    ['matching all or nothing, all pairs', matching('all_or_nothing'), '3:c,1:a,2:b', 'correct', 3],
+    ['matching all or nothing, one wrong', matching('all_or_nothing'), '1:a,2:c,3:b', 'incorrect', 0],
+    ['matching partial, one of three', matching('partial'), '1:a,2:c,3:b', 'partial', 1],
+
+    ['ordering all or nothing, right order', ordering('all_or_nothing'), 'c,a,b,d', 'correct', 4],
+    ['ordering all or nothing, swapped', ordering('all_or_nothing'), 'a,c,b,d', 'incorrect', 0],
+    ['ordering partial, two in place', ordering('partial'), 'a,c,b,d', 'partial', 2],
+  ])('%s', (_name, q, answer, status, points) => {
+    const grade = gradeQuestion(q, answer);
+    expect(grade.status).toBe(status);
+    expect(grade.pointsEarned).toBe(points);
+    expect(grade.pointsPossible).toBe(q.points ?? 1);
+  });
+
+  it('leaves short answers pending manual grading', () => {
+    expect(gradeQuestion(shortAnswer, 'Because of gravity')).toMatchObject({
+      status: 'manual',
+      pointsEarned: null,
+      fraction: null,
+    });
+  });
+
+  it('leaves questions without an answer key pending manual grading', () => {
+    expect(gradeQuestion(question({ correct_answer: '' }), 'b').status).toBe('manual');
+  });
+
+  it.each([
+    ['full marks', 5, 'correct', 5],
+    ['part marks', 2.5, 'partial', 2.5],
+    ['zero', 0, 'incorrect', 0],
+    ['capped at the question points', 8, 'correct', 5],
+    ['floored at zero', -1, 'incorrect', 0],
+  ])('applies the examiner grade: %s', (_name, awarded, status, points) => {
+    const grade = gradeQuestion(shortAnswer, 'Because of gravity', awarded);
+    expect(grade.status).toBe(status);
+    expect(grade.pointsEarned).toBe(points);
+  });
+
+  it('grades a 0-point manual question without dividing by zero', () => {
+    const grade = gradeQuestion({ ...shortAnswer, points: 0 }, 'Because of gravity', 3);
+    expect(grade).toMatchObject({ status: 'correct', pointsPossible: 0, pointsEarned: 0, fraction: 1 });
+  });
+
+  it('ignores examiner grades for auto-graded questions', () => {
+    expect(gradeQuestion(question({}), 'a', 2).pointsEarned).toBe(0);
+  });
+});
+
+describe('gradeExam', () => {
+  const questions: GradableQuestion[] = [
+    question({ question_number: 1 }),
+    { ...multiSelect('partial'), question_number: 2 },
+    { ...numeric({ tolerance: 0.05 }), question_number: 3 },
+    { ...shortAnswer, question_number: 4 },
+  ];
+
+  it.each([
+    {
+      name: 'all correct, short answer pending',
+      answers: [
+        { question_number: 1, answer: 'b' },
+        { question_number: 2, answer: 'a,c' },
+        { question_number: 3, answer: '9.8' },
+        { question_number: 4, answer: 'Free fall' },
+      ],
+      manualGrades: [],
+      expected: { totalScore: 7, maxScore: 7, percentage: 100, gradeLetter: 'A+', correctCount: 3, autoGradedCount: 3, pendingManualCount: 1 },
+    },
+    {
+      name: 'partial credit and a missing answer row',
+      answers: [
+        { question_number: 1, answer: 'a' },
+        { question_number: 2, answer: 'c' },
+      ],
+      manualGrades: [],
+      expected: { totalScore: 2, maxScore: 7, percentage: 29, gradeLetter: 'F', correctCount: 0, autoGradedCount: 3, pendingManualCount: 1 },
+    },
+    {
+      name: 'examiner grade counts towards the score',
+      answers: [
+        { question_number: 1, answer: 'b' },
+        { question_number: 2, answer: 'a,c' },
+        { question_number: 3, answer: '9.81' },
+        { question_number: 4, answer: 'Free fall' },
+      ],
+      manualGrades: [{ question_number: 4, points_awarded: 3 }],
+      expected: { totalScore: 10, maxScore: 12, percentage: 83, gradeLetter: 'A-', correctCount: 3, autoGradedCount: 4, pendingManualCount: 0 },
+    },
+  ])('$name', ({ answers, manualGrades, expected }) => {
+    expect(gradeExam(questions, answers, { manualGrades })).toMatchObject(expected);
+  });
+
+  it('grades questions in question order regardless of input order', () => {
+    const grade = gradeExam([...questions].reverse(), []);
+    expect(grade.questions.map(q => q.question_number)).toEqual([1, 2, 3, 4]);
+    expect(grade.questions.map(q => q.status)).toEqual(['unanswered', 'unanswered', 'unanswered', 'manual']);
+  });
+
+  it('leaves 0-point questions out of the maximum score', () => {
+    const grade = gradeExam(
+      [question({}), question({ question_number: 2, points: 0 })],
+      [
+        { question_number: 1, answer: 'b' },
+        { question_number: 2, answer: 'b' },
+      ]
+    );
+    expect(grade).toMatchObject({ totalScore: 2, maxScore: 2, percentage: 100 });
+  });
+
+  it('uses the template grade scale', () => {
+    const gradeScale = [
+      { letter: 'Pass', min: 50 },
+      { letter: 'Fail', min: 0 },
+    ];
+    const grade = gradeExam([question({})], [{ question_number: 1, answer: 'b' }], { gradeScale });
+    expect(grade.gradeLetter).toBe('Pass');
+  });
+
+  it('scores an exam of only manual questions as 0/0 until graded', () => {
+    const grade = gradeExam([shortAnswer], [{ question_number: 1, answer: 'Text' }]);
+    expect(grade).toMatchObject({ totalScore: 0, maxScore: 0, percentage: 0, pendingManualCount: 1 });
+  });
+});
@@ -0,0 +1,213 @@
+import type { Json } from '@/integrations/supabase/types';
+import { isAnswered, scoreAnswer, type QuestionDefinition } from '@/utils/questionTypes';
+
+// Exam grading shared by the exam page (on submit), StudentReport and the admin pages.
+// Pure functions only - no Supabase access - so results are identical wherever they run.
+
+export interface GradeBand {
+  letter: string;
+  // Minimum percentage (inclusive) for this letter
+  min: number;
+}
+
+export type GradeScale = GradeBand[];
+
+export const DEFAULT_GRADE_SCALE: GradeScale = [
+  { letter: 'A+', min: 90 },
+  { letter: 'A', min: 85 },
+  { letter: 'A-', min: 80 },
+  { letter: 'B+', min: 75 },
+  { letter: 'B', min: 70 },
+  { letter: 'B-', min: 65 },
+  { letter: 'C+', min: 60 },
+  { letter: 'C', min: 55 },
+  { letter: 'C-', min: 50 },
+  { letter: 'D', min: 40 },
+  { letter: 'F', min: 0 },
+];
+
+export type QuestionGradeStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'manual';
+
+export interface GradableQuestion extends QuestionDefinition {
+  question_number: number;
+  points?: number | null;
+}
+
+export interface GradableAnswer {
+  question_number: number;
+  answer?: string | null;
+}
+
+export interface QuestionGrade {
+  question_number: number;
+  status: QuestionGradeStatus;
+  pointsPossible: number;
+  // null while the question is waiting for manual grading
+  pointsEarned: number | null;
+  fraction: number | null;
+}
+
+export interface ExamGrade {
+  questions: QuestionGrade[];
+  totalScore: number;
+  maxScore: number;
+  percentage: number;
+  gradeLetter: string;
+  correctCount: number;
+  autoGradedCount: number;
+  pendingManualCount: number;
+}
+
+// Examiner's grade for a manually graded question (answer_grades row)
+export interface ManualGrade {
+  question_number: number;
+  points_awarded: number;
+}
+
+export interface GradeOptions {
+  gradeScale?: GradeScale;
+  manualGrades?: ManualGrade[];
+}
+
+export interface RubricCriterion {
+  id: string;
+  description: string;
+  points: number;
+}
+
+const roundPoints = (points: number) => Math.round(points * 100) / 100;
+
+// Reads exam_templates.grade_scale, falling back to the default scale when missing or malformed
+export const parseGradeScale = (value: Json | null | undefined): GradeScale => {
+  if (!Array.isArray(value)) return DEFAULT_GRADE_SCALE;
+
+  const bands = value
+    .map(band => {
+      if (!band || typeof band !== 'object' || Array.isArray(band)) return null;
+      const { letter, min } = band as Record<string, Json>;
+      if (typeof letter !== 'string' || !letter.trim() || typeof min !== 'number') return null;
+      return { letter: letter.trim(), min };
+    })
+    .filter((band): band is GradeBand => band !== null);
+
+  return bands.length > 0 ? bands : DEFAULT_GRADE_SCALE;
+};
+
+export const letterGrade = (percentage: number, scale: GradeScale = DEFAULT_GRADE_SCALE): string => {
+  const sorted = [...scale].sort((a, b) => b.min - a.min);
+  const band = sorted.find(b => percentage >= b.min);
+  // Below the lowest band: use the lowest letter
+  return band ? band.letter : sorted[sorted.length - 1]?.letter || 'F';
+};
+
+export const calculatePercentage = (totalScore: number, maxScore: number): number =>
+  maxScore > 0 ? Math.round((totalScore / maxScore) * 100) : 0;
+
+// Percentage and letter for an already stored total (exams.total_score / exams.max_score)
+export const gradeFromTotals = (
+  totalScore: number | null | undefined,
+  maxScore: number | null | undefined,
+  scale: GradeScale = DEFAULT_GRADE_SCALE
+): { percentage: number; gradeLetter: string } | null => {
+  if (typeof totalScore !== 'number' || typeof maxScore !== 'number' || maxScore <= 0) return null;
+  const percentage = calculatePercentage(totalScore, maxScore);
+  return { percentage, gradeLetter: letterGrade(percentage, scale) };
+};
+
+// Reads exam_questions.rubric, dropping malformed criteria
+export const parseRubric = (value: Json | null | undefined): RubricCriterion[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map((criterion, index) => {
+      if (!criterion || typeof criterion !== 'object' || Array.isArray(criterion)) return null;
+      const { id, description, points } = criterion as Record<string, Json>;
+      if (typeof description !== 'string' || typeof points !== 'number' || points < 0) return null;
+      return { id: typeof id === 'string' && id ? id : `c${index + 1}`, description, points };
+    })
+    .filter((criterion): criterion is RubricCriterion => criterion !== null);
+};
+
+export const rubricMaxPoints = (rubric: RubricCriterion[]) =>
+  roundPoints(rubric.reduce((sum, criterion) => sum + criterion.points, 0));
+
+const statusForFraction = (fraction: number, answer?: string | null): QuestionGradeStatus => {
+  if (!isAnswered(answer)) return 'unanswered';
+  if (fraction >= 1) return 'correct';
+  if (fraction > 0) return 'partial';
+  return 'incorrect';
+};
+
+// manualPoints is the examiner's award for questions that can't be auto-graded
+export const gradeQuestion = (
+  question: GradableQuestion,
+  answer?: string | null,
+  manualPoints?: number | null
+): QuestionGrade => {
+  // Only a missing value defaults to 1: a question worth 0 (practice, ungraded) stays worth 0
+  const pointsPossible = question.points ?? 1;
+  const fraction = scoreAnswer(question, answer);
+
+  if (fraction === null && typeof manualPoints === 'number') {
+    const pointsEarned = roundPoints(Math.min(Math.max(manualPoints, 0), pointsPossible));
+    // Nothing can be lost on a 0-point question
+    const awardedFraction = pointsPossible > 0 ? pointsEarned / pointsPossible : 1;
+    return {
+      question_number: question.question_number,
+      status: statusForFraction(awardedFraction, answer),
+      pointsPossible,
+      pointsEarned,
+      fraction: awardedFraction,
+    };
+  }
+
+  if (fraction === null) {
+    return {
+      question_number: question.question_number,
+      status: 'manual',
+      pointsPossible,
+      pointsEarned: null,
+      fraction: null,
+    };
+  }
+
+  return {
+    question_number: question.question_number,
+    status: statusForFraction(fraction, answer),
+    pointsPossible,
+    pointsEarned: roundPoints(pointsPossible * fraction),
+    fraction,
+  };
+};
+
+// Grades every question of the exam; questions without an answer row count as unanswered.
+// Questions that need manual grading are excluded from the score until an examiner grades them.
+export const gradeExam = (
+  questions: GradableQuestion[],
+  answers: GradableAnswer[],
+  options: GradeOptions = {}
+): ExamGrade => {
+  const answerMap = new Map(answers.map(a => [a.question_number, a.answer]));
+  const manualMap = new Map((options.manualGrades || []).map(g => [g.question_number, g.points_awarded]));
+  const results = [...questions]
+    .sort((a, b) => a.question_number - b.question_number)
+    .map(question =>
+      gradeQuestion(question, answerMap.get(question.question_number), manualMap.get(question.question_number))
+    );
+
+  const autoGraded = results.filter(r => r.pointsEarned !== null);
+  const totalScore = roundPoints(autoGraded.reduce((sum, r) => sum + (r.pointsEarned || 0), 0));
+  const maxScore = roundPoints(autoGraded.reduce((sum, r) => sum + r.pointsPossible, 0));
+  const percentage = calculatePercentage(totalScore, maxScore);
+
+  return {
+    questions: results,
+    totalScore,
+    maxScore,
+    percentage,
+    gradeLetter: letterGrade(percentage, options.gradeScale),
+    correctCount: results.filter(r => r.status === 'correct').length,
+    autoGradedCount: autoGraded.length,
+    pendingManualCount: results.length - autoGraded.length,
+  };
+};
@@ -0,0 +1,257 @@
+// Head pose and gaze from MediaPipe face mesh landmarks (utils/faceLandmarks.ts), measured in
+// the browser during the exam so looking away is timed rather than inferred from single frames.
+//
+// Head yaw/pitch/roll come from the face's own axes in the mesh (eye corner to eye corner, forehead
+// to chin); where the eyes point within the head comes from the iris landmarks. Both are taken
+// relative to the student's straight-at-the-screen pose measured on the verify page, smoothed over
+// time, and turned into looking-away episodes with a direction and duration ("down-left for 7s").
+// Angles are in degrees from the student's point of view: yaw positive to their left, pitch
+// positive up, roll positive with the head tilted towards their left shoulder.
+
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+export interface GazeSample extends HeadPose {
+  // Iris position within the eye, -1 to 1: positive towards the student's left / up
+  eyeX: number;
+  eyeY: number;
+}
+
+// The straight-at-the-screen sample everything is measured against
+export type GazeCalibration = GazeSample;
+
+// Where the student is looking relative to the calibration, after smoothing
+export interface GazeDirection {
+  t: number;
+  yaw: number;
+  pitch: number;
+}
+
+export interface LookingAwayEpisode {
+  // e.g. "down-left"; the direction held longest during the episode
+  direction: string;
+  startedAt: number;
+  durationMs: number;
+  // Furthest gaze offsets reached, in degrees
+  peakYaw: number;
+  peakPitch: number;
+  // True when the episode was cut at LOOKING_AWAY_MAX_EPISODE_MS and is still going on
+  ongoing: boolean;
+}
+
+// Gaze offsets that count as off the screen
+export const LOOKING_AWAY_YAW_DEG = 25;
+export const LOOKING_AWAY_PITCH_DEG = 20;
+// Back on the screen only below this share of the thresholds, so the edge doesn't flicker
+const RETURN_RATIO = 0.8;
+// Shorter glances are ignored
+export const LOOKING_AWAY_MIN_EPISODE_MS = 2000;
+// Longer episodes are reported at this point and then counted afresh
+export const LOOKING_AWAY_MAX_EPISODE_MS = 30000;
+// How far the eyes can turn within the head, for the iris offset at -1/1
+const EYE_YAW_RANGE_DEG = 35;
+const EYE_PITCH_RANGE_DEG = 25;
+// Time constant of the exponential smoothing
+const SMOOTHING_MS = 400;
+
+// Face mesh indices; the iris centres need refineLandmarks
+const RIGHT_EYE_OUTER = 33;
+const RIGHT_EYE_INNER = 133;
+const RIGHT_EYE_UPPER = 159;
+const RIGHT_EYE_LOWER = 145;
+const RIGHT_IRIS = 468;
+const LEFT_EYE_INNER = 362;
+const LEFT_EYE_OUTER = 263;
+const LEFT_EYE_UPPER = 386;
+const LEFT_EYE_LOWER = 374;
+const LEFT_IRIS = 473;
+const FOREHEAD = 10;
+const CHIN = 152;
+
+type Vector = [number, number, number];
+
+const degrees = (radians: number) => (radians * 180) / Math.PI;
+const subtract = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vector, b: Vector): Vector => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+const normalize = (v: Vector): Vector => {
+  const length = Math.hypot(...v) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+};
+
+// Landmarks are normalized to the frame (z to its width); back to one scale for angles
+const point = (landmarks: Landmark[], index: number, width: number, height: number): Vector => [
+  landmarks[index].x * width,
+  landmarks[index].y * height,
+  landmarks[index].z * width,
+];
+
+// Yaw, pitch and roll of the head. Camera image coordinates (not mirrored): x right, y down,
+// z away from the camera, so the student's left eye is on the image's right.
+export const headPose = (landmarks: Landmark[], width: number, height: number): HeadPose => {
+  const across = normalize(subtract(point(landmarks, LEFT_EYE_OUTER, width, height), point(landmarks, RIGHT_EYE_OUTER, width, height)));
+  const forward = normalize(cross(across, subtract(point(landmarks, CHIN, width, height), point(landmarks, FOREHEAD, width, height))));
+  // Forehead to chin, made square to the other two axes
+  const down = cross(forward, across);
+
+  return {
+    // Turning to their left moves the left eye away from the camera
+    yaw: degrees(Math.atan2(across[2], across[0])),
+    // Looking up brings the chin towards the camera
+    pitch: degrees(Math.atan2(-down[2], down[1])),
+    roll: degrees(Math.atan2(across[1], across[0])),
+  };
+};
+
+// Position of p along a to b, 0 at a and 1 at b
+const along = (p: Landmark, a: Landmark, b: Landmark) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = dx * dx + dy * dy;
+  return length === 0 ? 0.5 : ((p.x - a.x) * dx + (p.y - a.y) * dy) / length;
+};
+
+// Iris offset from the middle of each eye, averaged over both eyes
+export const eyeOffset = (landmarks: Landmark[]): { eyeX: number; eyeY: number } => {
+  if (landmarks.length <= LEFT_IRIS) return { eyeX: 0, eyeY: 0 };
+  const right = {
+    x: along(landmarks[RIGHT_IRIS], landmarks[RIGHT_EYE_OUTER], landmarks[RIGHT_EYE_INNER]),
+    y: along(landmarks[RIGHT_IRIS], landmarks[RIGHT_EYE_UPPER], landmarks[RIGHT_EYE_LOWER]),
+  };
+  const left = {
+    x: along(landmarks[LEFT_IRIS], landmarks[LEFT_EYE_INNER], landmarks[LEFT_EYE_OUTER]),
+    y: along(landmarks[LEFT_IRIS], landmarks[LEFT_EYE_UPPER], landmarks[LEFT_EYE_LOWER]),
+  };
+  return {
+    eyeX: ((right.x + left.x) / 2 - 0.5) * 2,
+    eyeY: (0.5 - (right.y + left.y) / 2) * 2,
+  };
+};
+
+export const gazeSample = (landmarks: Landmark[], width: number, height: number): GazeSample => ({
+  ...headPose(landmarks, width, height),
+  ...eyeOffset(landmarks),
+});
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Median of each value, so a blink or a twitch during calibration doesn't shift it
+export const calibrationFromSamples = (samples: GazeSample[]): GazeCalibration | null => {
+  if (samples.length === 0) return null;
+  return {
+    yaw: median(samples.map(sample => sample.yaw)),
+    pitch: median(samples.map(sample => sample.pitch)),
+    roll: median(samples.map(sample => sample.roll)),
+    eyeX: median(samples.map(sample => sample.eyeX)),
+    eyeY: median(samples.map(sample => sample.eyeY)),
+  };
+};
+
+// Head and eyes combined, relative to the calibration
+export const gazeOffset = (sample: GazeSample, calibration: GazeCalibration): { yaw: number; pitch: number } => ({
+  yaw: sample.yaw - calibration.yaw + (sample.eyeX - calibration.eyeX) * EYE_YAW_RANGE_DEG,
+  pitch: sample.pitch - calibration.pitch + (sample.eyeY - calibration.eyeY) * EYE_PITCH_RANGE_DEG,
+});
+
+// Exponential smoothing that copes with an uneven sample rate
+export const smoothGaze = (previous: GazeDirection | null, next: GazeDirection): GazeDirection => {
+  if (!previous) return next;
+  const weight = 1 - Math.exp(-Math.max(0, next.t - previous.t) / SMOOTHING_MS);
+  return {
+    t: next.t,
+    yaw: previous.yaw + (next.yaw - previous.yaw) * weight,
+    pitch: previous.pitch + (next.pitch - previous.pitch) * weight,
+  };
+};
+
+// "down-left", "right", "up"... or null while on the screen. Leaving takes the full threshold,
+// coming back RETURN_RATIO of it.
+export const gazeDirection = (gaze: GazeDirection, wasAway: boolean): string | null => {
+  const ratio = wasAway ? RETURN_RATIO : 1;
+  const vertical = gaze.pitch >= LOOKING_AWAY_PITCH_DEG * ratio ? 'up' : gaze.pitch <= -LOOKING_AWAY_PITCH_DEG * ratio ? 'down' : '';
+  const horizontal = gaze.yaw >= LOOKING_AWAY_YAW_DEG * ratio ? 'left' : gaze.yaw <= -LOOKING_AWAY_YAW_DEG * ratio ? 'right' : '';
+  return [vertical, horizontal].filter(Boolean).join('-') || null;
+};
+
+export interface LookingAwayState {
+  startedAt: number;
+  lastAt: number;
+  // Time spent in each direction so far
+  directionMs: Record<string, number>;
+  lastDirection: string;
+  peakYaw: number;
+  peakPitch: number;
+}
+
+const toEpisode = (state: LookingAwayState, endedAt: number, ongoing: boolean): LookingAwayEpisode => ({
+  direction: Object.entries(state.directionMs).sort((a, b) => b[1] - a[1])[0]?.[0] ?? state.lastDirection,
+  startedAt: state.startedAt,
+  durationMs: endedAt - state.startedAt,
+  peakYaw: state.peakYaw,
+  peakPitch: state.peakPitch,
+  ongoing,
+});
+
+const furthest = (a: number, b: number) => (Math.abs(b) > Math.abs(a) ? b : a);
+
+// Feeds one smoothed gaze reading (null when no face was seen) into the episode tracker.
+// Returns the new state and, when one finished, the episode to report.
+export const trackLookingAway = (
+  state: LookingAwayState | null,
+  gaze: GazeDirection | null
+): { state: LookingAwayState | null; episode: LookingAwayEpisode | null } => {
+  const direction = gaze ? gazeDirection(gaze, state !== null) : null;
+
+  if (!gaze || !direction) {
+    // Back on the screen, or the face is gone (no_person is the server's to report)
+    if (!state) return { state: null, episode: null };
+    const endedAt = gaze ? gaze.t : state.lastAt;
+    const episode = endedAt - state.startedAt >= LOOKING_AWAY_MIN_EPISODE_MS ? toEpisode(state, endedAt, false) : null;
+    return { state: null, episode };
+  }
+
+  if (!state) {
+    return {
+      state: { startedAt: gaze.t, lastAt: gaze.t, directionMs: {}, lastDirection: direction, peakYaw: gaze.yaw, peakPitch: gaze.pitch },
+      episode: null,
+    };
+  }
+
+  const next: LookingAwayState = {
+    ...state,
+    lastAt: gaze.t,
+    directionMs: { ...state.directionMs, [direction]: (state.directionMs[direction] ?? 0) + (gaze.t - state.lastAt) },
+    lastDirection: direction,
+    peakYaw: furthest(state.peakYaw, gaze.yaw),
+    peakPitch: furthest(state.peakPitch, gaze.pitch),
+  };
+  if (gaze.t - next.startedAt >= LOOKING_AWAY_MAX_EPISODE_MS) {
+    return {
+      state: { startedAt: gaze.t, lastAt: gaze.t, directionMs: {}, lastDirection: direction, peakYaw: gaze.yaw, peakPitch: gaze.pitch },
+      episode: toEpisode(next, gaze.t, true),
+    };
+  }
+  return { state: next, episode: null };
+};
+
+export const formatEpisode = (episode: LookingAwayEpisode) =>
+  `${episode.direction} for ${Math.round(episode.durationMs / 1000)}s${episode.ongoing ? ' (still looking away)' : ''}`;
+
+export const episodeSeverity = (episode: LookingAwayEpisode): 'low' | 'medium' | 'high' =>
+  episode.durationMs >= 10000 ? 'high' : episode.durationMs >= 5000 ? 'medium' : 'low';
@@ -0,0 +1,143 @@
+// ID card capture for StudentVerify: an on-screen guide the size of an ID-1 card (the credit card
+// format student cards use), edge detection to find where the card actually is around that guide,
+// cropping, and OCR of the printed text with tesseract.js (WebAssembly, runs in the browser; the
+// engine and English data are fetched from the jsDelivr CDN on first use). The cross-check itself
+// is in utils/idVerification.ts.
+
+export interface CardRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CardEdges extends CardRect {
+  // Weakest edge's gradient peak over its surroundings; 1 is no edge at all
+  confidence: number;
+  // False when no clear card outline was found and the guide itself was used
+  detected: boolean;
+}
+
+// Minimal ImageData shape, so the detection can run on any RGBA buffer
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// ISO/IEC 7810 ID-1: 85.60 x 53.98 mm
+export const ID_CARD_ASPECT = 85.6 / 53.98;
+const GUIDE_WIDTH_SHARE = 0.7;
+const GUIDE_MAX_HEIGHT_SHARE = 0.8;
+// How far either side of each guide edge the real card edge is searched for, as a share of the guide
+const EDGE_SEARCH_BAND = 0.15;
+export const EDGE_CONFIDENCE_MIN = 2;
+// Detected outlines further than this from the card's aspect ratio are treated as wrong
+const ASPECT_TOLERANCE = 0.2;
+// OCR reads small print far better from an upscaled crop
+export const CARD_OUTPUT_WIDTH = 1000;
+
+// Centred card-shaped guide for a frame of the given size
+export const guideRect = (width: number, height: number): CardRect => {
+  let guideWidth = width * GUIDE_WIDTH_SHARE;
+  let guideHeight = guideWidth / ID_CARD_ASPECT;
+  if (guideHeight > height * GUIDE_MAX_HEIGHT_SHARE) {
+    guideHeight = height * GUIDE_MAX_HEIGHT_SHARE;
+    guideWidth = guideHeight * ID_CARD_ASPECT;
+  }
+  return { x: (width - guideWidth) / 2, y: (height - guideHeight) / 2, width: guideWidth, height: guideHeight };
+};
+
+const luma = (image: RgbaImage, x: number, y: number) => {
+  const i = (y * image.width + x) * 4;
+  return 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+// Strongest brightness step across the lines from..to (rows for horizontal edges, columns for
+// vertical ones), measured along spanStart..spanEnd of each line
+const findEdge = (
+  image: RgbaImage,
+  orientation: 'horizontal' | 'vertical',
+  from: number,
+  to: number,
+  spanStart: number,
+  spanEnd: number
+) => {
+  const lineMax = orientation === 'horizontal' ? image.height - 2 : image.width - 2;
+  const spanMax = orientation === 'horizontal' ? image.width - 1 : image.height - 1;
+  const first = clamp(from, 1, lineMax);
+  const last = clamp(to, 1, lineMax);
+  const start = clamp(spanStart, 0, spanMax);
+  const end = clamp(spanEnd, 0, spanMax);
+
+  const profile: number[] = [];
+  for (let line = first; line <= last; line++) {
+    let sum = 0;
+    let count = 0;
+    for (let along = start; along <= end; along += 2) {
+      sum += orientation === 'horizontal'
+        ? Math.abs(luma(image, along, line + 1) - luma(image, along, line - 1))
+        : Math.abs(luma(image, line + 1, along) - luma(image, line - 1, along));
+      count++;
+    }
+    profile.push(count ? sum / count : 0);
+  }
+  if (profile.length === 0) return { position: from, confidence: 1 };
+
+  const peak = Math.max(...profile);
+  const mean = profile.reduce((a, b) => a + b, 0) / profile.length;
+  return { position: first + profile.indexOf(peak), confidence: mean > 0 ? peak / mean : 1 };
+};
+
+// The card's outline near the guide. Each edge is the strongest brightness step in a band around
+// the matching guide edge, measured over the middle of that edge so corners and fingers holding
+// the card count less. Falls back to the guide when an edge is weak or the shape isn't card-like.
+export const findCardEdges = (image: RgbaImage, guide: CardRect): CardEdges => {
+  const bandX = guide.width * EDGE_SEARCH_BAND;
+  const bandY = guide.height * EDGE_SEARCH_BAND;
+  const spanX: [number, number] = [guide.x + guide.width * 0.2, guide.x + guide.width * 0.8];
+  const spanY: [number, number] = [guide.y + guide.height * 0.2, guide.y + guide.height * 0.8];
+  const bottomGuide = guide.y + guide.height;
+  const rightGuide = guide.x + guide.width;
+
+  const top = findEdge(image, 'horizontal', guide.y - bandY, guide.y + bandY, ...spanX);
+  const bottom = findEdge(image, 'horizontal', bottomGuide - bandY, bottomGuide + bandY, ...spanX);
+  const left = findEdge(image, 'vertical', guide.x - bandX, guide.x + bandX, ...spanY);
+  const right = findEdge(image, 'vertical', rightGuide - bandX, rightGuide + bandX, ...spanY);
+
+  const rect = {
+    x: left.position,
+    y: top.position,
+    width: right.position - left.position,
+    height: bottom.position - top.position,
+  };
+  const confidence = Math.min(top.confidence, bottom.confidence, left.confidence, right.confidence);
+  const aspect = rect.height > 0 ? rect.width / rect.height : 0;
+  const detected = confidence >= EDGE_CONFIDENCE_MIN && Math.abs(aspect / ID_CARD_ASPECT - 1) <= ASPECT_TOLERANCE;
+  return detected ? { ...rect, confidence, detected } : { ...guide, confidence, detected };
+};
+
+// Copies a region of the source scaled to outputWidth
+export const cropToCanvas = (source: CanvasImageSource, rect: CardRect, outputWidth: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(outputWidth);
+  canvas.height = Math.round(outputWidth * (rect.height / rect.width));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Printed text on the card
+export const readCardText = async (card: HTMLCanvasElement): Promise<string> => {
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker('eng');
+  try {
+    const { data } = await worker.recognize(card);
+    return data.text;
+  } finally {
+    await worker.terminate();
+  }
+};
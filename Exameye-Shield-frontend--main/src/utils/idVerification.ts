@@ -0,0 +1,67 @@
+// Photo ID cross-check for StudentVerify. The card captured on camera (utils/idCard.ts) is
+// sent with the live frame to the proctoring service (backend/id_verification.py), which
+// compares the card photo with the live face and the card text with students.name and roll_no.
+//
+// Only a result that is clear both ways is decided automatically. Everything else goes to an
+// admin (id_verifications.status = 'pending_review') and the verify page waits for the decision.
+// The service decides and stores the check itself, so the page never supplies the scores.
+
+import type { CardEdges } from '@/utils/idCard';
+
+export type IdCheckStatus = 'auto_approved' | 'auto_rejected' | 'pending_review' | 'approved' | 'rejected';
+
+// How often the verify page checks for an admin's decision
+export const ID_REVIEW_POLL_MS = 5000;
+
+export interface IdCheckRequest {
+  studentId: string;
+  examId: string | null;
+  // Cropped card and live frame, as data URLs
+  cardBase64: string;
+  liveBase64: string;
+  ocrText: string;
+  cardImageUrl: string;
+  liveImageUrl: string | null;
+  // Where the card was found in the camera frame, kept with the check for the reviewer
+  cardEdges: CardEdges;
+}
+
+export interface IdCheckResult {
+  // id_verifications.id
+  id: string;
+  status: IdCheckStatus;
+  // One line per signal, for the admin reviewing the capture
+  reasons: string[];
+  // Null when no face was found on either image or the service has no face models
+  face_similarity: number | null;
+  name_score: number;
+  roll_no_match: boolean;
+  threshold: number;
+}
+
+const apiUrl = () => import.meta.env.VITE_PROCTORING_API_URL || window.location.origin;
+
+// Has the proctoring service check the card and record the result in id_verifications
+export const submitIdCheck = async (request: IdCheckRequest): Promise<IdCheckResult> => {
+  const response = await fetch(`${apiUrl()}/api/id/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      student_id: request.studentId,
+      exam_id: request.examId,
+      card_base64: request.cardBase64,
+      live_base64: request.liveBase64,
+      ocr_text: request.ocrText,
+      card_image_url: request.cardImageUrl,
+      live_image_url: request.liveImageUrl,
+      card_edges: request.cardEdges,
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`ID check failed: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+};
+
+export const isIdCheckApproved = (status: IdCheckStatus) => status === 'auto_approved' || status === 'approved';
+export const isIdCheckRejected = (status: IdCheckStatus) => status === 'auto_rejected' || status === 'rejected';
@@ -0,0 +1,199 @@
+// Active liveness challenge for StudentVerify. A photo or a replayed video shows a face but
+// can't follow instructions it hasn't seen, so the student is asked for a short randomized
+// sequence: turn the head left and right, blink twice and read a random number aloud.
+//
+// Head turns and blinks are read from MediaPipe face mesh landmarks (utils/faceLandmarks.ts),
+// measured against the student's own straight-ahead pose taken just before the first step.
+// The number is checked against the browser's speech recognition where it is available, or
+// else against the microphone's energy envelope (enough voiced time above the quiet baseline).
+// The result, with an evidence frame per step, is saved with the compatibility_checks record.
+
+export type LivenessStepKind = 'turn_left' | 'turn_right' | 'blink' | 'say_number';
+
+export interface LivenessStep {
+  kind: LivenessStepKind;
+  // Digits to read aloud, say_number only
+  number?: string;
+}
+
+export const LIVENESS_READY_MS = 1500;
+export const LIVENESS_STEP_TIMEOUT_MS: Record<LivenessStepKind, number> = {
+  turn_left: 6000,
+  turn_right: 6000,
+  blink: 6000,
+  say_number: 8000,
+};
+// Yaw offset (see yawOffset) from the straight-ahead pose that counts as a turn
+export const TURN_THRESHOLD = 0.35;
+// Eye aspect ratio below this share of the open-eye ratio counts as closed, above OPEN as open again
+export const BLINK_CLOSED_RATIO = 0.65;
+export const BLINK_OPEN_RATIO = 0.85;
+// Closed for longer than this is eyes shut, not a blink
+export const BLINK_MAX_CLOSED_MS = 600;
+export const BLINKS_REQUIRED = 2;
+export const NUMBER_DIGITS = 4;
+// Voiced time needed when there is no transcript; four digits take about a second to say
+export const VOICED_MIN_MS = 800;
+
+export interface LivenessStepResult {
+  kind: LivenessStepKind;
+  number?: string;
+  passed: boolean;
+  detail: string;
+  durationMs: number;
+  // Frame taken when the step passed or timed out: a data URL until uploaded, then its public URL
+  evidence?: string;
+}
+
+export interface LivenessResult {
+  passed: boolean;
+  // What went wrong, for the student
+  message: string;
+  steps: LivenessStepResult[];
+  // How say_number was checked
+  speechMethod: 'transcript' | 'energy';
+  startedAt: string;
+  completedAt: string;
+}
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Head turns and blink in random order, with the number read at a random point
+export const createChallenge = (random: () => number = Math.random): LivenessStep[] => {
+  const number = Array.from({ length: NUMBER_DIGITS }, () => Math.floor(random() * 10)).join('');
+  const steps: LivenessStep[] = shuffle<LivenessStep>(
+    [{ kind: 'turn_left' }, { kind: 'turn_right' }, { kind: 'blink' }],
+    random
+  );
+  steps.splice(Math.floor(random() * (steps.length + 1)), 0, { kind: 'say_number', number });
+  return steps;
+};
+
+export const stepPrompt = (step: LivenessStep): string => {
+  switch (step.kind) {
+    case 'turn_left':
+      return 'Turn your head to your LEFT';
+    case 'turn_right':
+      return 'Turn your head to your RIGHT';
+    case 'blink':
+      return `Blink ${BLINKS_REQUIRED} times`;
+    case 'say_number':
+      return `Read this number aloud: ${step.number?.split('').join(' ')}`;
+  }
+};
+
+// ---- Face landmarks ----
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Face mesh indices: eye corners p1/p4, upper lid p2/p3, lower lid p6/p5
+const RIGHT_EYE = [33, 160, 158, 133, 153, 144];
+const LEFT_EYE = [362, 385, 387, 263, 373, 380];
+const NOSE_TIP = 1;
+const RIGHT_CHEEK = 234;
+const LEFT_CHEEK = 454;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const singleEyeRatio = (landmarks: Point[], [p1, p2, p3, p4, p5, p6]: number[]) => {
+  const width = distance(landmarks[p1], landmarks[p4]);
+  if (width === 0) return 0;
+  return (distance(landmarks[p2], landmarks[p6]) + distance(landmarks[p3], landmarks[p5])) / (2 * width);
+};
+
+// Eye aspect ratio averaged over both eyes: roughly 0.25-0.3 open, near 0 closed
+export const eyeAspectRatio = (landmarks: Point[]): number =>
+  (singleEyeRatio(landmarks, RIGHT_EYE) + singleEyeRatio(landmarks, LEFT_EYE)) / 2;
+
+// Where the nose tip sits between the cheeks, -1 to 1: 0 facing the camera, positive when the
+// student turns to their left. Landmarks are in camera image coordinates (not mirrored).
+export const yawOffset = (landmarks: Point[]): number => {
+  const right = landmarks[RIGHT_CHEEK];
+  const left = landmarks[LEFT_CHEEK];
+  const width = left.x - right.x;
+  if (width === 0) return 0;
+  return ((landmarks[NOSE_TIP].x - right.x) / width - 0.5) * 2;
+};
+
+export interface LandmarkSample {
+  t: number;
+  ear: number;
+  yaw: number;
+}
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const detectTurn = (
+  samples: LandmarkSample[],
+  direction: 'turn_left' | 'turn_right',
+  baselineYaw: number
+): boolean =>
+  samples.some(sample => {
+    const offset = sample.yaw - baselineYaw;
+    return direction === 'turn_left' ? offset >= TURN_THRESHOLD : offset <= -TURN_THRESHOLD;
+  });
+
+// Eyes going from open to closed and back within BLINK_MAX_CLOSED_MS; openEar is the
+// straight-ahead eye aspect ratio
+export const countBlinks = (samples: LandmarkSample[], openEar: number): number => {
+  let blinks = 0;
+  let closedAt: number | null = null;
+  samples.forEach(sample => {
+    if (closedAt === null) {
+      if (sample.ear < openEar * BLINK_CLOSED_RATIO) closedAt = sample.t;
+    } else if (sample.ear > openEar * BLINK_OPEN_RATIO) {
+      if (sample.t - closedAt <= BLINK_MAX_CLOSED_MS) blinks++;
+      closedAt = null;
+    }
+  });
+  return blinks;
+};
+
+// ---- Speech ----
+
+export interface LevelSample {
+  t: number;
+  // Mean analyser frequency magnitude, 0-255, as measured elsewhere on the verify page
+  level: number;
+}
+
+// Time spent clearly above the quiet baseline
+export const voicedDuration = (levels: LevelSample[], baseline: number): number => {
+  const threshold = baseline + Math.max(5, baseline * 0.5);
+  let voiced = 0;
+  for (let i = 1; i < levels.length; i++) {
+    if (levels[i].level >= threshold) voiced += levels[i].t - levels[i - 1].t;
+  }
+  return voiced;
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', o: '0', one: '1', two: '2', to: '2', too: '2', three: '3', four: '4', for: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+// Digits in a transcript, spelled out or not: "four 7 one nine" -> "4719"
+export const digitsFromTranscript = (transcript: string): string =>
+  transcript
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .map(word => (/^\d+$/.test(word) ? word : DIGIT_WORDS[word] ?? ''))
+    .join('');
+
+export const transcriptMatches = (transcript: string, number: string): boolean =>
+  digitsFromTranscript(transcript).includes(number);
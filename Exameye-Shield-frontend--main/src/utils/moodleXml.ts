@@ -0,0 +1,385 @@
+import { createDraft, joinMatchingOption, type QuestionDraft } from '@/utils/templateDraft';
+import {
+  escapeXml,
+  hasMedia,
+  htmlToText,
+  moodleFraction,
+  tidyText,
+  type ExportQuestion,
+  type ExportTemplateInfo,
+  type ImportIssue,
+  type ImportedQuestion,
+  type QuestionSetExport,
+  type QuestionSetImport,
+} from '@/utils/questionFormats';
+import {
+  getChoiceOptions,
+  getMatchingOptions,
+  getQuestionConfig,
+  getQuestionType,
+  optionKey,
+  parseBoolean,
+  parseKeyList,
+  parsePairs,
+} from '@/utils/questionTypes';
+
+// Moodle XML question export files (<quiz> with one <question type="..."> per question).
+// Multiple choice, true/false, short answer, essay, numerical and matching questions are
+// supported; Moodle's short answer is auto-graded by exact match, so it comes in as a
+// manually graded short answer with the accepted answers as the model answer.
+
+interface QuestionContext {
+  item: string;
+  line?: number;
+  issues: ImportIssue[];
+}
+
+const note = (context: QuestionContext, message: string, skipped = false) => {
+  context.issues.push({ item: context.item, line: context.line, message, skipped });
+};
+
+const child = (parent: Element, name: string): Element | null =>
+  Array.from(parent.children).find(el => el.localName === name) || null;
+
+const children = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter(el => el.localName === name);
+
+// Text of a <name>/<questiontext>/<answer> style element: its <text> child, converted from
+// HTML unless the format says otherwise
+const elementText = (element: Element | null): string => {
+  if (!element) return '';
+  const raw = child(element, 'text')?.textContent || '';
+  const format = element.getAttribute('format') || 'html';
+  return format === 'html' || format === 'moodle_auto_format' ? htmlToText(raw) : tidyText(raw);
+};
+
+const rawHtml = (element: Element | null) => (element && child(element, 'text')?.textContent) || '';
+
+interface MoodleAnswer {
+  text: string;
+  fraction: number;
+  element: Element;
+}
+
+const readAnswers = (question: Element): MoodleAnswer[] =>
+  children(question, 'answer').map(answer => ({
+    text: elementText(answer),
+    fraction: parseFloat(answer.getAttribute('fraction') || '0') || 0,
+    element: answer,
+  }));
+
+// Line of each top-level <question> in the source, in document order
+const questionLines = (source: string): number[] => {
+  const lines: number[] = [];
+  const pattern = /<question[\s>]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    lines.push(source.slice(0, match.index).split('\n').length);
+  }
+  return lines;
+};
+
+const readPoints = (question: Element, context: QuestionContext): number => {
+  const grade = parseFloat(child(question, 'defaultgrade')?.textContent || '');
+  if (!Number.isFinite(grade) || grade <= 0) return 1;
+  if (!Number.isInteger(grade)) note(context, `Points ${grade} rounded to ${Math.max(1, Math.round(grade))}`);
+  return Math.max(1, Math.round(grade));
+};
+
+const readMultichoice = (draft: QuestionDraft, question: Element, context: QuestionContext): QuestionDraft | null => {
+  const answers = readAnswers(question).filter(answer => answer.text);
+  if (answers.length < 2) {
+    note(context, 'Multiple choice question with fewer than two answers', true);
+    return null;
+  }
+  const single = ['true', '1'].includes((child(question, 'single')?.textContent || 'true').trim().toLowerCase());
+  const options = answers.map(answer => answer.text);
+
+  if (single) {
+    const best = Math.max(...answers.map(answer => answer.fraction));
+    const correct = answers.findIndex(answer => answer.fraction === best && best > 0);
+    if (correct === -1) note(context, 'No correct answer; mark one before using it');
+    else if (best < 100) note(context, `The best answer is only worth ${best}%; imported as the correct answer`);
+    if (answers.some((answer, index) => index !== correct && answer.fraction > 0)) {
+      note(context, 'Partial credit for other answers was dropped');
+    }
+    return { ...draft, question_type: 'mcq', options, correct_answer: correct === -1 ? '' : optionKey(correct) };
+  }
+
+  const correct = answers.map((answer, index) => (answer.fraction > 0 ? index : -1)).filter(index => index !== -1);
+  if (correct.length === 0) note(context, 'No correct answers; mark them before using it');
+  const weights = new Set(correct.map(index => answers[index].fraction.toFixed(2)));
+  if (weights.size > 1) note(context, 'Unequal answer weights were replaced by equal shares');
+  return {
+    ...draft,
+    question_type: 'multi_select',
+    options,
+    correct_answer: correct.map(optionKey).join(','),
+    // Moodle always gives partial credit on multiple-answer questions
+    scoring: 'partial',
+  };
+};
+
+const readTrueFalse = (draft: QuestionDraft, question: Element, context: QuestionContext): QuestionDraft => {
+  const correct = readAnswers(question).find(answer => answer.fraction >= 100);
+  const value = correct ? parseBoolean(correct.text) : null;
+  if (value === null) note(context, 'No correct answer; choose True or False before using it');
+  return { ...draft, question_type: 'true_false', options: [], correct_answer: value === null ? '' : String(value) };
+};
+
+const readNumerical = (draft: QuestionDraft, question: Element, context: QuestionContext): QuestionDraft => {
+  const answers = readAnswers(question).filter(answer => answer.fraction >= 100 && answer.text !== '*');
+  if (answers.length === 0) note(context, 'No correct number; enter one before using it');
+  if (answers.length > 1) note(context, `Only the first of ${answers.length} accepted numbers was kept`);
+  const tolerance = parseFloat(answers[0] ? child(answers[0].element, 'tolerance')?.textContent || '' : '');
+  // The base unit is the one with multiplier 1
+  const unit = Array.from(question.getElementsByTagName('unit')).find(
+    el => parseFloat(child(el, 'multiplier')?.textContent || '') === 1
+  );
+  return {
+    ...draft,
+    question_type: 'numeric',
+    options: [],
+    correct_answer: answers[0]?.text || '',
+    tolerance: tolerance > 0 ? String(tolerance) : '',
+    unit: unit ? (child(unit, 'unit_name')?.textContent || '').trim() : '',
+  };
+};
+
+const readMatching = (draft: QuestionDraft, question: Element, context: QuestionContext): QuestionDraft | null => {
+  const pairs = children(question, 'subquestion').map(sub => ({
+    prompt: elementText(sub),
+    match: tidyText(child(sub, 'answer') ? child(child(sub, 'answer')!, 'text')?.textContent || '' : ''),
+  }));
+  // Subquestions without text only add extra matches (distractors)
+  const options = pairs.filter(pair => pair.prompt && pair.match).map(pair => joinMatchingOption(pair.prompt, pair.match));
+  if (options.length < 2) {
+    note(context, 'Matching question with fewer than two pairs', true);
+    return null;
+  }
+  const distractors = pairs.filter(pair => !pair.prompt && pair.match).length;
+  if (distractors > 0) note(context, `${distractors} extra matches (distractors) were dropped`);
+  return { ...draft, question_type: 'matching', options };
+};
+
+const readQuestion = (question: Element, context: QuestionContext): QuestionDraft | null => {
+  const type = question.getAttribute('type') || '';
+  const textElement = child(question, 'questiontext');
+  const text = elementText(textElement);
+  if (!text) note(context, 'Question text is empty');
+  if (hasMedia(rawHtml(textElement)) || (textElement && children(textElement, 'file').length > 0)) {
+    note(context, 'Images, media and formulas were not imported');
+  }
+
+  const draft: QuestionDraft = {
+    ...createDraft(),
+    question_text: text,
+    points: readPoints(question, context),
+  };
+
+  switch (type) {
+    case 'multichoice':
+      return readMultichoice(draft, question, context);
+    case 'truefalse':
+      return readTrueFalse(draft, question, context);
+    case 'numerical':
+      return readNumerical(draft, question, context);
+    case 'matching':
+      return readMatching(draft, question, context);
+    case 'shortanswer': {
+      const accepted = readAnswers(question).filter(answer => answer.fraction >= 100).map(answer => answer.text);
+      note(context, 'Imported as a manually graded short answer; accepted answers kept as the model answer');
+      return { ...draft, question_type: 'short_answer', options: [], correct_answer: accepted.join(' / ') };
+    }
+    case 'essay':
+      return { ...draft, question_type: 'short_answer', options: [], correct_answer: elementText(child(question, 'graderinfo')) };
+    default:
+      note(context, `Unsupported question type "${type}"`, true);
+      return null;
+  }
+};
+
+export const parseMoodleXml = (source: string): QuestionSetImport => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'quiz') {
+    throw new Error('Not a Moodle XML question file');
+  }
+
+  const issues: ImportIssue[] = [];
+  const questions: ImportedQuestion[] = [];
+  const lines = questionLines(source);
+  let title: string | null = null;
+
+  children(doc.documentElement, 'question').forEach((question, index) => {
+    if (question.getAttribute('type') === 'category') {
+      // "$course$/top/Midterm" -> "Midterm"
+      const path = elementText(child(question, 'category'));
+      title = path.split('/').filter(Boolean).pop() || title;
+      return;
+    }
+    const context: QuestionContext = {
+      item: elementText(child(question, 'name')) || `Question ${questions.length + 1}`,
+      line: lines[index],
+      issues,
+    };
+    const draft = readQuestion(question, context);
+    if (draft) questions.push({ draft, item: context.item, line: context.line });
+  });
+
+  console.log(`📦 Moodle XML import: ${questions.length} questions, ${issues.length} issues`);
+  return { format: 'moodle_xml', title, durationMinutes: null, questions, issues };
+};
+
+// ---- Export ----
+
+const cdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const htmlParagraphs = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => `<p>${escapeXml(line)}</p>`)
+    .join('');
+
+const answerXml = (fraction: number, text: string, indent = '    ') =>
+  `${indent}<answer fraction="${+fraction.toFixed(5)}" format="html">\n${indent}  <text>${cdata(escapeXml(text))}</text>\n${indent}</answer>`;
+
+const buildQuestionBody = (question: ExportQuestion, context: QuestionContext): { type: string; body: string[] } | null => {
+  const type = getQuestionType(question);
+  const config = getQuestionConfig(question);
+  const correctKeys = parseKeyList(question.correct_answer);
+  if (type !== 'short_answer' && !question.correct_answer?.trim()) note(context, 'No correct answer; exported without one');
+
+  switch (type) {
+    case 'mcq':
+    case 'multi_select': {
+      const options = getChoiceOptions(question);
+      const single = type === 'mcq';
+      if (!single && config.scoring !== 'partial') {
+        note(context, 'Moodle grades multiple-answer questions with partial credit; all-or-nothing scoring was not kept');
+      }
+      // Same shares as the grader's partial credit: each wrong answer cancels a right one
+      const share = moodleFraction(100 / Math.max(1, correctKeys.length));
+      return {
+        type: 'multichoice',
+        body: [
+          `    <single>${single}</single>`,
+          '    <shuffleanswers>false</shuffleanswers>',
+          '    <answernumbering>abc</answernumbering>',
+          ...options.map(([key, text]) =>
+            answerXml(correctKeys.includes(key) ? (single ? 100 : share) : single ? 0 : -share, text)),
+        ],
+      };
+    }
+
+    case 'true_false': {
+      const value = parseBoolean(question.correct_answer);
+      return {
+        type: 'truefalse',
+        body: [answerXml(value === true ? 100 : 0, 'true'), answerXml(value === false ? 100 : 0, 'false')],
+      };
+    }
+
+    case 'numeric': {
+      const value = parseFloat(question.correct_answer || '');
+      let tolerance = Math.abs(config.tolerance || 0);
+      if (config.tolerance_type === 'relative' && tolerance) {
+        tolerance = +(tolerance * Math.abs(value || 0)).toFixed(6);
+        note(context, `Relative tolerance exported as an absolute tolerance of ${tolerance}`);
+      }
+      return {
+        type: 'numerical',
+        body: [
+          `    <answer fraction="100" format="moodle_auto_format">`,
+          `      <text>${escapeXml(question.correct_answer?.trim() || '')}</text>`,
+          `      <tolerance>${tolerance}</tolerance>`,
+          '    </answer>',
+          ...(config.unit
+            ? [
+              '    <units>',
+              '      <unit>',
+              '        <multiplier>1</multiplier>',
+              `        <unit_name>${escapeXml(config.unit)}</unit_name>`,
+              '      </unit>',
+              '    </units>',
+              '    <unitgradingtype>0</unitgradingtype>',
+            ]
+            : []),
+        ],
+      };
+    }
+
+    case 'matching': {
+      const { prompts, choices } = getMatchingOptions(question);
+      const pairs = Object.entries(parsePairs(question.correct_answer)).filter(([prompt, choice]) => prompts[prompt] && choices[choice]);
+      if (pairs.length < 2) {
+        note(context, 'Matching question needs at least two complete pairs', true);
+        return null;
+      }
+      if (pairs.length < 3) note(context, 'Moodle needs at least three matches; add a distractor after importing there');
+      return {
+        type: 'matching',
+        body: [
+          '    <shuffleanswers>true</shuffleanswers>',
+          ...pairs.flatMap(([prompt, choice]) => [
+            '    <subquestion format="html">',
+            `      <text>${cdata(htmlParagraphs(prompts[prompt]))}</text>`,
+            `      <answer><text>${escapeXml(choices[choice])}</text></answer>`,
+            '    </subquestion>',
+          ]),
+        ],
+      };
+    }
+
+    case 'ordering':
+      note(context, 'Ordering questions have no Moodle XML equivalent', true);
+      return null;
+
+    default:
+      if (question.rubric) note(context, 'Grading rubric is not part of Moodle XML and was not exported');
+      return {
+        type: 'essay',
+        body: [
+          '    <responseformat>editor</responseformat>',
+          '    <responsefieldlines>10</responsefieldlines>',
+          `    <graderinfo format="html"><text>${cdata(htmlParagraphs(question.correct_answer || ''))}</text></graderinfo>`,
+        ],
+      };
+  }
+};
+
+export const buildMoodleXml = (template: ExportTemplateInfo, questions: ExportQuestion[]): QuestionSetExport => {
+  const issues: ImportIssue[] = [];
+  const blocks: string[] = [];
+
+  questions.forEach(question => {
+    const context: QuestionContext = { item: `Q${question.question_number}`, issues };
+    const parts = buildQuestionBody(question, context);
+    if (!parts) return;
+    blocks.push([
+      `  <question type="${parts.type}">`,
+      `    <name><text>${escapeXml(`Q${question.question_number}`)}</text></name>`,
+      `    <questiontext format="html"><text>${cdata(htmlParagraphs(question.question_text))}</text></questiontext>`,
+      `    <defaultgrade>${question.points || 1}</defaultgrade>`,
+      '    <penalty>0</penalty>',
+      '    <hidden>0</hidden>',
+      ...parts.body,
+      '  </question>',
+    ].join('\n'));
+  });
+
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<quiz>',
+    '  <question type="category">',
+    `    <category><text>${escapeXml(`$course$/top/${template.title.replace(/\//g, '-')}`)}</text></category>`,
+    '  </question>',
+    ...blocks,
+    '</quiz>',
+    '',
+  ].join('\n');
+
+  console.log(`📦 Moodle XML export: ${blocks.length} questions, ${issues.length} issues`);
+  return { data: xml, issues };
+};
@@ -0,0 +1,122 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Proctoring coverage from the connection events the exam page logs to exam_events:
+//   proctoring_connected      a connection to the proctoring service was established
+//   proctoring_gap_started    the connection has been down for a few seconds (logged while still down)
+//   proctoring_gap            the connection is back; details hold the whole offline interval
+//   proctoring_health         periodic latency and offline summary
+// A gap that was reported as started but never as ended (the page was closed or reloaded while
+// offline) runs until the next proctoring_connected, or to the end of the window.
+
+export const PROCTORING_EVENT_TYPES = [
+  'proctoring_connected',
+  'proctoring_gap_started',
+  'proctoring_gap',
+  'proctoring_health',
+] as const;
+
+export interface ProctoringEventRow {
+  event_type: string;
+  details: Json | null;
+  created_at: string | null;
+}
+
+export interface ProctoringGap {
+  startedAt: number;
+  // Null while still offline
+  endedAt: number | null;
+}
+
+export interface ProctoringCoverage {
+  // Share of the window with a working connection, 0-100
+  coveragePercent: number;
+  unmonitoredMs: number;
+  gapCount: number;
+  gaps: ProctoringGap[];
+}
+
+const detail = (details: Json | null, key: string): Json | undefined =>
+  details && typeof details === 'object' && !Array.isArray(details) ? details[key] : undefined;
+
+const timeOf = (value: Json | undefined): number | null => {
+  if (typeof value !== 'string') return null;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : ms;
+};
+
+// Gaps in start order
+export const gapsFromEvents = (events: ProctoringEventRow[]): ProctoringGap[] => {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+  );
+  const closedIds = new Set<string>();
+  const gaps: ProctoringGap[] = [];
+
+  sorted.forEach(event => {
+    if (event.event_type !== 'proctoring_gap') return;
+    const startedAt = timeOf(detail(event.details, 'started_at'));
+    const endedAt = timeOf(detail(event.details, 'ended_at'));
+    if (startedAt === null || endedAt === null) return;
+    const gapId = detail(event.details, 'gap_id');
+    if (typeof gapId === 'string') closedIds.add(gapId);
+    gaps.push({ startedAt, endedAt });
+  });
+
+  const connectedAt = sorted
+    .filter(event => event.event_type === 'proctoring_connected')
+    .map(event => new Date(event.created_at || 0).getTime());
+
+  sorted.forEach(event => {
+    if (event.event_type !== 'proctoring_gap_started') return;
+    const gapId = detail(event.details, 'gap_id');
+    if (typeof gapId === 'string' && closedIds.has(gapId)) return;
+    const startedAt = timeOf(detail(event.details, 'started_at')) ?? new Date(event.created_at || 0).getTime();
+    gaps.push({ startedAt, endedAt: connectedAt.find(time => time > startedAt) ?? null });
+  });
+
+  return gaps.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+// Start of the gap that is still open, if any
+export const openGapSince = (gaps: ProctoringGap[]): number | null => {
+  const open = gaps.filter(gap => gap.endedAt === null);
+  return open.length > 0 ? open[open.length - 1].startedAt : null;
+};
+
+// Coverage of [windowStart, windowEnd]; overlapping gaps are counted once
+export const computeCoverage = (gaps: ProctoringGap[], windowStart: number, windowEnd: number): ProctoringCoverage => {
+  const windowMs = Math.max(0, windowEnd - windowStart);
+  const clipped = gaps
+    .map(gap => ({
+      startedAt: Math.max(gap.startedAt, windowStart),
+      endedAt: Math.min(gap.endedAt ?? windowEnd, windowEnd),
+    }))
+    .filter(gap => gap.endedAt > gap.startedAt);
+
+  let unmonitoredMs = 0;
+  let gapCount = 0;
+  let coveredUntil = -Infinity;
+  clipped.forEach(gap => {
+    if (gap.startedAt > coveredUntil) gapCount += 1;
+    const start = Math.max(gap.startedAt, coveredUntil);
+    if (gap.endedAt > start) {
+      unmonitoredMs += gap.endedAt - start;
+      coveredUntil = gap.endedAt;
+    }
+  });
+
+  return {
+    coveragePercent: windowMs > 0 ? Math.round((1 - unmonitoredMs / windowMs) * 1000) / 10 : 100,
+    unmonitoredMs,
+    // Overlapping gaps count as one
+    gapCount,
+    gaps: gaps.filter(gap => (gap.endedAt ?? windowEnd) > windowStart && gap.startedAt < windowEnd),
+  };
+};
+
+export const formatGapDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+};
@@ -0,0 +1,97 @@
+import type { BrowserActivityMessage } from '@/utils/proctoringProtocol';
+
+// Local IndexedDB outbox of proctoring events (tab switches, copy/paste) so none are lost to a
+// dropped connection or a reload. Every event is written here before it is sent; it stays
+// pending until the server acks its sequence number and is replayed in order after a reconnect.
+// Acked entries are kept so sequence numbers keep counting up for the exam: the server
+// recognises a replay by its number.
+
+export interface OutboxEntry {
+  key: string;
+  examId: string;
+  studentId: string;
+  seq: number;
+  message: BrowserActivityMessage;
+  status: 'pending' | 'acked';
+}
+
+const DB_NAME = 'exameye-proctoring-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'events';
+const EXAM_INDEX = 'by_exam_student';
+
+export const outboxKey = (examId: string, studentId: string, seq: number) => `${examId}:${studentId}:${seq}`;
+
+export class ProctoringOutbox {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // Fallback when IndexedDB is unavailable (private mode, old browsers)
+  private memoryStore = new Map<string, OutboxEntry>();
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('⚠️ IndexedDB not available, proctoring outbox kept in memory only');
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex(EXAM_INDEX, ['examId', 'studentId']);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('❌ Failed to open proctoring outbox:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  async put(entry: OutboxEntry): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      this.memoryStore.set(entry.key, entry);
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async markAcked(entry: OutboxEntry): Promise<void> {
+    await this.put({ ...entry, status: 'acked' });
+  }
+
+  // All entries for the exam, oldest first
+  async getAll(examId: string, studentId: string): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    let entries: OutboxEntry[];
+    if (!db) {
+      entries = Array.from(this.memoryStore.values()).filter(
+        (entry) => entry.examId === examId && entry.studentId === studentId
+      );
+    } else {
+      entries = await new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        const request = tx.objectStore(STORE_NAME).index(EXAM_INDEX).getAll([examId, studentId]);
+        request.onsuccess = () => resolve((request.result as OutboxEntry[]) || []);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return entries.sort((a, b) => a.seq - b.seq);
+  }
+}
+
+export const proctoringOutbox = new ProctoringOutbox();
@@ -0,0 +1,260 @@
+import { z } from 'zod';
+
+// Messages on the proctoring WebSocket (/api/ws/proctoring/{session_id}).
+//
+// Every message is a JSON object with a "type". The client opens with "hello" carrying
+// PROTOCOL_VERSION; the server answers "hello_ack" with the version it will speak, or an
+// "error" with code "unsupported_version" and closes with CLOSE_UNSUPPORTED_VERSION. Until the
+// handshake is done the server rejects everything else with "handshake_required".
+//
+// From version 2 frames go as binary messages (FRAME_HEADER_BYTES of header, then the JPEG)
+// instead of base64 inside JSON. Binary frames carry no student details, so a "context" message
+// goes first and again whenever they change. The server answers each binary frame with
+// "frame_ack" as soon as it reads it.
+//
+// The backend mirror is backend/protocol.py; bump PROTOCOL_VERSION in both when a message
+// changes shape. Unknown extra fields are dropped on both sides, so adding an optional field
+// doesn't need a new version.
+
+export const PROTOCOL_VERSION = 2;
+
+// WebSocket close code the server uses after an unsupported_version error
+export const CLOSE_UNSUPPORTED_VERSION = 4000;
+
+// Binary frame header, little-endian: kind (uint8), sequence number (uint32), calibrated pitch,
+// calibrated yaw and audio level (float32; audio level NaN when not sent)
+export const FRAME_HEADER_BYTES = 17;
+const BINARY_KIND_FRAME = 1;
+
+export const PROTOCOL_ERROR_CODES = [
+  'invalid_json',
+  'unknown_message_type',
+  'invalid_message',
+  'handshake_required',
+  'unsupported_version',
+  'frame_decode_failed',
+  'processing_failed',
+] as const;
+
+export type ProtocolErrorCode = (typeof PROTOCOL_ERROR_CODES)[number];
+
+// ---- Client -> server ----
+
+// Who the message is about; sent with every frame, audio and browser_activity message
+const studentContextSchema = z.object({
+  exam_id: z.string().optional(),
+  student_id: z.string().optional(),
+  student_name: z.string().optional(),
+  roll_no: z.string().optional(),
+  subject_code: z.string().optional(),
+  subject_name: z.string().optional(),
+});
+
+const helloMessageSchema = z.object({
+  type: z.literal('hello'),
+  protocol_version: z.number().int(),
+  session_id: z.string().optional(),
+});
+
+const frameMessageSchema = studentContextSchema.extend({
+  type: z.literal('frame'),
+  // JPEG as base64, with or without a data: URL prefix
+  frame: z.string().min(1),
+  calibrated_pitch: z.number(),
+  calibrated_yaw: z.number(),
+  audio_level: z.number().optional(),
+});
+
+const audioMessageSchema = studentContextSchema.extend({
+  type: z.literal('audio'),
+  audio_level: z.number(),
+});
+
+const browserActivityMessageSchema = studentContextSchema.extend({
+  type: z.literal('browser_activity'),
+  violation_type: z.string().min(1),
+  message: z.string(),
+  // Outbox sequence number; the server answers "ack" once the event is recorded and acks a replay
+  // of an event it already has without recording it twice
+  seq: z.number().int().nonnegative().optional(),
+  // When the event happened; replayed events arrive after the fact
+  occurred_at: z.string().optional(),
+  // Measured events (looking_away from utils/headPose.ts, speech from utils/voiceActivity.ts) set
+  // their own severity and details
+  severity: z.enum(['low', 'medium', 'high']).optional(),
+  details: z.record(z.unknown()).optional(),
+});
+
+// Student details for the binary frames that follow
+const contextMessageSchema = studentContextSchema.extend({
+  type: z.literal('context'),
+  // True while the browser tracks head pose and gaze itself and reports looking_away as browser
+  // activity; the server then leaves looking_away out of its frame results
+  client_gaze: z.boolean().optional(),
+  // True while the browser detects speech itself and reports speech_detected / multiple_voices as
+  // browser activity; the server then stops flagging excessive_noise from audio levels
+  client_voice: z.boolean().optional(),
+});
+
+const pingMessageSchema = z.object({
+  type: z.literal('ping'),
+});
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  helloMessageSchema,
+  frameMessageSchema,
+  audioMessageSchema,
+  browserActivityMessageSchema,
+  contextMessageSchema,
+  pingMessageSchema,
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type StudentContext = z.infer<typeof studentContextSchema>;
+export type BrowserActivityMessage = z.infer<typeof browserActivityMessageSchema>;
+
+// ---- Server -> client ----
+
+const violationSchema = z.object({
+  type: z.string(),
+  severity: z.string(),
+  message: z.string(),
+  confidence: z.number().optional(),
+  timestamp: z.string(),
+  // excessive_noise only
+  audio_level: z.number().optional(),
+  // excessive_noise and identity_mismatch
+  threshold: z.number().optional(),
+  // identity_mismatch only
+  similarity: z.number().optional(),
+  // Evidence frame, attached by the client from the detection result it came with
+  snapshot_base64: z.string().optional(),
+});
+
+export const detectionResultSchema = z.object({
+  violations: z.array(violationSchema),
+  head_pose: z.object({ pitch: z.number(), yaw: z.number(), roll: z.number() }).optional(),
+  face_count: z.number(),
+  looking_away: z.boolean(),
+  multiple_faces: z.boolean(),
+  no_person: z.boolean(),
+  phone_detected: z.boolean(),
+  book_detected: z.boolean(),
+  snapshot_base64: z.string().optional(),
+  timestamp: z.string().optional(),
+});
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('hello_ack'),
+    protocol_version: z.number().int(),
+    min_protocol_version: z.number().int(),
+    max_protocol_version: z.number().int(),
+  }),
+  z.object({ type: z.literal('detection_result'), data: detectionResultSchema }),
+  z.object({ type: z.literal('violation'), data: violationSchema }),
+  z.object({ type: z.literal('audio_level'), data: z.object({ level: z.number(), timestamp: z.string() }) }),
+  z.object({
+    type: z.literal('detection_skipped'),
+    data: z.object({ reason: z.string(), interval_sec: z.number(), timestamp: z.string() }),
+  }),
+  z.object({ type: z.literal('ack'), data: z.object({ seq: z.number().int() }) }),
+  z.object({ type: z.literal('frame_ack'), data: z.object({ seq: z.number().int(), timestamp: z.string() }) }),
+  z.object({ type: z.literal('pong') }),
+  z.object({
+    type: z.literal('error'),
+    // Codes outside PROTOCOL_ERROR_CODES are kept so newer servers can add them
+    data: z.object({ code: z.string(), message: z.string(), details: z.unknown().optional() }),
+  }),
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ProctoringViolation = z.infer<typeof violationSchema>;
+export type DetectionResult = z.infer<typeof detectionResultSchema>;
+
+const SERVER_MESSAGE_TYPES: string[] = serverMessageSchema.options.map(option => option.shape.type.value);
+
+export type ServerMessageResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; reason: 'invalid_json' | 'unknown_type' | 'invalid_payload'; type?: string; error: string };
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(message)'}: ${issue.message}`).join('; ');
+
+// Never throws: unknown types and invalid payloads come back as results for the caller to log
+export const parseServerMessage = (raw: unknown): ServerMessageResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(String(raw));
+  } catch (error) {
+    return { ok: false, reason: 'invalid_json', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const type = typeof data === 'object' && data !== null ? (data as { type?: unknown }).type : undefined;
+  if (typeof type !== 'string' || !SERVER_MESSAGE_TYPES.includes(type)) {
+    return {
+      ok: false,
+      reason: 'unknown_type',
+      type: typeof type === 'string' ? type : undefined,
+      error: `Unknown message type ${JSON.stringify(type)}`,
+    };
+  }
+
+  const parsed = serverMessageSchema.safeParse(data);
+  if (!parsed.success) {
+    return { ok: false, reason: 'invalid_payload', type, error: describeIssues(parsed.error) };
+  }
+  return { ok: true, message: parsed.data };
+};
+
+// Validates before sending, so a malformed message fails here instead of on the server.
+// Throws a ZodError for invalid messages.
+export const encodeClientMessage = (message: ClientMessage): string =>
+  JSON.stringify(clientMessageSchema.parse(message));
+
+export const helloMessage = (sessionId: string): ClientMessage => ({
+  type: 'hello',
+  protocol_version: PROTOCOL_VERSION,
+  session_id: sessionId,
+});
+
+export interface BinaryFrame {
+  seq: number;
+  calibratedPitch: number;
+  calibratedYaw: number;
+  audioLevel?: number;
+  jpeg: ArrayBuffer;
+}
+
+export const encodeBinaryFrame = (frame: BinaryFrame): ArrayBuffer => {
+  const buffer = new ArrayBuffer(FRAME_HEADER_BYTES + frame.jpeg.byteLength);
+  const header = new DataView(buffer, 0, FRAME_HEADER_BYTES);
+  header.setUint8(0, BINARY_KIND_FRAME);
+  header.setUint32(1, frame.seq >>> 0, true);
+  header.setFloat32(5, frame.calibratedPitch, true);
+  header.setFloat32(9, frame.calibratedYaw, true);
+  header.setFloat32(13, frame.audioLevel ?? NaN, true);
+  new Uint8Array(buffer, FRAME_HEADER_BYTES).set(new Uint8Array(frame.jpeg));
+  return buffer;
+};
+
+// Reverse of encodeBinaryFrame, for the mock server in e2e/. Throws on a short header or an
+// unknown kind, like parse_binary_frame in backend/protocol.py.
+export const decodeBinaryFrame = (data: ArrayBuffer): BinaryFrame => {
+  if (data.byteLength <= FRAME_HEADER_BYTES) {
+    throw new Error(`Binary message too short (${data.byteLength} bytes)`);
+  }
+  const header = new DataView(data, 0, FRAME_HEADER_BYTES);
+  const kind = header.getUint8(0);
+  if (kind !== BINARY_KIND_FRAME) {
+    throw new Error(`Unknown binary message kind: ${kind}`);
+  }
+  const audioLevel = header.getFloat32(13, true);
+  return {
+    seq: header.getUint32(1, true),
+    calibratedPitch: header.getFloat32(5, true),
+    calibratedYaw: header.getFloat32(9, true),
+    audioLevel: Number.isNaN(audioLevel) ? undefined : audioLevel,
+    jpeg: data.slice(FRAME_HEADER_BYTES),
+  };
+};
@@ -0,0 +1,688 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { createDraft, joinMatchingOption, type QuestionDraft } from '@/utils/templateDraft';
+import {
+  escapeXml,
+  tidyText,
+  type ExportQuestion,
+  type ExportTemplateInfo,
+  type ImportIssue,
+  type ImportedQuestion,
+  type QuestionSetExport,
+  type QuestionSetImport,
+} from '@/utils/questionFormats';
+import {
+  getChoiceOptions,
+  getMatchingOptions,
+  getQuestionConfig,
+  getQuestionType,
+  optionKey,
+  parseBoolean,
+  parseKeyList,
+  parsePairs,
+  type QuestionType,
+} from '@/utils/questionTypes';
+
+// IMS QTI 2.1 content packages (a zip with imsmanifest.xml, an assessmentTest and one
+// assessmentItem file per question), as exported by Moodle, Canvas, TAO and others.
+//
+// Import reads every item with a single choice, text entry, extended text, order or match
+// interaction into a template editor draft, so imported questions are saved through the same
+// parser as spreadsheet uploads. Export writes stored questions back out. Anything that
+// doesn't map cleanly is listed as an issue instead of being silently dropped.
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = 'http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd';
+const CP_NAMESPACE = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const CP_SCHEMA = 'http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const ITEM_RESOURCE_TYPE = 'imsqti_item_xmlv2p1';
+const TEST_RESOURCE_TYPE = 'imsqti_test_xmlv2p1';
+
+const SUPPORTED_INTERACTIONS = [
+  'choiceInteraction',
+  'textEntryInteraction',
+  'extendedTextInteraction',
+  'orderInteraction',
+  'matchInteraction',
+];
+
+// ---- XML helpers ----
+
+// Elements are matched by local name so documents with or without a namespace prefix both work
+const childElements = (parent: Element, name?: string): Element[] =>
+  Array.from(parent.children).filter(el => !name || el.localName === name);
+
+const descendants = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const firstDescendant = (parent: Element | Document, name: string): Element | null =>
+  descendants(parent, name)[0] || null;
+
+const BLOCK_ELEMENTS = new Set(['p', 'div', 'br', 'li', 'ul', 'ol', 'table', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre']);
+const MEDIA_ELEMENTS = ['img', 'object', 'math', 'audio', 'video'];
+// Shown only after answering or to scorers, not part of the question
+const HIDDEN_ELEMENTS = new Set(['feedbackInline', 'feedbackBlock', 'modalFeedback', 'rubricBlock']);
+
+// Visible text of an element, one line per block element, leaving out nested interactions
+// and anything matched by skip
+const elementText = (element: Element, skip: (el: Element) => boolean = () => false): string => {
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === 3 || node.nodeType === 4) {
+      text += node.nodeValue || '';
+      return;
+    }
+    if (node.nodeType !== 1) return;
+    const el = node as Element;
+    if (skip(el) || HIDDEN_ELEMENTS.has(el.localName) || el.localName.endsWith('Interaction')) return;
+    const block = BLOCK_ELEMENTS.has(el.localName);
+    if (block) text += '\n';
+    el.childNodes.forEach(walk);
+    if (block) text += '\n';
+  };
+  element.childNodes.forEach(walk);
+  return tidyText(text);
+};
+
+const parseXml = (source: string, fileName: string): Document => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${fileName} is not valid XML`);
+  }
+  return doc;
+};
+
+const paragraphs = (text: string, indent: string) =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => `${indent}<p>${escapeXml(line)}</p>`)
+    .join('\n');
+
+// Resolves an href against the directory of the file that contains it
+const resolvePath = (base: string, href: string): string => {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+// ---- Import ----
+
+interface ItemContext {
+  item: string;
+  issues: ImportIssue[];
+}
+
+const note = (context: ItemContext, message: string, skipped = false) => {
+  context.issues.push({ item: context.item, message, skipped });
+};
+
+const valueTexts = (parent: Element | null): string[] =>
+  parent ? childElements(parent, 'value').map(value => (value.textContent || '').trim()).filter(Boolean) : [];
+
+const numberAttribute = (element: Element | null | undefined, name: string): number | null => {
+  const value = parseFloat(element?.getAttribute(name) || '');
+  return Number.isFinite(value) ? value : null;
+};
+
+// Points for an item: MAXSCORE if declared, otherwise what the response mapping or
+// response processing can award, otherwise 1
+const readPoints = (doc: Document, declaration: Element | null, context: ItemContext): number => {
+  let points: number | null = null;
+
+  const maxScore = descendants(doc, 'outcomeDeclaration').find(el => el.getAttribute('identifier') === 'MAXSCORE');
+  if (maxScore) points = parseFloat(valueTexts(firstDescendant(maxScore, 'defaultValue'))[0] || '');
+
+  const mapping = declaration ? firstDescendant(declaration, 'mapping') : null;
+  if (!Number.isFinite(points) && mapping) {
+    const entries = childElements(mapping, 'mapEntry').map(entry => numberAttribute(entry, 'mappedValue') || 0);
+    const total = declaration?.getAttribute('cardinality') === 'single'
+      ? Math.max(0, ...entries)
+      : entries.filter(value => value > 0).reduce((sum, value) => sum + value, 0);
+    points = numberAttribute(mapping, 'upperBound') ?? total;
+  }
+
+  if (!Number.isFinite(points)) {
+    const awarded = descendants(doc, 'setOutcomeValue')
+      .filter(el => el.getAttribute('identifier') === 'SCORE')
+      .map(el => parseFloat(firstDescendant(el, 'baseValue')?.textContent || ''))
+      .filter(Number.isFinite);
+    if (awarded.length > 0) points = Math.max(...awarded);
+  }
+
+  if (points === null || !Number.isFinite(points) || points <= 0) return 1;
+  if (!Number.isInteger(points)) {
+    note(context, `Points ${points} rounded to ${Math.max(1, Math.round(points))}`);
+  }
+  return Math.max(1, Math.round(points));
+};
+
+const usesPartialCredit = (doc: Document, declaration: Element | null) => {
+  const template = firstDescendant(doc, 'responseProcessing')?.getAttribute('template') || '';
+  return !!(declaration && firstDescendant(declaration, 'mapping')) &&
+    (template.endsWith('map_response') || descendants(doc, 'mapResponse').length > 0);
+};
+
+const choiceTexts = (interaction: Element, choiceName: string): Array<[string, string]> =>
+  descendants(interaction, choiceName).map(choice => [choice.getAttribute('identifier') || '', elementText(choice)]);
+
+const readChoiceInteraction = (
+  draft: QuestionDraft,
+  interaction: Element,
+  declaration: Element | null,
+  correct: string[],
+  context: ItemContext
+): QuestionDraft | null => {
+  const choices = choiceTexts(interaction, 'simpleChoice');
+  const single = declaration?.getAttribute('cardinality') === 'single' || interaction.getAttribute('maxChoices') === '1';
+  const correctIndexes = correct.map(id => choices.findIndex(([choiceId]) => choiceId === id)).filter(i => i !== -1);
+
+  const booleans = choices.map(([, text]) => parseBoolean(text));
+  if (single && choices.length === 2 && booleans.includes(true) && booleans.includes(false)) {
+    const value = correctIndexes.length > 0 ? booleans[correctIndexes[0]] : null;
+    if (value === null) note(context, 'No correct answer; choose True or False before using it');
+    return { ...draft, question_type: 'true_false', options: [], correct_answer: value === null ? '' : String(value) };
+  }
+
+  if (choices.length < 2) {
+    note(context, 'Choice question with fewer than two choices', true);
+    return null;
+  }
+  if (correctIndexes.length === 0) note(context, 'No correct answer; mark one before using it');
+
+  const questionType: QuestionType = single ? 'mcq' : 'multi_select';
+  return {
+    ...draft,
+    question_type: questionType,
+    options: choices.map(([, text]) => text),
+    correct_answer: correctIndexes.sort((a, b) => a - b).map(optionKey).join(','),
+  };
+};
+
+const readTolerance = (doc: Document): string => {
+  const equal = firstDescendant(doc, 'equal');
+  if (!equal) return '';
+  const tolerance = (equal.getAttribute('tolerance') || '').trim().split(/\s+/).map(parseFloat);
+  // QTI allows different lower and upper bounds; the grader only has one, so use the wider
+  const value = Math.max(...tolerance.filter(Number.isFinite), 0);
+  if (!value) return '';
+  return equal.getAttribute('toleranceMode') === 'relative' ? `${value}%` : String(value);
+};
+
+const readTextEntry = (
+  doc: Document,
+  draft: QuestionDraft,
+  interaction: Element,
+  declaration: Element | null,
+  correct: string[],
+  context: ItemContext
+): QuestionDraft => {
+  const baseType = declaration?.getAttribute('baseType') || 'string';
+  const mapped = declaration ? descendants(declaration, 'mapEntry').map(entry => entry.getAttribute('mapKey') || '') : [];
+  const answers = correct.length > 0 ? correct : mapped.filter(Boolean);
+
+  if ((baseType === 'float' || baseType === 'integer') && interaction.localName === 'textEntryInteraction') {
+    if (answers.length === 0) note(context, 'No correct number; enter one before using it');
+    if (answers.length > 1) note(context, `Only the first of ${answers.length} accepted numbers was kept`);
+    const unit = descendants(doc, 'span').find(span => span.getAttribute('class')?.split(/\s+/).includes('unit'));
+    return {
+      ...draft,
+      question_type: 'numeric',
+      options: [],
+      correct_answer: answers[0] || '',
+      tolerance: readTolerance(doc),
+      unit: unit ? (unit.textContent || '').trim() : '',
+    };
+  }
+
+  if (answers.length > 0 && interaction.localName === 'textEntryInteraction') {
+    note(context, 'Imported as a manually graded short answer; accepted answers kept as the model answer');
+  }
+  return { ...draft, question_type: 'short_answer', options: [], correct_answer: answers.join(' / ') };
+};
+
+const readOrderInteraction = (
+  draft: QuestionDraft,
+  interaction: Element,
+  correct: string[],
+  context: ItemContext
+): QuestionDraft | null => {
+  const texts = new Map(choiceTexts(interaction, 'simpleChoice'));
+  const ordered = correct.map(id => texts.get(id)).filter((text): text is string => !!text);
+  if (ordered.length < 2) {
+    note(context, 'Order question without a correct order', true);
+    return null;
+  }
+  if (ordered.length < texts.size) {
+    note(context, `${texts.size - ordered.length} items not in the correct order were dropped`);
+  }
+  return { ...draft, question_type: 'ordering', options: ordered };
+};
+
+const readMatchInteraction = (
+  draft: QuestionDraft,
+  interaction: Element,
+  correct: string[],
+  context: ItemContext
+): QuestionDraft | null => {
+  const sets = childElements(interaction, 'simpleMatchSet');
+  if (sets.length !== 2) {
+    note(context, 'Match question without exactly two sets', true);
+    return null;
+  }
+  const sources = choiceTexts(sets[0], 'simpleAssociableChoice');
+  const targets = new Map(choiceTexts(sets[1], 'simpleAssociableChoice'));
+  const pairs = new Map(correct.map(value => value.split(/\s+/) as [string, string]));
+
+  const options = sources
+    .filter(([id]) => targets.has(pairs.get(id) || ''))
+    .map(([id, text]) => joinMatchingOption(text, targets.get(pairs.get(id)!)!));
+  if (options.length < 2) {
+    note(context, 'Match question without at least two correct pairs', true);
+    return null;
+  }
+  if (options.length < sources.length) {
+    note(context, `${sources.length - options.length} prompts without a correct match were dropped`);
+  }
+  const usedTargets = new Set(sources.map(([id]) => pairs.get(id)));
+  const distractors = [...targets.keys()].filter(id => !usedTargets.has(id)).length;
+  if (distractors > 0) note(context, `${distractors} extra matches (distractors) were dropped`);
+  return { ...draft, question_type: 'matching', options };
+};
+
+const readItem = (source: string, fileName: string, issues: ImportIssue[]): ImportedQuestion | null => {
+  const context: ItemContext = { item: fileName, issues };
+  let doc: Document;
+  try {
+    doc = parseXml(source, fileName);
+  } catch (error) {
+    note(context, error instanceof Error ? error.message : 'Could not be read', true);
+    return null;
+  }
+
+  const root = doc.documentElement;
+  context.item = root.getAttribute('title') || root.getAttribute('identifier') || fileName;
+  if (root.localName !== 'assessmentItem') {
+    note(context, 'Not a QTI 2.1 assessment item', true);
+    return null;
+  }
+
+  const itemBody = firstDescendant(doc, 'itemBody');
+  const interactions = itemBody ? descendants(itemBody, '*').filter(el => el.localName.endsWith('Interaction')) : [];
+  if (interactions.length !== 1) {
+    note(context, interactions.length === 0 ? 'No interaction to answer' : `Has ${interactions.length} interactions; only single-interaction items are supported`, true);
+    return null;
+  }
+  const interaction = interactions[0];
+  if (!SUPPORTED_INTERACTIONS.includes(interaction.localName)) {
+    note(context, `Unsupported interaction type ${interaction.localName}`, true);
+    return null;
+  }
+
+  const responseId = interaction.getAttribute('responseIdentifier');
+  const declaration = descendants(doc, 'responseDeclaration').find(el => el.getAttribute('identifier') === responseId) || null;
+  const correct = valueTexts(declaration ? firstDescendant(declaration, 'correctResponse') : null);
+
+  const prompt = firstDescendant(interaction, 'prompt');
+  const text = [
+    elementText(itemBody!, el => el.getAttribute('class')?.split(/\s+/).includes('unit') || false),
+    prompt ? elementText(prompt) : '',
+  ].filter(Boolean).join('\n');
+  if (!text) note(context, 'Question text is empty');
+  if (MEDIA_ELEMENTS.some(name => descendants(itemBody!, name).length > 0)) {
+    note(context, 'Images, media and formulas were not imported');
+  }
+
+  const base: QuestionDraft = {
+    ...createDraft(),
+    question_text: text,
+    points: readPoints(doc, declaration, context),
+    scoring: usesPartialCredit(doc, declaration) ? 'partial' : 'all_or_nothing',
+  };
+
+  let draft: QuestionDraft | null;
+  switch (interaction.localName) {
+    case 'choiceInteraction':
+      draft = readChoiceInteraction(base, interaction, declaration, correct, context);
+      break;
+    case 'textEntryInteraction':
+    case 'extendedTextInteraction':
+      draft = readTextEntry(doc, base, interaction, declaration, correct, context);
+      break;
+    case 'orderInteraction':
+      draft = readOrderInteraction(base, interaction, correct, context);
+      break;
+    default:
+      draft = readMatchInteraction(base, interaction, correct, context);
+  }
+  return draft && { draft, item: context.item };
+};
+
+const findFile = (files: Record<string, Uint8Array>, path: string): string | undefined =>
+  Object.keys(files).find(name => name.toLowerCase() === path.toLowerCase());
+
+// Item files in test order (or manifest order without a test), plus the test's title and time limit
+const readManifest = (files: Record<string, Uint8Array>, manifestPath: string) => {
+  const manifest = parseXml(strFromU8(files[manifestPath]), manifestPath);
+  const resources = descendants(manifest, 'resource');
+  const resourceHref = (resource: Element) => resolvePath(manifestPath, resource.getAttribute('href') || '');
+
+  const itemPaths = resources
+    .filter(resource => (resource.getAttribute('type') || '').startsWith('imsqti_item_xmlv2p'))
+    .map(resourceHref);
+
+  let title: string | null = null;
+  let durationMinutes: number | null = null;
+  const testResource = resources.find(resource => (resource.getAttribute('type') || '').startsWith('imsqti_test_xmlv2p'));
+  const testPath = testResource ? findFile(files, resourceHref(testResource)) : undefined;
+
+  if (testPath) {
+    const test = parseXml(strFromU8(files[testPath]), testPath);
+    title = test.documentElement.getAttribute('title') || null;
+    const maxTime = numberAttribute(firstDescendant(test, 'timeLimits'), 'maxTime');
+    durationMinutes = maxTime ? Math.max(1, Math.round(maxTime / 60)) : null;
+
+    const ordered = descendants(test, 'assessmentItemRef').map(ref => resolvePath(testPath, ref.getAttribute('href') || ''));
+    return { title, durationMinutes, itemPaths: [...ordered, ...itemPaths.filter(path => !ordered.includes(path))] };
+  }
+
+  return { title, durationMinutes, itemPaths };
+};
+
+export const parseQtiPackage = (data: Uint8Array): QuestionSetImport => {
+  const files = unzipSync(data);
+  const issues: ImportIssue[] = [];
+  const manifestPath = Object.keys(files)
+    .filter(name => /(^|\/)imsmanifest\.xml$/i.test(name))
+    .sort((a, b) => a.length - b.length)[0];
+
+  // Without a manifest, fall back to every XML file in the zip
+  const { title, durationMinutes, itemPaths } = manifestPath
+    ? readManifest(files, manifestPath)
+    : { title: null, durationMinutes: null, itemPaths: Object.keys(files).filter(name => /\.xml$/i.test(name)).sort() };
+
+  const questions: ImportedQuestion[] = [];
+  itemPaths.forEach(path => {
+    const fileName = findFile(files, path);
+    if (!fileName) {
+      issues.push({ item: path, message: 'Listed in the manifest but missing from the package', skipped: true });
+      return;
+    }
+    const question = readItem(strFromU8(files[fileName]), fileName, issues);
+    if (question) questions.push(question);
+  });
+
+  if (questions.length === 0 && issues.length === 0) {
+    throw new Error('No QTI items found in the package');
+  }
+
+  console.log(`📦 QTI import: ${questions.length} questions, ${issues.length} issues`);
+  return { format: 'qti', title, durationMinutes, questions, issues };
+};
+
+// ---- Export ----
+
+const itemIdentifier = (index: number) => `ITEM-${String(index + 1).padStart(3, '0')}`;
+const choiceIdentifier = (key: string) => `CHOICE_${key.toUpperCase()}`;
+
+const responseDeclaration = (cardinality: string, baseType: string, correct: string[], mapping = '') => [
+  `  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="${baseType}">`,
+  correct.length > 0
+    ? `    <correctResponse>\n${correct.map(value => `      <value>${escapeXml(value)}</value>`).join('\n')}\n    </correctResponse>`
+    : '',
+  mapping,
+  '  </responseDeclaration>',
+].filter(Boolean).join('\n');
+
+const mappingXml = (entries: Array<[string, number]>, upperBound: number) => [
+  `    <mapping defaultValue="0" lowerBound="0" upperBound="${upperBound}">`,
+  ...entries.map(([key, value]) => `      <mapEntry mapKey="${escapeXml(key)}" mappedValue="${+value.toFixed(6)}"/>`),
+  '    </mapping>',
+].join('\n');
+
+// Full points when the response matches (for numbers: within tolerance), nothing otherwise
+const matchCorrectProcessing = (comparison = '<match>') => {
+  const closing = comparison.startsWith('<equal') ? '</equal>' : '</match>';
+  return [
+    '  <responseProcessing>',
+    '    <responseCondition>',
+    '      <responseIf>',
+    `        ${comparison}`,
+    '          <variable identifier="RESPONSE"/>',
+    '          <correct identifier="RESPONSE"/>',
+    `        ${closing}`,
+    '        <setOutcomeValue identifier="SCORE">',
+    '          <variable identifier="MAXSCORE"/>',
+    '        </setOutcomeValue>',
+    '      </responseIf>',
+    '    </responseCondition>',
+    '  </responseProcessing>',
+  ].join('\n');
+};
+
+const mapResponseProcessing = () => [
+  '  <responseProcessing>',
+  '    <setOutcomeValue identifier="SCORE">',
+  '      <mapResponse identifier="RESPONSE"/>',
+  '    </setOutcomeValue>',
+  '  </responseProcessing>',
+].join('\n');
+
+interface ItemParts {
+  declaration: string;
+  interaction: string;
+  processing: string;
+}
+
+const buildItemParts = (question: ExportQuestion, context: ItemContext): ItemParts | null => {
+  const type = getQuestionType(question);
+  const config = getQuestionConfig(question);
+  const partial = config.scoring === 'partial';
+  const points = question.points || 1;
+  const correctKeys = parseKeyList(question.correct_answer);
+  const needsKey = type !== 'short_answer' && !question.correct_answer?.trim();
+  if (needsKey) note(context, 'No correct answer; exported without one');
+
+  switch (type) {
+    case 'mcq':
+    case 'multi_select': {
+      const options = getChoiceOptions(question);
+      const correct = correctKeys.map(choiceIdentifier);
+      const multiple = type === 'multi_select';
+      // Mirrors the grader: each wrong selection cancels a right one, never below zero
+      const mapping = multiple && partial && correct.length > 0
+        ? mappingXml(options.map(([key]) => [
+          choiceIdentifier(key),
+          (correctKeys.includes(key) ? points : -points) / correct.length,
+        ]), points)
+        : '';
+      return {
+        declaration: responseDeclaration(multiple ? 'multiple' : 'single', 'identifier', correct, mapping),
+        interaction: [
+          `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">`,
+          ...options.map(([key, text]) => `      <simpleChoice identifier="${choiceIdentifier(key)}">${escapeXml(text)}</simpleChoice>`),
+          '    </choiceInteraction>',
+        ].join('\n'),
+        processing: mapping ? mapResponseProcessing() : matchCorrectProcessing(),
+      };
+    }
+
+    case 'true_false': {
+      const value = parseBoolean(question.correct_answer);
+      return {
+        declaration: responseDeclaration('single', 'identifier', value === null ? [] : [value ? 'TRUE' : 'FALSE']),
+        interaction: [
+          '    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">',
+          '      <simpleChoice identifier="TRUE">True</simpleChoice>',
+          '      <simpleChoice identifier="FALSE">False</simpleChoice>',
+          '    </choiceInteraction>',
+        ].join('\n'),
+        processing: matchCorrectProcessing(),
+      };
+    }
+
+    case 'numeric': {
+      const tolerance = Math.abs(config.tolerance || 0);
+      const relative = config.tolerance_type === 'relative';
+      const comparison = tolerance
+        ? `<equal toleranceMode="${relative ? 'relative' : 'absolute'}" tolerance="${relative ? +(tolerance * 100).toFixed(6) : tolerance}">`
+        : '<equal toleranceMode="exact">';
+      return {
+        declaration: responseDeclaration('single', 'float', question.correct_answer?.trim() ? [question.correct_answer.trim()] : []),
+        interaction: [
+          '    <p>',
+          '      <textEntryInteraction responseIdentifier="RESPONSE" expectedLength="12"/>',
+          config.unit ? `      <span class="unit">${escapeXml(config.unit)}</span>` : '',
+          '    </p>',
+        ].filter(Boolean).join('\n'),
+        processing: matchCorrectProcessing(comparison),
+      };
+    }
+
+    case 'ordering': {
+      const options = getChoiceOptions(question);
+      if (partial) note(context, 'Partial credit for ordering has no QTI equivalent; exported as all or nothing');
+      return {
+        declaration: responseDeclaration('ordered', 'identifier', correctKeys.map(choiceIdentifier)),
+        interaction: [
+          '    <orderInteraction responseIdentifier="RESPONSE" shuffle="false">',
+          ...options.map(([key, text]) => `      <simpleChoice identifier="${choiceIdentifier(key)}">${escapeXml(text)}</simpleChoice>`),
+          '    </orderInteraction>',
+        ].join('\n'),
+        processing: matchCorrectProcessing(),
+      };
+    }
+
+    case 'matching': {
+      const { prompts, choices } = getMatchingOptions(question);
+      const pairs = Object.entries(parsePairs(question.correct_answer))
+        .filter(([prompt, choice]) => prompts[prompt] && choices[choice])
+        .map(([prompt, choice]) => `P${prompt} M_${choice.toUpperCase()}`);
+      if (Object.keys(prompts).length < 2 || Object.keys(choices).length < 2) {
+        note(context, 'Matching question needs at least two prompts and matches', true);
+        return null;
+      }
+      const mapping = partial && pairs.length > 0
+        ? mappingXml(pairs.map(pair => [pair, points / pairs.length]), points)
+        : '';
+      return {
+        declaration: responseDeclaration('multiple', 'directedPair', pairs, mapping),
+        interaction: [
+          `    <matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${Object.keys(prompts).length}">`,
+          '      <simpleMatchSet>',
+          ...Object.entries(prompts).map(([key, text]) =>
+            `        <simpleAssociableChoice identifier="P${key}" matchMax="1">${escapeXml(text)}</simpleAssociableChoice>`),
+          '      </simpleMatchSet>',
+          '      <simpleMatchSet>',
+          ...Object.entries(choices).map(([key, text]) =>
+            `        <simpleAssociableChoice identifier="M_${key.toUpperCase()}" matchMax="1">${escapeXml(text)}</simpleAssociableChoice>`),
+          '      </simpleMatchSet>',
+          '    </matchInteraction>',
+        ].join('\n'),
+        processing: mapping ? mapResponseProcessing() : matchCorrectProcessing(),
+      };
+    }
+
+    default:
+      if (question.rubric) note(context, 'Grading rubric is not part of QTI and was not exported');
+      return {
+        declaration: responseDeclaration('single', 'string', question.correct_answer?.trim() ? [question.correct_answer.trim()] : []),
+        interaction: '    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="5"/>',
+        // Scored by a grader, so no response processing
+        processing: '',
+      };
+  }
+};
+
+const buildItem = (question: ExportQuestion, identifier: string, issues: ImportIssue[]): string | null => {
+  const context: ItemContext = { item: `Q${question.question_number}`, issues };
+  const parts = buildItemParts(question, context);
+  if (!parts) return null;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${QTI_SCHEMA}"`,
+    `  identifier="${identifier}" title="Question ${question.question_number}" adaptive="false" timeDependent="false">`,
+    parts.declaration,
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">',
+    '    <defaultValue><value>0</value></defaultValue>',
+    '  </outcomeDeclaration>',
+    '  <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">',
+    `    <defaultValue><value>${question.points || 1}</value></defaultValue>`,
+    '  </outcomeDeclaration>',
+    '  <itemBody>',
+    paragraphs(question.question_text, '    '),
+    parts.interaction,
+    '  </itemBody>',
+    parts.processing,
+    '</assessmentItem>',
+    '',
+  ].filter(Boolean).join('\n');
+};
+
+export const buildQtiPackage = (template: ExportTemplateInfo, questions: ExportQuestion[]): QuestionSetExport => {
+  const issues: ImportIssue[] = [];
+  const items: Array<{ identifier: string; href: string; xml: string }> = [];
+
+  [...questions]
+    .sort((a, b) => a.question_number - b.question_number)
+    .forEach(question => {
+      const identifier = itemIdentifier(items.length);
+      const xml = buildItem(question, identifier, issues);
+      if (xml) items.push({ identifier, href: `items/${identifier.toLowerCase()}.xml`, xml });
+    });
+
+  const title = escapeXml(template.title);
+  const test = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentTest xmlns="${QTI_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${QTI_SCHEMA}"`,
+    `  identifier="TEST" title="${title}">`,
+    template.durationMinutes ? `  <timeLimits maxTime="${template.durationMinutes * 60}"/>` : '',
+    '  <testPart identifier="PART-1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    `    <assessmentSection identifier="SECTION-1" title="${title}" visible="true">`,
+    ...items.map(item => `      <assessmentItemRef identifier="${item.identifier}" href="${item.href}"/>`),
+    '    </assessmentSection>',
+    '  </testPart>',
+    '</assessmentTest>',
+    '',
+  ].filter(Boolean).join('\n');
+
+  const manifest = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="${CP_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${CP_SCHEMA}" identifier="MANIFEST">`,
+    '  <metadata>',
+    '    <schema>QTIv2.1 Package</schema>',
+    '    <schemaversion>1.0.0</schemaversion>',
+    '  </metadata>',
+    '  <organizations/>',
+    '  <resources>',
+    `    <resource identifier="TEST" type="${TEST_RESOURCE_TYPE}" href="assessment.xml">`,
+    '      <file href="assessment.xml"/>',
+    ...items.map(item => `      <dependency identifierref="${item.identifier}"/>`),
+    '    </resource>',
+    ...items.flatMap(item => [
+      `    <resource identifier="${item.identifier}" type="${ITEM_RESOURCE_TYPE}" href="${item.href}">`,
+      `      <file href="${item.href}"/>`,
+      '    </resource>',
+    ]),
+    '  </resources>',
+    '</manifest>',
+    '',
+  ].join('\n');
+
+  const files: Record<string, Uint8Array> = {
+    'imsmanifest.xml': strToU8(manifest),
+    'assessment.xml': strToU8(test),
+  };
+  items.forEach(item => {
+    files[item.href] = strToU8(item.xml);
+  });
+
+  console.log(`📦 QTI export: ${items.length} items, ${issues.length} issues`);
+  return { data: zipSync(files), issues };
+};
@@ -0,0 +1,171 @@
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { seededShuffle } from '@/utils/seededShuffle';
+import { QUESTION_TYPE_LABELS, getQuestionType, type QuestionType } from '@/utils/questionTypes';
+
+// Searching the question bank and assembling templates from it. Pure functions only;
+// the bank page does the Supabase reads and writes.
+
+export type BankQuestion = Tables<'question_bank'>;
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const isDifficulty = (value: unknown): value is Difficulty =>
+  typeof value === 'string' && (DIFFICULTIES as string[]).includes(value);
+
+export interface BankFilter {
+  search?: string;
+  topic?: string;
+  difficulty?: Difficulty;
+  outcome?: string;
+  tag?: string;
+  questionType?: QuestionType;
+  includeArchived?: boolean;
+}
+
+// "5 easy from topic X": count questions matching every criterion that is set
+export interface AssemblyRule {
+  count: number;
+  topic?: string;
+  difficulty?: Difficulty;
+  outcome?: string;
+  tag?: string;
+}
+
+export interface RuleShortfall {
+  rule: AssemblyRule;
+  available: number;
+}
+
+export interface AssemblyResult {
+  // Picked questions first, then each rule's draw in rule order
+  questions: BankQuestion[];
+  shortfalls: RuleShortfall[];
+}
+
+export interface BankFacets {
+  topics: string[];
+  outcomes: string[];
+  tags: string[];
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+// Splits "graphs, trees; recursion" into tags
+export const parseTagList = (value: string): string[] =>
+  Array.from(new Set(value.split(/[,;]/).map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const matchesBankFilter = (question: BankQuestion, filter: BankFilter): boolean => {
+  if (question.archived && !filter.includeArchived) return false;
+  if (filter.topic && !sameText(question.topic, filter.topic)) return false;
+  if (filter.difficulty && question.difficulty !== filter.difficulty) return false;
+  if (filter.outcome && !sameText(question.outcome, filter.outcome)) return false;
+  if (filter.tag && !question.tags.some(tag => sameText(tag, filter.tag))) return false;
+  if (filter.questionType && getQuestionType(question) !== filter.questionType) return false;
+
+  const search = filter.search?.trim().toLowerCase();
+  if (search) {
+    const haystack = [question.question_text, question.topic, question.outcome, ...question.tags]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return search.split(/\s+/).every(word => haystack.includes(word));
+  }
+  return true;
+};
+
+export const searchBank = (questions: BankQuestion[], filter: BankFilter): BankQuestion[] =>
+  questions.filter(question => matchesBankFilter(question, filter));
+
+// Distinct topics, outcomes and tags for the filter dropdowns
+export const collectFacets = (questions: BankQuestion[]): BankFacets => {
+  const unique = (values: (string | null)[]) =>
+    Array.from(new Set(values.filter((v): v is string => !!v && !!v.trim()).map(v => v.trim()))).sort();
+  return {
+    topics: unique(questions.map(q => q.topic)),
+    outcomes: unique(questions.map(q => q.outcome)),
+    tags: unique(questions.flatMap(q => q.tags)),
+  };
+};
+
+export const describeRule = (rule: AssemblyRule): string => {
+  const parts = [`${rule.count}`];
+  if (rule.difficulty) parts.push(DIFFICULTY_LABELS[rule.difficulty].toLowerCase());
+  parts.push(rule.count === 1 ? 'question' : 'questions');
+  if (rule.topic) parts.push(`from topic "${rule.topic}"`);
+  if (rule.outcome) parts.push(`for outcome "${rule.outcome}"`);
+  if (rule.tag) parts.push(`tagged "${rule.tag}"`);
+  return parts.join(' ');
+};
+
+// Picked questions plus a seeded random draw for each rule. A question is used at most once,
+// so a later rule only draws from what earlier picks and rules left over.
+export const assembleQuestions = (
+  bank: BankQuestion[],
+  pickedIds: string[],
+  rules: AssemblyRule[],
+  seed: string
+): AssemblyResult => {
+  const byId = new Map(bank.map(question => [question.id, question]));
+  const used = new Set<string>();
+  const questions: BankQuestion[] = [];
+  const shortfalls: RuleShortfall[] = [];
+
+  pickedIds.forEach(id => {
+    const question = byId.get(id);
+    if (!question || used.has(id)) return;
+    used.add(id);
+    questions.push(question);
+  });
+
+  rules.forEach((rule, index) => {
+    const candidates = searchBank(bank, rule).filter(question => !used.has(question.id));
+    const drawn = seededShuffle(candidates, `${seed}:rule:${index}`).slice(0, Math.max(rule.count, 0));
+    if (drawn.length < rule.count) {
+      shortfalls.push({ rule, available: drawn.length });
+    }
+    drawn.forEach(question => {
+      used.add(question.id);
+      questions.push(question);
+    });
+  });
+
+  return { questions, shortfalls };
+};
+
+// Copies bank questions into a template, numbered in order and pinned to their current version
+export const toExamQuestionRows = (
+  templateId: string,
+  questions: BankQuestion[]
+): TablesInsert<'exam_questions'>[] =>
+  questions.map((question, index) => ({
+    exam_template_id: templateId,
+    question_number: index + 1,
+    question_text: question.question_text,
+    question_type: question.question_type,
+    options: question.options,
+    correct_answer: question.correct_answer,
+    points: question.points,
+    config: question.config,
+    rubric: question.rubric,
+    bank_question_id: question.id,
+    bank_version: question.version,
+  }));
+
+export const describeBankQuestion = (question: BankQuestion): string =>
+  [
+    QUESTION_TYPE_LABELS[getQuestionType(question)],
+    question.topic,
+    isDifficulty(question.difficulty) ? DIFFICULTY_LABELS[question.difficulty] : null,
+    `v${question.version}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,92 @@
+import type { QuestionDraft } from '@/utils/templateDraft';
+import type { ParsedQuestion } from '@/utils/templateSpreadsheet';
+
+// Shared types and helpers for the question interchange formats used by other LMSs:
+// IMS QTI 2.1 packages (qti.ts), Moodle XML (moodleXml.ts) and GIFT (gift.ts).
+// Every format parses into template editor drafts (saved through the spreadsheet parser like
+// any other import) and serializes stored questions. Questions or details a format can't carry
+// are reported as issues rather than dropped silently. questionSetFiles.ts picks the format.
+
+export type QuestionSetFormat = 'qti' | 'moodle_xml' | 'gift';
+
+export const QUESTION_SET_FORMATS: Record<QuestionSetFormat, { label: string; extension: string; mimeType: string }> = {
+  qti: { label: 'QTI 2.1 package', extension: 'zip', mimeType: 'application/zip' },
+  moodle_xml: { label: 'Moodle XML', extension: 'xml', mimeType: 'application/xml' },
+  gift: { label: 'GIFT', extension: 'gift', mimeType: 'text/plain' },
+};
+
+export interface ImportIssue {
+  // Item identifier, question name or file name
+  item: string;
+  // 1-based line in the source file, where the format has lines to point at
+  line?: number;
+  message: string;
+  // The question was left out entirely (otherwise it was imported/exported with the noted loss)
+  skipped: boolean;
+}
+
+export interface ImportedQuestion {
+  draft: QuestionDraft;
+  item: string;
+  line?: number;
+}
+
+export interface QuestionSetImport {
+  format: QuestionSetFormat;
+  title: string | null;
+  durationMinutes: number | null;
+  questions: ImportedQuestion[];
+  issues: ImportIssue[];
+}
+
+export interface QuestionSetExport {
+  data: Uint8Array | string;
+  issues: ImportIssue[];
+}
+
+export interface ExportTemplateInfo {
+  title: string;
+  durationMinutes?: number | null;
+}
+
+export type ExportQuestion = Omit<ParsedQuestion, 'question_type'> & {
+  question_type: string;
+  rubric?: unknown;
+};
+
+// ---- Helpers for the format modules ----
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const BLOCK_TAGS = /<\/?(p|div|br|li|ul|ol|table|tr|h[1-6]|blockquote|pre)\b[^>]*>/gi;
+
+export const tidyText = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+// Plain text of an HTML fragment, one line per block element
+export const htmlToText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html.replace(BLOCK_TAGS, '\n'), 'text/html');
+  return tidyText(doc.body.textContent || '');
+};
+
+export const hasMedia = (html: string) => /<(img|object|math|audio|video|embed)\b/i.test(html);
+
+// Moodle only accepts these grade fractions (percent) for answers
+const MOODLE_FRACTIONS = [100, 90, 83.33333, 80, 75, 70, 66.66667, 60, 50, 40, 33.33333, 30, 25, 20, 16.66667, 14.28571, 12.5, 11.11111, 10, 5, 0];
+
+// Closest allowed fraction, keeping the sign
+export const moodleFraction = (percent: number): number => {
+  const closest = MOODLE_FRACTIONS.reduce((best, value) =>
+    Math.abs(value - Math.abs(percent)) < Math.abs(best - Math.abs(percent)) ? value : best
+  );
+  return percent < 0 ? -closest : closest;
+};
@@ -0,0 +1,50 @@
+import { buildQtiPackage, parseQtiPackage } from '@/utils/qti';
+import { buildMoodleXml, parseMoodleXml } from '@/utils/moodleXml';
+import { buildGift, parseGift } from '@/utils/gift';
+import type {
+  ExportQuestion,
+  ExportTemplateInfo,
+  QuestionSetExport,
+  QuestionSetFormat,
+  QuestionSetImport,
+} from '@/utils/questionFormats';
+
+// Reads and writes question set files in any of the interchange formats, by file extension
+
+export const QUESTION_SET_ACCEPT = '.zip,.xml,.gift,.txt';
+
+export const detectQuestionSetFormat = (fileName: string): QuestionSetFormat | null => {
+  if (/\.zip$/i.test(fileName)) return 'qti';
+  if (/\.xml$/i.test(fileName)) return 'moodle_xml';
+  if (/\.(gift|txt)$/i.test(fileName)) return 'gift';
+  return null;
+};
+
+export const readQuestionSetFile = async (file: File): Promise<QuestionSetImport> => {
+  switch (detectQuestionSetFormat(file.name)) {
+    case 'qti':
+      return parseQtiPackage(new Uint8Array(await file.arrayBuffer()));
+    case 'moodle_xml':
+      return parseMoodleXml(await file.text());
+    case 'gift':
+      return parseGift(await file.text());
+    default:
+      throw new Error('Unsupported file type');
+  }
+};
+
+export const exportQuestionSet = (
+  format: QuestionSetFormat,
+  template: ExportTemplateInfo,
+  questions: ExportQuestion[]
+): QuestionSetExport => {
+  const ordered = [...questions].sort((a, b) => a.question_number - b.question_number);
+  switch (format) {
+    case 'qti':
+      return buildQtiPackage(template, ordered);
+    case 'moodle_xml':
+      return buildMoodleXml(template, ordered);
+    default:
+      return buildGift(template, ordered);
+  }
+};
@@ -0,0 +1,303 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Question types stored in exam_questions.question_type.
+// Each type has its own options shape (exam_questions.options), its own settings
+// (exam_questions.config) and its own serialization in exam_answers.answer:
+//
+//   mcq           options {a, b, ...}             answer "b"
+//   multi_select  options {a, b, ...}             answer "a,c"       (keys, sorted)
+//   true_false    options null                    answer "true" | "false"
+//   numeric       options null                    answer "9.81"
+//   matching      options {prompts, choices}      answer "1:b,2:a"   (prompt:choice pairs)
+//   ordering      options {a, b, ...}             answer "c,a,b"     (keys in chosen order)
+//   short_answer  options null                    answer free text
+export type QuestionType =
+  | 'mcq'
+  | 'multi_select'
+  | 'true_false'
+  | 'numeric'
+  | 'matching'
+  | 'ordering'
+  | 'short_answer';
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'mcq',
+  'multi_select',
+  'true_false',
+  'numeric',
+  'matching',
+  'ordering',
+  'short_answer',
+];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple Choice',
+  multi_select: 'Multiple Select',
+  true_false: 'True / False',
+  numeric: 'Numeric',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  short_answer: 'Short Answer',
+};
+
+export type ScoringMode = 'all_or_nothing' | 'partial';
+export type ToleranceType = 'absolute' | 'relative';
+
+export interface QuestionConfig {
+  // multi_select, matching and ordering: all-or-nothing (default) or proportional credit
+  scoring?: ScoringMode;
+  // numeric: accepted deviation; relative tolerance is a fraction of the correct value (0.05 = 5%)
+  tolerance?: number;
+  tolerance_type?: ToleranceType;
+  unit?: string;
+}
+
+export interface MatchingOptions {
+  prompts: Record<string, string>;
+  choices: Record<string, string>;
+}
+
+// The subset of an exam_questions row the helpers below need
+export interface QuestionDefinition {
+  question_type: string;
+  options?: Json | null;
+  correct_answer?: string | null;
+  config?: Json | null;
+}
+
+export const isQuestionType = (value: string): value is QuestionType =>
+  (QUESTION_TYPES as string[]).includes(value);
+
+export const getQuestionType = (question: QuestionDefinition): QuestionType =>
+  isQuestionType(question.question_type) ? question.question_type : 'short_answer';
+
+const isRecord = (value: unknown): value is Record<string, Json> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toStringRecord = (value: unknown): Record<string, string> => {
+  if (!isRecord(value)) return {};
+  const result: Record<string, string> = {};
+  Object.entries(value).forEach(([key, text]) => {
+    if (text !== null && text !== undefined && String(text).trim() !== '') {
+      result[key] = String(text);
+    }
+  });
+  return result;
+};
+
+export const getQuestionConfig = (question: QuestionDefinition): QuestionConfig => {
+  if (!isRecord(question.config)) return {};
+  const config = question.config;
+  return {
+    scoring: config.scoring === 'partial' ? 'partial' : 'all_or_nothing',
+    tolerance: typeof config.tolerance === 'number' ? config.tolerance : undefined,
+    tolerance_type: config.tolerance_type === 'relative' ? 'relative' : 'absolute',
+    unit: typeof config.unit === 'string' && config.unit ? config.unit : undefined,
+  };
+};
+
+// Lettered options for mcq, multi_select and ordering, in key order (a, b, c, ...)
+export const getChoiceOptions = (question: QuestionDefinition): Array<[string, string]> =>
+  Object.entries(toStringRecord(question.options)).sort(([a], [b]) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+export const getMatchingOptions = (question: QuestionDefinition): MatchingOptions => {
+  const options = isRecord(question.options) ? question.options : {};
+  return {
+    prompts: toStringRecord(options.prompts),
+    choices: toStringRecord(options.choices),
+  };
+};
+
+// Option keys: a..z, then aa, ab, ... for very long option lists
+export const optionKey = (index: number): string => {
+  let key = '';
+  let n = index;
+  do {
+    key = String.fromCharCode(97 + (n % 26)) + key;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return key;
+};
+
+// ---- Answer serialization ----
+
+export const parseKeyList = (answer?: string | null): string[] =>
+  (answer || '')
+    .split(',')
+    .map(key => key.trim().toLowerCase())
+    .filter(Boolean);
+
+export const serializeKeyList = (keys: string[], sorted = false): string => {
+  const list = sorted ? [...keys].sort() : keys;
+  return list.join(',');
+};
+
+export const parsePairs = (answer?: string | null): Record<string, string> => {
+  const pairs: Record<string, string> = {};
+  parseKeyList(answer).forEach(pair => {
+    const [prompt, choice] = pair.split(':').map(part => part.trim());
+    if (prompt && choice) pairs[prompt] = choice;
+  });
+  return pairs;
+};
+
+export const serializePairs = (pairs: Record<string, string>): string =>
+  Object.entries(pairs)
+    .filter(([, choice]) => !!choice)
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([prompt, choice]) => `${prompt}:${choice}`)
+    .join(',');
+
+export const parseBoolean = (answer?: string | null): boolean | null => {
+  const value = (answer || '').trim().toLowerCase();
+  if (['true', 't', 'yes', 'y', '1'].includes(value)) return true;
+  if (['false', 'f', 'no', 'n', '0'].includes(value)) return false;
+  return null;
+};
+
+// Accepts "9.81", "9,81", "1,000.5" and a trailing unit ("9.81 m/s2")
+export const parseNumber = (answer?: string | null): number | null => {
+  const match = (answer || '').trim().match(/^[-+]?(\d{1,3}(,\d{3})+|\d*)([.,]\d+)?([eE][-+]?\d+)?/);
+  if (!match || !match[0] || !/\d/.test(match[0])) return null;
+  let text = match[0];
+  // A lone comma is a decimal separator; commas followed by three digits group thousands
+  text = match[2] ? text.replace(/,/g, '') : text.replace(',', '.');
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const isAnswered = (answer?: string | null) => !!answer && answer.trim() !== '';
+
+// ---- Scoring ----
+
+// Fraction of the question's points earned (0..1), or null when the question needs manual grading
+export const scoreAnswer = (question: QuestionDefinition, answer?: string | null): number | null => {
+  const type = getQuestionType(question);
+  const correct = question.correct_answer?.trim();
+  if (type === 'short_answer' || !correct) return null;
+  if (!isAnswered(answer)) return 0;
+
+  const config = getQuestionConfig(question);
+  const partial = config.scoring === 'partial';
+
+  switch (type) {
+    case 'mcq':
+      return answer!.trim().toLowerCase() === correct.toLowerCase() ? 1 : 0;
+
+    case 'multi_select': {
+      const expected = new Set(parseKeyList(correct));
+      const selected = new Set(parseKeyList(answer));
+      if (expected.size === 0) return null;
+      const hits = [...selected].filter(key => expected.has(key)).length;
+      const misses = selected.size - hits;
+      if (!partial) return hits === expected.size && misses === 0 ? 1 : 0;
+      // Each wrong selection cancels a right one so selecting everything earns nothing
+      return Math.max(0, (hits - misses) / expected.size);
+    }
+
+    case 'true_false': {
+      const expected = parseBoolean(correct);
+      return expected !== null && parseBoolean(answer) === expected ? 1 : 0;
+    }
+
+    case 'numeric': {
+      const expected = parseNumber(correct);
+      const given = parseNumber(answer);
+      if (expected === null) return null;
+      if (given === null) return 0;
+      const tolerance = Math.abs(config.tolerance || 0);
+      const allowed = config.tolerance_type === 'relative' ? tolerance * Math.abs(expected) : tolerance;
+      // Small epsilon so 0.1 + 0.2 style float noise doesn't fail an exact answer
+      return Math.abs(given - expected) <= allowed + 1e-9 ? 1 : 0;
+    }
+
+    case 'matching': {
+      const expected = parsePairs(correct);
+      const given = parsePairs(answer);
+      const prompts = Object.keys(expected);
+      if (prompts.length === 0) return null;
+      const hits = prompts.filter(prompt => given[prompt] === expected[prompt]).length;
+      if (!partial) return hits === prompts.length ? 1 : 0;
+      return hits / prompts.length;
+    }
+
+    case 'ordering': {
+      const expected = parseKeyList(correct);
+      const given = parseKeyList(answer);
+      if (expected.length === 0) return null;
+      const hits = expected.filter((key, index) => given[index] === key).length;
+      if (!partial) return hits === expected.length ? 1 : 0;
+      return hits / expected.length;
+    }
+
+    default:
+      return null;
+  }
+};
+
+// ---- Display ----
+
+// Human-readable rendering of a serialized answer (or correct answer) for reports
+export const formatAnswer = (question: QuestionDefinition, answer?: string | null): string => {
+  if (!isAnswered(answer)) return '';
+  const type = getQuestionType(question);
+
+  switch (type) {
+    case 'mcq':
+    case 'multi_select': {
+      const options = Object.fromEntries(getChoiceOptions(question));
+      return parseKeyList(answer)
+        .map(key => (options[key] ? `${key}) ${options[key]}` : key))
+        .join(', ');
+    }
+
+    case 'ordering': {
+      // Keys are shuffled at upload and mean nothing to a reader, so show the items only
+      const options = Object.fromEntries(getChoiceOptions(question));
+      return parseKeyList(answer)
+        .map(key => options[key] || key)
+        .join(' → ');
+    }
+
+    case 'true_false': {
+      const value = parseBoolean(answer);
+      return value === null ? answer! : value ? 'True' : 'False';
+    }
+
+    case 'numeric': {
+      const { unit } = getQuestionConfig(question);
+      return unit && !answer!.includes(unit) ? `${answer!.trim()} ${unit}` : answer!.trim();
+    }
+
+    case 'matching': {
+      const { prompts, choices } = getMatchingOptions(question);
+      return Object.entries(parsePairs(answer))
+        .map(([prompt, choice]) => `${prompts[prompt] || prompt} → ${choices[choice] || choice}`)
+        .join('; ');
+    }
+
+    default:
+      return answer!;
+  }
+};
+
+// Short description of the question settings for previews and reports
+export const describeQuestionConfig = (question: QuestionDefinition): string => {
+  const type = getQuestionType(question);
+  const config = getQuestionConfig(question);
+
+  if (type === 'numeric') {
+    const tolerance = config.tolerance
+      ? config.tolerance_type === 'relative'
+        ? `±${+(config.tolerance * 100).toFixed(4)}%`
+        : `±${config.tolerance}`
+      : 'exact';
+    return config.unit ? `${tolerance}, unit: ${config.unit}` : tolerance;
+  }
+  if (type === 'multi_select' || type === 'matching' || type === 'ordering') {
+    return config.scoring === 'partial' ? 'partial credit' : 'all or nothing';
+  }
+  return '';
+};
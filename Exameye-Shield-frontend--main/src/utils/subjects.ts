@@ -0,0 +1,8 @@
+// Subjects offered when creating a template; admins can also enter a custom subject
+export const DEFAULT_SUBJECTS = [
+  { code: 'ETCS214A', name: 'Data Structure' },
+  { code: 'ETCS332B', name: 'Engineering Mathematics' },
+  { code: 'ETCS456A', name: 'Operating System' },
+  { code: 'ETCS75A', name: 'Theory of Computation' },
+  { code: 'ETCS852A', name: 'Chemistry' },
+];
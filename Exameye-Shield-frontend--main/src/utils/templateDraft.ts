@@ -0,0 +1,206 @@
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { rowToQuestion, type ParsedQuestion, type SpreadsheetRow } from '@/utils/templateSpreadsheet';
+import {
+  getChoiceOptions,
+  getMatchingOptions,
+  getQuestionConfig,
+  getQuestionType,
+  optionKey,
+  parseKeyList,
+  parsePairs,
+  type QuestionType,
+  type ScoringMode,
+} from '@/utils/questionTypes';
+
+// Editable form of a template question, used by the template editor.
+// Drafts are kept in the same shape as a spreadsheet row - option texts in column order,
+// matching pairs as "prompt | match", ordering items in the correct order - and saved
+// through the spreadsheet parser, so uploads and the editor store questions identically.
+
+export interface QuestionDraft {
+  // Local id for list keys; not stored
+  id: string;
+  question_text: string;
+  question_type: QuestionType;
+  options: string[];
+  // Option letters for mcq/multi_select ("a,c"), "true"/"false", a number, or a model answer
+  correct_answer: string;
+  points: number;
+  // "0.5" (absolute) or "5%" (relative)
+  tolerance: string;
+  unit: string;
+  scoring: ScoringMode;
+  rubric: Json | null;
+  bank_question_id: string | null;
+  bank_version: number | null;
+}
+
+export type TemplateQuestion = Tables<'exam_questions'>;
+
+const MATCHING_SEPARATOR = ' | ';
+
+let draftCounter = 0;
+const nextDraftId = () => `draft-${Date.now()}-${draftCounter++}`;
+
+export const TYPES_WITH_OPTIONS: QuestionType[] = ['mcq', 'multi_select', 'matching', 'ordering'];
+
+export const createDraft = (questionType: QuestionType = 'mcq'): QuestionDraft => ({
+  id: nextDraftId(),
+  question_text: '',
+  question_type: questionType,
+  options: TYPES_WITH_OPTIONS.includes(questionType) ? ['', ''] : [],
+  correct_answer: '',
+  points: 1,
+  tolerance: '',
+  unit: '',
+  scoring: 'all_or_nothing',
+  rubric: null,
+  bank_question_id: null,
+  bank_version: null,
+});
+
+const formatTolerance = (tolerance?: number, relative?: boolean): string => {
+  if (tolerance === undefined) return '';
+  return relative ? `${Math.round(tolerance * 10000) / 100}%` : String(tolerance);
+};
+
+// Stored question (exam_questions row or parsed upload) -> draft
+export const questionToDraft = (
+  question: Pick<TemplateQuestion, 'question_text' | 'question_type' | 'options' | 'correct_answer' | 'points' | 'config'> &
+    Partial<Pick<TemplateQuestion, 'rubric' | 'bank_question_id' | 'bank_version'>>
+): QuestionDraft => {
+  const questionType = getQuestionType(question);
+  const config = getQuestionConfig(question);
+  const draft: QuestionDraft = {
+    ...createDraft(questionType),
+    question_text: question.question_text,
+    correct_answer: question.correct_answer || '',
+    points: question.points || 1,
+    tolerance: formatTolerance(config.tolerance, config.tolerance_type === 'relative'),
+    unit: config.unit || '',
+    scoring: config.scoring || 'all_or_nothing',
+    rubric: question.rubric ?? null,
+    bank_question_id: question.bank_question_id ?? null,
+    bank_version: question.bank_version ?? null,
+  };
+
+  switch (questionType) {
+    case 'mcq':
+    case 'multi_select': {
+      // Re-letter by position so the draft's letters match what the parser will produce
+      const options = getChoiceOptions(question);
+      const positions = new Map(options.map(([key], index) => [key, optionKey(index)]));
+      draft.options = options.map(([, text]) => text);
+      draft.correct_answer = parseKeyList(question.correct_answer)
+        .map(key => positions.get(key))
+        .filter(Boolean)
+        .join(',');
+      break;
+    }
+    case 'ordering': {
+      const texts = new Map(getChoiceOptions(question));
+      draft.options = parseKeyList(question.correct_answer).map(key => texts.get(key) || '');
+      draft.correct_answer = '';
+      break;
+    }
+    case 'matching': {
+      const { prompts, choices } = getMatchingOptions(question);
+      const pairs = parsePairs(question.correct_answer);
+      draft.options = Object.entries(prompts)
+        .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+        .map(([promptKey, prompt]) => `${prompt}${MATCHING_SEPARATOR}${choices[pairs[promptKey]] || ''}`);
+      draft.correct_answer = '';
+      break;
+    }
+    default:
+      draft.options = [];
+  }
+
+  return draft;
+};
+
+export const splitMatchingOption = (option: string): [string, string] => {
+  const [prompt = '', ...rest] = option.split('|');
+  return [prompt.trim(), rest.join('|').trim()];
+};
+
+export const joinMatchingOption = (prompt: string, match: string) => `${prompt}${MATCHING_SEPARATOR}${match}`;
+
+export const draftToRow = (draft: QuestionDraft, index: number): SpreadsheetRow => {
+  const row: SpreadsheetRow = {
+    Question_No: index + 1,
+    Question: draft.question_text,
+    Question_Type: draft.question_type,
+    Correct_Answer: draft.correct_answer,
+    Points: draft.points,
+    Tolerance: draft.tolerance,
+    Unit: draft.unit,
+    Scoring: draft.scoring,
+  };
+  draft.options.forEach((option, i) => {
+    row[`Option_${optionKey(i).toUpperCase()}`] = option;
+  });
+  return row;
+};
+
+export const draftToQuestion = (draft: QuestionDraft, index: number): ParsedQuestion =>
+  rowToQuestion(draftToRow(draft, index), index);
+
+// Rows for exam_questions, numbered in list order
+export const draftsToQuestionRows = (
+  templateId: string,
+  drafts: QuestionDraft[]
+): TablesInsert<'exam_questions'>[] =>
+  drafts.map((draft, index) => ({
+    exam_template_id: templateId,
+    ...draftToQuestion(draft, index),
+    rubric: draft.rubric,
+    bank_question_id: draft.bank_question_id,
+    bank_version: draft.bank_version,
+  }));
+
+// Problems that would make the question unanswerable or ungradable
+export const validateDraft = (draft: QuestionDraft): string[] => {
+  const errors: string[] = [];
+  const filledOptions = draft.options.filter(option => option.trim() !== '');
+
+  if (!draft.question_text.trim()) errors.push('Question text is empty');
+  if (!(draft.points > 0)) errors.push('Points must be greater than 0');
+  // The parser skips blank option cells, which would shift the letters of later options
+  if (TYPES_WITH_OPTIONS.includes(draft.question_type) && filledOptions.length < draft.options.length) {
+    errors.push('Fill in or remove empty options');
+  }
+
+  switch (draft.question_type) {
+    case 'mcq':
+    case 'multi_select': {
+      if (filledOptions.length < 2) errors.push('Add at least two options');
+      const keys = parseKeyList(draft.correct_answer);
+      const validKeys = draft.options.map((_, i) => optionKey(i));
+      if (keys.length === 0) errors.push('Mark the correct option');
+      else if (keys.some(key => !validKeys.includes(key))) errors.push('Correct answer refers to a missing option');
+      if (draft.question_type === 'mcq' && keys.length > 1) errors.push('Multiple choice has exactly one correct option');
+      break;
+    }
+    case 'true_false':
+      if (draft.correct_answer !== 'true' && draft.correct_answer !== 'false') errors.push('Choose True or False');
+      break;
+    case 'numeric':
+      if (!Number.isFinite(parseFloat(draft.correct_answer))) errors.push('Enter the correct number');
+      if (draft.tolerance && !Number.isFinite(parseFloat(draft.tolerance))) errors.push('Tolerance must be a number or percentage');
+      break;
+    case 'matching':
+      if (filledOptions.length < 2) errors.push('Add at least two pairs');
+      if (draft.options.some(option => splitMatchingOption(option).some(part => !part))) {
+        errors.push('Every pair needs a prompt and a match');
+      }
+      break;
+    case 'ordering':
+      if (filledOptions.length < 2) errors.push('Add at least two items');
+      break;
+    default:
+      break;
+  }
+
+  return errors;
+};
@@ -0,0 +1,320 @@
+import * as XLSX from 'xlsx';
+import type { Json } from '@/integrations/supabase/types';
+import { seededShuffle } from '@/utils/seededShuffle';
+import { DIFFICULTIES, isDifficulty, parseTagList } from '@/utils/questionBank';
+import {
+  QUESTION_TYPES,
+  isQuestionType,
+  optionKey,
+  parseBoolean,
+  parseKeyList,
+  serializeKeyList,
+  type QuestionConfig,
+  type QuestionType,
+} from '@/utils/questionTypes';
+
+// Parses exam template spreadsheets (Excel or CSV) into exam_questions rows.
+//
+// Columns (header case and spaces don't matter) are listed in TEMPLATE_COLUMNS, which the
+// validator (templateValidation.ts) and the downloadable workbook (templateWorkbook.ts) share.
+// Question bank imports also read Topic, Difficulty, Outcome and Tags (comma separated).
+//
+// Any number of Option_* columns is accepted. Matching questions put one pair per option
+// cell as "prompt | match"; ordering questions list their items in the correct order.
+
+export type SpreadsheetRow = Record<string, unknown>;
+
+export interface ParsedQuestion {
+  question_number: number;
+  question_text: string;
+  question_type: QuestionType;
+  options: Json | null;
+  correct_answer: string | null;
+  points: number;
+  config: Json | null;
+}
+
+export interface ParsedBankQuestion extends ParsedQuestion {
+  topic: string | null;
+  difficulty: string | null;
+  outcome: string | null;
+  tags: string[];
+}
+
+export interface TemplateColumn {
+  // Header as written in generated workbooks
+  header: string;
+  // Other headers read as the same column
+  aliases?: string[];
+  required: boolean;
+  // Question types the column is read for, every type when omitted
+  types?: QuestionType[];
+  // Only read by question bank imports
+  bankOnly?: boolean;
+  // Accepted values, case-insensitive
+  values?: string[];
+  description: string;
+}
+
+export const MATCHING_SEPARATOR = '|';
+
+export const OPTION_COLUMN = /^option_[a-z0-9]+$/;
+
+export const TOLERANCE_TYPES = ['absolute', 'relative'];
+
+export const SCORING_MODES = ['all_or_nothing', 'partial'];
+
+// Option_A, Option_B, ... sit between Question_Type and Correct_Answer
+export const TEMPLATE_COLUMNS: TemplateColumn[] = [
+  {
+    header: 'Question_No',
+    required: false,
+    description: 'Question number, a whole number from 1 up and unique in the sheet. Rows without one are numbered by position.',
+  },
+  {
+    header: 'Question',
+    aliases: ['Question_Text', 'Text'],
+    required: true,
+    description: 'The question text.',
+  },
+  {
+    header: 'Question_Type',
+    required: false,
+    values: QUESTION_TYPES,
+    description: 'mcq, multi_select, true_false, numeric, matching, ordering or short_answer. If empty, rows with options are mcq (multi_select when Correct_Answer lists several letters), other rows short_answer.',
+  },
+  {
+    header: 'Correct_Answer',
+    required: false,
+    description: 'mcq: one option letter. multi_select: letters separated by commas ("A, C"). true_false: True or False. numeric: the value. short_answer: a model answer shown to graders. Not used for matching and ordering.',
+  },
+  {
+    header: 'Points',
+    required: false,
+    description: 'Points for a fully correct answer, a whole number from 1 up. Defaults to 1.',
+  },
+  {
+    header: 'Tolerance',
+    required: false,
+    types: ['numeric'],
+    description: 'Accepted distance from the correct value, e.g. 0.5, or 5% for a relative tolerance.',
+  },
+  {
+    header: 'Tolerance_Type',
+    required: false,
+    types: ['numeric'],
+    values: TOLERANCE_TYPES,
+    description: 'absolute or relative. A Tolerance ending in % is always relative.',
+  },
+  {
+    header: 'Unit',
+    required: false,
+    types: ['numeric'],
+    description: 'Unit shown after the answer box, e.g. m/s2.',
+  },
+  {
+    header: 'Scoring',
+    required: false,
+    types: ['multi_select', 'matching', 'ordering'],
+    values: SCORING_MODES,
+    description: 'partial for partial credit, all_or_nothing (the default) otherwise.',
+  },
+  { header: 'Topic', required: false, bankOnly: true, description: 'Topic the question covers.' },
+  { header: 'Difficulty', required: false, bankOnly: true, values: DIFFICULTIES, description: 'easy, medium or hard.' },
+  {
+    header: 'Outcome',
+    aliases: ['Learning_Outcome'],
+    required: false,
+    bankOnly: true,
+    description: 'Learning outcome the question assesses.',
+  },
+  { header: 'Tags', required: false, bankOnly: true, description: 'Tags separated by commas.' },
+];
+
+
+export const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Every header a column is read from, normalized
+export const columnKeys = (column: TemplateColumn): string[] =>
+  [column.header, ...(column.aliases ?? [])].map(normalizeHeader);
+
+export const normalizeRow = (row: SpreadsheetRow): SpreadsheetRow => {
+  const normalized: SpreadsheetRow = {};
+  Object.entries(row).forEach(([key, value]) => {
+    normalized[normalizeHeader(key)] = value;
+  });
+  return normalized;
+};
+
+export const cellText = (value: unknown): string =>
+  value === null || value === undefined ? '' : String(value).trim();
+
+// Option cells in column order, skipping blanks
+const getOptionCells = (row: SpreadsheetRow): string[] =>
+  Object.keys(row)
+    .filter(key => OPTION_COLUMN.test(key))
+    .map(key => cellText(row[key]))
+    .filter(Boolean);
+
+const inferQuestionType = (row: SpreadsheetRow, optionCells: string[]): QuestionType => {
+  const declared = normalizeHeader(cellText(row.question_type)).replace(/^multiple_select$/, 'multi_select');
+  if (declared && isQuestionType(declared)) return declared;
+
+  if (optionCells.length === 0) return 'short_answer';
+  return parseKeyList(cellText(row.correct_answer)).length > 1 ? 'multi_select' : 'mcq';
+};
+
+const parseTolerance = (row: SpreadsheetRow): Pick<QuestionConfig, 'tolerance' | 'tolerance_type'> => {
+  const raw = cellText(row.tolerance);
+  if (!raw) return {};
+  const isPercent = raw.endsWith('%');
+  const value = parseFloat(raw.replace('%', ''));
+  if (!Number.isFinite(value)) return {};
+
+  const declaredType = cellText(row.tolerance_type).toLowerCase();
+  const relative = isPercent || declaredType === 'relative';
+  return {
+    tolerance: isPercent ? value / 100 : value,
+    tolerance_type: relative ? 'relative' : 'absolute',
+  };
+};
+
+const buildConfig = (row: SpreadsheetRow, type: QuestionType): QuestionConfig | null => {
+  if (type === 'numeric') {
+    const unit = cellText(row.unit);
+    const config: QuestionConfig = { ...parseTolerance(row), ...(unit ? { unit } : {}) };
+    return Object.keys(config).length > 0 ? config : null;
+  }
+  if (type === 'multi_select' || type === 'matching' || type === 'ordering') {
+    const scoring = cellText(row.scoring).toLowerCase();
+    return { scoring: scoring === 'partial' ? 'partial' : 'all_or_nothing' };
+  }
+  return null;
+};
+
+// Shuffled option keys for a question; never the identity order, since that would give the answer away
+const shuffledKeys = (count: number, seed: string): string[] => {
+  const keys = Array.from({ length: count }, (_, i) => optionKey(i));
+  const shuffled = seededShuffle(keys, seed);
+  if (count > 1 && shuffled.every((key, i) => key === keys[i])) {
+    shuffled.push(shuffled.shift()!);
+  }
+  return shuffled;
+};
+
+export const rowToQuestion = (rawRow: SpreadsheetRow, index: number): ParsedQuestion => {
+  const row = normalizeRow(rawRow);
+  const optionCells = getOptionCells(row);
+  const questionType = inferQuestionType(row, optionCells);
+  const questionText = cellText(row.question ?? row.question_text ?? row.text);
+  const questionNumber = parseInt(cellText(row.question_no), 10) || index + 1;
+  const correctCell = cellText(row.correct_answer);
+
+  let options: Json | null = null;
+  let correctAnswer: string | null = correctCell || null;
+
+  switch (questionType) {
+    case 'mcq':
+    case 'multi_select': {
+      options = Object.fromEntries(optionCells.map((text, i) => [optionKey(i), text]));
+      const keys = parseKeyList(correctCell);
+      correctAnswer = keys.length > 0 ? serializeKeyList(keys, questionType === 'multi_select') : null;
+      break;
+    }
+
+    case 'true_false': {
+      const value = parseBoolean(correctCell);
+      correctAnswer = value === null ? null : String(value);
+      break;
+    }
+
+    case 'matching': {
+      // Letters for the matches are shuffled so the correct pairing isn't 1:a, 2:b, ...
+      const pairs = optionCells
+        .map(cell => cell.split(MATCHING_SEPARATOR).map(part => part.trim()))
+        .filter(([prompt, match]) => prompt && match);
+      const letters = shuffledKeys(pairs.length, `${questionNumber}:${questionText}`);
+      const prompts: Record<string, string> = {};
+      const choices: Record<string, string> = {};
+      pairs.forEach(([prompt, match], i) => {
+        prompts[String(i + 1)] = prompt;
+        choices[letters[i]] = match;
+      });
+      options = { prompts, choices };
+      correctAnswer = pairs.length > 0 ? pairs.map((_, i) => `${i + 1}:${letters[i]}`).join(',') : null;
+      break;
+    }
+
+    case 'ordering': {
+      // Items are listed in the correct order; shuffled keys make key order differ from it
+      const keys = shuffledKeys(optionCells.length, `${questionNumber}:${questionText}`);
+      options = Object.fromEntries(optionCells.map((text, i) => [keys[i], text]));
+      correctAnswer = keys.length > 0 ? serializeKeyList(keys) : null;
+      break;
+    }
+
+    default:
+      break;
+  }
+
+  const config = buildConfig(row, questionType);
+
+  return {
+    question_number: questionNumber,
+    question_text: questionText,
+    question_type: questionType,
+    options,
+    correct_answer: correctAnswer,
+    points: Number(cellText(row.points)) || 1,
+    config: config as Json | null,
+  };
+};
+
+export const parseSpreadsheetRows = (rows: SpreadsheetRow[]): ParsedQuestion[] =>
+  rows.map((row, index) => rowToQuestion(row, index));
+
+export const rowToBankQuestion = (rawRow: SpreadsheetRow, index: number): ParsedBankQuestion => {
+  const row = normalizeRow(rawRow);
+  const difficulty = cellText(row.difficulty).toLowerCase();
+  return {
+    ...rowToQuestion(rawRow, index),
+    topic: cellText(row.topic) || null,
+    difficulty: isDifficulty(difficulty) ? difficulty : null,
+    outcome: cellText(row.outcome ?? row.learning_outcome) || null,
+    tags: parseTagList(cellText(row.tags)),
+  };
+};
+
+export const parseBankSpreadsheetRows = (rows: SpreadsheetRow[]): ParsedBankQuestion[] =>
+  rows.map((row, index) => rowToBankQuestion(row, index));
+
+export const isSpreadsheetFile = (fileName: string) =>
+  /\.(xlsx|xls|csv)$/i.test(fileName);
+
+// Reads the first sheet of an Excel or CSV file into row objects keyed by header
+export const readSpreadsheetFile = (file: File): Promise<SpreadsheetRow[]> => {
+  const isCsv = file.name.toLowerCase().endsWith('.csv');
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      try {
+        const data = e.target?.result;
+        // Use XLSX library to parse CSV as well (it supports CSV format)
+        const workbook = XLSX.read(data, { type: isCsv ? 'string' : 'binary' });
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        resolve(XLSX.utils.sheet_to_json<SpreadsheetRow>(worksheet));
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    reader.onerror = (error) => reject(error);
+    if (isCsv) {
+      reader.readAsText(file);
+    } else {
+      reader.readAsBinaryString(file);
+    }
+  });
+};
@@ -0,0 +1,291 @@
+import * as XLSX from 'xlsx';
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  isQuestionType,
+  optionKey,
+  parseBoolean,
+  parseKeyList,
+  parseNumber,
+} from '@/utils/questionTypes';
+import {
+  MATCHING_SEPARATOR,
+  OPTION_COLUMN,
+  TEMPLATE_COLUMNS,
+  cellText,
+  columnKeys,
+  normalizeHeader,
+  normalizeRow,
+  rowToQuestion,
+  type SpreadsheetRow,
+} from '@/utils/templateSpreadsheet';
+
+// Checks exam template spreadsheet rows before anything is uploaded.
+//
+// The parser in templateSpreadsheet.ts is lenient: an empty question becomes '', an answer key
+// that isn't one of the options is stored as is, non-numeric points fall back to 1. Here each of
+// those is reported against the sheet row and column it came from. Errors block the upload;
+// warnings are things the parser fills in or ignores.
+
+export type RowIssueSeverity = 'error' | 'warning';
+
+export interface RowIssue {
+  // Position in the parsed rows, null for problems with the sheet as a whole (headers)
+  index: number | null;
+  // Row number as shown in Excel, the header being row 1
+  row: number;
+  // Column header as written in the sheet, or the expected header when it is missing
+  column: string | null;
+  severity: RowIssueSeverity;
+  message: string;
+}
+
+// Question bank columns are known too, so one sheet works for both
+const KNOWN_COLUMNS = TEMPLATE_COLUMNS.flatMap(columnKeys);
+
+const TYPES_WITH_OPTIONS = ['mcq', 'multi_select', 'matching', 'ordering'];
+
+const HEADER_ROW = 1;
+
+// sheet_to_json skips blank rows and records each row's 0-based position in __rowNum__
+const sheetRowNumber = (row: SpreadsheetRow, index: number): number => {
+  const rowNum = (row as { __rowNum__?: number }).__rowNum__;
+  return typeof rowNum === 'number' ? rowNum + 1 : index + 2;
+};
+
+// Headers in column order. Blank cells are left out of a row object, so no single row has them all.
+const sheetHeaders = (rows: SpreadsheetRow[]): string[] => {
+  const headers: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!headers.includes(key)) headers.push(key);
+  }));
+  return headers;
+};
+
+const canonicalHeader = (column: string) =>
+  column.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('_');
+
+const keyRange = (count: number) =>
+  count === 1 ? 'A' : `${optionKey(0).toUpperCase()}-${optionKey(count - 1).toUpperCase()}`;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const validateSpreadsheetRows = (rows: SpreadsheetRow[]): RowIssue[] => {
+  const issues: RowIssue[] = [];
+  const headers = sheetHeaders(rows);
+  const headerByColumn = new Map<string, string>();
+  headers.forEach(header => {
+    const column = normalizeHeader(header);
+    if (!headerByColumn.has(column)) headerByColumn.set(column, header);
+  });
+  const header = (column: string) => headerByColumn.get(column) ?? canonicalHeader(column);
+  const optionColumns = [...headerByColumn.keys()].filter(column => OPTION_COLUMN.test(column));
+  const textColumns = columnKeys(TEMPLATE_COLUMNS.find(column => column.header === 'Question')!);
+  const textColumn = textColumns.find(column => headerByColumn.has(column));
+
+  const sheetIssue = (severity: RowIssueSeverity, column: string | null, message: string) =>
+    issues.push({ index: null, row: HEADER_ROW, column, severity, message });
+
+  if (rows.length === 0) {
+    sheetIssue('error', null, 'The sheet has no question rows');
+    return issues;
+  }
+  TEMPLATE_COLUMNS
+    .filter(column => column.required && !columnKeys(column).some(key => headerByColumn.has(key)))
+    .forEach(column => sheetIssue('error', column.header, `There is no ${column.header} column - the first row must hold the column headers`));
+  headers
+    .filter(raw => {
+      const column = normalizeHeader(raw);
+      return !KNOWN_COLUMNS.includes(column) && !OPTION_COLUMN.test(column);
+    })
+    .forEach(raw => sheetIssue('warning', raw, `Column "${raw}" is not recognised and will be ignored`));
+
+  const numbers = new Map<number, number[]>();
+
+  rows.forEach((rawRow, index) => {
+    const row = normalizeRow(rawRow);
+    const rowNumber = sheetRowNumber(rawRow, index);
+    const question = rowToQuestion(rawRow, index);
+    const add = (severity: RowIssueSeverity, column: string | null, message: string) =>
+      issues.push({ index, row: rowNumber, column: column && header(column), severity, message });
+    const error = (column: string | null, message: string) => add('error', column, message);
+    const warn = (column: string | null, message: string) => add('warning', column, message);
+
+    if (!question.question_text) error(textColumn ?? 'question', 'Question text is empty');
+
+    const numberCell = cellText(row.question_no);
+    if (!numberCell) {
+      if (headerByColumn.has('question_no')) {
+        warn('question_no', `Question_No is empty, numbered ${question.question_number} by position`);
+      }
+    } else if (!/^\d+$/.test(numberCell) || Number(numberCell) < 1) {
+      error('question_no', `Question_No "${numberCell}" must be a whole number from 1 up`);
+    }
+    numbers.set(question.question_number, [...(numbers.get(question.question_number) ?? []), index]);
+
+    const pointsCell = cellText(row.points);
+    if (pointsCell) {
+      const points = Number(pointsCell);
+      // exam_questions.points is an INTEGER column
+      if (!Number.isInteger(points) || points <= 0) error('points', `Points "${pointsCell}" must be a whole number greater than 0`);
+    } else if (headerByColumn.has('points')) {
+      warn('points', 'Points is empty, defaults to 1');
+    }
+
+    const declaredType = cellText(row.question_type);
+    const normalizedType = normalizeHeader(declaredType).replace(/^multiple_select$/, 'multi_select');
+    if (declaredType && !isQuestionType(normalizedType)) {
+      // The parser would guess a type; checking the answer against the guess would only add noise
+      error('question_type', `Unknown Question_Type "${declaredType}" (use ${QUESTION_TYPES.join(', ')})`);
+      return;
+    }
+
+    const type = question.question_type;
+    const optionCells = optionColumns.map(column => cellText(row[column]));
+    const filledCount = optionCells.filter(Boolean).length;
+    const lastFilled = optionCells.map(Boolean).lastIndexOf(true);
+    const firstOption = optionColumns[0] ?? 'option_a';
+    const correctCell = cellText(row.correct_answer);
+
+    if (TYPES_WITH_OPTIONS.includes(type)) {
+      // The parser skips blank option cells, so every later option would move up a letter
+      optionColumns
+        .filter((column, i) => i < lastFilled && !optionCells[i])
+        .forEach(column => error(column, `${header(column)} is empty - later options would shift up a letter`));
+    } else if (filledCount > 0) {
+      warn(firstOption, `${QUESTION_TYPE_LABELS[type]} questions have no options - the option cells are ignored`);
+    }
+
+    switch (type) {
+      case 'mcq':
+      case 'multi_select': {
+        if (filledCount < 2) error(firstOption, 'Needs at least two options');
+        const keys = parseKeyList(correctCell);
+        const validKeys = Array.from({ length: filledCount }, (_, i) => optionKey(i));
+        const invalid = keys.filter(key => !validKeys.includes(key));
+        if (keys.length === 0) {
+          error('correct_answer', 'Correct_Answer is empty');
+        } else if (invalid.length > 0 && filledCount > 0) {
+          error('correct_answer', `Correct_Answer "${invalid.map(key => key.toUpperCase()).join(', ')}" is not one of the options ${keyRange(filledCount)}`);
+        }
+        if (type === 'mcq' && keys.length > 1) {
+          error('correct_answer', 'Multiple choice has exactly one correct answer - use Question_Type multi_select for several');
+        }
+        break;
+      }
+
+      case 'true_false':
+        if (!correctCell) error('correct_answer', 'Correct_Answer is empty');
+        else if (parseBoolean(correctCell) === null) error('correct_answer', `Correct_Answer "${correctCell}" must be True or False`);
+        break;
+
+      case 'numeric':
+        if (!correctCell) error('correct_answer', 'Correct_Answer is empty');
+        else if (parseNumber(correctCell) === null) error('correct_answer', `Correct_Answer "${correctCell}" is not a number`);
+        break;
+
+      case 'matching':
+        if (filledCount < 2) error(firstOption, 'Needs at least two pairs');
+        optionColumns.forEach((column, i) => {
+          const parts = optionCells[i].split(MATCHING_SEPARATOR).map(part => part.trim());
+          if (optionCells[i] && (parts.length !== 2 || !parts[0] || !parts[1])) {
+            error(column, `${header(column)} must be "prompt ${MATCHING_SEPARATOR} match"`);
+          }
+        });
+        if (correctCell) warn('correct_answer', 'Correct_Answer is ignored - the pairs in the option cells are the answer');
+        break;
+
+      case 'ordering':
+        if (filledCount < 2) error(firstOption, 'Needs at least two items');
+        if (correctCell) warn('correct_answer', 'Correct_Answer is ignored - list the items in the correct order');
+        break;
+
+      default:
+        break;
+    }
+
+    // Columns read only for some types, and columns with a fixed set of values
+    TEMPLATE_COLUMNS.filter(column => !column.bankOnly && column.header !== 'Question_Type').forEach(column => {
+      const key = columnKeys(column).find(columnKey => cellText(row[columnKey]));
+      if (!key) return;
+      const value = cellText(row[key]);
+      if (column.types && !column.types.includes(type)) {
+        const types = column.types.map(columnType => QUESTION_TYPE_LABELS[columnType].toLowerCase()).join(', ');
+        warn(key, `${column.header} only applies to ${types} questions and is ignored`);
+      } else if (column.values && !column.values.includes(normalizeHeader(value))) {
+        error(key, `${column.header} "${value}" must be ${column.values.join(' or ')}`);
+      }
+    });
+
+    const tolerance = cellText(row.tolerance);
+    if (tolerance && type === 'numeric' && !Number.isFinite(parseFloat(tolerance.replace('%', '')))) {
+      error('tolerance', `Tolerance "${tolerance}" must be a number or percentage`);
+    }
+  });
+
+  numbers.forEach((indexes, questionNumber) => {
+    if (indexes.length < 2) return;
+    indexes.forEach(index => {
+      const others = indexes.filter(other => other !== index).map(other => sheetRowNumber(rows[other], other));
+      issues.push({
+        index,
+        row: sheetRowNumber(rows[index], index),
+        column: cellText(normalizeRow(rows[index]).question_no) ? header('question_no') : null,
+        severity: 'error',
+        message: `Question ${questionNumber} is also numbered on ${others.length === 1 ? 'row' : 'rows'} ${others.join(', ')}`,
+      });
+    });
+  });
+
+  return issues.sort((a, b) => a.row - b.row || (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+export const summarizeRowIssues = (issues: RowIssue[]): string => {
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  const warnings = issues.length - errors;
+  const rows = new Set(issues.map(issue => issue.row)).size;
+  const parts = [errors > 0 && plural(errors, 'error'), warnings > 0 && plural(warnings, 'warning')].filter(Boolean);
+  return `${parts.join(' and ')} in ${plural(rows, 'row')}`;
+};
+
+// A copy of the sheet with a Problems column and a comment on each cell at fault, rows kept at
+// their original row numbers, plus a second sheet listing every problem
+export const buildAnnotatedWorkbook = (rows: SpreadsheetRow[], issues: RowIssue[]): ArrayBuffer => {
+  const headers = sheetHeaders(rows);
+  const problemsHeader = headers.includes('Problems') ? 'Validation_Problems' : 'Problems';
+  const worksheet = XLSX.utils.aoa_to_sheet([[...headers, problemsHeader]]);
+
+  rows.forEach((row, index) => {
+    const problems = issues
+      .filter(issue => issue.index === index)
+      .map(issue => `${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.message}`);
+    XLSX.utils.sheet_add_json(worksheet, [{ ...row, [problemsHeader]: problems.join('\n') }], {
+      header: [...headers, problemsHeader],
+      skipHeader: true,
+      origin: sheetRowNumber(row, index) - 1,
+    });
+  });
+
+  issues.forEach(issue => {
+    const column = issue.column ? headers.indexOf(issue.column) : -1;
+    if (column < 0) return;
+    const address = XLSX.utils.encode_cell({ r: issue.row - 1, c: column });
+    const cell = worksheet[address] ?? (worksheet[address] = { t: 's', v: '' });
+    cell.c = [...(cell.c ?? []), { a: 'ExamEye Shield', t: `${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.message}` }];
+  });
+
+  const problemSheet = XLSX.utils.json_to_sheet(
+    issues.map(issue => ({
+      Row: issue.row,
+      Column: issue.column ?? '',
+      Severity: issue.severity,
+      Problem: issue.message,
+    })),
+    { header: ['Row', 'Column', 'Severity', 'Problem'] }
+  );
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Questions');
+  XLSX.utils.book_append_sheet(workbook, problemSheet, 'Problems');
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+};
@@ -0,0 +1,126 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+// Comparing template versions and regrading against a corrected version. Pure functions;
+// src/utils/examTotals.ts does the loading and writes the regraded totals.
+
+type TemplateQuestion = Tables<'exam_questions'>;
+
+export type QuestionField = 'question_text' | 'question_type' | 'options' | 'correct_answer' | 'points' | 'config';
+
+export const QUESTION_FIELD_LABELS: Record<QuestionField, string> = {
+  question_text: 'Question text',
+  question_type: 'Type',
+  options: 'Options',
+  correct_answer: 'Correct answer',
+  points: 'Points',
+  config: 'Settings',
+};
+
+const COMPARED_FIELDS: QuestionField[] = ['question_text', 'question_type', 'options', 'correct_answer', 'points', 'config'];
+
+// Fields that only affect how an answer is scored, not what the student saw
+const KEY_FIELDS: QuestionField[] = ['correct_answer', 'points', 'config'];
+
+export interface QuestionPair<Q extends TemplateQuestion = TemplateQuestion> {
+  from: Q | null;
+  to: Q | null;
+}
+
+export type QuestionChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface QuestionChange<Q extends TemplateQuestion = TemplateQuestion> extends QuestionPair<Q> {
+  kind: QuestionChangeKind;
+  changedFields: QuestionField[];
+  // Question moved to a different position
+  moved: boolean;
+}
+
+// Stable JSON for comparing jsonb values regardless of key order
+const canonicalJson = (value: Json | null | undefined): string => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sameField = (a: TemplateQuestion, b: TemplateQuestion, field: QuestionField) => {
+  if (field === 'options' || field === 'config') return canonicalJson(a[field]) === canonicalJson(b[field]);
+  if (field === 'points') return (a.points || 1) === (b.points || 1);
+  return (a[field] ?? '') === (b[field] ?? '');
+};
+
+const normalizeText = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Pairs questions of two versions: identical text first (so reordering is recognised as a
+// move, not an edit), then whatever is left at the same question number
+export const pairQuestions = <Q extends TemplateQuestion>(from: Q[], to: Q[]): QuestionPair<Q>[] => {
+  const unmatchedTo = new Set(to);
+  const pairs: QuestionPair<Q>[] = [];
+  const unmatchedFrom: Q[] = [];
+
+  [...from].sort((a, b) => a.question_number - b.question_number).forEach(question => {
+    const match = [...unmatchedTo].find(q => normalizeText(q.question_text) === normalizeText(question.question_text));
+    if (match) {
+      unmatchedTo.delete(match);
+      pairs.push({ from: question, to: match });
+    } else {
+      unmatchedFrom.push(question);
+    }
+  });
+
+  unmatchedFrom.forEach(question => {
+    const match = [...unmatchedTo].find(q => q.question_number === question.question_number);
+    if (match) unmatchedTo.delete(match);
+    pairs.push({ from: question, to: match || null });
+  });
+
+  unmatchedTo.forEach(question => pairs.push({ from: null, to: question }));
+
+  const position = (pair: QuestionPair<Q>) => pair.to?.question_number ?? pair.from?.question_number ?? 0;
+  return pairs.sort((a, b) => position(a) - position(b));
+};
+
+export const diffTemplateVersions = <Q extends TemplateQuestion>(from: Q[], to: Q[]): QuestionChange<Q>[] =>
+  pairQuestions(from, to).map(pair => {
+    if (!pair.from) return { ...pair, kind: 'added', changedFields: [], moved: false };
+    if (!pair.to) return { ...pair, kind: 'removed', changedFields: [], moved: false };
+
+    const changedFields = COMPARED_FIELDS.filter(field => !sameField(pair.from!, pair.to!, field));
+    return {
+      ...pair,
+      kind: changedFields.length > 0 ? 'changed' : 'unchanged',
+      changedFields,
+      moved: pair.from.question_number !== pair.to.question_number,
+    };
+  });
+
+// The exam's own questions with the answer key (correct answer, points, settings) of the
+// matching question in the corrected version. Question numbers, text and options stay as the
+// student saw them, so stored answers and the paper seed keep working. Questions whose type
+// or options changed keep their original key, since the corrected key wouldn't fit the answers.
+export const applyCorrectedKey = <Q extends TemplateQuestion>(questions: Q[], corrected: TemplateQuestion[]): Q[] => {
+  const pairs = pairQuestions(questions, corrected as Q[]);
+  return questions.map(question => {
+    const fix = pairs.find(pair => pair.from === question)?.to;
+    if (!fix || !sameField(question, fix, 'question_type') || !sameField(question, fix, 'options')) return question;
+
+    const patch: Partial<TemplateQuestion> = {};
+    KEY_FIELDS.forEach(field => {
+      (patch as Record<QuestionField, unknown>)[field] = fix[field];
+    });
+    return { ...question, ...patch };
+  });
+};
+
+export const countKeyChanges = (changes: QuestionChange[]): number =>
+  changes.filter(change =>
+    change.kind === 'changed' &&
+    change.changedFields.some(field => KEY_FIELDS.includes(field)) &&
+    !change.changedFields.includes('question_type') &&
+    !change.changedFields.includes('options')
+  ).length;
@@ -0,0 +1,210 @@
+import * as XLSX from 'xlsx';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS, optionKey, type QuestionType } from '@/utils/questionTypes';
+import { escapeXml } from '@/utils/questionFormats';
+import { MATCHING_SEPARATOR, TEMPLATE_COLUMNS, type SpreadsheetRow } from '@/utils/templateSpreadsheet';
+
+// Builds the downloadable exam template workbook:
+//   Questions     empty sheet with the expected headers, dropdowns and a hint on every column.
+//                 The parser reads the first sheet, so it comes first.
+//   Examples      a worked row for every question type
+//   Instructions  every column with its allowed values, and how to fill in each type
+// Columns and allowed values come from TEMPLATE_COLUMNS, the list the parser and validator use.
+//
+// SheetJS doesn't write data validations, so they are added to the sheet XML afterwards.
+
+const OPTION_COUNT = 6;
+
+// Rows of the Questions sheet that get the dropdowns
+const INPUT_ROWS = 500;
+
+const OPTION_HEADERS = Array.from({ length: OPTION_COUNT }, (_, i) => `Option_${optionKey(i).toUpperCase()}`);
+
+const OPTION_DESCRIPTION = `One option per cell, as many Option_ columns as needed. Matching: one pair per cell as "prompt ${MATCHING_SEPARATOR} match". Ordering: the items in the correct order.`;
+
+const TEMPLATE_SHEET_COLUMNS = TEMPLATE_COLUMNS.filter(column => !column.bankOnly);
+
+// Option columns go right after Question_Type
+const TEMPLATE_HEADERS = TEMPLATE_SHEET_COLUMNS.flatMap(column =>
+  column.header === 'Question_Type' ? [column.header, ...OPTION_HEADERS] : [column.header]
+);
+
+// Worked examples; each row must pass validateSpreadsheetRows without issues
+const EXAMPLES: Record<QuestionType, SpreadsheetRow> = {
+  mcq: {
+    Question: 'What is the capital of France?',
+    Option_A: 'Berlin',
+    Option_B: 'Paris',
+    Option_C: 'Rome',
+    Option_D: 'Madrid',
+    Correct_Answer: 'B',
+    Points: 1,
+  },
+  multi_select: {
+    Question: 'Which of these numbers are prime?',
+    Option_A: 2,
+    Option_B: 4,
+    Option_C: 5,
+    Option_D: 9,
+    Correct_Answer: 'A, C',
+    Points: 2,
+    Scoring: 'partial',
+  },
+  true_false: {
+    Question: 'Water boils at 100 °C at sea level.',
+    Correct_Answer: 'True',
+    Points: 1,
+  },
+  numeric: {
+    Question: "What is the acceleration due to gravity at the Earth's surface?",
+    Correct_Answer: 9.81,
+    Points: 2,
+    Tolerance: 0.05,
+    Tolerance_Type: 'absolute',
+    Unit: 'm/s2',
+  },
+  matching: {
+    Question: 'Match each country to its capital.',
+    Option_A: `France ${MATCHING_SEPARATOR} Paris`,
+    Option_B: `Japan ${MATCHING_SEPARATOR} Tokyo`,
+    Option_C: `Kenya ${MATCHING_SEPARATOR} Nairobi`,
+    Option_D: `Peru ${MATCHING_SEPARATOR} Lima`,
+    Points: 4,
+    Scoring: 'partial',
+  },
+  ordering: {
+    Question: 'Put the planets in order from the Sun.',
+    Option_A: 'Mercury',
+    Option_B: 'Venus',
+    Option_C: 'Earth',
+    Option_D: 'Mars',
+    Points: 2,
+    Scoring: 'all_or_nothing',
+  },
+  short_answer: {
+    Question: 'Explain why the sky appears blue.',
+    Correct_Answer: 'Air molecules scatter the shorter blue wavelengths of sunlight more than red ones (Rayleigh scattering).',
+    Points: 5,
+  },
+};
+
+const TYPE_NOTES: Record<QuestionType, string> = {
+  mcq: 'Options in Option_A, Option_B, ...; Correct_Answer is the letter of the one correct option.',
+  multi_select: 'Options as for mcq; Correct_Answer lists every correct letter, e.g. "A, C". Scoring partial gives credit per correct choice.',
+  true_false: 'No options; Correct_Answer is True or False.',
+  numeric: 'No options; Correct_Answer is the value. Tolerance, Tolerance_Type and Unit are optional.',
+  matching: `One pair per option cell as "prompt ${MATCHING_SEPARATOR} match"; matches are shuffled for students. Leave Correct_Answer empty.`,
+  ordering: 'The items in the correct order; they are shuffled for students. Leave Correct_Answer empty.',
+  short_answer: 'No options; graded by hand. Correct_Answer is an optional model answer shown to graders.',
+};
+
+export const templateExampleRows = (): SpreadsheetRow[] =>
+  QUESTION_TYPES.map((type, index) => ({ Question_No: index + 1, Question_Type: type, ...EXAMPLES[type] }));
+
+const columnWidths = (headers: string[]) =>
+  headers.map(header => ({ wch: header === 'Question' || header === 'Correct_Answer' ? 48 : Math.max(14, header.length + 2) }));
+
+// ---- Data validations ----
+
+// Excel limits input messages to 255 characters and their titles to 32
+const hint = (title: string, text: string) =>
+  `showInputMessage="1" promptTitle="${escapeXml(title.slice(0, 32))}" prompt="${escapeXml(text.length > 255 ? `${text.slice(0, 252)}...` : text)}"`;
+
+const columnRange = (header: string) => {
+  const column = XLSX.utils.encode_col(TEMPLATE_HEADERS.indexOf(header));
+  return `${column}2:${column}${INPUT_ROWS + 1}`;
+};
+
+const listValidation = (header: string, values: string[], strict: boolean, prompt: string) =>
+  `<dataValidation type="list" allowBlank="1" ${hint(header, prompt)} showErrorMessage="${strict ? 1 : 0}" ` +
+  `errorTitle="${escapeXml(header)}" error="${escapeXml(`Use one of: ${values.join(', ')}`)}" sqref="${columnRange(header)}">` +
+  `<formula1>${escapeXml(`"${values.join(',')}"`)}</formula1></dataValidation>`;
+
+const numberValidation = (header: string, type: 'whole' | 'decimal', operator: string, limit: number, prompt: string, error: string) =>
+  `<dataValidation type="${type}" operator="${operator}" allowBlank="1" ${hint(header, prompt)} showErrorMessage="1" ` +
+  `errorTitle="${escapeXml(header)}" error="${escapeXml(error)}" sqref="${columnRange(header)}">` +
+  `<formula1>${limit}</formula1></dataValidation>`;
+
+// Input message only
+const hintValidation = (header: string, prompt: string, sqref = columnRange(header)) =>
+  `<dataValidation allowBlank="1" ${hint(header, prompt)} sqref="${sqref}"/>`;
+
+const questionSheetValidations = (): string[] => {
+  const answerKeys = [...OPTION_HEADERS.map((_, i) => optionKey(i).toUpperCase()), 'True', 'False'];
+  const optionRange = `${columnRange(OPTION_HEADERS[0]).split(':')[0]}:${columnRange(OPTION_HEADERS[OPTION_COUNT - 1]).split(':')[1]}`;
+
+  return [
+    ...TEMPLATE_SHEET_COLUMNS.map(column => {
+      switch (column.header) {
+        case 'Question_No':
+          return numberValidation(column.header, 'whole', 'greaterThanOrEqual', 1, column.description, 'Question_No must be a whole number from 1 up');
+        case 'Points':
+          // exam_questions.points is an INTEGER column
+          return numberValidation(column.header, 'whole', 'greaterThanOrEqual', 1, column.description, 'Points must be a whole number from 1 up');
+        // A suggestion list: multi-select keys, numbers and model answers are typed in
+        case 'Correct_Answer':
+          return listValidation(column.header, answerKeys, false, column.description);
+        default:
+          return column.values
+            ? listValidation(column.header, column.values, true, column.description)
+            : hintValidation(column.header, column.description);
+      }
+    }),
+    hintValidation('Options', OPTION_DESCRIPTION, optionRange),
+  ];
+};
+
+const addDataValidations = (workbook: Uint8Array, sheetPath: string, validations: string[]): Uint8Array => {
+  const files = unzipSync(workbook);
+  const xml = strFromU8(files[sheetPath]);
+  files[sheetPath] = strToU8(
+    xml.replace('</sheetData>', `</sheetData><dataValidations count="${validations.length}">${validations.join('')}</dataValidations>`)
+  );
+  return zipSync(files);
+};
+
+// ---- Workbook ----
+
+export const buildTemplateWorkbook = (): Uint8Array => {
+  const questions = XLSX.utils.aoa_to_sheet([TEMPLATE_HEADERS]);
+  questions['!cols'] = columnWidths(TEMPLATE_HEADERS);
+
+  const examples = XLSX.utils.json_to_sheet(templateExampleRows(), { header: TEMPLATE_HEADERS });
+  examples['!cols'] = columnWidths(TEMPLATE_HEADERS);
+
+  const columnRows = TEMPLATE_SHEET_COLUMNS.flatMap(column => {
+    const row = [
+      [column.header, ...(column.aliases ?? [])].join(' / '),
+      column.required ? 'Yes' : 'No',
+      column.types ? column.types.join(', ') : 'All',
+      column.values?.join(', ') ?? '',
+      column.description,
+    ];
+    const options = [OPTION_HEADERS.join(', '), 'No', 'mcq, multi_select, matching, ordering', '', OPTION_DESCRIPTION];
+    return column.header === 'Question_Type' ? [row, options] : [row];
+  });
+
+  const instructions = XLSX.utils.aoa_to_sheet([
+    ['Exam template'],
+    [],
+    ['Fill in the Questions sheet with one question per row, then upload this file on the Upload Exam Template page.'],
+    ['Only the first sheet is read: keep Questions first and leave its header row as it is.'],
+    ['Every row is checked before upload. Rows with errors are listed in the preview and block the upload until fixed.'],
+    ['The Examples sheet has a worked row for every question type; copy rows from it as a starting point.'],
+    [],
+    ['Column', 'Required', 'Question types', 'Allowed values', 'Description'],
+    ...columnRows,
+    [],
+    ['Question type', 'Name', 'How to fill in the row'],
+    ...QUESTION_TYPES.map(type => [type, QUESTION_TYPE_LABELS[type], TYPE_NOTES[type]]),
+  ]);
+  instructions['!cols'] = [{ wch: 28 }, { wch: 16 }, { wch: 36 }, { wch: 36 }, { wch: 90 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, questions, 'Questions');
+  XLSX.utils.book_append_sheet(workbook, examples, 'Examples');
+  XLSX.utils.book_append_sheet(workbook, instructions, 'Instructions');
+
+  const data = new Uint8Array(XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }));
+  return addDataValidations(data, 'xl/worksheets/sheet1.xml', questionSheetValidations());
+};
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { CLIENT_FALLBACK_SOURCE, type FallbackCapture } from '@/utils/fallbackDetection';
 
 // Local type definition - no longer using local AI detection
 export interface DetectionResult {
@@ -15,6 +16,17 @@ export interface ViolationLog {
   severity: 'low' | 'medium' | 'high';
   details: any;
   imageUrl?: string;
+  // When it happened, if not now (buffered violations)
+  timestamp?: string;
+}
+
+export interface ViolationStudent {
+  examId: string;
+  studentId: string;
+  studentName: string;
+  rollNo: string;
+  subjectCode: string;
+  subjectName: string;
 }
 
 export class ViolationLogger {
@@ -29,7 +41,7 @@ export class ViolationLogger {
           severity: violation.severity,
           details: violation.details,
           image_url: violation.imageUrl,
-          timestamp: new Date().toISOString()
+          timestamp: violation.timestamp || new Date().toISOString()
         })
         .select()
         .single();
@@ -124,6 +136,50 @@ export class ViolationLogger {
     }
   }
 
+  // Writes a capture from the in-browser fallback detector: one snapshot, then a row per violation.
+  // Stops at the first failure and returns what is still left to write, so the caller can retry
+  // the rest without uploading the snapshot or inserting a row twice.
+  async logFallbackCapture(capture: FallbackCapture, student: ViolationStudent): Promise<FallbackCapture> {
+    let remaining = capture;
+    try {
+      if (!remaining.imageUrl) {
+        const imageUrl = await this.uploadSnapshot(
+          student.examId,
+          student.studentId,
+          student.studentName,
+          capture.snapshot,
+          `${capture.violations[0]?.type ?? 'violation'}_${capture.id.slice(0, 8)}`
+        );
+        remaining = { ...remaining, imageUrl };
+      }
+
+      for (const violation of capture.violations) {
+        await this.logViolation({
+          examId: student.examId,
+          studentId: student.studentId,
+          violationType: violation.type,
+          severity: violation.severity,
+          details: {
+            message: violation.message,
+            confidence: violation.confidence,
+            source: CLIENT_FALLBACK_SOURCE,
+            student_name: student.studentName,
+            roll_no: student.rollNo,
+            student_id: student.studentId,
+            subject_code: student.subjectCode,
+            subject_name: student.subjectName,
+          },
+          imageUrl: remaining.imageUrl,
+          timestamp: capture.occurredAt,
+        });
+        remaining = { ...remaining, violations: remaining.violations.slice(1) };
+      }
+    } catch (error) {
+      console.error('Error logging fallback detection capture:', error);
+    }
+    return remaining;
+  }
+
   private determineSeverity(type: string): 'low' | 'medium' | 'high' {
     switch (type) {
       case 'phone':
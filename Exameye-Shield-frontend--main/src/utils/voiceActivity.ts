@@ -0,0 +1,355 @@
+// Voice activity detection for the exam's microphone, so talking is flagged rather than loudness:
+// a door slam is loud but short and not speech, quiet whispering is speech.
+//
+// Works on an AnalyserNode's spectrum (getFloatFrequencyData, dB per bin) and samples
+// (getFloatTimeDomainData). Each frame gets a few features: its energy, how much of it is in the
+// speech band, how noise-like the speech band is (spectral flatness) and its pitch (YIN). Frames
+// are speech when they are voiced (a clear pitch) or whisper-like (shaped speech-band noise) and
+// stand out from the noise floor. Runs of speech frames become speech episodes; the pitches in an
+// episode show whether more than one person was talking.
+//
+// The noise floor, the student's speaking level and their voice's pitch come from the audio
+// calibration on CompatibilityCheck (voiceProfileFromFeatures); the floor then follows the room.
+
+export interface AudioFeatures {
+  // Total energy between BAND_LOW_HZ and BAND_HIGH_HZ, dBFS
+  energyDb: number;
+  // Share of that energy in the speech band
+  speechRatio: number;
+  // Spectral flatness of the speech band: near 1 for white noise, low for harmonic sounds
+  flatness: number;
+  // Fundamental frequency, null when unvoiced
+  pitchHz: number | null;
+}
+
+export type FrameKind = 'silence' | 'noise' | 'speech';
+
+// Calibration from CompatibilityCheck; any value may be missing
+export interface VoiceProfile {
+  noiseFloorDb: number | null;
+  speechLevelDb: number | null;
+  pitchHz: number | null;
+}
+
+export interface SpeechEpisode {
+  type: 'speech_detected' | 'multiple_voices';
+  startedAt: number;
+  durationMs: number;
+  // Time with speech frames in it; durationMs includes the pauses
+  speechMs: number;
+  speakers: number;
+  // Median pitch of the voiced frames
+  pitchHz: number | null;
+  // Whether most voiced frames are close to the calibrated voice's pitch; null without one
+  matchesStudent: boolean | null;
+  // Mostly unvoiced speech
+  whispered: boolean;
+  // Loudest frame over the noise floor, dB
+  peakOverFloorDb: number;
+  // True when the episode was cut at SPEECH_MAX_EPISODE_MS and is still going on
+  ongoing: boolean;
+}
+
+// AnalyserNode settings: ~85 ms windows at 48 kHz, a few periods of the lowest voices
+export const VOICE_FFT_SIZE = 4096;
+export const VOICE_FRAME_INTERVAL_MS = 50;
+
+const BAND_LOW_HZ = 100;
+const BAND_HIGH_HZ = 8000;
+const SPEECH_LOW_HZ = 300;
+const SPEECH_HIGH_HZ = 3400;
+const FLATNESS_HIGH_HZ = 4000;
+const PITCH_MIN_HZ = 70;
+const PITCH_MAX_HZ = 400;
+// Samples are averaged down to about this rate before the pitch search
+const PITCH_SAMPLE_RATE = 16000;
+// YIN's cumulative mean normalized difference: the first dip under this is the period
+const YIN_THRESHOLD = 0.15;
+// Frames whose deepest dip stays above this are unvoiced
+const VOICED_DIFFERENCE_MAX = 0.3;
+// Voiced frames still need some of their energy in the speech band (not a low hum)
+const VOICED_SPEECH_RATIO_MIN = 0.3;
+// Unvoiced frames still count as (whispered) speech with most energy in the speech band and a
+// spectrum shaped by the mouth rather than flat
+const WHISPER_SPEECH_RATIO_MIN = 0.6;
+const WHISPER_FLATNESS_MAX = 0.35;
+// How far over the noise floor a frame must be; with a calibrated speaking level, a third of the
+// way from the floor to it, within these bounds
+const VAD_MARGIN_DB = 9;
+const VAD_MARGIN_MIN_DB = 6;
+const VAD_MARGIN_MAX_DB = 15;
+// The floor follows quieter frames quickly and louder non-speech frames slowly
+const FLOOR_FALL_RATE = 0.1;
+const FLOOR_RISE_DB_PER_S = 1;
+
+// Speech with pauses shorter than this is one episode
+const SPEECH_HANGOVER_MS = 1000;
+// Less speech than this in an episode is ignored (coughs, a door, a chair)
+export const SPEECH_MIN_MS = 1500;
+// Longer episodes are reported at this point and then counted afresh
+export const SPEECH_MAX_EPISODE_MS = 30000;
+// Frame gaps longer than this (a stalled tab) don't count as speech time
+const MAX_FRAME_GAP_MS = 200;
+// Speech needs syllables: energy that goes up and down, or enough voiced frames
+const MODULATION_MIN_DB = 3;
+const VOICED_SHARE_MIN = 0.3;
+const WHISPERED_VOICED_SHARE_MAX = 0.2;
+
+// Two speakers: pitch clusters this many semitones apart, each holding MIN_SPEAKER_SHARE of the
+// voiced frames. When voices overlap the pitch jumps between them, which splits the same way.
+const SPEAKER_PITCH_GAP_ST = 5;
+const MIN_SPEAKER_SHARE = 0.2;
+const MIN_PITCHED_FRAMES = 10;
+// Within this of the calibrated pitch counts as the student's voice
+const STUDENT_PITCH_TOLERANCE_ST = 4;
+
+const power = (db: number) => Math.pow(10, db / 10);
+const semitones = (hz: number) => 12 * Math.log2(hz);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const percentile = (values: number[], share: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * share))];
+};
+
+// YIN pitch of a window of samples, or null when it isn't periodic enough to be a voice
+export const detectPitch = (samples: ArrayLike<number>, sampleRate: number): number | null => {
+  const factor = Math.max(1, Math.round(sampleRate / PITCH_SAMPLE_RATE));
+  const rate = sampleRate / factor;
+  const x: number[] = [];
+  for (let i = 0; i + factor <= samples.length; i += factor) {
+    let sum = 0;
+    for (let k = 0; k < factor; k++) sum += samples[i + k];
+    x.push(sum / factor);
+  }
+  const minLag = Math.floor(rate / PITCH_MAX_HZ);
+  const maxLag = Math.ceil(rate / PITCH_MIN_HZ);
+  const window = x.length - maxLag - 1;
+  if (window <= 0) return null;
+
+  const normalized: number[] = [1];
+  let cumulative = 0;
+  let deepest = minLag;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let difference = 0;
+    for (let j = 0; j < window; j++) {
+      const delta = x[j] - x[j + lag];
+      difference += delta * delta;
+    }
+    cumulative += difference;
+    normalized[lag] = cumulative > 0 ? (difference * lag) / cumulative : 1;
+    if (lag >= minLag && lag <= maxLag && normalized[lag] < normalized[deepest]) deepest = lag;
+  }
+  if (normalized[deepest] > VOICED_DIFFERENCE_MAX) return null;
+
+  // The first dip under the threshold, at its bottom, rather than the deepest (often a multiple
+  // of the period)
+  let lag = minLag;
+  while (lag < maxLag && normalized[lag] >= YIN_THRESHOLD) lag++;
+  if (normalized[lag] >= YIN_THRESHOLD) lag = deepest;
+  while (lag < maxLag && normalized[lag + 1] < normalized[lag]) lag++;
+
+  // Parabolic interpolation between lags
+  const previous = normalized[lag - 1];
+  const next = normalized[lag + 1];
+  const curvature = previous + next - 2 * normalized[lag];
+  const offset = curvature > 0 ? (previous - next) / (2 * curvature) : 0;
+  return rate / (lag + offset);
+};
+
+// Features of one analyser frame: its spectrum (fftSize / 2 bins) and its samples
+export const frameFeatures = (spectrumDb: ArrayLike<number>, samples: ArrayLike<number>, sampleRate: number): AudioFeatures => {
+  const binHz = sampleRate / (spectrumDb.length * 2);
+  const low = Math.ceil(BAND_LOW_HZ / binHz);
+  const high = Math.min(spectrumDb.length - 1, Math.floor(BAND_HIGH_HZ / binHz));
+
+  let total = 0;
+  let speech = 0;
+  let flatLogSum = 0;
+  let flatSum = 0;
+  let flatCount = 0;
+  for (let i = low; i <= high; i++) {
+    // Silent bins come back as -Infinity
+    const p = power(Number.isFinite(spectrumDb[i]) ? spectrumDb[i] : -160);
+    const hz = i * binHz;
+    total += p;
+    if (hz >= SPEECH_LOW_HZ && hz <= SPEECH_HIGH_HZ) speech += p;
+    if (hz >= SPEECH_LOW_HZ && hz <= FLATNESS_HIGH_HZ) {
+      flatLogSum += Math.log(p);
+      flatSum += p;
+      flatCount++;
+    }
+  }
+
+  return {
+    energyDb: 10 * Math.log10(total || 1e-16),
+    speechRatio: total > 0 ? speech / total : 0,
+    flatness: flatSum > 0 ? Math.exp(flatLogSum / flatCount) / (flatSum / flatCount) : 1,
+    pitchHz: detectPitch(samples, sampleRate),
+  };
+};
+
+// Calibration from the features of the student reading a sentence aloud
+export const voiceProfileFromFeatures = (frames: AudioFeatures[]): VoiceProfile => {
+  const voiced = frames.filter(frame => frame.pitchHz !== null);
+  return {
+    noiseFloorDb: frames.length ? percentile(frames.map(frame => frame.energyDb), 0.1) : null,
+    speechLevelDb: voiced.length ? median(voiced.map(frame => frame.energyDb)) : null,
+    pitchHz: voiced.length ? median(voiced.map(frame => frame.pitchHz as number)) : null,
+  };
+};
+
+export const vadMarginDb = (floorDb: number, profile: VoiceProfile | null) =>
+  profile?.speechLevelDb != null
+    ? Math.min(VAD_MARGIN_MAX_DB, Math.max(VAD_MARGIN_MIN_DB, (profile.speechLevelDb - floorDb) / 3))
+    : VAD_MARGIN_DB;
+
+export const classifyFrame = (features: AudioFeatures, floorDb: number, profile: VoiceProfile | null): FrameKind => {
+  if (features.energyDb < floorDb + vadMarginDb(floorDb, profile)) return 'silence';
+  const voiced = features.pitchHz !== null && features.speechRatio >= VOICED_SPEECH_RATIO_MIN;
+  const whispered = features.speechRatio >= WHISPER_SPEECH_RATIO_MIN && features.flatness <= WHISPER_FLATNESS_MAX;
+  return voiced || whispered ? 'speech' : 'noise';
+};
+
+// Next noise floor. Voiced speech leaves it alone; unvoiced "speech" may be a steady noise that
+// only looks like whispering (a fan), so the floor keeps rising through it.
+export const updateNoiseFloor = (floorDb: number | null, features: AudioFeatures, kind: FrameKind, elapsedMs: number): number => {
+  if (floorDb === null) return features.energyDb;
+  if (features.energyDb < floorDb) return floorDb + (features.energyDb - floorDb) * FLOOR_FALL_RATE;
+  if (kind === 'speech' && features.pitchHz !== null) return floorDb;
+  return Math.min(features.energyDb, floorDb + (FLOOR_RISE_DB_PER_S * elapsedMs) / 1000);
+};
+
+// Number of voices in an episode's pitches: two when they fall into two clusters far apart
+export const estimateSpeakers = (pitches: number[]): number => {
+  if (pitches.length < MIN_PITCHED_FRAMES) return 1;
+
+  // Any split of the sorted pitches into a low and a high group far enough apart
+  const tones = pitches.map(semitones).sort((a, b) => a - b);
+  const minSize = Math.ceil(tones.length * MIN_SPEAKER_SHARE);
+  for (let split = minSize; split <= tones.length - minSize; split++) {
+    const lower = tones.slice(0, split);
+    const upper = tones.slice(split);
+    if (median(upper) - median(lower) >= SPEAKER_PITCH_GAP_ST && upper[0] - lower[lower.length - 1] >= 1) return 2;
+  }
+  return 1;
+};
+
+export interface SpeechState {
+  startedAt: number;
+  lastAt: number;
+  lastSpeechAt: number;
+  speechMs: number;
+  speechFrames: number;
+  pitches: number[];
+  // Every frame's energy up to the last speech frame, pauses included
+  energies: number[];
+  // Frames since the last speech frame
+  pauseEnergies: number[];
+  peakOverFloorDb: number;
+}
+
+export interface SpeechSample {
+  t: number;
+  kind: FrameKind;
+  features: AudioFeatures;
+  floorDb: number;
+}
+
+const startState = ({ t, features, floorDb }: SpeechSample): SpeechState => ({
+  startedAt: t,
+  lastAt: t,
+  lastSpeechAt: t,
+  speechMs: 0,
+  speechFrames: 1,
+  pitches: features.pitchHz !== null ? [features.pitchHz] : [],
+  energies: [features.energyDb],
+  pauseEnergies: [],
+  peakOverFloorDb: features.energyDb - floorDb,
+});
+
+// Syllables make speech energy rise and fall, pauses between them included; a steady hum or a
+// fan doesn't
+const isSpeechLike = (state: SpeechState) => {
+  if (state.speechMs < SPEECH_MIN_MS) return false;
+  const mean = state.energies.reduce((a, b) => a + b, 0) / state.energies.length;
+  const spread = Math.sqrt(state.energies.reduce((a, b) => a + (b - mean) ** 2, 0) / state.energies.length);
+  return spread >= MODULATION_MIN_DB || state.pitches.length >= state.speechFrames * VOICED_SHARE_MIN;
+};
+
+const toEpisode = (state: SpeechState, profile: VoiceProfile | null, ongoing: boolean): SpeechEpisode => {
+  const speakers = estimateSpeakers(state.pitches);
+  const pitchHz = state.pitches.length ? median(state.pitches) : null;
+  const studentPitch = profile?.pitchHz ?? null;
+  return {
+    type: speakers > 1 ? 'multiple_voices' : 'speech_detected',
+    startedAt: state.startedAt,
+    durationMs: Math.max(state.lastSpeechAt - state.startedAt, state.speechMs),
+    speechMs: state.speechMs,
+    speakers,
+    pitchHz: pitchHz !== null ? Math.round(pitchHz) : null,
+    matchesStudent: studentPitch !== null && state.pitches.length > 0
+      ? state.pitches.filter(hz => Math.abs(semitones(hz) - semitones(studentPitch)) <= STUDENT_PITCH_TOLERANCE_ST).length >= state.pitches.length / 2
+      : null,
+    whispered: state.pitches.length < state.speechFrames * WHISPERED_VOICED_SHARE_MAX,
+    peakOverFloorDb: Math.round(state.peakOverFloorDb),
+    ongoing,
+  };
+};
+
+// Feeds one classified frame into the episode tracker. Returns the new state and, when one
+// finished (or was cut at SPEECH_MAX_EPISODE_MS), the episode to report.
+export const trackSpeech = (
+  state: SpeechState | null,
+  sample: SpeechSample,
+  profile: VoiceProfile | null
+): { state: SpeechState | null; episode: SpeechEpisode | null } => {
+  const { t, kind, features, floorDb } = sample;
+
+  if (kind !== 'speech') {
+    if (!state) return { state: null, episode: null };
+    if (t - state.lastSpeechAt < SPEECH_HANGOVER_MS) {
+      return { state: { ...state, lastAt: t, pauseEnergies: [...state.pauseEnergies, features.energyDb] }, episode: null };
+    }
+    return { state: null, episode: isSpeechLike(state) ? toEpisode(state, profile, false) : null };
+  }
+
+  if (!state) return { state: startState(sample), episode: null };
+
+  const gap = t - state.lastAt;
+  const next: SpeechState = {
+    ...state,
+    lastAt: t,
+    lastSpeechAt: t,
+    speechMs: state.speechMs + (gap <= MAX_FRAME_GAP_MS ? gap : 0),
+    speechFrames: state.speechFrames + 1,
+    pitches: features.pitchHz !== null ? [...state.pitches, features.pitchHz] : state.pitches,
+    energies: [...state.energies, ...state.pauseEnergies, features.energyDb],
+    pauseEnergies: [],
+    peakOverFloorDb: Math.max(state.peakOverFloorDb, features.energyDb - floorDb),
+  };
+  if (t - next.startedAt >= SPEECH_MAX_EPISODE_MS) {
+    return {
+      state: startState(sample),
+      episode: isSpeechLike(next) ? toEpisode(next, profile, true) : null,
+    };
+  }
+  return { state: next, episode: null };
+};
+
+export const formatSpeechEpisode = (episode: SpeechEpisode) => {
+  const what = episode.type === 'multiple_voices'
+    ? `${episode.speakers} voices`
+    : episode.whispered ? 'Whispering' : 'Speech';
+  return `${what} for ${Math.round(episode.durationMs / 1000)}s${episode.ongoing ? ' (still going on)' : ''}`;
+};
+
+export const speechSeverity = (episode: SpeechEpisode): 'low' | 'medium' | 'high' => {
+  if (episode.type === 'multiple_voices') return episode.durationMs >= 5000 ? 'high' : 'medium';
+  return episode.durationMs >= 15000 ? 'high' : episode.durationMs >= 5000 ? 'medium' : 'low';
+};
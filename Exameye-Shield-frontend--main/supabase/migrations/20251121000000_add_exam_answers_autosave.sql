@@ -0,0 +1,75 @@
+-- Migration: Continuous answer autosave for exam_answers
+-- The exam page now upserts each answer as soon as it changes instead of writing
+-- everything once on submit. This needs:
+--   * one row per (exam_id, student_id, question_number) so upserts can target it
+--   * the tab's exam_active_sessions token on every write, so a stale tab is refused
+--   * per-question updated_at versioning, so an older write never overwrites a newer one
+
+-- Step 1: Remove duplicate answers left by the old insert-on-submit behaviour (keep newest)
+DELETE FROM public.exam_answers a
+USING public.exam_answers b
+WHERE a.exam_id = b.exam_id
+  AND a.student_id = b.student_id
+  AND a.question_number = b.question_number
+  AND (
+    COALESCE(a.updated_at, a.created_at) < COALESCE(b.updated_at, b.created_at)
+    OR (
+      COALESCE(a.updated_at, a.created_at) = COALESCE(b.updated_at, b.created_at)
+      AND a.id < b.id
+    )
+  );
+
+-- Step 2: One answer per question per exam attempt
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exam_answers_exam_student_question
+  ON public.exam_answers(exam_id, student_id, question_number);
+
+-- Step 3: Session token of the tab that wrote the answer
+ALTER TABLE public.exam_answers
+ADD COLUMN IF NOT EXISTS session_token UUID;
+
+-- Step 4: Refuse writes from stale tabs and out-of-order versions
+CREATE OR REPLACE FUNCTION guard_exam_answer_write()
+RETURNS TRIGGER AS $$
+DECLARE
+  active_token UUID;
+BEGIN
+  IF NEW.updated_at IS NULL THEN
+    NEW.updated_at := NOW();
+  END IF;
+
+  -- Only the tab holding the active exam session may write answers
+  IF NEW.session_token IS NOT NULL THEN
+    SELECT session_token INTO active_token
+    FROM public.exam_active_sessions
+    WHERE exam_id = NEW.exam_id
+      AND student_id = NEW.student_id
+      AND is_active = TRUE;
+
+    IF active_token IS NOT NULL AND active_token <> NEW.session_token THEN
+      RAISE EXCEPTION 'stale_session: exam % is active in another tab', NEW.exam_id
+        USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  -- Never let an older client version overwrite a newer saved answer
+  IF TG_OP = 'UPDATE' AND OLD.updated_at IS NOT NULL AND NEW.updated_at < OLD.updated_at THEN
+    RAISE EXCEPTION 'stale_answer_version: question % already saved at %', NEW.question_number, OLD.updated_at
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = 'public';
+
+DROP TRIGGER IF EXISTS trigger_guard_exam_answer_write ON public.exam_answers;
+CREATE TRIGGER trigger_guard_exam_answer_write
+  BEFORE INSERT OR UPDATE ON public.exam_answers
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_exam_answer_write();
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: exam_answers autosave support';
+  RAISE NOTICE '  - Unique (exam_id, student_id, question_number) index';
+  RAISE NOTICE '  - session_token column and stale-tab / stale-version guard trigger';
+END $$;
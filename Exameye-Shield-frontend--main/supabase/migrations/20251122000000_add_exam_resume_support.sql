@@ -0,0 +1,44 @@
+-- Migration: Resume interrupted exams against a server-authoritative deadline
+-- Reloading /exam used to reset started_at and restart the clock. The exam page now
+-- keeps the original started_at and counts down to started_at + duration + extensions.
+
+-- Step 1: Extra minutes granted by an admin on top of the template duration
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS time_extension_minutes INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.exams.time_extension_minutes IS
+  'Extra minutes granted by an admin, added to the template duration when computing the deadline';
+
+-- Step 2: Audit trail of exam lifecycle events (start, resume, session takeover, extensions)
+CREATE TABLE IF NOT EXISTS public.exam_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE,
+  student_id UUID REFERENCES public.students(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exam_events_exam_created
+  ON public.exam_events(exam_id, created_at DESC);
+
+ALTER TABLE public.exam_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can insert exam events" ON public.exam_events
+  FOR INSERT WITH CHECK (true);
+CREATE POLICY "Anyone can read exam events" ON public.exam_events
+  FOR SELECT USING (true);
+
+-- Step 3: Server clock so the countdown does not trust the student's machine time
+CREATE OR REPLACE FUNCTION get_server_time()
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT NOW();
+$$ LANGUAGE sql STABLE SET search_path = 'public';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: exam resume support';
+  RAISE NOTICE '  - exams.time_extension_minutes';
+  RAISE NOTICE '  - exam_events table';
+  RAISE NOTICE '  - get_server_time() function';
+END $$;
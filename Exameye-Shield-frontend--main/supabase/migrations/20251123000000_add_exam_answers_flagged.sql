@@ -0,0 +1,14 @@
+-- Migration: Flag-for-review on exam answers
+-- Students can mark a question "come back later" from the question navigator.
+-- The flag is saved with the answer so it survives a resume and shows in the admin report.
+
+ALTER TABLE public.exam_answers
+ADD COLUMN IF NOT EXISTS flagged BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.exam_answers.flagged IS
+  'Student marked this question for review before submitting';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: exam_answers.flagged added';
+END $$;
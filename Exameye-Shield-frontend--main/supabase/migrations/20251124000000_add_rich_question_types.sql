@@ -0,0 +1,32 @@
+-- Migration: Rich question types
+-- Adds multi_select, true_false, numeric, matching and ordering alongside mcq and short_answer.
+-- Type-specific settings (scoring mode, numeric tolerance and unit) live in exam_questions.config.
+
+ALTER TABLE public.exam_questions
+ADD COLUMN IF NOT EXISTS config JSONB;
+
+COMMENT ON COLUMN public.exam_questions.config IS
+  'Type-specific settings: {scoring: all_or_nothing|partial} for multi_select/matching/ordering, {tolerance, tolerance_type: absolute|relative, unit} for numeric';
+
+COMMENT ON COLUMN public.exam_questions.question_type IS
+  'mcq, multi_select, true_false, numeric, matching, ordering or short_answer';
+
+ALTER TABLE public.exam_questions
+DROP CONSTRAINT IF EXISTS exam_questions_question_type_check;
+
+ALTER TABLE public.exam_questions
+ADD CONSTRAINT exam_questions_question_type_check
+CHECK (question_type IN (
+  'mcq',
+  'multi_select',
+  'true_false',
+  'numeric',
+  'matching',
+  'ordering',
+  'short_answer'
+));
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: rich question types and exam_questions.config added';
+END $$;
@@ -0,0 +1,28 @@
+-- Migration: Exam grading results and configurable grade scale
+-- Grading now runs in the app (src/utils/grading.ts) when the exam is submitted, so the
+-- score columns it writes are declared here. Scores are NUMERIC because multi-select,
+-- matching and ordering questions can earn partial credit.
+
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS total_score NUMERIC,
+ADD COLUMN IF NOT EXISTS max_score NUMERIC,
+ADD COLUMN IF NOT EXISTS grade_letter TEXT,
+ADD COLUMN IF NOT EXISTS graded BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS graded_at TIMESTAMP WITH TIME ZONE;
+
+-- Databases that created these columns by hand stored whole points only
+ALTER TABLE public.exams ALTER COLUMN total_score TYPE NUMERIC;
+ALTER TABLE public.exams ALTER COLUMN max_score TYPE NUMERIC;
+
+-- Optional per-template grade scale: [{"letter": "A", "min": 85}, ...]
+-- NULL uses the default A+ .. F scale.
+ALTER TABLE public.exam_templates
+ADD COLUMN IF NOT EXISTS grade_scale JSONB;
+
+COMMENT ON COLUMN public.exam_templates.grade_scale IS
+  'Letter grade bands as [{letter, min}] with min = minimum percentage; NULL = default scale';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: exam grading columns and exam_templates.grade_scale added';
+END $$;
@@ -0,0 +1,44 @@
+-- Migration: Manual grading with rubrics
+-- Short-answer questions are graded by an examiner in the admin grading workspace.
+-- Each question can carry a rubric; each graded answer records the points per criterion,
+-- feedback, and who graded it and when.
+
+-- Step 1: Rubric per question: [{"id": "...", "description": "...", "points": 2}, ...]
+ALTER TABLE public.exam_questions
+ADD COLUMN IF NOT EXISTS rubric JSONB;
+
+COMMENT ON COLUMN public.exam_questions.rubric IS
+  'Grading criteria as [{id, description, points}] for manually graded questions';
+
+-- Step 2: One manual grade per exam question. Kept separate from exam_answers so grading
+-- never goes through the student autosave guard, and so unanswered questions can be graded too.
+CREATE TABLE IF NOT EXISTS public.answer_grades (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id UUID NOT NULL REFERENCES public.exams(id) ON DELETE CASCADE,
+  question_number INTEGER NOT NULL,
+  points_awarded NUMERIC NOT NULL CHECK (points_awarded >= 0),
+  rubric_scores JSONB,
+  feedback TEXT,
+  graded_by TEXT NOT NULL,
+  graded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (exam_id, question_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_grades_exam
+  ON public.answer_grades(exam_id);
+
+ALTER TABLE public.answer_grades ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read answer grades" ON public.answer_grades
+  FOR SELECT USING (true);
+CREATE POLICY "Anyone can insert answer grades" ON public.answer_grades
+  FOR INSERT WITH CHECK (true);
+CREATE POLICY "Anyone can update answer grades" ON public.answer_grades
+  FOR UPDATE USING (true);
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: manual grading';
+  RAISE NOTICE '  - exam_questions.rubric';
+  RAISE NOTICE '  - answer_grades table';
+END $$;
@@ -0,0 +1,33 @@
+-- Migration: Per-student question order, option shuffling and question pool draws
+-- Each exam gets a random seed when it is created. The app (src/utils/examPaper.ts) derives
+-- the drawn questions, their order and the MCQ option order from it, so a resumed exam,
+-- grading and the report all rebuild the same paper. Answers keep canonical option keys.
+
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS shuffle_seed TEXT NOT NULL DEFAULT gen_random_uuid()::text;
+
+COMMENT ON COLUMN public.exams.shuffle_seed IS
+  'Seed for drawing and shuffling this student''s paper; never change it once the exam has started';
+
+ALTER TABLE public.exam_templates
+ADD COLUMN IF NOT EXISTS shuffle_questions BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS shuffle_options BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS draw_count INTEGER;
+
+ALTER TABLE public.exam_templates
+DROP CONSTRAINT IF EXISTS exam_templates_draw_count_check;
+
+ALTER TABLE public.exam_templates
+ADD CONSTRAINT exam_templates_draw_count_check CHECK (draw_count IS NULL OR draw_count > 0);
+
+COMMENT ON COLUMN public.exam_templates.shuffle_questions IS
+  'Show questions in a different order to each student';
+COMMENT ON COLUMN public.exam_templates.shuffle_options IS
+  'Show multiple choice and multi-select options in a different order to each student';
+COMMENT ON COLUMN public.exam_templates.draw_count IS
+  'Number of questions drawn per student from the template''s pool; NULL = all questions';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: exam shuffle seeds and template paper settings added';
+END $$;
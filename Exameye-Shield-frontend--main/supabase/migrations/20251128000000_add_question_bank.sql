@@ -0,0 +1,123 @@
+-- Migration: Question bank
+-- Questions live in question_bank independently of any template and carry tags (topic,
+-- difficulty, learning outcome, free tags). Templates are assembled from the bank by copying
+-- questions into exam_questions, pinned to the bank version they were copied from.
+-- Editing a bank question bumps its version and keeps a snapshot of every version, so
+-- templates and past exams never change underneath students.
+
+-- Step 1: Bank questions (same content columns as exam_questions)
+CREATE TABLE IF NOT EXISTS public.question_bank (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_text TEXT NOT NULL,
+  question_type TEXT NOT NULL DEFAULT 'mcq' CHECK (question_type IN (
+    'mcq',
+    'multi_select',
+    'true_false',
+    'numeric',
+    'matching',
+    'ordering',
+    'short_answer'
+  )),
+  options JSONB,
+  correct_answer TEXT,
+  points INTEGER NOT NULL DEFAULT 1,
+  config JSONB,
+  rubric JSONB,
+  topic TEXT,
+  difficulty TEXT CHECK (difficulty IS NULL OR difficulty IN ('easy', 'medium', 'hard')),
+  outcome TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  version INTEGER NOT NULL DEFAULT 1,
+  archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_topic ON public.question_bank(topic);
+CREATE INDEX IF NOT EXISTS idx_question_bank_difficulty ON public.question_bank(difficulty);
+CREATE INDEX IF NOT EXISTS idx_question_bank_tags ON public.question_bank USING GIN (tags);
+
+COMMENT ON COLUMN public.question_bank.version IS
+  'Bumped automatically whenever the question content changes; see question_bank_versions';
+COMMENT ON COLUMN public.question_bank.archived IS
+  'Archived questions are hidden from search and assembly but kept for existing templates';
+
+-- Step 2: Snapshot of every version of a bank question
+CREATE TABLE IF NOT EXISTS public.question_bank_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id UUID NOT NULL REFERENCES public.question_bank(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  question_text TEXT NOT NULL,
+  question_type TEXT NOT NULL,
+  options JSONB,
+  correct_answer TEXT,
+  points INTEGER NOT NULL,
+  config JSONB,
+  rubric JSONB,
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (question_id, version)
+);
+
+-- Step 3: Version bump and snapshot on every content change
+CREATE OR REPLACE FUNCTION version_question_bank()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := NOW();
+    IF (NEW.question_text, NEW.question_type, NEW.options, NEW.correct_answer, NEW.points, NEW.config, NEW.rubric)
+       IS NOT DISTINCT FROM
+       (OLD.question_text, OLD.question_type, OLD.options, OLD.correct_answer, OLD.points, OLD.config, OLD.rubric) THEN
+      -- Tags, archive flag etc. only: same version
+      RETURN NEW;
+    END IF;
+    NEW.version := OLD.version + 1;
+  END IF;
+
+  INSERT INTO public.question_bank_versions (
+    question_id, version, question_text, question_type, options, correct_answer, points, config, rubric, created_by
+  ) VALUES (
+    NEW.id, NEW.version, NEW.question_text, NEW.question_type, NEW.options, NEW.correct_answer, NEW.points, NEW.config, NEW.rubric, NEW.created_by
+  )
+  ON CONFLICT (question_id, version) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS question_bank_versioning ON public.question_bank;
+CREATE TRIGGER question_bank_versioning
+  BEFORE INSERT OR UPDATE ON public.question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION version_question_bank();
+
+-- Step 4: Template questions remember which bank question and version they were copied from
+ALTER TABLE public.exam_questions
+ADD COLUMN IF NOT EXISTS bank_question_id UUID REFERENCES public.question_bank(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS bank_version INTEGER;
+
+COMMENT ON COLUMN public.exam_questions.bank_question_id IS
+  'Bank question this row was copied from; NULL for questions uploaded straight into the template';
+
+-- Step 5: RLS (same open policies as the other exam tables)
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_bank_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read question bank" ON public.question_bank
+  FOR SELECT USING (true);
+CREATE POLICY "Anyone can insert question bank" ON public.question_bank
+  FOR INSERT WITH CHECK (true);
+CREATE POLICY "Anyone can update question bank" ON public.question_bank
+  FOR UPDATE USING (true);
+CREATE POLICY "Anyone can read question bank versions" ON public.question_bank_versions
+  FOR SELECT USING (true);
+CREATE POLICY "Anyone can insert question bank versions" ON public.question_bank_versions
+  FOR INSERT WITH CHECK (true);
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: question bank';
+  RAISE NOTICE '  - question_bank and question_bank_versions tables';
+  RAISE NOTICE '  - exam_questions.bank_question_id / bank_version';
+END $$;
@@ -0,0 +1,29 @@
+-- Migration: Template versions for the in-browser template editor
+-- Saving a template in the editor never changes the existing rows: it inserts a new
+-- exam_templates row (and its exam_questions) as the next version of the same template
+-- group and marks it current. Registration picks the current version for a subject.
+
+ALTER TABLE public.exam_templates
+ADD COLUMN IF NOT EXISTS template_group_id UUID NOT NULL DEFAULT gen_random_uuid(),
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS parent_template_id UUID REFERENCES public.exam_templates(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_exam_templates_group_version
+  ON public.exam_templates(template_group_id, version);
+
+CREATE INDEX IF NOT EXISTS idx_exam_templates_current_subject
+  ON public.exam_templates(subject_code)
+  WHERE is_current;
+
+COMMENT ON COLUMN public.exam_templates.template_group_id IS
+  'Shared by every version of the same template';
+COMMENT ON COLUMN public.exam_templates.is_current IS
+  'Only the current version of a template is offered to newly registering students';
+COMMENT ON COLUMN public.exam_templates.parent_template_id IS
+  'Version this one was edited from; NULL for the first version';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: exam template versions (template_group_id, version, is_current, parent_template_id)';
+END $$;
@@ -0,0 +1,135 @@
+-- Migration: Lock template versions once students have started them
+-- A template version (exam_templates row + its exam_questions) is in use as soon as any exam
+-- bound to it has started. In-use versions can't be changed or deleted; admins save a new
+-- version in the template editor instead. Exams bind to the current version when they start,
+-- and can be regraded against a later version's corrected key via exams.graded_template_id.
+
+-- Step 1: Version whose answer key grades the exam (NULL = the exam's own version)
+ALTER TABLE public.exams
+ADD COLUMN IF NOT EXISTS graded_template_id UUID REFERENCES public.exam_templates(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.exams.graded_template_id IS
+  'Later template version whose corrected answer key was used to regrade this exam; NULL = graded against exam_template_id';
+
+-- Step 2: In-use check
+CREATE OR REPLACE FUNCTION public.template_in_use(p_template_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.exams
+    WHERE exam_template_id = p_template_id
+      AND status <> 'not_started'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Step 3: Questions of an in-use version are frozen (rubrics stay editable for graders)
+CREATE OR REPLACE FUNCTION guard_locked_template_questions()
+RETURNS TRIGGER AS $$
+DECLARE
+  template_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    template_id := OLD.exam_template_id;
+  ELSE
+    template_id := NEW.exam_template_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND (NEW.exam_template_id, NEW.question_number, NEW.question_text, NEW.question_type, NEW.options,
+          NEW.correct_answer, NEW.points, NEW.config)
+         IS NOT DISTINCT FROM
+         (OLD.exam_template_id, OLD.question_number, OLD.question_text, OLD.question_type, OLD.options,
+          OLD.correct_answer, OLD.points, OLD.config) THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.template_in_use(template_id)
+     OR (TG_OP = 'UPDATE' AND public.template_in_use(OLD.exam_template_id)) THEN
+    RAISE EXCEPTION 'template_locked: template % is in use by started exams; save a new version instead', template_id
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS exam_questions_template_lock ON public.exam_questions;
+CREATE TRIGGER exam_questions_template_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON public.exam_questions
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_locked_template_questions();
+
+-- Step 4: In-use template rows can only change is_current and description
+CREATE OR REPLACE FUNCTION guard_locked_template()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.template_in_use(OLD.id) THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND (NEW.template_name, NEW.subject_code, NEW.subject_name, NEW.duration_minutes, NEW.total_questions,
+          NEW.grade_scale, NEW.shuffle_questions, NEW.shuffle_options, NEW.draw_count,
+          NEW.template_group_id, NEW.version)
+         IS NOT DISTINCT FROM
+         (OLD.template_name, OLD.subject_code, OLD.subject_name, OLD.duration_minutes, OLD.total_questions,
+          OLD.grade_scale, OLD.shuffle_questions, OLD.shuffle_options, OLD.draw_count,
+          OLD.template_group_id, OLD.version) THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'template_locked: template % is in use by started exams; save a new version instead', OLD.id
+    USING ERRCODE = 'P0001';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS exam_templates_lock ON public.exam_templates;
+CREATE TRIGGER exam_templates_lock
+  BEFORE UPDATE OR DELETE ON public.exam_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_locked_template();
+
+-- Step 5: Bind an exam to the current version of its template when it starts, so students
+-- registered before an edit sit the corrected paper
+CREATE OR REPLACE FUNCTION bind_exam_template_version()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_id UUID;
+BEGIN
+  IF OLD.status = 'not_started' AND NEW.status = 'in_progress' AND NEW.exam_template_id IS NOT NULL THEN
+    SELECT current.id INTO current_id
+    FROM public.exam_templates bound
+    JOIN public.exam_templates current
+      ON current.template_group_id = bound.template_group_id
+     AND current.is_current
+    WHERE bound.id = NEW.exam_template_id
+    ORDER BY current.version DESC
+    LIMIT 1;
+
+    IF current_id IS NOT NULL THEN
+      NEW.exam_template_id := current_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS exams_bind_template_version ON public.exams;
+CREATE TRIGGER exams_bind_template_version
+  BEFORE UPDATE ON public.exams
+  FOR EACH ROW
+  EXECUTE FUNCTION bind_exam_template_version();
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: template version locking';
+  RAISE NOTICE '  - exams.graded_template_id for regrading against a corrected version';
+  RAISE NOTICE '  - exam_questions / exam_templates locked once an exam has started';
+  RAISE NOTICE '  - exams bound to the current template version on start';
+END $$;
@@ -0,0 +1,37 @@
+-- Migration: Registered face embeddings for identity checks
+-- The proctoring service (backend/face_identity.py) turns the registered face image into an
+-- embedding and compares it with the student's face in StudentVerify and periodically during
+-- the exam. Mismatches are logged as identity_mismatch violations whose details carry the
+-- similarity, the threshold and the registered image (reference_image_url).
+
+ALTER TABLE public.students
+ADD COLUMN IF NOT EXISTS face_embedding JSONB,
+ADD COLUMN IF NOT EXISTS face_embedding_model TEXT;
+
+COMMENT ON COLUMN public.students.face_embedding IS
+  'Embedding of face_image_url as an array of floats; computed again when face_embedding_model changes';
+COMMENT ON COLUMN public.students.face_embedding_model IS
+  'Face recognition model that produced face_embedding, e.g. sface_2021dec';
+
+-- Allow identity_mismatch violations
+ALTER TABLE public.violations
+DROP CONSTRAINT IF EXISTS violations_violation_type_check;
+
+ALTER TABLE public.violations
+ADD CONSTRAINT violations_violation_type_check
+CHECK (violation_type IN (
+  'looking_away',
+  'no_person',
+  'phone_detected',
+  'book_detected',
+  'multiple_faces',
+  'multiple_person',
+  'object_detected',
+  'tab_switch',
+  'copy_paste',
+  'excessive_noise',
+  'audio_violation',
+  'eye_movement',
+  'window_blur',
+  'identity_mismatch'
+));
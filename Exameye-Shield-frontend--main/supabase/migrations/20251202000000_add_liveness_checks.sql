@@ -0,0 +1,10 @@
+-- Migration: Liveness challenge results
+-- StudentVerify asks for a randomized sequence of head turns, blinks and a number read aloud
+-- (src/utils/liveness.ts) before the exam unlocks. The passing result is kept with the
+-- compatibility check saved right after it.
+
+ALTER TABLE public.compatibility_checks
+ADD COLUMN IF NOT EXISTS liveness JSONB;
+
+COMMENT ON COLUMN public.compatibility_checks.liveness IS
+  'Liveness challenge: {passed, steps: [{kind, number, passed, detail, durationMs, evidence}], speechMethod, startedAt, completedAt, failedAttempts}; evidence is an image URL in face-registrations';
@@ -0,0 +1,60 @@
+-- Migration: Photo ID checks
+-- StudentVerify captures the front of the student's ID card, reads its printed name and roll
+-- number in the browser and compares its photo with the live face (src/utils/idVerification.ts).
+-- Each attempt is stored here with its scores. Clear results are decided automatically;
+-- inconclusive ones wait in pending_review until an admin approves or rejects them from the
+-- monitor, while the student's verify page waits for the decision.
+
+CREATE TABLE IF NOT EXISTS public.id_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  exam_id UUID REFERENCES public.exams(id) ON DELETE CASCADE,
+  card_image_url TEXT NOT NULL,
+  live_image_url TEXT,
+  face_similarity NUMERIC,
+  name_score NUMERIC,
+  roll_no_match BOOLEAN,
+  ocr_text TEXT,
+  details JSONB,
+  status TEXT NOT NULL DEFAULT 'pending_review' CHECK (status IN (
+    'auto_approved',
+    'auto_rejected',
+    'pending_review',
+    'approved',
+    'rejected'
+  )),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_id_verifications_student
+  ON public.id_verifications(student_id);
+CREATE INDEX IF NOT EXISTS idx_id_verifications_pending
+  ON public.id_verifications(created_at) WHERE status = 'pending_review';
+
+COMMENT ON COLUMN public.id_verifications.face_similarity IS
+  'Cosine similarity of the card photo and the live face (backend/face_identity.py); NULL when no face was found or the service was unavailable';
+COMMENT ON COLUMN public.id_verifications.name_score IS
+  'Share of the registered name''s words found in the card text, 0-1';
+COMMENT ON COLUMN public.id_verifications.details IS
+  'Why the check was decided as it was: {reasons: [...], threshold, cardFaceBox, cardEdges: {x, y, width, height, confidence}}';
+
+ALTER TABLE public.id_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read id verifications" ON public.id_verifications
+  FOR SELECT USING (true);
+CREATE POLICY "Anyone can insert id verifications" ON public.id_verifications
+  FOR INSERT WITH CHECK (true);
+CREATE POLICY "Anyone can update id verifications" ON public.id_verifications
+  FOR UPDATE USING (true);
+
+-- Admins see new reviews as they arrive, students see the decision
+ALTER PUBLICATION supabase_realtime ADD TABLE id_verifications;
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: photo ID checks';
+  RAISE NOTICE '  - id_verifications table';
+END $$;
@@ -0,0 +1,37 @@
+-- Migration: Speech and multiple-voice detection
+-- The exam page runs voice activity detection on the microphone (src/utils/voiceActivity.ts)
+-- instead of flagging loudness, and reports speech_detected and multiple_voices violations with
+-- their duration, the number of voices and an encrypted audio clip (details.audio_clip, see
+-- src/utils/audioEvidence.ts). The detection is calibrated against the noise floor, speaking
+-- level and pitch measured during the compatibility check's audio step.
+
+ALTER TABLE public.compatibility_checks
+ADD COLUMN IF NOT EXISTS voice_profile JSONB;
+
+COMMENT ON COLUMN public.compatibility_checks.voice_profile IS
+  'Audio calibration for voice detection: {noiseFloorDb, speechLevelDb, pitchHz}; dB are analyser dBFS, any value may be null';
+
+-- Allow speech_detected and multiple_voices violations
+ALTER TABLE public.violations
+DROP CONSTRAINT IF EXISTS violations_violation_type_check;
+
+ALTER TABLE public.violations
+ADD CONSTRAINT violations_violation_type_check
+CHECK (violation_type IN (
+  'looking_away',
+  'no_person',
+  'phone_detected',
+  'book_detected',
+  'multiple_faces',
+  'multiple_person',
+  'object_detected',
+  'tab_switch',
+  'copy_paste',
+  'excessive_noise',
+  'audio_violation',
+  'eye_movement',
+  'window_blur',
+  'identity_mismatch',
+  'speech_detected',
+  'multiple_voices'
+));
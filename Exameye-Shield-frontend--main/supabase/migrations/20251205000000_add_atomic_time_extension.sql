@@ -0,0 +1,18 @@
+-- Migration: Grant exam time extensions atomically
+-- The monitor used to write time_extension_minutes as an absolute value computed from its own,
+-- possibly stale, copy of the exam, so two admins (or a double click) could lose an extension.
+-- extend_exam_time adds the minutes in one UPDATE and returns the new total.
+
+CREATE OR REPLACE FUNCTION public.extend_exam_time(p_exam_id UUID, p_minutes INTEGER)
+RETURNS INTEGER AS $$
+  UPDATE public.exams
+  SET time_extension_minutes = time_extension_minutes + p_minutes
+  WHERE id = p_exam_id
+  RETURNING time_extension_minutes;
+$$ LANGUAGE sql VOLATILE SET search_path = 'public';
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: atomic time extensions';
+  RAISE NOTICE '  - extend_exam_time(exam_id, minutes) function';
+END $$;
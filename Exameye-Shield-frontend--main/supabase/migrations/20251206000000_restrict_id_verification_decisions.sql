@@ -0,0 +1,68 @@
+-- Migration: Keep ID check decisions out of the student's hands
+-- id_verifications was open to inserts and updates from anyone, so the verify page (or anything
+-- else holding the anon key) could store an ID check as 'approved' and skip the review. Students
+-- now submit the check's signals through submit_id_verification, which decides the status itself
+-- with the rule in src/utils/idVerification.ts (decideIdCheck). Only signed-in admins can change a
+-- check afterwards, and only from pending_review to approved or rejected.
+
+-- Step 1: Remove the open write policies (reads stay open: the verify page waits on the decision)
+DROP POLICY IF EXISTS "Anyone can insert id verifications" ON public.id_verifications;
+DROP POLICY IF EXISTS "Anyone can update id verifications" ON public.id_verifications;
+
+-- Step 2: Students submit a check; the status is decided here, never taken from the caller
+CREATE OR REPLACE FUNCTION public.submit_id_verification(
+  p_student_id UUID,
+  p_exam_id UUID,
+  p_card_image_url TEXT,
+  p_live_image_url TEXT,
+  p_face_similarity NUMERIC,
+  p_face_threshold NUMERIC,
+  p_name_score NUMERIC,
+  p_roll_no_match BOOLEAN,
+  p_ocr_text TEXT,
+  p_details JSONB
+)
+RETURNS TABLE (id UUID, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Same thresholds as NAME_MATCH_MIN / NAME_MISMATCH_MAX; a clear face mismatch is below half the match threshold
+  face_match BOOLEAN := p_face_similarity IS NOT NULL AND p_face_similarity >= p_face_threshold;
+  face_mismatch BOOLEAN := p_face_similarity IS NOT NULL AND p_face_similarity < p_face_threshold / 2;
+  text_match BOOLEAN := p_roll_no_match AND p_name_score >= 0.67;
+  text_mismatch BOOLEAN := NOT p_roll_no_match AND p_name_score <= 0.34;
+  decided_status TEXT := 'pending_review';
+BEGIN
+  IF face_match AND text_match THEN
+    decided_status := 'auto_approved';
+  ELSIF face_mismatch AND text_mismatch THEN
+    decided_status := 'auto_rejected';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.id_verifications AS v (
+    student_id, exam_id, card_image_url, live_image_url, face_similarity, name_score,
+    roll_no_match, ocr_text, details, status
+  )
+  VALUES (
+    p_student_id, p_exam_id, p_card_image_url, p_live_image_url, p_face_similarity, p_name_score,
+    p_roll_no_match, p_ocr_text, p_details, decided_status
+  )
+  RETURNING v.id, v.status;
+END;
+$$;
+
+-- Step 3: Reviews are admin-only and settle a pending check once
+CREATE POLICY "Admins can review pending id verifications" ON public.id_verifications
+  FOR UPDATE TO authenticated
+  USING (status = 'pending_review')
+  WITH CHECK (status IN ('approved', 'rejected'));
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: ID check decisions';
+  RAISE NOTICE '  - submit_id_verification(...) decides the status of new checks';
+  RAISE NOTICE '  - only admins can approve or reject pending checks';
+END $$;
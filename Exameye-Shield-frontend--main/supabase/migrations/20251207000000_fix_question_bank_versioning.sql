@@ -0,0 +1,72 @@
+-- Migration: Snapshot question bank versions after the row is written
+-- question_bank_versioning ran BEFORE INSERT and wrote the snapshot from there, but the new
+-- question_bank row doesn't exist yet at that point, so the snapshot's foreign key failed and
+-- every new bank question (including spreadsheet imports) was rejected. The version bump stays
+-- in a BEFORE UPDATE trigger; the snapshot moves to an AFTER INSERT OR UPDATE trigger.
+-- Snapshots also credited every version to the question's original author; they now record
+-- whoever saved that version (question_bank.updated_by).
+
+-- Step 1: Who saved the current version (NULL = the author, created_by)
+ALTER TABLE public.question_bank
+ADD COLUMN IF NOT EXISTS updated_by TEXT;
+
+COMMENT ON COLUMN public.question_bank.updated_by IS
+  'Admin who last edited the question; NULL until it is first edited';
+
+-- Step 2: Retire the combined trigger
+DROP TRIGGER IF EXISTS question_bank_versioning ON public.question_bank;
+DROP FUNCTION IF EXISTS version_question_bank();
+
+-- Step 3: Content changes bump the version
+CREATE OR REPLACE FUNCTION bump_question_bank_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+  IF (NEW.question_text, NEW.question_type, NEW.options, NEW.correct_answer, NEW.points, NEW.config, NEW.rubric)
+     IS DISTINCT FROM
+     (OLD.question_text, OLD.question_type, OLD.options, OLD.correct_answer, OLD.points, OLD.config, OLD.rubric) THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS question_bank_version_bump ON public.question_bank;
+CREATE TRIGGER question_bank_version_bump
+  BEFORE UPDATE ON public.question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_question_bank_version();
+
+-- Step 4: Each new version is snapshotted once the row exists
+CREATE OR REPLACE FUNCTION snapshot_question_bank_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    -- Tags, archive flag etc. only: same version
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.question_bank_versions (
+    question_id, version, question_text, question_type, options, correct_answer, points, config, rubric, created_by
+  ) VALUES (
+    NEW.id, NEW.version, NEW.question_text, NEW.question_type, NEW.options, NEW.correct_answer, NEW.points, NEW.config, NEW.rubric,
+    CASE WHEN TG_OP = 'INSERT' THEN NEW.created_by ELSE COALESCE(NEW.updated_by, NEW.created_by) END
+  )
+  ON CONFLICT (question_id, version) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS question_bank_version_snapshot ON public.question_bank;
+CREATE TRIGGER question_bank_version_snapshot
+  AFTER INSERT OR UPDATE ON public.question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_question_bank_version();
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: question bank versioning';
+  RAISE NOTICE '  - version bump BEFORE UPDATE, snapshot AFTER INSERT OR UPDATE';
+  RAISE NOTICE '  - question_bank.updated_by credited on each new version';
+END $$;
@@ -0,0 +1,13 @@
+-- Migration: Let the template editor remove a version it failed to finish saving
+-- The editor inserts a new version with is_current = FALSE, then its questions, and only then
+-- makes it current. When the questions can't be saved it deletes the new exam_templates row,
+-- which needs a DELETE policy. Current versions can't be deleted this way, and in-use versions
+-- are still refused by the exam_templates_lock trigger.
+
+CREATE POLICY "Anyone can delete versions that are not current" ON public.exam_templates
+  FOR DELETE USING (NOT is_current);
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: removable unsaved template versions';
+END $$;
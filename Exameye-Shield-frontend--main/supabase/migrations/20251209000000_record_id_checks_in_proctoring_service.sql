@@ -0,0 +1,15 @@
+-- Migration: Let the proctoring service record ID checks
+-- submit_id_verification decided the status in the database, but from face and text scores the
+-- verify page computed and sent, so a crafted call could still store an approved check. The
+-- proctoring service (backend/id_verification.py) now computes the scores itself and writes
+-- id_verifications with the service role key, which bypasses RLS. Students still have no write
+-- access to the table; admins review pending checks through the existing UPDATE policy.
+
+-- Step 1: Remove the student-callable submission function
+DROP FUNCTION IF EXISTS public.submit_id_verification(UUID, UUID, TEXT, TEXT, NUMERIC, NUMERIC, NUMERIC, BOOLEAN, TEXT, JSONB);
+
+DO $$
+BEGIN
+  RAISE NOTICE '✅ Migration completed: ID checks recorded by the proctoring service';
+  RAISE NOTICE '  - submit_id_verification(...) removed';
+END $$;
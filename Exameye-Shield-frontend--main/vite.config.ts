@@ -3,6 +3,7 @@ import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 import fs from "fs";
+import { e2eHarnessPlugin } from "./e2e/harnessPlugin";
 
 // Plugin to serve the correct HTML file based on VITE_APP_TYPE for SPA routing
 function htmlEntryPlugin(): Plugin {
@@ -69,7 +70,9 @@ export default defineConfig(({ mode }) => {
     plugins: [
       htmlEntryPlugin(),
       react(), 
-      mode === "development" && componentTagger()
+      mode === "development" && componentTagger(),
+      // Mock proctoring service, fake devices and in-memory database (see e2e/harnessPlugin.ts)
+      mode === "e2e" && e2eHarnessPlugin(),
     ].filter(Boolean),
     resolve: {
       alias: {